@@ -1,7 +1,10 @@
 import express from 'express';
 import type { Request, Response } from 'express';
 
+import { accessLogMiddleware } from './middlewares/access-log.js';
+import { identifyCaller } from './middlewares/auth.js';
 import { errorHandler } from './middlewares/error-handler.js';
+import { httpMetricsMiddleware } from './middlewares/metrics.js';
 import {
   corsMiddleware,
   helmetMiddleware,
@@ -9,27 +12,44 @@ import {
   requestIdMiddleware,
   requestSizeLimit,
 } from './middlewares/security.js';
+import { tracingMiddleware } from './middlewares/tracing.js';
+import { adminRouter } from './routes/admin-routes.js';
 import { ethosStatsRouter } from './routes/ethos-stats-routes.js';
+import { healthRouter } from './routes/health-routes.js';
+import { metricsRouter } from './routes/metrics-routes.js';
+import { trackMountPath } from './utils/route-pattern.js';
 
 export const app = express();
 
-// 1. Request ID for tracing
+// 1. Request ID, carried by every log line of the request
 app.use(requestIdMiddleware);
 
-// 2. Security headers
+// 2. Tracing, access logs and request metrics, including requests rejected
+// further down
+app.use(tracingMiddleware);
+app.use(accessLogMiddleware);
+app.use(httpMetricsMiddleware);
+
+// 3. Security headers
 app.use(helmetMiddleware);
 
-// 3. CORS configuration
+// 4. CORS configuration
 app.use(corsMiddleware);
 
-// 4. Rate limiting
+// 5. Rate limiting per caller, so the caller is identified first; invalid
+// credentials are only rejected by the routers, after being counted by IP
+app.use(identifyCaller);
 app.use(rateLimiter);
 
 // 6. Body parsing with size limits
 app.use(express.json({ limit: requestSizeLimit }));
 app.use(express.urlencoded({ extended: true, limit: requestSizeLimit }));
 
-app.use('/api/v1/ethos', ethosStatsRouter);
+app.use(healthRouter);
+app.use(metricsRouter);
+// Mount paths are tracked so failed requests keep their full route pattern
+app.use('/api/v1/ethos', trackMountPath, ethosStatsRouter);
+app.use('/api/v1/admin', trackMountPath, adminRouter);
 
 // 404 handler for unmatched routes
 app.use((req: Request, res: Response) => {
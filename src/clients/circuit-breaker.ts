@@ -0,0 +1,154 @@
+import { logger } from '../config/logger.js';
+import { UpstreamError } from '../errors/app-errors.js';
+
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+export interface CircuitBreakerOptions {
+  name: string;
+  // Consecutive failures that open the circuit
+  failureThreshold: number;
+  // How long the circuit stays open before a trial call is allowed
+  resetTimeoutMs: number;
+}
+
+export type CircuitBreakerStatus = {
+  name: string;
+  state: CircuitState;
+  consecutiveFailures: number;
+  openedAt: string | null;
+  nextAttemptAt: string | null;
+};
+
+/**
+ * Thrown instead of calling the upstream while the circuit is open
+ */
+export class CircuitOpenError extends UpstreamError {
+  constructor(name: string) {
+    super(
+      `Circuit "${name}" is open, upstream calls are short-circuited`,
+      undefined,
+      undefined,
+      'UPSTREAM_CIRCUIT_OPEN'
+    );
+  }
+}
+
+/**
+ * Consecutive-failure circuit breaker
+ *
+ * CLOSED: calls pass through; failures are counted
+ * OPEN: calls fail fast with CircuitOpenError until resetTimeoutMs elapses
+ * HALF_OPEN: a single trial call decides whether to close or re-open
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'CLOSED';
+  private consecutiveFailures = 0;
+  private openedAt: number | null = null;
+  private trialInFlight = false;
+
+  constructor(private readonly options: CircuitBreakerOptions) {}
+
+  /**
+   * Run fn through the breaker
+   * @param fn - The upstream call
+   * @param isFailure - Decides whether an error counts against the upstream
+   * @throws CircuitOpenError while the circuit is open
+   */
+  async execute<T>(
+    fn: () => Promise<T>,
+    isFailure: (error: unknown) => boolean = () => true
+  ): Promise<T> {
+    const isTrial = this.beforeCall();
+
+    try {
+      const result = await fn();
+      this.onSuccess();
+      return result;
+    } catch (error) {
+      if (isFailure(error)) {
+        this.onFailure();
+      } else {
+        // The upstream answered; it is healthy even if the answer is an error
+        this.onSuccess();
+      }
+      throw error;
+    } finally {
+      if (isTrial) this.trialInFlight = false;
+    }
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    return {
+      name: this.options.name,
+      state: this.state,
+      consecutiveFailures: this.consecutiveFailures,
+      openedAt:
+        this.openedAt !== null ? new Date(this.openedAt).toISOString() : null,
+      nextAttemptAt:
+        this.state === 'OPEN' && this.openedAt !== null
+          ? new Date(this.openedAt + this.options.resetTimeoutMs).toISOString()
+          : null,
+    };
+  }
+
+  /**
+   * @returns true if this call is the half-open trial call
+   */
+  private beforeCall(): boolean {
+    if (this.state === 'OPEN') {
+      const elapsed = Date.now() - (this.openedAt ?? 0);
+      if (elapsed < this.options.resetTimeoutMs) {
+        throw new CircuitOpenError(this.options.name);
+      }
+      this.transition('HALF_OPEN');
+    }
+
+    if (this.state === 'HALF_OPEN') {
+      // Only one trial call at a time while probing the upstream
+      if (this.trialInFlight) {
+        throw new CircuitOpenError(this.options.name);
+      }
+      this.trialInFlight = true;
+      return true;
+    }
+
+    return false;
+  }
+
+  private onSuccess(): void {
+    this.consecutiveFailures = 0;
+    if (this.state !== 'CLOSED') {
+      this.openedAt = null;
+      this.transition('CLOSED');
+    }
+  }
+
+  private onFailure(): void {
+    this.consecutiveFailures += 1;
+    if (
+      this.state === 'HALF_OPEN' ||
+      this.consecutiveFailures >= this.options.failureThreshold
+    ) {
+      this.openedAt = Date.now();
+      if (this.state !== 'OPEN') {
+        this.transition('OPEN');
+      }
+    }
+  }
+
+  private transition(to: CircuitState): void {
+    const from = this.state;
+    this.state = to;
+    const context = {
+      breaker: this.options.name,
+      from,
+      to,
+      consecutiveFailures: this.consecutiveFailures,
+    };
+    if (to === 'OPEN') {
+      logger.warn(context, 'Circuit breaker opened');
+    } else {
+      logger.info(context, 'Circuit breaker state changed');
+    }
+  }
+}
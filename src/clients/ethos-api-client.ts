@@ -0,0 +1,20 @@
+import { env } from '../config/env.js';
+import { CircuitBreaker } from './circuit-breaker.js';
+import { ResilientHttpClient } from './http-client.js';
+
+/**
+ * Shared client for all Ethos API calls, so every caller trips and
+ * observes the same circuit breaker
+ */
+export const ethosApiClient = new ResilientHttpClient({
+  name: 'ethos-api',
+  timeoutMs: env.ETHOS_API_TIMEOUT_MS,
+  maxRetries: env.ETHOS_API_MAX_RETRIES,
+  baseDelayMs: env.ETHOS_API_RETRY_BASE_DELAY_MS,
+  maxDelayMs: env.ETHOS_API_RETRY_MAX_DELAY_MS,
+  breaker: new CircuitBreaker({
+    name: 'ethos-api',
+    failureThreshold: env.ETHOS_API_BREAKER_FAILURE_THRESHOLD,
+    resetTimeoutMs: env.ETHOS_API_BREAKER_RESET_TIMEOUT_MS,
+  }),
+});
@@ -0,0 +1,192 @@
+import { SpanKind } from '@opentelemetry/api';
+import {
+  ATTR_HTTP_REQUEST_METHOD,
+  ATTR_HTTP_REQUEST_RESEND_COUNT,
+  ATTR_HTTP_RESPONSE_STATUS_CODE,
+  ATTR_URL_FULL,
+} from '@opentelemetry/semantic-conventions';
+import axios from 'axios';
+import type { AxiosRequestConfig, AxiosResponse } from 'axios';
+
+import { logger } from '../config/logger.js';
+import { upstreamRequestDuration } from '../config/metrics.js';
+import { sleep } from '../utils/sleep.js';
+import { getTraceHeaders, withSpan } from '../utils/tracing.js';
+import type {
+  CircuitBreaker,
+  CircuitBreakerStatus,
+} from './circuit-breaker.js';
+
+export interface ResilientHttpClientOptions {
+  name: string;
+  // Per-attempt request timeout
+  timeoutMs: number;
+  // Retries after the first attempt
+  maxRetries: number;
+  // Base delay for exponential backoff
+  baseDelayMs: number;
+  // Upper bound for a single backoff delay or honored Retry-After
+  maxDelayMs: number;
+  breaker: CircuitBreaker;
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ * @returns Delay in ms, or null if the header is missing or malformed
+ */
+export const parseRetryAfter = (
+  value: unknown,
+  now = Date.now()
+): number | null => {
+  if (typeof value !== 'string' || value.trim() === '') return null;
+
+  if (/^\d+$/.test(value.trim())) {
+    return Number(value.trim()) * 1000;
+  }
+
+  const date = Date.parse(value);
+  if (Number.isNaN(date)) return null;
+  return Math.max(0, date - now);
+};
+
+/**
+ * Network errors, timeouts, 5xx and 429 are worth retrying; other 4xx are not
+ */
+const isRetryable = (error: unknown): boolean => {
+  if (!axios.isAxiosError(error)) return false;
+  const status = error.response?.status;
+  return status === undefined || status === 429 || status >= 500;
+};
+
+/**
+ * HTTP GET client with timeout, retries with exponential backoff and jitter,
+ * Retry-After support and a circuit breaker
+ */
+export class ResilientHttpClient {
+  constructor(private readonly options: ResilientHttpClientOptions) {}
+
+  /**
+   * Perform a GET request
+   * @throws The last axios error once retries are exhausted
+   * @throws CircuitOpenError while the circuit is open
+   */
+  async get<T>(
+    url: string,
+    config: AxiosRequestConfig = {}
+  ): Promise<AxiosResponse<T>> {
+    // The breaker sees one call per request, after retries are exhausted
+    return this.options.breaker.execute(
+      () => this.getWithRetry<T>(url, config),
+      isRetryable
+    );
+  }
+
+  getStatus(): CircuitBreakerStatus {
+    return this.options.breaker.getStatus();
+  }
+
+  private async getWithRetry<T>(
+    url: string,
+    config: AxiosRequestConfig
+  ): Promise<AxiosResponse<T>> {
+    const { name, maxRetries } = this.options;
+
+    for (let attempt = 0; ; attempt += 1) {
+      const stopTimer = upstreamRequestDuration.startTimer({ client: name });
+      try {
+        const response = await this.send<T>(url, config, attempt);
+        stopTimer({ status: String(response.status) });
+        return response;
+      } catch (error) {
+        const status = axios.isAxiosError(error)
+          ? error.response?.status
+          : undefined;
+        stopTimer({ status: status !== undefined ? String(status) : 'error' });
+        const delayMs = this.getRetryDelay(error, attempt);
+        if (attempt >= maxRetries || delayMs === null) {
+          throw error;
+        }
+
+        logger.warn(
+          {
+            client: name,
+            url,
+            attempt: attempt + 1,
+            delayMs,
+            status,
+          },
+          'Upstream request failed, retrying'
+        );
+        await sleep(delayMs);
+      }
+    }
+  }
+
+  /**
+   * Perform a single attempt in its own client span, propagating the trace
+   * context to the upstream
+   */
+  private send<T>(
+    url: string,
+    config: AxiosRequestConfig,
+    attempt: number
+  ): Promise<AxiosResponse<T>> {
+    return withSpan(
+      'GET',
+      {
+        kind: SpanKind.CLIENT,
+        attributes: {
+          [ATTR_HTTP_REQUEST_METHOD]: 'GET',
+          [ATTR_URL_FULL]: url,
+          ...(attempt > 0 && { [ATTR_HTTP_REQUEST_RESEND_COUNT]: attempt }),
+        },
+      },
+      async (span) => {
+        const traceHeaders = getTraceHeaders();
+        try {
+          const response = await axios.get<T>(url, {
+            ...config,
+            // Headers are left untouched while tracing is off
+            ...(Object.keys(traceHeaders).length > 0 && {
+              headers: { ...config.headers, ...traceHeaders },
+            }),
+            timeout: this.options.timeoutMs,
+          });
+          span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, response.status);
+          return response;
+        } catch (error) {
+          if (axios.isAxiosError(error) && error.response) {
+            span.setAttribute(
+              ATTR_HTTP_RESPONSE_STATUS_CODE,
+              error.response.status
+            );
+          }
+          throw error;
+        }
+      }
+    );
+  }
+
+  /**
+   * @returns Delay before the next attempt, or null if the error is final
+   */
+  private getRetryDelay(error: unknown, attempt: number): number | null {
+    if (!isRetryable(error) || !axios.isAxiosError(error)) return null;
+
+    const { baseDelayMs, maxDelayMs } = this.options;
+
+    if (error.response?.status === 429) {
+      const retryAfterMs = parseRetryAfter(
+        error.response.headers?.['retry-after']
+      );
+      if (retryAfterMs !== null) {
+        // Waiting longer than maxDelayMs is not worth holding the caller
+        return retryAfterMs <= maxDelayMs ? retryAfterMs : null;
+      }
+    }
+
+    // Full jitter: random delay up to the exponential backoff ceiling
+    const ceiling = Math.min(maxDelayMs, baseDelayMs * 2 ** attempt);
+    return Math.round(Math.random() * ceiling);
+  }
+}
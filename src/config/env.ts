@@ -1,5 +1,8 @@
 import { z } from 'zod';
 
+import { createCidrMatcher } from '../utils/cidr.js';
+import { parseSchedule } from '../utils/schedule.js';
+
 /**
  * Environment variable schema validation
  * Validates all environment variables at startup
@@ -36,20 +39,257 @@ const envSchema = z.object({
     .default('900000') // 15 minutes
     .transform((val: string) => parseInt(val, 10))
     .pipe(z.number().int().positive()),
+  // Budget of the `free` tier, which also applies to anonymous callers
   RATE_LIMIT_MAX_REQUESTS: z
     .string()
     .optional()
     .default('100')
     .transform((val: string) => parseInt(val, 10))
     .pipe(z.number().int().positive()),
+  RATE_LIMIT_INTERNAL_MAX_REQUESTS: z
+    .string()
+    .optional()
+    .default('10000')
+    .transform((val: string) => parseInt(val, 10))
+    .pipe(z.number().int().positive()),
 
   // Ethos API configuration
-  ETHOS_API_URL: z
+  ETHOS_API_BASE_URL: z
     .string()
     .url()
-    .default(
-      'https://api.ethos.network/api/v2/votes/stats?type=attestation&activityId=223'
+    .default('https://api.ethos.network/api/v2'),
+  ETHOS_API_TIMEOUT_MS: z
+    .string()
+    .optional()
+    .default('3000') // 3 seconds per attempt
+    .transform((val: string) => parseInt(val, 10))
+    .pipe(z.number().int().positive()),
+  ETHOS_API_MAX_RETRIES: z
+    .string()
+    .optional()
+    .default('2')
+    .transform((val: string) => parseInt(val, 10))
+    .pipe(z.number().int().nonnegative()),
+  ETHOS_API_RETRY_BASE_DELAY_MS: z
+    .string()
+    .optional()
+    .default('200')
+    .transform((val: string) => parseInt(val, 10))
+    .pipe(z.number().int().positive()),
+  ETHOS_API_RETRY_MAX_DELAY_MS: z
+    .string()
+    .optional()
+    .default('2000')
+    .transform((val: string) => parseInt(val, 10))
+    .pipe(z.number().int().positive()),
+  ETHOS_API_BREAKER_FAILURE_THRESHOLD: z
+    .string()
+    .optional()
+    .default('5')
+    .transform((val: string) => parseInt(val, 10))
+    .pipe(z.number().int().positive()),
+  ETHOS_API_BREAKER_RESET_TIMEOUT_MS: z
+    .string()
+    .optional()
+    .default('30000') // 30 seconds
+    .transform((val: string) => parseInt(val, 10))
+    .pipe(z.number().int().positive()),
+
+  // Server-Sent Events configuration
+  SSE_HEARTBEAT_INTERVAL_MS: z
+    .string()
+    .optional()
+    .default('15000') // 15 seconds
+    .transform((val: string) => parseInt(val, 10))
+    .pipe(z.number().int().positive()),
+
+  // Webhook delivery configuration
+  WEBHOOK_TIMEOUT_MS: z
+    .string()
+    .optional()
+    .default('5000') // 5 seconds per attempt
+    .transform((val: string) => parseInt(val, 10))
+    .pipe(z.number().int().positive()),
+  WEBHOOK_MAX_ATTEMPTS: z
+    .string()
+    .optional()
+    .default('5')
+    .transform((val: string) => parseInt(val, 10))
+    .pipe(z.number().int().positive()),
+  WEBHOOK_RETRY_BASE_DELAY_MS: z
+    .string()
+    .optional()
+    .default('1000') // 1 second
+    .transform((val: string) => parseInt(val, 10))
+    .pipe(z.number().int().positive()),
+  WEBHOOK_RETRY_MAX_DELAY_MS: z
+    .string()
+    .optional()
+    .default('60000') // 1 minute
+    .transform((val: string) => parseInt(val, 10))
+    .pipe(z.number().int().positive()),
+
+  // Cache and scheduler configuration
+  CACHE_TTL_SECONDS: z
+    .string()
+    .optional()
+    .default('46800') // 13 hours: one refresh interval plus an hour of slack
+    .transform((val: string) => parseInt(val, 10))
+    .pipe(z.number().int().positive()),
+  // Interval string (`12h`) or cron expression, run in STATS_REFRESH_TIMEZONE
+  STATS_REFRESH_SCHEDULE: z.string().optional().default('12h'),
+  STATS_REFRESH_TIMEZONE: z.string().optional().default('UTC'),
+  // `auto` skips the startup refresh while the cached stats are not due yet;
+  // `always` refreshes on startup regardless. Empty caches are always warmed
+  STATS_REFRESH_ON_STARTUP: z
+    .enum(['auto', 'always'])
+    .optional()
+    .default('auto'),
+  STATS_REFRESH_STARTUP_JITTER_MS: z
+    .string()
+    .optional()
+    .default('0') // Random delay before a startup refresh
+    .transform((val: string) => parseInt(val, 10))
+    .pipe(z.number().int().nonnegative()),
+  SCHEDULER_HISTORY_SIZE: z
+    .string()
+    .optional()
+    .default('100') // Runs kept in Redis
+    .transform((val: string) => parseInt(val, 10))
+    .pipe(z.number().int().positive()),
+  SCHEDULER_LEASE_TTL_MS: z
+    .string()
+    .optional()
+    .default('30000') // Leader failover time; renewed every third of it
+    .transform((val: string) => parseInt(val, 10))
+    .pipe(z.number().int().min(3000)),
+
+  // Readiness check configuration
+  READINESS_REDIS_MAX_LATENCY_MS: z
+    .string()
+    .optional()
+    .default('500') // Slower PINGs, or none, fail the check
+    .transform((val: string) => parseInt(val, 10))
+    .pipe(z.number().int().positive()),
+  READINESS_MAX_STATS_AGE_SECONDS: z
+    .string()
+    .optional()
+    .default('46800') // 13 hours
+    .transform((val: string) => parseInt(val, 10))
+    .pipe(z.number().int().positive()),
+
+  // Metrics configuration
+  // Callers allowed to scrape /metrics. Loopback only by default: behind a
+  // load balancer or in Docker, every caller arrives from a private address
+  METRICS_ALLOWED_CIDRS: z
+    .string()
+    .optional()
+    .default('127.0.0.0/8,::1/128')
+    .refine(
+      (val: string) => {
+        try {
+          createCidrMatcher(val);
+          return true;
+        } catch {
+          return false;
+        }
+      },
+      { message: 'METRICS_ALLOWED_CIDRS must be a list of CIDR ranges' }
     ),
+
+  // Tracing configuration
+  // `none` creates no spans; `file` appends one JSON span per line
+  TRACING_EXPORTER: z
+    .enum(['none', 'otlp', 'console', 'file'])
+    .optional()
+    .default('none'),
+  TRACING_SERVICE_NAME: z.string().optional().default('ethos-stats-api'),
+  TRACING_OTLP_ENDPOINT: z
+    .string()
+    .url()
+    .optional()
+    .default('http://localhost:4318/v1/traces'),
+  TRACING_FILE_PATH: z.string().optional().default('traces.jsonl'),
+
+  // JWT authentication, enabled by an HS256 secret and/or a JWKS source for
+  // RS256/ES256 keys
+  JWT_HS256_SECRET: z
+    .string()
+    .min(32, 'JWT_HS256_SECRET must be at least 32 characters')
+    .optional(),
+  JWT_JWKS_FILE: z.string().min(1).optional(),
+  JWT_JWKS_URL: z.string().url().optional(),
+  JWT_JWKS_CACHE_TTL_MS: z
+    .string()
+    .optional()
+    .default('600000') // 10 minutes
+    .transform((val: string) => parseInt(val, 10))
+    .pipe(z.number().int().positive()),
+  JWT_ISSUER: z.string().min(1).optional(),
+  JWT_AUDIENCE: z.string().min(1).optional(),
+  JWT_CLOCK_TOLERANCE_SECONDS: z
+    .string()
+    .optional()
+    .default('30')
+    .transform((val: string) => parseInt(val, 10))
+    .pipe(z.number().int().nonnegative()),
+  // Claims holding the caller's roles and permissions
+  JWT_ROLES_CLAIM: z.string().optional().default('roles'),
+  JWT_PERMISSIONS_CLAIM: z.string().optional().default('permissions'),
+
+  // Access control: JSON file mapping roles to permissions; the built-in
+  // policy applies when unset
+  RBAC_POLICY_FILE: z.string().min(1).optional(),
+});
+
+/**
+ * Checks across variables, e.g. that the cache outlives the refresh schedule
+ */
+const validatedEnvSchema = envSchema.superRefine((config, ctx) => {
+  if (config.JWT_JWKS_FILE && config.JWT_JWKS_URL) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['JWT_JWKS_URL'],
+      message: 'Set either JWT_JWKS_FILE or JWT_JWKS_URL, not both',
+    });
+  }
+  // Tokens issued for other services must not be accepted
+  const jwtEnabled = Boolean(
+    config.JWT_HS256_SECRET || config.JWT_JWKS_FILE || config.JWT_JWKS_URL
+  );
+  for (const name of ['JWT_ISSUER', 'JWT_AUDIENCE'] as const) {
+    if (jwtEnabled && !config[name]) {
+      ctx.addIssue({
+        code: z.ZodIssueCode.custom,
+        path: [name],
+        message: `${name} is required when JWT authentication is enabled`,
+      });
+    }
+  }
+
+  let maxIntervalMs: number;
+  try {
+    ({ maxIntervalMs } = parseSchedule(
+      config.STATS_REFRESH_SCHEDULE,
+      config.STATS_REFRESH_TIMEZONE
+    ));
+  } catch (error) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['STATS_REFRESH_SCHEDULE'],
+      message: error instanceof Error ? error.message : String(error),
+    });
+    return;
+  }
+
+  // Otherwise the cache expires before the next refresh replaces it
+  if (config.CACHE_TTL_SECONDS * 1000 <= maxIntervalMs) {
+    ctx.addIssue({
+      code: z.ZodIssueCode.custom,
+      path: ['CACHE_TTL_SECONDS'],
+      message: `CACHE_TTL_SECONDS must exceed the longest time between two refreshes (${maxIntervalMs / 1000} seconds)`,
+    });
+  }
 });
 
 /**
@@ -57,7 +297,7 @@ const envSchema = z.object({
  * Throws error if validation fails
  */
 
-export const env = envSchema.parse({
+export const env = validatedEnvSchema.parse({
   PORT: process.env.PORT,
   NODE_ENV: process.env.NODE_ENV,
   REDIS_URL: process.env.REDIS_URL,
@@ -65,7 +305,46 @@ export const env = envSchema.parse({
   CORS_ORIGIN: process.env.CORS_ORIGIN,
   RATE_LIMIT_WINDOW_MS: process.env.RATE_LIMIT_WINDOW_MS,
   RATE_LIMIT_MAX_REQUESTS: process.env.RATE_LIMIT_MAX_REQUESTS,
-  ETHOS_API_URL: process.env.ETHOS_API_URL,
+  RATE_LIMIT_INTERNAL_MAX_REQUESTS:
+    process.env.RATE_LIMIT_INTERNAL_MAX_REQUESTS,
+  ETHOS_API_BASE_URL: process.env.ETHOS_API_BASE_URL,
+  ETHOS_API_TIMEOUT_MS: process.env.ETHOS_API_TIMEOUT_MS,
+  ETHOS_API_MAX_RETRIES: process.env.ETHOS_API_MAX_RETRIES,
+  ETHOS_API_RETRY_BASE_DELAY_MS: process.env.ETHOS_API_RETRY_BASE_DELAY_MS,
+  ETHOS_API_RETRY_MAX_DELAY_MS: process.env.ETHOS_API_RETRY_MAX_DELAY_MS,
+  ETHOS_API_BREAKER_FAILURE_THRESHOLD:
+    process.env.ETHOS_API_BREAKER_FAILURE_THRESHOLD,
+  ETHOS_API_BREAKER_RESET_TIMEOUT_MS:
+    process.env.ETHOS_API_BREAKER_RESET_TIMEOUT_MS,
+  SSE_HEARTBEAT_INTERVAL_MS: process.env.SSE_HEARTBEAT_INTERVAL_MS,
+  WEBHOOK_TIMEOUT_MS: process.env.WEBHOOK_TIMEOUT_MS,
+  WEBHOOK_MAX_ATTEMPTS: process.env.WEBHOOK_MAX_ATTEMPTS,
+  WEBHOOK_RETRY_BASE_DELAY_MS: process.env.WEBHOOK_RETRY_BASE_DELAY_MS,
+  WEBHOOK_RETRY_MAX_DELAY_MS: process.env.WEBHOOK_RETRY_MAX_DELAY_MS,
+  CACHE_TTL_SECONDS: process.env.CACHE_TTL_SECONDS,
+  STATS_REFRESH_SCHEDULE: process.env.STATS_REFRESH_SCHEDULE,
+  STATS_REFRESH_TIMEZONE: process.env.STATS_REFRESH_TIMEZONE,
+  STATS_REFRESH_ON_STARTUP: process.env.STATS_REFRESH_ON_STARTUP,
+  STATS_REFRESH_STARTUP_JITTER_MS: process.env.STATS_REFRESH_STARTUP_JITTER_MS,
+  SCHEDULER_HISTORY_SIZE: process.env.SCHEDULER_HISTORY_SIZE,
+  SCHEDULER_LEASE_TTL_MS: process.env.SCHEDULER_LEASE_TTL_MS,
+  READINESS_REDIS_MAX_LATENCY_MS: process.env.READINESS_REDIS_MAX_LATENCY_MS,
+  READINESS_MAX_STATS_AGE_SECONDS: process.env.READINESS_MAX_STATS_AGE_SECONDS,
+  METRICS_ALLOWED_CIDRS: process.env.METRICS_ALLOWED_CIDRS,
+  TRACING_EXPORTER: process.env.TRACING_EXPORTER,
+  TRACING_SERVICE_NAME: process.env.TRACING_SERVICE_NAME,
+  TRACING_OTLP_ENDPOINT: process.env.TRACING_OTLP_ENDPOINT,
+  TRACING_FILE_PATH: process.env.TRACING_FILE_PATH,
+  JWT_HS256_SECRET: process.env.JWT_HS256_SECRET,
+  JWT_JWKS_FILE: process.env.JWT_JWKS_FILE,
+  JWT_JWKS_URL: process.env.JWT_JWKS_URL,
+  JWT_JWKS_CACHE_TTL_MS: process.env.JWT_JWKS_CACHE_TTL_MS,
+  JWT_ISSUER: process.env.JWT_ISSUER,
+  JWT_AUDIENCE: process.env.JWT_AUDIENCE,
+  JWT_CLOCK_TOLERANCE_SECONDS: process.env.JWT_CLOCK_TOLERANCE_SECONDS,
+  JWT_ROLES_CLAIM: process.env.JWT_ROLES_CLAIM,
+  JWT_PERMISSIONS_CLAIM: process.env.JWT_PERMISSIONS_CLAIM,
+  RBAC_POLICY_FILE: process.env.RBAC_POLICY_FILE,
 });
 
 /**
@@ -1,10 +1,43 @@
+import { isSpanContextValid, trace } from '@opentelemetry/api';
 import pino from 'pino';
+import type { LoggerOptions } from 'pino';
+
+import { getRequestContext } from '../utils/request-context.js';
 
 const isTest = process.env.NODE_ENV === 'test';
 const isDevelopment = process.env.NODE_ENV !== 'production' && !isTest;
 
-export const logger = pino(
-  isTest
+/**
+ * Request ID of the request being handled, and trace and span IDs of the
+ * active span, so every log line can be tied to its request and trace
+ */
+const contextMixin = (): Record<string, string> => {
+  const bindings: Record<string, string> = {};
+  const requestId = getRequestContext()?.requestId;
+  if (requestId) bindings.requestId = requestId;
+
+  const spanContext = trace.getActiveSpan()?.spanContext();
+  if (spanContext && isSpanContextValid(spanContext)) {
+    bindings.traceId = spanContext.traceId;
+    bindings.spanId = spanContext.spanId;
+  }
+  return bindings;
+};
+
+/**
+ * Credentials never reach the logs, e.g. through access log request headers
+ */
+const REDACTED_PATHS = [
+  'req.headers.authorization',
+  'req.headers.cookie',
+  'req.headers["x-api-key"]',
+  'res.headers["set-cookie"]',
+];
+
+export const loggerOptions: LoggerOptions = {
+  mixin: contextMixin,
+  redact: { paths: REDACTED_PATHS, censor: '[REDACTED]' },
+  ...(isTest
     ? { level: 'silent' }
     : isDevelopment
       ? {
@@ -18,5 +51,7 @@ export const logger = pino(
         }
       : {
           level: process.env.LOG_LEVEL || 'info',
-        }
-);
+        }),
+};
+
+export const logger = pino(loggerOptions);
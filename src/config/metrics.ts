@@ -0,0 +1,91 @@
+import {
+  collectDefaultMetrics,
+  Counter,
+  Histogram,
+  Registry,
+} from 'prom-client';
+
+/**
+ * Registry served at `/metrics`
+ * Every metric registers here rather than in the prom-client global registry
+ */
+export const metricsRegistry = new Registry();
+
+// Process metrics: CPU, memory, event loop lag, GC, handles
+collectDefaultMetrics({ register: metricsRegistry });
+
+// Buckets in seconds, from fast cache hits to retried upstream calls
+const LATENCY_BUCKETS = [
+  0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10,
+];
+
+/**
+ * HTTP requests by route pattern (e.g. `/api/v1/admin/webhooks/:id`); requests
+ * no route matched are labelled `unmatched`
+ */
+export const httpRequestsTotal = new Counter({
+  name: 'http_requests_total',
+  help: 'HTTP requests handled',
+  labelNames: ['method', 'route', 'status_code'] as const,
+  registers: [metricsRegistry],
+});
+
+export const httpRequestDuration = new Histogram({
+  name: 'http_request_duration_seconds',
+  help: 'HTTP request duration in seconds',
+  labelNames: ['method', 'route', 'status_code'] as const,
+  buckets: LATENCY_BUCKETS,
+  registers: [metricsRegistry],
+});
+
+/**
+ * Stats lookups by activity (`<type>:<activityId>` for the refreshed
+ * activity, `other` for the rest) and how they were served: `HIT`, `MISS`,
+ * `STALE` or `ERROR`
+ */
+export const statsCacheRequestsTotal = new Counter({
+  name: 'ethos_stats_cache_requests_total',
+  help: 'Ethos stats lookups by cache outcome',
+  labelNames: ['stats_key', 'cache_status'] as const,
+  registers: [metricsRegistry],
+});
+
+/**
+ * Upstream attempts, retries included, by client and HTTP status; attempts
+ * without a response are labelled `error`
+ */
+export const upstreamRequestDuration = new Histogram({
+  name: 'upstream_request_duration_seconds',
+  help: 'Upstream HTTP attempt duration in seconds',
+  labelNames: ['client', 'status'] as const,
+  buckets: LATENCY_BUCKETS,
+  registers: [metricsRegistry],
+});
+
+export const jobRunsTotal = new Counter({
+  name: 'job_runs_total',
+  help: 'Background job runs by outcome',
+  labelNames: ['job', 'trigger', 'outcome'] as const,
+  registers: [metricsRegistry],
+});
+
+export const jobRunDuration = new Histogram({
+  name: 'job_run_duration_seconds',
+  help: 'Background job run duration in seconds, retries included',
+  labelNames: ['job', 'outcome'] as const,
+  buckets: [0.1, 0.5, 1, 2.5, 5, 10, 30, 60, 120, 300],
+  registers: [metricsRegistry],
+});
+
+export const rateLimitRejectionsTotal = new Counter({
+  name: 'rate_limit_rejections_total',
+  help: 'Requests rejected by the rate limiter, by limit and caller tier',
+  labelNames: ['limit', 'tier'] as const,
+  registers: [metricsRegistry],
+});
+
+export const redisReconnectsTotal = new Counter({
+  name: 'redis_reconnects_total',
+  help: 'Redis reconnection attempts',
+  registers: [metricsRegistry],
+});
@@ -0,0 +1,23 @@
+import type { RateLimitTier, RateLimitTiers } from '../types/rate-limit.js';
+import { env } from './env.js';
+
+// Tier of anonymous callers, tokens and keys issued without one
+export const DEFAULT_RATE_LIMIT_TIER: RateLimitTier = 'free';
+
+/**
+ * Requests allowed per caller and window for each tier
+ * - free: public dashboards and other low-volume callers
+ * - internal: batch jobs and services of our own
+ * - unlimited: never limited
+ */
+export const RATE_LIMIT_TIERS: RateLimitTiers = {
+  free: {
+    max: env.RATE_LIMIT_MAX_REQUESTS,
+    windowMs: env.RATE_LIMIT_WINDOW_MS,
+  },
+  internal: {
+    max: env.RATE_LIMIT_INTERNAL_MAX_REQUESTS,
+    windowMs: env.RATE_LIMIT_WINDOW_MS,
+  },
+  unlimited: null,
+};
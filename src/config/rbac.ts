@@ -0,0 +1,36 @@
+import { readFileSync } from 'fs';
+
+import type { RbacPolicy } from '../types/rbac.js';
+import { rbacPolicySchema } from '../validators/rbac-validators.js';
+import { env } from './env.js';
+
+/**
+ * Policy used when RBAC_POLICY_FILE is unset
+ * Stats are public; admin endpoints need a role or explicit permissions
+ */
+export const DEFAULT_RBAC_POLICY: RbacPolicy = {
+  roles: {
+    anonymous: ['stats:read'],
+    viewer: ['admin:read', 'webhooks:read'],
+    operator: ['admin:read', 'stats:*', 'webhooks:*'],
+    admin: ['*'],
+  },
+};
+
+/**
+ * Read and validate a policy file
+ * @throws Error if the file cannot be read or is not a valid policy, so a
+ * broken policy stops startup instead of locking everyone out
+ */
+export const loadRbacPolicy = (path: string | undefined): RbacPolicy => {
+  if (!path) return DEFAULT_RBAC_POLICY;
+  try {
+    return rbacPolicySchema.parse(JSON.parse(readFileSync(path, 'utf8')));
+  } catch (error) {
+    throw new Error(
+      `Invalid RBAC policy in ${path}: ${error instanceof Error ? error.message : String(error)}`
+    );
+  }
+};
+
+export const rbacPolicy = loadRbacPolicy(env.RBAC_POLICY_FILE);
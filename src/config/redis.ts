@@ -1,6 +1,7 @@
 import { Redis } from 'ioredis';
 import { logger } from './logger.js';
 import { env } from './env.js';
+import { redisReconnectsTotal } from './metrics.js';
 
 export const redisClient = new Redis(env.REDIS_URL, {
   retryStrategy(times) {
@@ -22,8 +23,9 @@ redisClient.on('error', (error) => {
   logger.error({ err: error }, 'Redis error');
 });
 
-redisClient.on('reconnecting', (delay) => {
+redisClient.on('reconnecting', (delay: number) => {
   logger.warn({ nextRetryIn: delay }, 'Redis reconnecting');
+  redisReconnectsTotal.inc();
 });
 
 redisClient.on('close', () => {
@@ -34,6 +36,19 @@ redisClient.on('end', () => {
   logger.warn('Redis connection ended');
 });
 
+/**
+ * Create a dedicated connection for pub/sub
+ * A connection in subscriber mode cannot run other commands, so it must not be
+ * shared with redisClient
+ */
+export const createRedisSubscriber = (): Redis => {
+  const subscriber = redisClient.duplicate();
+  subscriber.on('error', (error) => {
+    logger.error({ err: error }, 'Redis subscriber error');
+  });
+  return subscriber;
+};
+
 export const waitForRedis = async (timeoutMs = 15000): Promise<void> => {
   if (redisClient.status === 'ready') return;
 
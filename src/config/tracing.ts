@@ -0,0 +1,115 @@
+import { SpanStatusCode } from '@opentelemetry/api';
+import {
+  ExportResultCode,
+  hrTimeToMilliseconds,
+  hrTimeToTimeStamp,
+} from '@opentelemetry/core';
+import type { ExportResult } from '@opentelemetry/core';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  BatchSpanProcessor,
+  ConsoleSpanExporter,
+  NodeTracerProvider,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-node';
+import type {
+  ReadableSpan,
+  SpanExporter,
+  SpanProcessor,
+} from '@opentelemetry/sdk-trace-node';
+import { ATTR_SERVICE_NAME } from '@opentelemetry/semantic-conventions';
+import { appendFile } from 'fs/promises';
+
+import { env } from './env.js';
+import { logger } from './logger.js';
+
+/**
+ * Appends finished spans to a file, one JSON object per line, for local work
+ * without a collector
+ */
+class FileSpanExporter implements SpanExporter {
+  constructor(private readonly path: string) {}
+
+  export(
+    spans: ReadableSpan[],
+    resultCallback: (result: ExportResult) => void
+  ): void {
+    const lines = spans.map((span) =>
+      JSON.stringify({
+        traceId: span.spanContext().traceId,
+        spanId: span.spanContext().spanId,
+        parentSpanId: span.parentSpanContext?.spanId ?? null,
+        name: span.name,
+        kind: span.kind,
+        startTime: hrTimeToTimeStamp(span.startTime),
+        durationMs: hrTimeToMilliseconds(span.duration),
+        status:
+          span.status.code === SpanStatusCode.ERROR
+            ? { code: 'ERROR', message: span.status.message }
+            : { code: 'OK' },
+        attributes: span.attributes,
+      })
+    );
+    appendFile(this.path, `${lines.join('\n')}\n`).then(
+      () => resultCallback({ code: ExportResultCode.SUCCESS }),
+      (error: Error) => resultCallback({ code: ExportResultCode.FAILED, error })
+    );
+  }
+
+  async shutdown(): Promise<void> {}
+}
+
+const createSpanProcessor = (): SpanProcessor | null => {
+  switch (env.TRACING_EXPORTER) {
+    case 'otlp':
+      return new BatchSpanProcessor(
+        new OTLPTraceExporter({ url: env.TRACING_OTLP_ENDPOINT })
+      );
+    case 'console':
+      // Spans are printed as they end, so traces read in order locally
+      return new SimpleSpanProcessor(new ConsoleSpanExporter());
+    case 'file':
+      return new BatchSpanProcessor(
+        new FileSpanExporter(env.TRACING_FILE_PATH)
+      );
+    case 'none':
+      return null;
+  }
+};
+
+let provider: NodeTracerProvider | null = null;
+
+/**
+ * Register the tracer provider and the W3C trace context propagator
+ * Until this runs, and when TRACING_EXPORTER is `none`, spans are no-ops
+ */
+export const startTracing = (): void => {
+  const processor = createSpanProcessor();
+  if (!processor || provider) return;
+
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      [ATTR_SERVICE_NAME]: env.TRACING_SERVICE_NAME,
+    }),
+    spanProcessors: [processor],
+  });
+  // Also installs the AsyncLocalStorage context manager, so the active span
+  // follows async calls
+  provider.register();
+  logger.info({ exporter: env.TRACING_EXPORTER }, 'Tracing started');
+};
+
+/**
+ * Flush pending spans and stop exporting
+ */
+export const shutdownTracing = async (): Promise<void> => {
+  if (!provider) return;
+  try {
+    await provider.shutdown();
+  } catch (error) {
+    logger.warn({ err: error }, 'Failed to flush traces');
+  } finally {
+    provider = null;
+  }
+};
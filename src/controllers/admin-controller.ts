@@ -0,0 +1,70 @@
+import type { NextFunction, Request, Response } from 'express';
+
+import { ethosStatsRefreshScheduler } from '../jobs/index.js';
+import { auditService } from '../services/audit-service.js';
+import { ethosStatsService } from '../services/ethos-stats-service.js';
+
+/**
+ * Get the Ethos API circuit breaker status
+ */
+export const getUpstreamStatus = (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  try {
+    res.json({ ethosApi: ethosStatsService.getUpstreamStatus() });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Refresh the stats cache now instead of waiting for the schedule
+ * A failed refresh is reported with 502 and the same body shape
+ */
+export const refreshEthosStats = async (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const result = await ethosStatsRefreshScheduler.runNow();
+    res.status(result.outcome === 'success' ? 200 : 502).json(result);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the scheduler state and recent run history
+ */
+export const getSchedulerStatus = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    // Query has already been parsed by the validate() middleware
+    const { limit } = req.query as unknown as { limit: number };
+    res.json(await ethosStatsRefreshScheduler.getStatus(limit));
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get the audit log, most recent first
+ */
+export const getAuditLog = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { limit } = req.query as unknown as { limit: number };
+    res.json({ items: await auditService.getEntries(limit) });
+  } catch (error) {
+    next(error);
+  }
+};
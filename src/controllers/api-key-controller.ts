@@ -0,0 +1,175 @@
+import type { NextFunction, Request, Response } from 'express';
+
+import { DEFAULT_RATE_LIMIT_TIER } from '../config/rate-limit.js';
+import { ForbiddenError } from '../errors/app-errors.js';
+import { apiKeyService } from '../services/api-key-service.js';
+import { rbacService } from '../services/rbac-service.js';
+import type { AuditActor } from '../types/audit.js';
+import type {
+  AuthenticatedUser,
+  CreateApiKeyInput,
+  RotateApiKeyInput,
+  UpdateApiKeyInput,
+} from '../types/auth.js';
+
+// Routes run after authenticate(), so there always is a caller
+const getActor = (req: Request): AuditActor => {
+  const { id, authMethod, keyId } = req.user as AuthenticatedUser;
+  return { id, authMethod, keyId };
+};
+
+/**
+ * Callers may only issue keys with permissions they hold themselves, so
+ * `keys:write` cannot be turned into any other permission
+ * @throws ForbiddenError if a scope is not covered by the caller's
+ * effective permissions
+ */
+const assertGrantable = (req: Request, scopes: string[]): void => {
+  if (!rbacService.isAllowed(req.user, scopes)) {
+    throw new ForbiddenError(
+      'Cannot grant permissions you do not have',
+      'SCOPE_ESCALATION'
+    );
+  }
+};
+
+/**
+ * Changing, rotating or revoking a key needs the key's scopes like issuing
+ * it, so `keys:write` cannot take over or remove a key with wider scopes
+ * @throws NotFoundError if the key does not exist
+ * @throws ForbiddenError if the key's scopes are not covered by the
+ * caller's effective permissions
+ */
+const assertManageable = async (req: Request, id: string): Promise<void> => {
+  assertGrantable(req, (await apiKeyService.getKey(id)).scopes);
+};
+
+/**
+ * Choosing a key's rate limit tier needs `keys:tier`, so `keys:write` cannot
+ * lift the limits of a key, including the caller's own
+ * @throws ForbiddenError if the caller's effective permissions do not
+ * include `keys:tier`
+ */
+const assertTierAssignable = (req: Request): void => {
+  if (!rbacService.isAllowed(req.user, ['keys:tier'])) {
+    throw new ForbiddenError(
+      'Cannot assign rate limit tiers',
+      'TIER_ESCALATION'
+    );
+  }
+};
+
+/**
+ * Issue an API key
+ * The response is the only time the key is shown, apart from rotation
+ */
+export const createApiKey = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const input = req.body as CreateApiKeyInput;
+    assertGrantable(req, input.scopes);
+    if (input.rateLimitTier !== DEFAULT_RATE_LIMIT_TIER) {
+      assertTierAssignable(req);
+    }
+    const created = await apiKeyService.createKey(input, getActor(req));
+    res.status(201).json(created);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List API keys with masked keys and without their hashes
+ */
+export const listApiKeys = async (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const keys = await apiKeyService.listKeys();
+    res.json({ items: keys });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get one API key
+ */
+export const getApiKey = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const key = await apiKeyService.getKey(req.params.id as string);
+    res.json(key);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Change an API key's scopes, expiry or labels
+ */
+export const updateApiKey = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params as { id: string };
+    const input = req.body as UpdateApiKeyInput;
+    await assertManageable(req, id);
+    if (input.scopes) assertGrantable(req, input.scopes);
+    if (input.rateLimitTier) assertTierAssignable(req);
+    const key = await apiKeyService.updateKey(id, input, getActor(req));
+    res.json(key);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Replace an API key's secret and return the new key
+ */
+export const rotateApiKey = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params as { id: string };
+    await assertManageable(req, id);
+    const rotated = await apiKeyService.rotateKey(
+      id,
+      req.body as RotateApiKeyInput,
+      getActor(req)
+    );
+    res.json(rotated);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Revoke an API key
+ */
+export const revokeApiKey = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const { id } = req.params as { id: string };
+    await assertManageable(req, id);
+    await apiKeyService.revokeKey(id, getActor(req));
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+};
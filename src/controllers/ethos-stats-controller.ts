@@ -1,19 +1,223 @@
 import type { NextFunction, Request, Response } from 'express';
 
+import { env } from '../config/env.js';
+import { ethosStatsEventsService } from '../services/ethos-stats-events-service.js';
 import { ethosStatsService } from '../services/ethos-stats-service.js';
+import type { CacheMetadata } from '../types/cache-envelope.js';
+import type {
+  EthosStats,
+  EthosStatsEvent,
+  EthosStatsHistoryQuery,
+  EthosStatsQuery,
+} from '../types/ethos-stats.js';
+import { formatSseEvent, formatSseRetry, SSE_HEARTBEAT } from '../utils/sse.js';
+import { compareStreamIds, isStreamId } from '../utils/stream-id.js';
+
+const SSE_RETRY_MS = 5000; // Client reconnect delay
+const SSE_STATS_EVENT = 'stats';
+
+/**
+ * Expose where the served copy came from
+ * Upstream details are missing for entries cached before they were recorded
+ */
+const setCacheMetadataHeaders = (res: Response, meta: CacheMetadata): void => {
+  res.setHeader('X-Stats-Fetched-At', meta.fetchedAt);
+  res.setHeader('X-Stats-Schema-Version', String(meta.version));
+  if (meta.source) {
+    res.setHeader('X-Stats-Source', meta.source.url);
+    res.setHeader('X-Stats-Upstream-Status', String(meta.source.status));
+    res.setHeader('X-Stats-Upstream-Latency-Ms', String(meta.source.latencyMs));
+    if (meta.source.etag) {
+      res.setHeader('X-Stats-Upstream-ETag', meta.source.etag);
+    }
+  }
+};
 
 /**
  * Get Ethos stats from cache (with fallback to API)
  */
 export const getEthosStats = async (
-  _req: Request,
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    // Query has already been parsed by the validate() middleware
+    const query = req.query as unknown as EthosStatsQuery;
+    const result = await ethosStatsService.getStats(query);
+
+    const { meta } = result;
+    res.setHeader('X-Cache', result.cacheStatus);
+    if (result.cacheStatus === 'STALE') {
+      const ageSeconds = Math.max(
+        0,
+        Math.floor((Date.now() - Date.parse(meta.fetchedAt)) / 1000)
+      );
+      res.setHeader('Age', String(ageSeconds));
+    }
+    setCacheMetadataHeaders(res, meta);
+
+    // Validators for conditional requests; the content hash doubles as ETag
+    res.setHeader('ETag', `"${meta.contentHash}"`);
+    res.setHeader('Last-Modified', new Date(meta.fetchedAt).toUTCString());
+    // Clients may reuse the response until the cached copy expires;
+    // stale copies must be revalidated on every request
+    res.setHeader(
+      'Cache-Control',
+      result.ttlSeconds !== undefined
+        ? `max-age=${result.ttlSeconds}`
+        : 'no-cache'
+    );
+
+    // req.fresh evaluates If-None-Match / If-Modified-Since against the
+    // ETag and Last-Modified headers set above
+    if (req.fresh) {
+      res.status(304).end();
+      return;
+    }
+
+    res.json(result.data);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Get historical stats snapshots with cursor pagination
+ */
+export const getEthosStatsHistory = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const query = req.query as unknown as EthosStatsHistoryQuery;
+    const page = await ethosStatsService.getHistory(query);
+    res.json(page);
+  } catch (error) {
+    next(error);
+  }
+};
+
+// One SSE message: the stats payload and its cache metadata
+type StatsStreamMessage = {
+  id: string | null;
+  data: EthosStats;
+  meta: CacheMetadata;
+};
+
+const toStreamMessage = (event: EthosStatsEvent): StatsStreamMessage => {
+  const { data, ...meta } = event.envelope;
+  return { id: event.id, data, meta };
+};
+
+/**
+ * Messages to send when a stream opens
+ * A resuming client gets the events it missed; a new client, or one whose
+ * last event is no longer retained, gets the current stats
+ */
+const loadInitialMessages = async (
+  query: EthosStatsQuery,
+  lastEventId: string | null
+): Promise<StatsStreamMessage[]> => {
+  if (lastEventId) {
+    const missed = await ethosStatsEventsService.getEventsSince(
+      query,
+      lastEventId
+    );
+    if (missed) return missed.map(toStreamMessage);
+  }
+
+  const latestId = await ethosStatsEventsService.getLatestEventId(query);
+  const result = await ethosStatsService.getStats(query);
+  return [{ id: latestId, data: result.data, meta: result.meta }];
+};
+
+/**
+ * Stream stats updates as Server-Sent Events
+ * Sends the current stats (or the events missed since `Last-Event-ID`), then
+ * an event whenever a refresh on any replica stores a changed payload
+ */
+export const streamEthosStats = async (
+  req: Request,
   res: Response,
   next: NextFunction
 ): Promise<void> => {
+  const query = req.query as unknown as EthosStatsQuery;
+  const header = req.get('Last-Event-ID');
+  // Unknown IDs are treated like a fresh connection
+  const lastEventId = header && isStreamId(header) ? header : null;
+
+  let lastSentId: string | null = null;
+  const write = (message: StatsStreamMessage) => {
+    // Skip events already sent, e.g. both replayed and received live
+    if (
+      message.id &&
+      lastSentId &&
+      compareStreamIds(message.id, lastSentId) <= 0
+    ) {
+      return;
+    }
+    if (message.id) lastSentId = message.id;
+    res.write(
+      formatSseEvent({
+        id: message.id,
+        event: SSE_STATS_EVENT,
+        data: { data: message.data, meta: message.meta },
+      })
+    );
+  };
+
+  // Live events are held back until the initial messages are written, so an
+  // update landing in between is neither lost nor sent out of order
+  let pending: StatsStreamMessage[] | null = [];
+  let unsubscribe: (() => void) | null = null;
+  let closed = false;
+  // Registered before the first await, so a client leaving during setup
+  // still releases its subscription
+  res.on('close', () => {
+    closed = true;
+    unsubscribe?.();
+  });
+
+  let initial: StatsStreamMessage[];
   try {
-    const stats = await ethosStatsService.getStats();
-    res.json(stats);
+    const stop = await ethosStatsEventsService.subscribe(query, {
+      onEvent: (event) => {
+        const message = toStreamMessage(event);
+        if (pending) pending.push(message);
+        else write(message);
+      },
+      onEnd: () => res.end(),
+    });
+    if (closed) {
+      stop();
+      return;
+    }
+    unsubscribe = stop;
+    initial = await loadInitialMessages(query, lastEventId);
   } catch (error) {
+    unsubscribe?.();
     next(error);
+    return;
   }
+  if (closed) return;
+
+  res.status(200);
+  res.setHeader('Content-Type', 'text/event-stream');
+  res.setHeader('Cache-Control', 'no-cache, no-transform');
+  res.setHeader('Connection', 'keep-alive');
+  // Stop reverse proxies (nginx) from buffering the stream
+  res.setHeader('X-Accel-Buffering', 'no');
+  res.flushHeaders();
+
+  res.write(formatSseRetry(SSE_RETRY_MS));
+  initial.forEach(write);
+  pending.forEach(write);
+  pending = null;
+
+  const heartbeat = setInterval(() => {
+    res.write(SSE_HEARTBEAT);
+  }, env.SSE_HEARTBEAT_INTERVAL_MS);
+  res.on('close', () => clearInterval(heartbeat));
 };
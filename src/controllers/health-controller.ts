@@ -0,0 +1,32 @@
+import type { NextFunction, Request, Response } from 'express';
+
+import { healthService } from '../services/health-service.js';
+
+/**
+ * Liveness: the process is up and the event loop responds
+ * Deliberately checks nothing else, so a Redis outage never gets the
+ * process restarted
+ */
+export const getLiveness = (_req: Request, res: Response): void => {
+  res.setHeader('Cache-Control', 'no-store');
+  res.json({ status: 'ok', uptimeSeconds: Math.floor(process.uptime()) });
+};
+
+/**
+ * Readiness: 200 if this instance can serve traffic, possibly degraded, 503
+ * otherwise
+ */
+export const getReadiness = async (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const report = await healthService.checkReadiness();
+    res.setHeader('Cache-Control', 'no-store');
+    const ready = report.status === 'ready' || report.status === 'degraded';
+    res.status(ready ? 200 : 503).json(report);
+  } catch (error) {
+    next(error);
+  }
+};
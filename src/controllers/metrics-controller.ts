@@ -0,0 +1,20 @@
+import type { NextFunction, Request, Response } from 'express';
+
+import { metricsRegistry } from '../config/metrics.js';
+
+/**
+ * Serve every metric in the Prometheus text format
+ */
+export const getMetrics = async (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    res.setHeader('Content-Type', metricsRegistry.contentType);
+    res.setHeader('Cache-Control', 'no-store');
+    res.send(await metricsRegistry.metrics());
+  } catch (error) {
+    next(error);
+  }
+};
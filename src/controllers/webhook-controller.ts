@@ -0,0 +1,92 @@
+import type { NextFunction, Request, Response } from 'express';
+
+import { webhookService } from '../services/webhook-service.js';
+import type { CreateWebhookInput } from '../types/webhook.js';
+
+/**
+ * Create a webhook subscription
+ * The response is the only time the signing secret is shown, apart from
+ * rotation
+ */
+export const createWebhook = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const subscription = await webhookService.createSubscription(
+      req.body as CreateWebhookInput
+    );
+    res.status(201).json(subscription);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List webhook subscriptions without their secrets
+ */
+export const listWebhooks = async (
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const subscriptions = await webhookService.listSubscriptions();
+    res.json({ items: subscriptions });
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Delete a webhook subscription
+ */
+export const deleteWebhook = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    await webhookService.deleteSubscription(req.params.id as string);
+    res.status(204).end();
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * Replace a webhook's signing secret and return the new one
+ */
+export const rotateWebhookSecret = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    const subscription = await webhookService.rotateSecret(
+      req.params.id as string
+    );
+    res.json(subscription);
+  } catch (error) {
+    next(error);
+  }
+};
+
+/**
+ * List deliveries that failed permanently, most recent first
+ */
+export const listWebhookDeadLetters = async (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> => {
+  try {
+    // Query has already been parsed by the validate() middleware
+    const { limit } = req.query as unknown as { limit: number };
+    const deadLetters = await webhookService.getDeadLetters(limit);
+    res.json({ items: deadLetters });
+  } catch (error) {
+    next(error);
+  }
+};
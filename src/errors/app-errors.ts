@@ -0,0 +1,87 @@
+import type { z } from 'zod';
+
+/**
+ * Base class for domain errors that map to a specific HTTP status
+ * The central error handler translates these into JSON responses
+ */
+export class AppError extends Error {
+  readonly statusCode: number;
+  readonly code: string;
+
+  constructor(
+    message: string,
+    statusCode = 500,
+    code = 'INTERNAL_ERROR',
+    options?: ErrorOptions
+  ) {
+    super(message, options);
+    this.name = new.target.name;
+    this.statusCode = statusCode;
+    this.code = code;
+  }
+}
+
+/**
+ * The Ethos API could not be reached or answered with an error status
+ */
+export class UpstreamError extends AppError {
+  readonly upstreamStatus: number | undefined;
+
+  constructor(
+    message: string,
+    upstreamStatus?: number,
+    options?: ErrorOptions,
+    code = 'UPSTREAM_ERROR'
+  ) {
+    super(message, 502, code, options);
+    this.upstreamStatus = upstreamStatus;
+  }
+}
+
+/**
+ * The Ethos API answered, but the payload does not match the expected schema
+ */
+export class UpstreamValidationError extends UpstreamError {
+  readonly issues: z.ZodIssue[];
+
+  constructor(message: string, issues: z.ZodIssue[], upstreamStatus?: number) {
+    super(message, upstreamStatus, undefined, 'UPSTREAM_INVALID_RESPONSE');
+    this.issues = issues;
+  }
+}
+
+/**
+ * The requested resource does not exist
+ */
+export class NotFoundError extends AppError {
+  constructor(message: string) {
+    super(message, 404, 'NOT_FOUND');
+  }
+}
+
+/**
+ * The request carries no credentials, or credentials that are not valid
+ */
+export class UnauthorizedError extends AppError {
+  constructor(message: string, code = 'UNAUTHORIZED') {
+    super(message, 401, code);
+  }
+}
+
+/**
+ * The caller is not allowed to perform the request
+ */
+export class ForbiddenError extends AppError {
+  constructor(message: string, code = 'FORBIDDEN') {
+    super(message, 403, code);
+  }
+}
+
+/**
+ * The request conflicts with work already in progress
+ */
+export class ConflictError extends AppError {
+  constructor(message: string, code = 'CONFLICT') {
+    super(message, 409, code);
+  }
+}
@@ -0,0 +1,46 @@
+import { env } from '../config/env.js';
+import {
+  DEFAULT_STATS_QUERY,
+  ethosStatsService,
+} from '../services/ethos-stats-service.js';
+import { jobRegistry } from '../services/job-registry.js';
+import type { JobDefinition } from '../types/scheduler.js';
+import { parseSchedule } from '../utils/schedule.js';
+
+/**
+ * Refreshes the cached stats of the default activity
+ */
+export const ethosStatsRefreshJob: JobDefinition = {
+  name: 'ethos-stats-refresh',
+  // Keys from before the job registry, so replicas on either version share
+  // the leader lease during a rolling deploy
+  keyPrefix: 'ethos:scheduler',
+  schedule: parseSchedule(
+    env.STATS_REFRESH_SCHEDULE,
+    env.STATS_REFRESH_TIMEZONE
+  ),
+  timeoutMs: 2 * 60 * 1000,
+  // The Ethos API client already retries each request
+  retry: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+  concurrency: 'leader',
+  startup: {
+    mode: env.STATS_REFRESH_ON_STARTUP,
+    jitterMs: env.STATS_REFRESH_STARTUP_JITTER_MS,
+  },
+  // The fence keeps a replica that lost the lease mid-run from overwriting
+  // the stats of its successor
+  handler: async ({ fence }) => {
+    const { changed } = await ethosStatsService.refreshCache(
+      DEFAULT_STATS_QUERY,
+      fence
+    );
+    return { changed };
+  },
+  getLastOutputAt: async () => {
+    const cached = await ethosStatsService.getCachedStats();
+    return cached ? new Date(cached.meta.fetchedAt) : null;
+  },
+};
+
+export const ethosStatsRefreshScheduler =
+  jobRegistry.register(ethosStatsRefreshJob);
@@ -0,0 +1,5 @@
+/**
+ * Every background job, registered with the job registry on import
+ * Import this module before starting the registry
+ */
+export { ethosStatsRefreshScheduler } from './ethos-stats-refresh-job.js';
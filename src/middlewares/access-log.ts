@@ -0,0 +1,58 @@
+import type { IncomingMessage, ServerResponse } from 'http';
+import type { Request } from 'express';
+import { pinoHttp } from 'pino-http';
+
+import { logger } from '../config/logger.js';
+import { getRoutePattern } from '../utils/route-pattern.js';
+
+// Probes and scrapes would drown out real traffic
+const UNLOGGED_PATHS = new Set(['/healthz', '/readyz', '/metrics']);
+
+/**
+ * Route pattern and response size, added to the access log line once the
+ * response is finished
+ */
+const describeResponse = (
+  req: IncomingMessage,
+  res: ServerResponse,
+  fields: Record<string, unknown>
+): Record<string, unknown> => {
+  const contentLength = res.getHeader('content-length');
+  return {
+    ...fields,
+    route: getRoutePattern(req as Request) ?? 'unmatched',
+    // Unknown for streamed responses
+    bytes: contentLength !== undefined ? Number(contentLength) : null,
+  };
+};
+
+/**
+ * One log line per request with method, route, status, latency and size
+ * The request ID comes from the request context (see requestIdMiddleware);
+ * credentials in headers are redacted by the logger
+ */
+export const accessLogMiddleware = pinoHttp({
+  logger,
+  autoLogging: {
+    ignore: (req) => UNLOGGED_PATHS.has((req as Request).path),
+  },
+  customAttributeKeys: { responseTime: 'durationMs' },
+  customLogLevel: (_req, res, err) => {
+    if (err || res.statusCode >= 500) return 'error';
+    if (res.statusCode >= 400) return 'warn';
+    return 'info';
+  },
+  customSuccessMessage: () => 'Request completed',
+  customErrorMessage: () => 'Request failed',
+  customSuccessObject: describeResponse,
+  customErrorObject: (req, res, _error, fields) =>
+    describeResponse(req, res, fields),
+  serializers: {
+    req: (req: { method: string; url: string; headers: unknown }) => ({
+      method: req.method,
+      url: req.url,
+      headers: req.headers,
+    }),
+    res: (res: { statusCode: number }) => ({ statusCode: res.statusCode }),
+  },
+});
@@ -1,107 +1,190 @@
 import type { Request, Response, NextFunction } from 'express';
 
+import { logger } from '../config/logger.js';
+import { ForbiddenError, UnauthorizedError } from '../errors/app-errors.js';
+import { apiKeyService } from '../services/api-key-service.js';
+import { jwtService } from '../services/jwt-service.js';
+import { rbacService } from '../services/rbac-service.js';
+import type { AuthenticatedUser, AuthMethod } from '../types/auth.js';
+import type { PermissionMatch } from '../types/rbac.js';
+
+const BEARER_PATTERN = /^Bearer\s+(\S+)$/i;
+// Three base64url segments: header, payload and signature
+const JWT_PATTERN = /^[\w-]+\.[\w-]+\.[\w-]+$/;
+
+type Credentials = { type: AuthMethod; value: string };
+
+// Outcome of checking the credentials of a request
+type CallerStatus = 'anonymous' | 'authenticated' | 'invalid';
+
 /**
- * Authentication middleware skeleton
- *
- * TODO: Implement authentication logic based on your requirements:
- * - API Key authentication
- * - JWT token validation
- * - OAuth2/OIDC integration
- * - Session-based authentication
- *
- * Example implementations:
- *
- * 1. API Key Authentication:
- *    - Extract API key from header: req.headers['x-api-key']
- *    - Validate against database or environment variable
- *    - Return 401 if invalid
- *
- * 2. JWT Token Authentication:
- *    - Extract token from Authorization header: req.headers.authorization
- *    - Verify token signature and expiration
- *    - Attach user info to req.user
- *    - Return 401 if invalid
- *
- * 3. OAuth2/OIDC:
- *    - Use passport.js or similar library
- *    - Validate access tokens
- *    - Check token scopes/permissions
+ * Credentials from `X-API-Key`, or else from `Authorization: Bearer`, which
+ * carries either an API key or a JWT
  */
+const getCredentials = (req: Request): Credentials | null => {
+  const apiKey = req.get('X-API-Key');
+  if (apiKey) return { type: 'api-key', value: apiKey };
+
+  const token = BEARER_PATTERN.exec(req.get('Authorization') ?? '')?.[1];
+  if (!token) return null;
+  return { type: JWT_PATTERN.test(token) ? 'jwt' : 'api-key', value: token };
+};
+
+const authenticateApiKey = async (
+  key: string
+): Promise<AuthenticatedUser | null> => {
+  const record = await apiKeyService.verifyKey(key);
+  if (!record) return null;
+  return {
+    id: record.owner,
+    authMethod: 'api-key',
+    keyId: record.id,
+    roles: [],
+    permissions: record.scopes,
+    rateLimitTier: record.rateLimitTier,
+  };
+};
+
+/**
+ * Verify the caller's credentials once per request
+ * Sets `req.user` for valid credentials; the outcome is kept on the request
+ * so identifyCaller and authenticate never verify twice
+ * @throws Error if the credentials cannot be checked
+ */
+const resolveCaller = async (req: Request): Promise<CallerStatus> => {
+  if (req.callerStatus) return req.callerStatus;
+
+  const credentials = getCredentials(req);
+  if (!credentials) {
+    req.callerStatus = 'anonymous';
+    return req.callerStatus;
+  }
+
+  const user =
+    credentials.type === 'jwt'
+      ? await jwtService.verifyToken(credentials.value)
+      : await authenticateApiKey(credentials.value);
+  if (user) {
+    req.user = user;
+    req.callerStatus = 'authenticated';
+  } else {
+    logger.warn(
+      { path: req.path, authMethod: credentials.type },
+      'Rejected invalid credentials'
+    );
+    req.callerStatus = 'invalid';
+  }
+  return req.callerStatus;
+};
 
 /**
- * Placeholder authentication middleware
- * Currently allows all requests - implement actual auth logic here
- *
- * @param req - Express request object
- * @param res - Express response object
- * @param next - Express next function
+ * Identify the caller without rejecting anyone, so the rate limiter can
+ * budget per caller; invalid credentials are rejected later by
+ * authenticate or authenticateOptional
  */
-export const authenticate = (
+export const identifyCaller = async (
   req: Request,
-  res: Response,
+  _res: Response,
   next: NextFunction
-): void => {
-  // TODO: Implement authentication logic
-  // Example structure:
-  // const apiKey = req.headers['x-api-key'];
-  // if (!apiKey || !isValidApiKey(apiKey)) {
-  //   return res.status(401).json({
-  //     error: 'Unauthorized',
-  //     requestId: req.id,
-  //   });
-  // }
-
-  // For now, allow all requests
-  next();
+): Promise<void> => {
+  try {
+    await resolveCaller(req);
+    next();
+  } catch (error) {
+    next(error);
+  }
 };
 
+const createAuthenticate =
+  (required: boolean) =>
+  async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      const status = await resolveCaller(req);
+      if (status === 'invalid') {
+        res.setHeader('WWW-Authenticate', 'Bearer error="invalid_token"');
+        next(
+          new UnauthorizedError('Invalid credentials', 'INVALID_CREDENTIALS')
+        );
+        return;
+      }
+      if (status === 'anonymous' && required) {
+        res.setHeader('WWW-Authenticate', 'Bearer');
+        next(
+          new UnauthorizedError('Missing credentials', 'MISSING_CREDENTIALS')
+        );
+        return;
+      }
+      next();
+    } catch (error) {
+      next(error);
+    }
+  };
+
+/**
+ * Authenticate the caller by API key or JWT and set `req.user`
+ * Missing, unknown, expired or otherwise invalid credentials get a 401
+ */
+export const authenticate = createAuthenticate(true);
+
 /**
- * Authorization middleware factory
- * Creates middleware to check if user has required permissions
- *
- * @param requiredPermissions - Array of required permission strings
- * @returns Middleware function
- *
- * TODO: Implement permission checking logic
- * Example:
- * - Check req.user.permissions against requiredPermissions
- * - Return 403 if user lacks required permissions
+ * Like authenticate, but callers without credentials continue anonymously,
+ * with the permissions of the anonymous role
+ * Invalid credentials still get a 401
+ */
+export const authenticateOptional = createAuthenticate(false);
+
+export interface AuthorizeOptions {
+  // `all` (default) requires every permission, `any` at least one
+  match?: PermissionMatch;
+}
+
+/**
+ * Only let callers through whose effective permissions (see RbacService)
+ * cover the required ones
+ * Must run after authenticate or authenticateOptional; anonymous callers
+ * that are denied get a 401, authenticated ones a 403
+ * @param requiredPermissions - Permissions the caller needs, e.g.
+ * `['webhooks:write']`
  */
 export const authorize =
-  (_requiredPermissions: string[]) =>
-  (req: Request, res: Response, next: NextFunction): void => {
-    // TODO: Implement authorization logic
-    // Example structure:
-    // const userPermissions = req.user?.permissions || [];
-    // const hasPermission = requiredPermissions.every(perm =>
-    //   userPermissions.includes(perm)
-    // );
-    // if (!hasPermission) {
-    //   return res.status(403).json({
-    //     error: 'Forbidden',
-    //     requestId: req.id,
-    //   });
-    // }
-
-    // For now, allow all requests
-    next();
+  (requiredPermissions: string[], { match = 'all' }: AuthorizeOptions = {}) =>
+  (req: Request, _res: Response, next: NextFunction): void => {
+    const { user } = req;
+    if (rbacService.isAllowed(user, requiredPermissions, match)) {
+      next();
+      return;
+    }
+
+    logger.warn(
+      {
+        requestId: req.id,
+        principal: user
+          ? { id: user.id, authMethod: user.authMethod, keyId: user.keyId }
+          : 'anonymous',
+        roles: user?.roles ?? [],
+        requiredPermissions,
+        match,
+        method: req.method,
+        path: req.originalUrl,
+      },
+      'Access denied'
+    );
+    next(
+      user
+        ? new ForbiddenError('Insufficient scope', 'INSUFFICIENT_SCOPE')
+        : new UnauthorizedError('Missing credentials', 'MISSING_CREDENTIALS')
+    );
   };
 
 /**
- * Extend Express Request type to include user information
- * Uncomment and customize when implementing authentication
+ * Extend Express Request type to include the authenticated caller
  */
 declare global {
   // eslint-disable-next-line @typescript-eslint/no-namespace
   namespace Express {
-    // eslint-disable-next-line @typescript-eslint/no-empty-object-type
     interface Request {
-      // user?: {
-      //   id: string;
-      //   email?: string;
-      //   permissions?: string[];
-      //   roles?: string[];
-      // };
+      user?: AuthenticatedUser;
+      callerStatus?: CallerStatus;
     }
   }
 }
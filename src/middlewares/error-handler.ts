@@ -1,8 +1,10 @@
 import type { ErrorRequestHandler } from 'express';
+import { STATUS_CODES } from 'http';
 import { ZodError } from 'zod';
 
 import { env } from '../config/env.js';
 import { logger } from '../config/logger.js';
+import { AppError } from '../errors/app-errors.js';
 
 export const errorHandler: ErrorRequestHandler = (err, req, res, _next) => {
   const requestId = req.id;
@@ -34,6 +36,17 @@ export const errorHandler: ErrorRequestHandler = (err, req, res, _next) => {
     return;
   }
 
+  // Handle domain errors with their own status code
+  if (err instanceof AppError) {
+    res.status(err.statusCode).json({
+      error: STATUS_CODES[err.statusCode],
+      code: err.code,
+      ...(isDevelopment && { message: err.message }),
+      requestId,
+    });
+    return;
+  }
+
   // Handle known error types
   if (err instanceof Error) {
     // In development, show more details
@@ -0,0 +1,28 @@
+import type { NextFunction, Request, Response } from 'express';
+
+import { httpRequestDuration, httpRequestsTotal } from '../config/metrics.js';
+import { getRoutePattern } from '../utils/route-pattern.js';
+
+/**
+ * Count and time every request by its route pattern
+ * The pattern, not the URL, keeps the label set bounded
+ */
+export const httpMetricsMiddleware = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const stopTimer = httpRequestDuration.startTimer();
+
+  // `close` also covers clients that disconnect, e.g. from event streams
+  res.once('close', () => {
+    const labels = {
+      method: req.method,
+      route: getRoutePattern(req) ?? 'unmatched',
+      status_code: String(res.statusCode),
+    };
+    stopTimer(labels);
+    httpRequestsTotal.inc(labels);
+  });
+  next();
+};
@@ -7,20 +7,36 @@ import { randomUUID } from 'crypto';
 import { env } from '../config/env.js';
 import { redisClient } from '../config/redis.js';
 import { logger } from '../config/logger.js';
+import { rateLimitRejectionsTotal } from '../config/metrics.js';
+import {
+  DEFAULT_RATE_LIMIT_TIER,
+  RATE_LIMIT_TIERS,
+} from '../config/rate-limit.js';
+import { ForbiddenError } from '../errors/app-errors.js';
+import type { RateLimitTiers } from '../types/rate-limit.js';
+import { createCidrMatcher } from '../utils/cidr.js';
+import { runWithRequestContext } from '../utils/request-context.js';
+
+// Inbound request IDs are echoed and logged, so only short, plain values are
+// accepted, e.g. UUIDs or IDs from a load balancer
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
 
 /**
  * Request ID middleware
- * Adds a unique request ID to each request for tracing
+ * Reuses a valid incoming X-Request-ID, or creates one, and runs the rest of
+ * the request in a context carrying it, so every log line includes it
  */
 export const requestIdMiddleware = (
   req: Request,
   res: Response,
   next: NextFunction
 ): void => {
-  const requestId = randomUUID();
+  const incoming = req.get('X-Request-ID');
+  const requestId =
+    incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
   req.id = requestId;
   res.setHeader('X-Request-ID', requestId);
-  next();
+  runWithRequestContext({ requestId }, next);
 };
 
 /**
@@ -83,27 +99,51 @@ export const corsMiddleware = cors({
     callback(new Error('Not allowed by CORS'));
   },
   credentials: true,
-  methods: ['GET', 'POST', 'PUT', 'DELETE', 'OPTIONS'],
-  allowedHeaders: ['Content-Type', 'Authorization', 'X-Request-ID'],
-  exposedHeaders: ['X-Request-ID'],
+  methods: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'OPTIONS'],
+  allowedHeaders: [
+    'Content-Type',
+    'Authorization',
+    'X-API-Key',
+    'X-Request-ID',
+    'If-None-Match',
+    'If-Modified-Since',
+    'Last-Event-ID',
+  ],
+  exposedHeaders: [
+    'X-Request-ID',
+    'X-Cache',
+    'Age',
+    'ETag',
+    'X-Stats-Fetched-At',
+    'X-Stats-Schema-Version',
+    'X-Stats-Source',
+    'X-Stats-Upstream-Status',
+    'X-Stats-Upstream-Latency-Ms',
+    'X-Stats-Upstream-ETag',
+  ],
   maxAge: 86400, // 24 hours
 });
 
 /**
  * Rate limiting store using Redis
+ * Counts live under `<keyPrefix><key>` and expire after the window
  */
 class RedisStore {
   private client: Redis;
+  private keyPrefix: string;
+  private windowMs: number;
 
-  constructor(client: Redis) {
+  constructor(client: Redis, keyPrefix: string, windowMs: number) {
     this.client = client;
+    this.keyPrefix = keyPrefix;
+    this.windowMs = windowMs;
   }
 
   async increment(key: string) {
     const multi = this.client.multi();
-    multi.incr(key);
-    const ttlSeconds = Math.ceil(env.RATE_LIMIT_WINDOW_MS / 1000);
-    multi.expire(key, ttlSeconds);
+    multi.incr(this.keyPrefix + key);
+    const ttlSeconds = Math.ceil(this.windowMs / 1000);
+    multi.expire(this.keyPrefix + key, ttlSeconds);
     const results = await multi.exec();
 
     if (!results || results.length < 2) {
@@ -123,52 +163,135 @@ class RedisStore {
 
     return {
       totalHits,
-      resetTime: new Date(
-        now + (ttl > 0 ? ttl * 1000 : env.RATE_LIMIT_WINDOW_MS)
-      ),
+      resetTime: new Date(now + (ttl > 0 ? ttl * 1000 : this.windowMs)),
     };
   }
 
   async decrement(key: string): Promise<void> {
-    await this.client.decr(key);
+    await this.client.decr(this.keyPrefix + key);
   }
 
   async resetKey(key: string): Promise<void> {
-    await this.client.del(key);
+    await this.client.del(this.keyPrefix + key);
   }
 }
 
+// Probes and scrapes poll often and must never be turned away
+const UNLIMITED_PATHS = new Set(['/healthz', '/readyz', '/metrics']);
+
 /**
- * Global rate limiter
+ * Who a request is counted against: the API key, the token subject, or the
+ * IP address of anonymous callers and callers with invalid credentials
  */
-export const rateLimiter = expressRateLimit({
-  windowMs: env.RATE_LIMIT_WINDOW_MS,
-  max: env.RATE_LIMIT_MAX_REQUESTS,
-  message: {
-    error: 'Too many requests from this IP, please try again later.',
-  },
-  standardHeaders: true, // Return rate limit info in `RateLimit-*` headers
-  legacyHeaders: false, // Disable `X-RateLimit-*` headers
-  store: new RedisStore(redisClient),
-  handler: (req: Request, res: Response) => {
-    logger.warn(
-      {
-        ip: req.ip,
-        path: req.path,
-        requestId: req.id,
-      },
-      'Rate limit exceeded'
+const getRateLimitKey = (req: Request): string => {
+  const { user } = req;
+  if (!user) return `ip:${req.ip}`;
+  return user.keyId ? `key:${user.keyId}` : `user:${user.id}`;
+};
+
+/**
+ * Rate limiter applying each caller's tier, as set by identifyCaller
+ * One limiter per tier, as every tier may use its own window
+ * @param name - Counts of different limiters are kept apart by name
+ * @param tiers - Limit of each tier
+ */
+const createRateLimiter = (
+  name: string,
+  tiers: RateLimitTiers,
+  skip?: (req: Request) => boolean
+) => {
+  const limiters = new Map(
+    Object.entries(tiers).flatMap(([tier, rule]) => {
+      if (!rule) return [];
+      const limiter = expressRateLimit({
+        windowMs: rule.windowMs,
+        limit: rule.max,
+        standardHeaders: true, // Return rate limit info in `RateLimit-*` headers
+        legacyHeaders: false, // Disable `X-RateLimit-*` headers
+        store: new RedisStore(
+          redisClient,
+          `ratelimit:${name}:${tier}:`,
+          rule.windowMs
+        ),
+        keyGenerator: getRateLimitKey,
+        handler: (req: Request, res: Response) => {
+          logger.warn(
+            {
+              limit: name,
+              tier,
+              principal: getRateLimitKey(req),
+              path: req.path,
+              requestId: req.id,
+            },
+            'Rate limit exceeded'
+          );
+          rateLimitRejectionsTotal.inc({ limit: name, tier });
+          res.status(429).json({
+            error: 'Too many requests, please try again later.',
+            requestId: req.id,
+          });
+        },
+      });
+      return [[tier, limiter] as const];
+    })
+  );
+
+  return (req: Request, res: Response, next: NextFunction): void => {
+    const limiter = limiters.get(
+      req.user?.rateLimitTier ?? DEFAULT_RATE_LIMIT_TIER
     );
-    res.status(429).json({
-      error: 'Too many requests from this IP, please try again later.',
-      requestId: req.id,
-    });
-  },
-  skip: (_req: Request) => {
-    // Skip rate limiting for health checks if needed
-    return false;
-  },
-});
+    if (!limiter || skip?.(req)) {
+      next();
+      return;
+    }
+    void limiter(req, res, next);
+  };
+};
+
+/**
+ * Global rate limiter, per caller and tier (see config/rate-limit.ts)
+ * Must run after identifyCaller
+ */
+export const rateLimiter = createRateLimiter(
+  'global',
+  RATE_LIMIT_TIERS,
+  (req) => UNLIMITED_PATHS.has(req.path)
+);
+
+/**
+ * Additional limit for a route, counted separately from the global one,
+ * e.g. a tighter budget for an expensive endpoint
+ * @param name - Unique name of the limit, used in Redis keys and metrics
+ * @param overrides - Limits replacing those of the given tiers; null lifts
+ * the limit, tiers left out keep their global limit
+ */
+export const routeRateLimit = (
+  name: string,
+  overrides: Partial<RateLimitTiers>
+) => createRateLimiter(name, { ...RATE_LIMIT_TIERS, ...overrides });
+
+const isInternalAddress = createCidrMatcher(env.METRICS_ALLOWED_CIDRS);
+
+/**
+ * Only let callers from METRICS_ALLOWED_CIDRS through
+ * Uses the socket address, not X-Forwarded-For, which callers control
+ */
+export const internalOnly = (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): void => {
+  const address = req.socket.remoteAddress ?? '';
+  if (isInternalAddress(address)) {
+    next();
+    return;
+  }
+  logger.warn(
+    { ip: address, path: req.path, requestId: req.id },
+    'Rejected request from outside the internal network'
+  );
+  next(new ForbiddenError('Internal callers only', 'INTERNAL_ONLY'));
+};
 
 /**
  * Request size limit configuration
@@ -0,0 +1,59 @@
+import {
+  context,
+  propagation,
+  SpanKind,
+  SpanStatusCode,
+  trace,
+} from '@opentelemetry/api';
+import {
+  ATTR_HTTP_REQUEST_METHOD,
+  ATTR_HTTP_RESPONSE_STATUS_CODE,
+  ATTR_HTTP_ROUTE,
+  ATTR_URL_PATH,
+} from '@opentelemetry/semantic-conventions';
+import type { NextFunction, Request, Response } from 'express';
+
+import { getRequestContext } from '../utils/request-context.js';
+import { getRoutePattern } from '../utils/route-pattern.js';
+import { tracer } from '../utils/tracing.js';
+
+/**
+ * Server span for every request, continuing the caller's trace when it sends
+ * a `traceparent` header
+ * The span carries the request ID, and the trace ID is added to every log
+ * line written while handling the request
+ */
+export const tracingMiddleware = (
+  req: Request,
+  res: Response,
+  next: NextFunction
+): void => {
+  const parentContext = propagation.extract(context.active(), req.headers);
+  const span = tracer.startSpan(
+    req.method,
+    {
+      kind: SpanKind.SERVER,
+      attributes: {
+        [ATTR_HTTP_REQUEST_METHOD]: req.method,
+        [ATTR_URL_PATH]: req.path,
+        'http.request.id': getRequestContext()?.requestId,
+      },
+    },
+    parentContext
+  );
+
+  res.once('close', () => {
+    const route = getRoutePattern(req);
+    if (route) {
+      span.updateName(`${req.method} ${route}`);
+      span.setAttribute(ATTR_HTTP_ROUTE, route);
+    }
+    span.setAttribute(ATTR_HTTP_RESPONSE_STATUS_CODE, res.statusCode);
+    if (res.statusCode >= 500) {
+      span.setStatus({ code: SpanStatusCode.ERROR });
+    }
+    span.end();
+  });
+
+  context.with(trace.setSpan(parentContext, span), next);
+};
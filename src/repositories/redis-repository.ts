@@ -1,4 +1,71 @@
+import { SpanKind } from '@opentelemetry/api';
+import type { SpanOptions } from '@opentelemetry/api';
+import {
+  ATTR_DB_OPERATION_NAME,
+  ATTR_DB_SYSTEM_NAME,
+} from '@opentelemetry/semantic-conventions';
+
 import { redisClient } from '../config/redis.js';
+import { withSpan } from '../utils/tracing.js';
+
+// Delete the lock only if it is still held by the caller's token
+const RELEASE_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("del", KEYS[1])
+end
+return 0
+`;
+
+// Extend the lock only if it is still held by the caller's token
+const EXTEND_LOCK_SCRIPT = `
+if redis.call("get", KEYS[1]) == ARGV[1] then
+  return redis.call("pexpire", KEYS[1], ARGV[2])
+end
+return 0
+`;
+
+// SET NX PX, then bump the fencing counter in the same atomic step
+const ACQUIRE_FENCED_LOCK_SCRIPT = `
+if redis.call("set", KEYS[1], ARGV[1], "PX", ARGV[2], "NX") then
+  return redis.call("incr", KEYS[2])
+end
+return false
+`;
+
+// Write the value only while the fencing counter still holds the caller's
+// token, i.e. no later holder has acquired the lock since
+const SET_IF_FENCED_SCRIPT = `
+if redis.call("get", KEYS[2]) ~= ARGV[2] then
+  return 0
+end
+if ARGV[3] == "" then
+  redis.call("set", KEYS[1], ARGV[1])
+else
+  redis.call("set", KEYS[1], ARGV[1], "EX", ARGV[3])
+end
+return 1
+`;
+
+// Overwrite the field only if it still exists, so a concurrent delete wins
+const REPLACE_HASH_FIELD_SCRIPT = `
+if redis.call("hexists", KEYS[1], ARGV[1]) == 1 then
+  redis.call("hset", KEYS[1], ARGV[1], ARGV[2])
+  return 1
+end
+return 0
+`;
+
+/**
+ * Client span for a Redis command
+ */
+const redisSpanOptions = (operation: string, key: string): SpanOptions => ({
+  kind: SpanKind.CLIENT,
+  attributes: {
+    [ATTR_DB_SYSTEM_NAME]: 'redis',
+    [ATTR_DB_OPERATION_NAME]: operation,
+    'db.redis.key': key,
+  },
+});
 
 export class RedisRepository {
   /**
@@ -7,12 +74,194 @@ export class RedisRepository {
    * @returns Parsed JSON value or null if key doesn't exist
    */
   async get<T>(key: string): Promise<T | null> {
+    return withSpan('redis GET', redisSpanOptions('GET', key), async () => {
+      try {
+        const value = await redisClient.get(key);
+        if (value === null) {
+          return null;
+        }
+        return JSON.parse(value) as T;
+      } catch (error) {
+        if (error instanceof SyntaxError) {
+          throw new Error(
+            `Failed to parse JSON for key "${key}": ${error.message}`
+          );
+        }
+        throw new Error(
+          `Redis get operation failed for key "${key}": ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    });
+  }
+
+  /**
+   * Get a value and its remaining TTL in a single round trip
+   * @param key - Redis key
+   * @returns Parsed JSON value with its TTL in ms (null if the key never
+   * expires), or null if the key doesn't exist
+   */
+  async getWithTtl<T>(
+    key: string
+  ): Promise<{ value: T; ttlMs: number | null } | null> {
+    return withSpan('redis GET', redisSpanOptions('GET', key), async () => {
+      try {
+        const results = await redisClient.multi().get(key).pttl(key).exec();
+        const failed = results?.find(([error]) => error);
+        if (!results || failed) {
+          throw failed?.[0] ?? new Error('Transaction aborted');
+        }
+
+        const value = results[0]?.[1] as string | null;
+        const ttlMs = results[1]?.[1] as number;
+        if (value === null) {
+          return null;
+        }
+        return {
+          value: JSON.parse(value) as T,
+          ttlMs: ttlMs >= 0 ? ttlMs : null,
+        };
+      } catch (error) {
+        if (error instanceof SyntaxError) {
+          throw new Error(
+            `Failed to parse JSON for key "${key}": ${error.message}`
+          );
+        }
+        throw new Error(
+          `Redis get operation failed for key "${key}": ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    });
+  }
+
+  /**
+   * Set a value in Redis with JSON serialization
+   * @param key - Redis key
+   * @param value - Value to store (will be JSON serialized)
+   * @param ttlSeconds - Optional TTL in seconds
+   */
+  async set(key: string, value: unknown, ttlSeconds?: number): Promise<void> {
+    return withSpan('redis SET', redisSpanOptions('SET', key), async () => {
+      try {
+        const serialized = JSON.stringify(value);
+        if (ttlSeconds !== undefined) {
+          await redisClient.setex(key, ttlSeconds, serialized);
+        } else {
+          await redisClient.set(key, serialized);
+        }
+      } catch (error) {
+        throw new Error(
+          `Redis set operation failed for key "${key}": ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    });
+  }
+
+  /**
+   * Set a value with JSON serialization, unless a later holder of the lock
+   * that handed out the fencing token has taken over
+   * The check and the write are one atomic step
+   * @param key - Redis key
+   * @param value - Value to store (will be JSON serialized)
+   * @param fencingKey - Redis key of the fencing counter
+   * @param fencingToken - Token the caller was handed when acquiring the lock
+   * @param ttlSeconds - Optional TTL in seconds
+   * @returns Whether the value was written
+   */
+  async setIfFenced(
+    key: string,
+    value: unknown,
+    fencingKey: string,
+    fencingToken: number,
+    ttlSeconds?: number
+  ): Promise<boolean> {
+    return withSpan('redis SET', redisSpanOptions('SET', key), async () => {
+      try {
+        const result = await redisClient.eval(
+          SET_IF_FENCED_SCRIPT,
+          2,
+          key,
+          fencingKey,
+          JSON.stringify(value),
+          fencingToken,
+          ttlSeconds ?? ''
+        );
+        return result === 1;
+      } catch (error) {
+        throw new Error(
+          `Redis set operation failed for key "${key}": ${error instanceof Error ? error.message : String(error)}`
+        );
+      }
+    });
+  }
+
+  /**
+   * Add a JSON-serialized member to a sorted set
+   * @param key - Redis key of the sorted set
+   * @param score - Member score (e.g. a timestamp in ms)
+   * @param value - Value to store (will be JSON serialized)
+   * @param maxEntries - Optional cap; the lowest-scored members are trimmed
+   * @param ttlSeconds - Optional TTL of the whole set, renewed on every add
+   */
+  async addToSortedSet(
+    key: string,
+    score: number,
+    value: unknown,
+    maxEntries?: number,
+    ttlSeconds?: number
+  ): Promise<void> {
+    try {
+      const multi = redisClient.multi();
+      multi.zadd(key, score, JSON.stringify(value));
+      if (maxEntries !== undefined) {
+        multi.zremrangebyrank(key, 0, -(maxEntries + 1));
+      }
+      if (ttlSeconds !== undefined) {
+        multi.expire(key, ttlSeconds);
+      }
+      const results = await multi.exec();
+      const failed = results?.find(([error]) => error);
+      if (failed) {
+        throw failed[0];
+      }
+    } catch (error) {
+      throw new Error(
+        `Redis sorted set add failed for key "${key}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Read sorted set members by score, lowest first, and deserialize them
+   * @param key - Redis key of the sorted set
+   * @param min - Minimum score (Redis syntax, e.g. `-inf` or `(123` for exclusive)
+   * @param max - Maximum score (Redis syntax, e.g. `+inf`)
+   * @param limit - Maximum number of members to return
+   * @returns Parsed members with their scores
+   */
+  async rangeByScore<T>(
+    key: string,
+    min: number | string,
+    max: number | string,
+    limit: number
+  ): Promise<Array<{ score: number; value: T }>> {
     try {
-      const value = await redisClient.get(key);
-      if (value === null) {
-        return null;
+      const raw = await redisClient.zrangebyscore(
+        key,
+        min,
+        max,
+        'WITHSCORES',
+        'LIMIT',
+        0,
+        limit
+      );
+      const entries: Array<{ score: number; value: T }> = [];
+      for (let i = 0; i + 1 < raw.length; i += 2) {
+        entries.push({
+          value: JSON.parse(raw[i] as string) as T,
+          score: Number(raw[i + 1]),
+        });
       }
-      return JSON.parse(value) as T;
+      return entries;
     } catch (error) {
       if (error instanceof SyntaxError) {
         throw new Error(
@@ -20,28 +269,371 @@ export class RedisRepository {
         );
       }
       throw new Error(
-        `Redis get operation failed for key "${key}": ${error instanceof Error ? error.message : String(error)}`
+        `Redis range operation failed for key "${key}": ${error instanceof Error ? error.message : String(error)}`
       );
     }
   }
 
   /**
-   * Set a value in Redis with JSON serialization
-   * @param key - Redis key
-   * @param value - Value to store (will be JSON serialized)
-   * @param ttlSeconds - Optional TTL in seconds
+   * Try to acquire a short-lived lock (SET NX PX)
+   * @param key - Redis key of the lock
+   * @param token - Unique value identifying the holder
+   * @param ttlMs - Lock expiry in milliseconds
+   * @returns true if the lock was acquired
    */
-  async set(key: string, value: unknown, ttlSeconds?: number): Promise<void> {
+  async acquireLock(
+    key: string,
+    token: string,
+    ttlMs: number
+  ): Promise<boolean> {
+    try {
+      const result = await redisClient.set(key, token, 'PX', ttlMs, 'NX');
+      return result === 'OK';
+    } catch (error) {
+      throw new Error(
+        `Redis lock acquire failed for key "${key}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Release a lock, but only if it is still held by the given token
+   * @param key - Redis key of the lock
+   * @param token - Value the lock was acquired with
+   * @returns true if the lock was released
+   */
+  async releaseLock(key: string, token: string): Promise<boolean> {
     try {
-      const serialized = JSON.stringify(value);
+      const result = await redisClient.eval(RELEASE_LOCK_SCRIPT, 1, key, token);
+      return result === 1;
+    } catch (error) {
+      throw new Error(
+        `Redis lock release failed for key "${key}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Push back the expiry of a lock, but only if it is still held by the
+   * given token
+   * @param key - Redis key of the lock
+   * @param token - Value the lock was acquired with
+   * @param ttlMs - New expiry in milliseconds
+   * @returns true if the lock was extended, false if it was lost
+   */
+  async extendLock(
+    key: string,
+    token: string,
+    ttlMs: number
+  ): Promise<boolean> {
+    try {
+      const result = await redisClient.eval(
+        EXTEND_LOCK_SCRIPT,
+        1,
+        key,
+        token,
+        ttlMs
+      );
+      return result === 1;
+    } catch (error) {
+      throw new Error(
+        `Redis lock extend failed for key "${key}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Try to acquire a lock (SET NX PX) and hand out a fencing token
+   * Tokens come from a counter that only grows, so every new holder gets a
+   * higher token than all holders before it
+   * @param key - Redis key of the lock
+   * @param fencingKey - Redis key of the fencing counter
+   * @param token - Unique value identifying the holder
+   * @param ttlMs - Lock expiry in milliseconds
+   * @returns The fencing token, or null if the lock is held by someone else
+   */
+  async acquireFencedLock(
+    key: string,
+    fencingKey: string,
+    token: string,
+    ttlMs: number
+  ): Promise<number | null> {
+    try {
+      const result = await redisClient.eval(
+        ACQUIRE_FENCED_LOCK_SCRIPT,
+        2,
+        key,
+        fencingKey,
+        token,
+        ttlMs
+      );
+      return typeof result === 'number' ? result : null;
+    } catch (error) {
+      throw new Error(
+        `Redis lock acquire failed for key "${key}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Append a JSON value to a stream, trimming it to roughly maxLength entries
+   * @param key - Redis key of the stream
+   * @param value - Value to serialize as JSON
+   * @param maxLength - Approximate number of entries to keep
+   * @param ttlSeconds - Optional TTL of the whole stream, renewed on every
+   * append
+   * @returns ID of the new entry
+   */
+  async appendToStream(
+    key: string,
+    value: unknown,
+    maxLength: number,
+    ttlSeconds?: number
+  ): Promise<string> {
+    try {
+      const id = await redisClient.xadd(
+        key,
+        'MAXLEN',
+        '~',
+        maxLength,
+        '*',
+        'value',
+        JSON.stringify(value)
+      );
+      if (id === null) {
+        throw new Error('No entry ID returned');
+      }
       if (ttlSeconds !== undefined) {
-        await redisClient.setex(key, ttlSeconds, serialized);
-      } else {
-        await redisClient.set(key, serialized);
+        await redisClient.expire(key, ttlSeconds);
       }
+      return id;
+    } catch (error) {
+      throw new Error(
+        `Redis stream append failed for key "${key}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Read stream entries between two IDs, oldest first
+   * @param key - Redis key of the stream
+   * @param start - Lower bound (`-`, an ID, or `(ID` for exclusive)
+   * @param end - Upper bound (`+`, an ID, or `(ID` for exclusive)
+   * @param count - Maximum number of entries to return
+   * @param reverse - Read newest first; `start` is then the upper bound
+   * @returns Entries with their stream IDs
+   */
+  async rangeStream<T>(
+    key: string,
+    start: string,
+    end: string,
+    count: number,
+    reverse = false
+  ): Promise<Array<{ id: string; value: T }>> {
+    try {
+      const raw = reverse
+        ? await redisClient.xrevrange(key, start, end, 'COUNT', count)
+        : await redisClient.xrange(key, start, end, 'COUNT', count);
+
+      return raw.map(([id, fields]) => {
+        const index = fields.indexOf('value');
+        return {
+          id,
+          value: JSON.parse(fields[index + 1] ?? 'null') as T,
+        };
+      });
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        throw new Error(
+          `Failed to parse JSON for key "${key}": ${error.message}`
+        );
+      }
+      throw new Error(
+        `Redis stream range failed for key "${key}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Publish a JSON message on a pub/sub channel
+   * @param channel - Channel name
+   * @param message - Value to serialize as JSON
+   * @returns Number of subscribers that received the message
+   */
+  async publish(channel: string, message: unknown): Promise<number> {
+    try {
+      return await redisClient.publish(channel, JSON.stringify(message));
+    } catch (error) {
+      throw new Error(
+        `Redis publish failed for channel "${channel}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Set a hash field to a JSON value
+   * @param key - Redis key of the hash
+   * @param field - Field name
+   * @param value - Value to serialize as JSON
+   */
+  async setHashField(
+    key: string,
+    field: string,
+    value: unknown
+  ): Promise<void> {
+    try {
+      await redisClient.hset(key, field, JSON.stringify(value));
+    } catch (error) {
+      throw new Error(
+        `Redis hash set failed for key "${key}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Replace an existing hash field with a JSON value
+   * The existence check and the write are one atomic step
+   * @param key - Redis key of the hash
+   * @param field - Field name
+   * @param value - Value to serialize as JSON
+   * @returns true if the field existed and was replaced
+   */
+  async replaceHashField(
+    key: string,
+    field: string,
+    value: unknown
+  ): Promise<boolean> {
+    try {
+      const result = await redisClient.eval(
+        REPLACE_HASH_FIELD_SCRIPT,
+        1,
+        key,
+        field,
+        JSON.stringify(value)
+      );
+      return result === 1;
+    } catch (error) {
+      throw new Error(
+        `Redis hash set failed for key "${key}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Get a hash field and deserialize it as JSON
+   * @returns Parsed JSON value or null if the field doesn't exist
+   */
+  async getHashField<T>(key: string, field: string): Promise<T | null> {
+    try {
+      const value = await redisClient.hget(key, field);
+      return value === null ? null : (JSON.parse(value) as T);
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        throw new Error(
+          `Failed to parse JSON for key "${key}": ${error.message}`
+        );
+      }
+      throw new Error(
+        `Redis hash get failed for key "${key}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Get every value of a hash, deserialized as JSON
+   * @returns Values in no particular order
+   */
+  async getHashValues<T>(key: string): Promise<T[]> {
+    try {
+      const values = await redisClient.hvals(key);
+      return values.map((value) => JSON.parse(value) as T);
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        throw new Error(
+          `Failed to parse JSON for key "${key}": ${error.message}`
+        );
+      }
+      throw new Error(
+        `Redis hash get failed for key "${key}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Delete a hash field
+   * @returns true if the field existed
+   */
+  async deleteHashField(key: string, field: string): Promise<boolean> {
+    try {
+      return (await redisClient.hdel(key, field)) === 1;
+    } catch (error) {
+      throw new Error(
+        `Redis hash delete failed for key "${key}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Prepend a JSON value to a list and trim it to maxLength entries
+   * @param key - Redis key of the list
+   * @param value - Value to serialize as JSON
+   * @param maxLength - Number of most recent entries to keep
+   */
+  async pushToList(
+    key: string,
+    value: unknown,
+    maxLength: number
+  ): Promise<void> {
+    try {
+      const results = await redisClient
+        .multi()
+        .lpush(key, JSON.stringify(value))
+        .ltrim(key, 0, maxLength - 1)
+        .exec();
+      const failed = results?.find(([error]) => error);
+      if (!results || failed) {
+        throw failed?.[0] ?? new Error('Transaction aborted');
+      }
+    } catch (error) {
+      throw new Error(
+        `Redis list push failed for key "${key}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Read the first entries of a list (most recent first for pushToList)
+   * @param key - Redis key of the list
+   * @param limit - Maximum number of entries to return
+   */
+  async rangeList<T>(key: string, limit: number): Promise<T[]> {
+    try {
+      const values = await redisClient.lrange(key, 0, limit - 1);
+      return values.map((value) => JSON.parse(value) as T);
+    } catch (error) {
+      if (error instanceof SyntaxError) {
+        throw new Error(
+          `Failed to parse JSON for key "${key}": ${error.message}`
+        );
+      }
+      throw new Error(
+        `Redis list range failed for key "${key}": ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  }
+
+  /**
+   * Round-trip a PING to Redis
+   * @returns Round-trip time in milliseconds
+   */
+  async ping(): Promise<number> {
+    try {
+      const startedAt = performance.now();
+      await redisClient.ping();
+      return performance.now() - startedAt;
     } catch (error) {
       throw new Error(
-        `Redis set operation failed for key "${key}": ${error instanceof Error ? error.message : String(error)}`
+        `Redis ping failed: ${error instanceof Error ? error.message : String(error)}`
       );
     }
   }
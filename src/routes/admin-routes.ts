@@ -0,0 +1,178 @@
+import { Router } from 'express';
+import { z } from 'zod';
+
+import {
+  getAuditLog,
+  getSchedulerStatus,
+  getUpstreamStatus,
+  refreshEthosStats,
+} from '../controllers/admin-controller.js';
+import {
+  createApiKey,
+  getApiKey,
+  listApiKeys,
+  revokeApiKey,
+  rotateApiKey,
+  updateApiKey,
+} from '../controllers/api-key-controller.js';
+import {
+  createWebhook,
+  deleteWebhook,
+  listWebhookDeadLetters,
+  listWebhooks,
+  rotateWebhookSecret,
+} from '../controllers/webhook-controller.js';
+import { authenticate, authorize } from '../middlewares/auth.js';
+import { routeRateLimit } from '../middlewares/security.js';
+import { validate } from '../middlewares/validation.js';
+import {
+  auditLogQuerySchema,
+  schedulerStatusQuerySchema,
+} from '../validators/admin-validators.js';
+import {
+  apiKeyParamsSchema,
+  createApiKeySchema,
+  rotateApiKeySchema,
+  updateApiKeySchema,
+} from '../validators/api-key-validators.js';
+import {
+  createWebhookSchema,
+  deadLetterQuerySchema,
+  webhookParamsSchema,
+} from '../validators/webhook-validators.js';
+
+export const adminRouter = Router();
+
+// Every admin route requires an authenticated caller
+adminRouter.use(authenticate);
+
+const emptySchema = {
+  query: z.object({}).strict(),
+  params: z.object({}).strict(),
+};
+
+adminRouter.get(
+  '/upstream',
+  authorize(['admin:read']),
+  validate(emptySchema),
+  getUpstreamStatus
+);
+
+// Refreshes call the Ethos API for every tracked activity
+const REFRESH_RATE_LIMIT = { max: 5, windowMs: 15 * 60 * 1000 };
+
+// Runs a refresh cycle now; 409 while a cycle is already running
+adminRouter.post(
+  '/ethos/refresh',
+  authorize(['stats:refresh']),
+  routeRateLimit('admin-refresh', {
+    free: REFRESH_RATE_LIMIT,
+    internal: REFRESH_RATE_LIMIT,
+  }),
+  validate(emptySchema),
+  refreshEthosStats
+);
+
+adminRouter.get(
+  '/scheduler',
+  authorize(['admin:read']),
+  validate({
+    query: schedulerStatusQuerySchema,
+    params: z.object({}).strict(),
+  }),
+  getSchedulerStatus
+);
+
+// Webhook subscriptions
+adminRouter.get(
+  '/webhooks',
+  authorize(['webhooks:read']),
+  validate(emptySchema),
+  listWebhooks
+);
+
+adminRouter.post(
+  '/webhooks',
+  authorize(['webhooks:write']),
+  validate({ ...emptySchema, body: createWebhookSchema }),
+  createWebhook
+);
+
+adminRouter.get(
+  '/webhooks/dead-letters',
+  authorize(['webhooks:read']),
+  validate({ query: deadLetterQuerySchema, params: z.object({}).strict() }),
+  listWebhookDeadLetters
+);
+
+adminRouter.delete(
+  '/webhooks/:id',
+  authorize(['webhooks:write']),
+  validate({ query: z.object({}).strict(), params: webhookParamsSchema }),
+  deleteWebhook
+);
+
+adminRouter.post(
+  '/webhooks/:id/rotate-secret',
+  authorize(['webhooks:write']),
+  validate({ query: z.object({}).strict(), params: webhookParamsSchema }),
+  rotateWebhookSecret
+);
+
+// API keys; every change is recorded in the audit log
+adminRouter.get(
+  '/api-keys',
+  authorize(['keys:read']),
+  validate(emptySchema),
+  listApiKeys
+);
+
+adminRouter.post(
+  '/api-keys',
+  authorize(['keys:write']),
+  validate({ ...emptySchema, body: createApiKeySchema }),
+  createApiKey
+);
+
+adminRouter.get(
+  '/api-keys/:id',
+  authorize(['keys:read']),
+  validate({ query: z.object({}).strict(), params: apiKeyParamsSchema }),
+  getApiKey
+);
+
+adminRouter.patch(
+  '/api-keys/:id',
+  authorize(['keys:write']),
+  validate({
+    query: z.object({}).strict(),
+    params: apiKeyParamsSchema,
+    body: updateApiKeySchema,
+  }),
+  updateApiKey
+);
+
+adminRouter.post(
+  '/api-keys/:id/rotate',
+  authorize(['keys:write']),
+  validate({
+    query: z.object({}).strict(),
+    params: apiKeyParamsSchema,
+    body: rotateApiKeySchema,
+  }),
+  rotateApiKey
+);
+
+adminRouter.delete(
+  '/api-keys/:id',
+  authorize(['keys:write']),
+  validate({ query: z.object({}).strict(), params: apiKeyParamsSchema }),
+  revokeApiKey
+);
+
+adminRouter.get(
+  '/audit',
+  authorize(['audit:read']),
+  validate({ query: auditLogQuerySchema, params: z.object({}).strict() }),
+  getAuditLog
+);
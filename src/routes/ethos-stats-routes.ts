@@ -1,16 +1,55 @@
 import { Router } from 'express';
 import { z } from 'zod';
 
-import { getEthosStats } from '../controllers/ethos-stats-controller.js';
+import {
+  getEthosStats,
+  getEthosStatsHistory,
+  streamEthosStats,
+} from '../controllers/ethos-stats-controller.js';
+import { authenticateOptional, authorize } from '../middlewares/auth.js';
 import { validate } from '../middlewares/validation.js';
+import {
+  ethosStatsHistoryQuerySchema,
+  ethosStatsQuerySchema,
+} from '../validators/ethos-stats-validators.js';
 
 export const ethosStatsRouter = Router();
 
+// Stats are public through the anonymous role; credentials are optional, but
+// invalid ones are still rejected
+ethosStatsRouter.use(authenticateOptional);
+
 // Validation schema for the stats endpoint
-// Currently no parameters, but ready for future additions
+// `type` and `activityId` select the activity; both fall back to defaults
 const statsSchema = {
-  query: z.object({}).strict(), // Reject unknown query parameters
+  query: ethosStatsQuerySchema,
   params: z.object({}).strict(), // Reject unknown route parameters
 };
 
-ethosStatsRouter.get('/stats', validate(statsSchema), getEthosStats);
+ethosStatsRouter.get(
+  '/stats',
+  authorize(['stats:read']),
+  validate(statsSchema),
+  getEthosStats
+);
+
+// Validation schema for the history endpoint
+const historySchema = {
+  query: ethosStatsHistoryQuerySchema,
+  params: z.object({}).strict(),
+};
+
+ethosStatsRouter.get(
+  '/stats/history',
+  authorize(['stats:read']),
+  validate(historySchema),
+  getEthosStatsHistory
+);
+
+// Server-Sent Events; selects the activity like `/stats`
+ethosStatsRouter.get(
+  '/stats/stream',
+  authorize(['stats:read']),
+  validate(statsSchema),
+  streamEthosStats
+);
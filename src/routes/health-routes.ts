@@ -0,0 +1,9 @@
+import { Router } from 'express';
+
+import { getLiveness, getReadiness } from '../controllers/health-controller.js';
+
+export const healthRouter = Router();
+
+// Probes are not authenticated and not rate limited
+healthRouter.get('/healthz', getLiveness);
+healthRouter.get('/readyz', getReadiness);
@@ -0,0 +1,9 @@
+import { Router } from 'express';
+
+import { getMetrics } from '../controllers/metrics-controller.js';
+import { internalOnly } from '../middlewares/security.js';
+
+export const metricsRouter = Router();
+
+// Scraped by Prometheus from inside the network only; not rate limited
+metricsRouter.get('/metrics', internalOnly, getMetrics);
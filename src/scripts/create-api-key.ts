@@ -0,0 +1,42 @@
+import { parseArgs } from 'util';
+
+import { logger } from '../config/logger.js';
+import { closeRedisConnection } from '../config/redis.js';
+import { apiKeyService } from '../services/api-key-service.js';
+import { createApiKeySchema } from '../validators/api-key-validators.js';
+
+/**
+ * Issue an API key from the command line, e.g. the first admin key:
+ *   npm run api-key:create -- --owner ops --scopes admin:read,stats:refresh
+ * Prints the key's details, including the key itself, as JSON
+ */
+const main = async (): Promise<void> => {
+  const { values } = parseArgs({
+    options: {
+      owner: { type: 'string' },
+      scopes: { type: 'string' },
+      'expires-at': { type: 'string' },
+      'rate-limit-tier': { type: 'string' },
+    },
+  });
+
+  const input = createApiKeySchema.parse({
+    owner: values.owner,
+    scopes: values.scopes?.split(',').map((scope) => scope.trim()),
+    expiresAt: values['expires-at'],
+    rateLimitTier: values['rate-limit-tier'],
+  });
+  const created = await apiKeyService.createKey(input, {
+    id: process.env.USER ?? 'unknown',
+    authMethod: 'cli',
+    keyId: null,
+  });
+  process.stdout.write(`${JSON.stringify(created, null, 2)}\n`);
+};
+
+main()
+  .catch((error: unknown) => {
+    logger.error({ err: error }, 'Failed to create API key');
+    process.exitCode = 1;
+  })
+  .finally(() => closeRedisConnection());
@@ -4,22 +4,36 @@ import { app } from './app.js';
 import { env } from './config/env.js';
 import { logger } from './config/logger.js';
 import { closeRedisConnection } from './config/redis.js';
-import { ethosStatsScheduler } from './services/ethos-stats-scheduler.js';
+import { shutdownTracing, startTracing } from './config/tracing.js';
+import './jobs/index.js';
+import { ethosStatsEventsService } from './services/ethos-stats-events-service.js';
+import { healthService } from './services/health-service.js';
+import { jobRegistry } from './services/job-registry.js';
+
+startTracing();
 
 const server = app.listen(env.PORT, () => {
   logger.info(`Server is running at http://localhost:${env.PORT}`);
-  ethosStatsScheduler.start();
+  void jobRegistry.startAll();
 });
 
 const shutdown = async (signal: string) => {
   logger.info(`${signal} received, shutting down gracefully...`);
+  // Fail readiness first, so no new traffic is routed here
+  healthService.markShuttingDown();
+
+  // Open event streams would otherwise keep server.close() from completing
+  await ethosStatsEventsService.close();
 
   server.close(async () => {
     logger.info('HTTP server closed');
     try {
-      ethosStatsScheduler.stop();
+      // Leases are released before Redis closes, so other replicas take
+      // over now
+      await jobRegistry.stopAll();
       await closeRedisConnection();
       logger.info('Redis connection closed');
+      await shutdownTracing();
       process.exit(0);
     } catch (error) {
       logger.error({ err: error }, 'Error during shutdown');
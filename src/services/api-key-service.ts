@@ -0,0 +1,350 @@
+import { logger } from '../config/logger.js';
+import { DEFAULT_RATE_LIMIT_TIER } from '../config/rate-limit.js';
+import { AppError, NotFoundError } from '../errors/app-errors.js';
+import { redisRepository } from '../repositories/redis-repository.js';
+import type { AuditActor } from '../types/audit.js';
+import type {
+  ApiKeyRecord,
+  ApiKeySecretHash,
+  ApiKeyView,
+  CreateApiKeyInput,
+  CreatedApiKey,
+  RotateApiKeyInput,
+  UpdateApiKeyInput,
+} from '../types/auth.js';
+import {
+  generateApiKey,
+  generateApiKeySalt,
+  hashApiKeySecret,
+  maskApiKey,
+  parseApiKey,
+  verifyApiKeySecret,
+} from '../utils/api-key.js';
+import { auditService } from './audit-service.js';
+
+const API_KEYS_KEY = 'ethos:api-keys';
+
+const toView = ({
+  salt: _salt,
+  hash: _hash,
+  previousSecret,
+  ...view
+}: ApiKeyRecord): ApiKeyView => ({
+  ...view,
+  maskedKey: maskApiKey(view.id),
+  previousKeyExpiresAt: previousSecret?.expiresAt ?? null,
+});
+
+/**
+ * Fill in the fields missing from keys stored before they existed
+ */
+const withDefaults = (record: ApiKeyRecord): ApiKeyRecord => ({
+  ...record,
+  labels: record.labels ?? {},
+  rateLimitTier: record.rateLimitTier ?? DEFAULT_RATE_LIMIT_TIER,
+  updatedAt: record.updatedAt ?? null,
+  rotatedAt: record.rotatedAt ?? null,
+  previousSecret: record.previousSecret ?? null,
+});
+
+const isExpired = (expiresAt: string | null): boolean =>
+  expiresAt !== null && Date.parse(expiresAt) <= Date.now();
+
+const hashNewSecret = (secret: string): ApiKeySecretHash => {
+  const salt = generateApiKeySalt();
+  return { salt, hash: hashApiKeySecret(secret, salt) };
+};
+
+/**
+ * Issues and manages API keys and checks the keys presented by callers
+ * Every change is recorded in the audit log
+ */
+export class ApiKeyService {
+  /**
+   * Issue a new API key
+   * @returns The key's details including the key itself, which is only
+   * shown here
+   * @throws Error if the key cannot be stored
+   */
+  async createKey(
+    input: CreateApiKeyInput,
+    actor: AuditActor
+  ): Promise<CreatedApiKey> {
+    const { id, secret, key } = generateApiKey();
+    const record: ApiKeyRecord = {
+      id,
+      owner: input.owner,
+      scopes: input.scopes,
+      labels: input.labels,
+      rateLimitTier: input.rateLimitTier,
+      ...hashNewSecret(secret),
+      createdAt: new Date().toISOString(),
+      updatedAt: null,
+      expiresAt: input.expiresAt,
+      rotatedAt: null,
+      previousSecret: null,
+    };
+    try {
+      await redisRepository.setHashField(API_KEYS_KEY, id, record);
+      logger.info(
+        { keyId: id, owner: record.owner, scopes: record.scopes },
+        'Created API key'
+      );
+    } catch (error) {
+      const errorMessage = `Failed to create API key: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error({ err: error }, errorMessage);
+      throw new Error(errorMessage);
+    }
+
+    await auditService.record({
+      action: 'api-key.created',
+      actor,
+      target: { type: 'api-key', id },
+      details: {
+        owner: record.owner,
+        scopes: record.scopes,
+        labels: record.labels,
+        rateLimitTier: record.rateLimitTier,
+        expiresAt: record.expiresAt,
+      },
+    });
+    return { ...toView(record), key };
+  }
+
+  /**
+   * List keys without their hashes, oldest first
+   * @throws Error if the keys cannot be read
+   */
+  async listKeys(): Promise<ApiKeyView[]> {
+    try {
+      const records =
+        await redisRepository.getHashValues<ApiKeyRecord>(API_KEYS_KEY);
+      return records
+        .map(withDefaults)
+        .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+        .map(toView);
+    } catch (error) {
+      const errorMessage = `Failed to list API keys: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error({ err: error }, errorMessage);
+      throw new Error(errorMessage);
+    }
+  }
+
+  /**
+   * Get one key without its hashes
+   * @throws NotFoundError if the key does not exist
+   */
+  async getKey(id: string): Promise<ApiKeyView> {
+    try {
+      return toView(await this.getRecord(id));
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      const errorMessage = `Failed to get API key: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error({ err: error, keyId: id }, errorMessage);
+      throw new Error(errorMessage);
+    }
+  }
+
+  /**
+   * Change a key's scopes, expiry, labels or rate limit tier
+   * Takes effect on the key's next request
+   * @throws NotFoundError if the key does not exist
+   */
+  async updateKey(
+    id: string,
+    input: UpdateApiKeyInput,
+    actor: AuditActor
+  ): Promise<ApiKeyView> {
+    let record: ApiKeyRecord;
+    let updated: ApiKeyRecord;
+    try {
+      record = await this.getRecord(id);
+      updated = {
+        ...record,
+        scopes: input.scopes ?? record.scopes,
+        // null removes the expiry, so only undefined keeps it
+        expiresAt:
+          input.expiresAt === undefined ? record.expiresAt : input.expiresAt,
+        labels: input.labels ?? record.labels,
+        rateLimitTier: input.rateLimitTier ?? record.rateLimitTier,
+        updatedAt: new Date().toISOString(),
+      };
+      await this.replaceRecord(updated);
+      logger.info({ keyId: id }, 'Updated API key');
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      const errorMessage = `Failed to update API key: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error({ err: error, keyId: id }, errorMessage);
+      throw new Error(errorMessage);
+    }
+
+    const changes = Object.fromEntries(
+      Object.keys(input).map((field) => {
+        const name = field as keyof UpdateApiKeyInput;
+        return [name, { from: record[name], to: updated[name] }];
+      })
+    );
+    await auditService.record({
+      action: 'api-key.updated',
+      actor,
+      target: { type: 'api-key', id },
+      details: { changes },
+    });
+    return toView(updated);
+  }
+
+  /**
+   * Replace a key's secret; the key keeps its ID, scopes and labels
+   * The old secret keeps working for the grace period, unless it is rotated
+   * again in the meantime; the secret before it stops working immediately
+   * @returns The key's details including the new key, which is only shown
+   * here
+   * @throws NotFoundError if the key does not exist
+   */
+  async rotateKey(
+    id: string,
+    { gracePeriodSeconds }: RotateApiKeyInput,
+    actor: AuditActor
+  ): Promise<CreatedApiKey> {
+    const { secret, key } = generateApiKey(id);
+    let rotated: ApiKeyRecord;
+    try {
+      const record = await this.getRecord(id);
+      const now = Date.now();
+      rotated = {
+        ...record,
+        ...hashNewSecret(secret),
+        rotatedAt: new Date(now).toISOString(),
+        previousSecret:
+          gracePeriodSeconds > 0
+            ? {
+                salt: record.salt,
+                hash: record.hash,
+                expiresAt: new Date(
+                  now + gracePeriodSeconds * 1000
+                ).toISOString(),
+              }
+            : null,
+      };
+      await this.replaceRecord(rotated);
+      logger.info({ keyId: id, gracePeriodSeconds }, 'Rotated API key');
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      const errorMessage = `Failed to rotate API key: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error({ err: error, keyId: id }, errorMessage);
+      throw new Error(errorMessage);
+    }
+
+    await auditService.record({
+      action: 'api-key.rotated',
+      actor,
+      target: { type: 'api-key', id },
+      details: {
+        gracePeriodSeconds,
+        previousKeyExpiresAt: rotated.previousSecret?.expiresAt ?? null,
+      },
+    });
+    return { ...toView(rotated), key };
+  }
+
+  /**
+   * Delete a key; it stops working immediately, including any secret still
+   * in its rotation grace period
+   * @throws NotFoundError if the key does not exist
+   */
+  async revokeKey(id: string, actor: AuditActor): Promise<void> {
+    let record: ApiKeyRecord;
+    try {
+      record = await this.getRecord(id);
+      const deleted = await redisRepository.deleteHashField(API_KEYS_KEY, id);
+      if (!deleted) {
+        throw new NotFoundError(`API key ${id} not found`);
+      }
+      logger.info({ keyId: id, owner: record.owner }, 'Revoked API key');
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      const errorMessage = `Failed to revoke API key: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error({ err: error, keyId: id }, errorMessage);
+      throw new Error(errorMessage);
+    }
+
+    await auditService.record({
+      action: 'api-key.revoked',
+      actor,
+      target: { type: 'api-key', id },
+      details: { owner: record.owner, scopes: record.scopes },
+    });
+  }
+
+  /**
+   * Look up the key presented by a caller
+   * The secret replaced by the last rotation is accepted until its grace
+   * period ends
+   * @returns The stored key, or null if it is malformed, unknown, wrong or
+   * expired
+   * @throws Error if the stored keys cannot be read
+   */
+  async verifyKey(key: string): Promise<ApiKeyRecord | null> {
+    const parsed = parseApiKey(key);
+    if (!parsed) return null;
+
+    let stored: ApiKeyRecord | null;
+    try {
+      stored = await redisRepository.getHashField<ApiKeyRecord>(
+        API_KEYS_KEY,
+        parsed.id
+      );
+    } catch (error) {
+      const errorMessage = `Failed to verify API key: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error({ err: error, keyId: parsed.id }, errorMessage);
+      throw new Error(errorMessage);
+    }
+    if (!stored) return null;
+
+    const record = withDefaults(stored);
+    const { previousSecret } = record;
+    const matches =
+      verifyApiKeySecret(parsed.secret, record.salt, record.hash) ||
+      (previousSecret !== null &&
+        !isExpired(previousSecret.expiresAt) &&
+        verifyApiKeySecret(
+          parsed.secret,
+          previousSecret.salt,
+          previousSecret.hash
+        ));
+    if (!matches || isExpired(record.expiresAt)) return null;
+    return record;
+  }
+
+  /**
+   * @throws NotFoundError if the key does not exist
+   */
+  private async getRecord(id: string): Promise<ApiKeyRecord> {
+    const record = await redisRepository.getHashField<ApiKeyRecord>(
+      API_KEYS_KEY,
+      id
+    );
+    if (!record) {
+      throw new NotFoundError(`API key ${id} not found`);
+    }
+    return withDefaults(record);
+  }
+
+  /**
+   * Write back a key read earlier, unless it was revoked in the meantime;
+   * a plain write would bring a revoked key back to life
+   * @throws NotFoundError if the key no longer exists
+   */
+  private async replaceRecord(record: ApiKeyRecord): Promise<void> {
+    const replaced = await redisRepository.replaceHashField(
+      API_KEYS_KEY,
+      record.id,
+      record
+    );
+    if (!replaced) {
+      throw new NotFoundError(`API key ${record.id} not found`);
+    }
+  }
+}
+
+export const apiKeyService = new ApiKeyService();
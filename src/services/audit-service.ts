@@ -0,0 +1,62 @@
+import { randomUUID } from 'crypto';
+
+import { logger } from '../config/logger.js';
+import { redisRepository } from '../repositories/redis-repository.js';
+import type { AuditEntry, AuditEvent } from '../types/audit.js';
+import { getRequestContext } from '../utils/request-context.js';
+
+const AUDIT_LOG_KEY = 'ethos:audit';
+const AUDIT_LOG_MAX_ENTRIES = 10000;
+
+/**
+ * Records administrative changes in an append-only audit log
+ */
+export class AuditService {
+  /**
+   * Record a change that has already been made
+   * Every entry is also logged, so it is not lost if Redis rejects it;
+   * failures are never thrown, as the change itself cannot be undone
+   * @returns The stored entry
+   */
+  async record(event: AuditEvent): Promise<AuditEntry> {
+    const entry: AuditEntry = {
+      id: randomUUID(),
+      at: new Date().toISOString(),
+      action: event.action,
+      actor: event.actor,
+      requestId: getRequestContext()?.requestId ?? null,
+      target: event.target,
+      details: event.details,
+    };
+    logger.info({ audit: entry }, `Audit: ${entry.action}`);
+    try {
+      await redisRepository.pushToList(
+        AUDIT_LOG_KEY,
+        entry,
+        AUDIT_LOG_MAX_ENTRIES
+      );
+    } catch (error) {
+      logger.error(
+        { err: error, auditId: entry.id, action: entry.action },
+        'Failed to store audit entry'
+      );
+    }
+    return entry;
+  }
+
+  /**
+   * List audit entries, most recent first
+   * @throws Error if the audit log cannot be read
+   */
+  async getEntries(limit: number): Promise<AuditEntry[]> {
+    try {
+      return await redisRepository.rangeList<AuditEntry>(AUDIT_LOG_KEY, limit);
+    } catch (error) {
+      const errorMessage = `Failed to read audit log: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error({ err: error, key: AUDIT_LOG_KEY }, errorMessage);
+      throw new Error(errorMessage);
+    }
+  }
+}
+
+export const auditService = new AuditService();
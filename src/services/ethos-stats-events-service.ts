@@ -0,0 +1,217 @@
+import { EventEmitter } from 'events';
+import type { Redis } from 'ioredis';
+
+import { logger } from '../config/logger.js';
+import { createRedisSubscriber } from '../config/redis.js';
+import { redisRepository } from '../repositories/redis-repository.js';
+import type { CacheEnvelope } from '../types/cache-envelope.js';
+import type {
+  EthosStats,
+  EthosStatsEvent,
+  EthosStatsQuery,
+} from '../types/ethos-stats.js';
+
+const EVENTS_KEY_PREFIX = 'ethos:stats:events';
+const EVENTS_CHANNEL = 'ethos:stats:events';
+const EVENTS_MAX_RETAINED = 100; // Events kept per activity for resuming
+const END_EVENT = 'end';
+
+/**
+ * Build the per-activity event stream key, e.g. `ethos:stats:events:attestation:223`
+ */
+export const buildEventsKey = (query: EthosStatsQuery): string =>
+  `${EVENTS_KEY_PREFIX}:${query.type}:${query.activityId}`;
+
+export interface EthosStatsEventListener {
+  onEvent(event: EthosStatsEvent): void;
+  // Called when the service shuts down; the listener should end its stream
+  onEnd(): void;
+}
+
+/**
+ * Fans out changed stats payloads to stream subscribers on every replica
+ *
+ * Each change is appended to a capped per-activity Redis stream, whose entry
+ * IDs serve as event IDs for resuming, and published on a pub/sub channel
+ * that every replica listens to with a dedicated connection
+ */
+export class EthosStatsEventsService {
+  private readonly emitter = new EventEmitter();
+  private subscriber: Redis | null = null;
+  private subscribing: Promise<void> | null = null;
+
+  constructor() {
+    // One listener per open stream
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Record a changed payload and notify subscribers on all replicas
+   * Best effort: a failure here must not fail the refresh that stored it
+   * @param query - Activity the payload belongs to
+   * @param envelope - The newly stored cache envelope
+   * @param ttlSeconds - Optional TTL of the activity's event stream
+   */
+  async publish(
+    query: EthosStatsQuery,
+    envelope: CacheEnvelope<EthosStats>,
+    ttlSeconds?: number
+  ): Promise<void> {
+    const key = buildEventsKey(query);
+    try {
+      const id = await redisRepository.appendToStream(
+        key,
+        envelope,
+        EVENTS_MAX_RETAINED,
+        ttlSeconds
+      );
+      const event: EthosStatsEvent = { id, query, envelope };
+      await redisRepository.publish(EVENTS_CHANNEL, event);
+      logger.info({ key, id }, 'Published Ethos stats update');
+    } catch (error) {
+      logger.warn({ err: error, key }, 'Failed to publish Ethos stats update');
+    }
+  }
+
+  /**
+   * Listen for changes to one activity
+   * @param query - Activity to listen to
+   * @param listener - Receives events published by any replica
+   * @returns Function that removes the listener
+   * @throws Error if the pub/sub subscription cannot be established
+   */
+  async subscribe(
+    query: EthosStatsQuery,
+    listener: EthosStatsEventListener
+  ): Promise<() => void> {
+    await this.ensureSubscribed();
+
+    const key = buildEventsKey(query);
+    const onEvent = (event: EthosStatsEvent) => listener.onEvent(event);
+    const onEnd = () => listener.onEnd();
+    this.emitter.on(key, onEvent);
+    this.emitter.on(END_EVENT, onEnd);
+
+    return () => {
+      this.emitter.off(key, onEvent);
+      this.emitter.off(END_EVENT, onEnd);
+    };
+  }
+
+  /**
+   * Get the events published after a given event, oldest first
+   * @param query - Activity to read
+   * @param lastEventId - ID of the last event the client received
+   * @returns The missed events, or null if `lastEventId` is no longer
+   * retained (or never existed) and the gap cannot be filled
+   * @throws Error if the stream cannot be read
+   */
+  async getEventsSince(
+    query: EthosStatsQuery,
+    lastEventId: string
+  ): Promise<EthosStatsEvent[] | null> {
+    const key = buildEventsKey(query);
+    try {
+      // Inclusive range: the first entry proves lastEventId is still retained
+      const entries = await redisRepository.rangeStream<
+        CacheEnvelope<EthosStats>
+      >(key, lastEventId, '+', EVENTS_MAX_RETAINED + 1);
+      if (entries[0]?.id !== lastEventId) return null;
+
+      return entries
+        .slice(1)
+        .map((entry) => ({ id: entry.id, query, envelope: entry.value }));
+    } catch (error) {
+      const errorMessage = `Failed to read Ethos stats events: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error({ err: error, key }, errorMessage);
+      throw new Error(errorMessage);
+    }
+  }
+
+  /**
+   * Get the ID of the most recent event for an activity
+   * @returns The event ID, or null if nothing was published yet
+   * @throws Error if the stream cannot be read
+   */
+  async getLatestEventId(query: EthosStatsQuery): Promise<string | null> {
+    const key = buildEventsKey(query);
+    try {
+      const [latest] = await redisRepository.rangeStream<unknown>(
+        key,
+        '+',
+        '-',
+        1,
+        true
+      );
+      return latest?.id ?? null;
+    } catch (error) {
+      const errorMessage = `Failed to read Ethos stats events: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error({ err: error, key }, errorMessage);
+      throw new Error(errorMessage);
+    }
+  }
+
+  /**
+   * End every open stream and close the pub/sub connection
+   */
+  async close(): Promise<void> {
+    this.emitter.emit(END_EVENT);
+
+    const subscriber = this.subscriber;
+    this.subscriber = null;
+    this.subscribing = null;
+    if (!subscriber) return;
+
+    try {
+      await subscriber.quit();
+    } catch (error) {
+      logger.error({ err: error }, 'Redis subscriber quit failed');
+      subscriber.disconnect();
+    }
+  }
+
+  /**
+   * Open the shared pub/sub connection on first use
+   * ioredis re-subscribes by itself after reconnecting
+   */
+  private ensureSubscribed(): Promise<void> {
+    if (this.subscribing) return this.subscribing;
+
+    const subscriber = createRedisSubscriber();
+    subscriber.on('message', (_channel: string, message: string) => {
+      this.handleMessage(message);
+    });
+    this.subscriber = subscriber;
+    this.subscribing = subscriber
+      .subscribe(EVENTS_CHANNEL)
+      .then(() => {
+        logger.info(
+          { channel: EVENTS_CHANNEL },
+          'Subscribed to Ethos stats events'
+        );
+      })
+      .catch((error: unknown) => {
+        // Let the next caller try again with a fresh connection
+        this.subscriber = null;
+        this.subscribing = null;
+        subscriber.disconnect();
+        const errorMessage = `Failed to subscribe to Ethos stats events: ${error instanceof Error ? error.message : String(error)}`;
+        logger.error({ err: error, channel: EVENTS_CHANNEL }, errorMessage);
+        throw new Error(errorMessage);
+      });
+    return this.subscribing;
+  }
+
+  private handleMessage(message: string): void {
+    let event: EthosStatsEvent;
+    try {
+      event = JSON.parse(message) as EthosStatsEvent;
+    } catch (error) {
+      logger.warn({ err: error }, 'Ignoring malformed Ethos stats event');
+      return;
+    }
+    this.emitter.emit(buildEventsKey(event.query), event);
+  }
+}
+
+export const ethosStatsEventsService = new EthosStatsEventsService();
@@ -1,98 +1,697 @@
 import axios from 'axios';
+import type { AxiosResponse } from 'axios';
+import { randomUUID } from 'crypto';
 
+import type { CircuitBreakerStatus } from '../clients/circuit-breaker.js';
+import { ethosApiClient } from '../clients/ethos-api-client.js';
 import { env } from '../config/env.js';
 import { logger } from '../config/logger.js';
+import { statsCacheRequestsTotal } from '../config/metrics.js';
+import {
+  AppError,
+  UpstreamError,
+  UpstreamValidationError,
+} from '../errors/app-errors.js';
 import { redisRepository } from '../repositories/redis-repository.js';
-import type { EthosStats } from '../types/ethos-stats.js';
+import type { CacheEnvelope, CacheSource } from '../types/cache-envelope.js';
+import type {
+  CacheStatus,
+  EthosStats,
+  EthosStatsHistoryPage,
+  EthosStatsHistoryQuery,
+  EthosStatsQuery,
+  EthosStatsRefreshResult,
+  EthosStatsResult,
+  EthosStatsSnapshot,
+} from '../types/ethos-stats.js';
+import type { Fence } from '../types/leader-lease.js';
+import {
+  createCacheEnvelope,
+  upgradeCacheEntry,
+} from '../utils/cache-envelope.js';
+import { encodeCursor } from '../utils/cursor.js';
+import { SingleFlight } from '../utils/single-flight.js';
+import { sleep } from '../utils/sleep.js';
+import {
+  DEFAULT_ACTIVITY_ID,
+  DEFAULT_VOTE_TYPE,
+  ethosStatsSchemaFor,
+} from '../validators/ethos-stats-validators.js';
+import { ethosStatsEventsService } from './ethos-stats-events-service.js';
+import { webhookService } from './webhook-service.js';
 
-const REDIS_KEY = 'ethos:stats';
-const CACHE_TTL_SECONDS = 43200; // 12 hours
+const REDIS_KEY_PREFIX = 'ethos:stats';
+// Key of the default activity's stats before per-activity keys existed, and
+// the TTL its raw entries were written with
+const LEGACY_STATS_KEY = 'ethos:stats';
+const LEGACY_CACHE_TTL_SECONDS = 43200; // 12 hours
+const HISTORY_KEY_PREFIX = 'ethos:stats:history';
+const LAST_KNOWN_GOOD_KEY_PREFIX = 'ethos:stats:lkg';
+const STALE_REVALIDATE_DELAY_MS = 30_000; // 30 seconds
+const LOCK_KEY_PREFIX = 'ethos:stats:lock';
+const FETCH_LOCK_TTL_MS = 30_000; // Upper bound for one fetch, retries included
+const FETCH_LOCK_WAIT_MS = 15_000;
+const FETCH_LOCK_POLL_INTERVAL_MS = 100;
+const HISTORY_MAX_SNAPSHOTS = 2000; // ~16 months at four refreshes per day
+// How long the last known good copy, history and events of an activity the
+// refresh job does not keep warm outlive its last fetch
+const COLD_ACTIVITY_RETENTION_SECONDS = 7 * 24 * 60 * 60; // 7 days
+const STATS_PATH = '/votes/stats';
+
+export const DEFAULT_STATS_QUERY: EthosStatsQuery = {
+  type: DEFAULT_VOTE_TYPE,
+  activityId: DEFAULT_ACTIVITY_ID,
+};
+
+const isDefaultQuery = (query: EthosStatsQuery): boolean =>
+  query.type === DEFAULT_STATS_QUERY.type &&
+  query.activityId === DEFAULT_STATS_QUERY.activityId;
+
+/**
+ * Metric label of an activity, e.g. `attestation:223`
+ * Callers choose the activity, so only the one the refresh job keeps warm
+ * gets its own series; every other activity is counted as `other`
+ */
+const toStatsKeyLabel = (query: EthosStatsQuery): string =>
+  isDefaultQuery(query) ? `${query.type}:${query.activityId}` : 'other';
+
+/**
+ * Build the per-activity Redis key, e.g. `ethos:stats:attestation:223`
+ */
+export const buildStatsKey = (query: EthosStatsQuery): string =>
+  `${REDIS_KEY_PREFIX}:${query.type}:${query.activityId}`;
+
+/**
+ * Build the per-activity history key, e.g. `ethos:stats:history:attestation:223`
+ */
+export const buildHistoryKey = (query: EthosStatsQuery): string =>
+  `${HISTORY_KEY_PREFIX}:${query.type}:${query.activityId}`;
+
+/**
+ * Build the per-activity last known good key, e.g. `ethos:stats:lkg:attestation:223`
+ * Entries under this key never expire for the default activity
+ */
+export const buildLastKnownGoodKey = (query: EthosStatsQuery): string =>
+  `${LAST_KNOWN_GOOD_KEY_PREFIX}:${query.type}:${query.activityId}`;
+
+/**
+ * Build the per-activity fetch lock key, e.g. `ethos:stats:lock:attestation:223`
+ */
+export const buildLockKey = (query: EthosStatsQuery): string =>
+  `${LOCK_KEY_PREFIX}:${query.type}:${query.activityId}`;
+
+/**
+ * Build the upstream stats URL from the configured base URL and query
+ */
+export const buildStatsUrl = (query: EthosStatsQuery): string => {
+  const url = new URL(
+    `${env.ETHOS_API_BASE_URL.replace(/\/+$/, '')}${STATS_PATH}`
+  );
+  url.searchParams.set('type', query.type);
+  url.searchParams.set('activityId', String(query.activityId));
+  return url.toString();
+};
+
+/**
+ * Split a cache envelope into the payload and its metadata
+ */
+const toStatsResult = (
+  envelope: CacheEnvelope<EthosStats>,
+  cacheStatus: CacheStatus
+): EthosStatsResult => {
+  const { data, ...meta } = envelope;
+  return { data, cacheStatus, meta };
+};
 
 export class EthosStatsService {
+  // Activities whose primary copy is being revalidated in the background
+  private readonly pendingRevalidations = new Set<string>();
+  // In-process coalescing of cache-miss fetches, keyed by cache key
+  private readonly missFlights = new SingleFlight<EthosStatsResult>();
+
   /**
-   * Fetch stats from the Ethos API
+   * Fetch stats for a single activity from the Ethos API
+   * @param query - Vote type and activity ID to fetch
    * @returns Promise resolving to EthosStats
-   * @throws Error if the API request fails
+   * @throws UpstreamError if the API request fails after retries, or the
+   * circuit breaker is open
+   * @throws UpstreamValidationError if the response does not match the schema
    */
-  async fetchStatsFromApi(): Promise<EthosStats> {
+  async fetchStatsFromApi(
+    query: EthosStatsQuery = DEFAULT_STATS_QUERY
+  ): Promise<EthosStats> {
+    const { data } = await this.fetchFromApi(query);
+    return data;
+  }
+
+  /**
+   * Fetch stats together with metadata about the upstream response
+   */
+  private async fetchFromApi(
+    query: EthosStatsQuery
+  ): Promise<{ data: EthosStats; source: CacheSource }> {
+    const url = buildStatsUrl(query);
+    const startedAt = Date.now();
+    let response: AxiosResponse<unknown>;
     try {
-      logger.info({ url: env.ETHOS_API_URL }, 'Fetching stats from Ethos API');
-      const response = await axios.get<EthosStats>(env.ETHOS_API_URL);
-      logger.info(
-        { url: env.ETHOS_API_URL, status: response.status },
-        'Successfully fetched stats from Ethos API'
-      );
-      return response.data;
+      logger.info({ url }, 'Fetching stats from Ethos API');
+      response = await ethosApiClient.get<unknown>(url);
     } catch (error) {
+      // Short-circuited by the breaker: already a typed upstream error
+      if (error instanceof UpstreamError) {
+        logger.warn({ err: error, url }, error.message);
+        throw error;
+      }
       if (axios.isAxiosError(error)) {
         const errorMessage = `Failed to fetch stats from Ethos API: ${error.message}`;
         logger.error(
           {
             err: error,
-            url: env.ETHOS_API_URL,
+            url,
             status: error.response?.status,
           },
           errorMessage
         );
-        throw new Error(errorMessage);
+        throw new UpstreamError(errorMessage, error.response?.status, {
+          cause: error,
+        });
       }
       const errorMessage = `Unexpected error fetching stats from Ethos API: ${error instanceof Error ? error.message : String(error)}`;
       logger.error({ err: error }, errorMessage);
-      throw new Error(errorMessage);
+      throw new UpstreamError(errorMessage, undefined, { cause: error });
+    }
+
+    const parsed = ethosStatsSchemaFor(query).safeParse(response.data);
+    if (!parsed.success) {
+      const errorMessage = 'Invalid stats payload received from Ethos API';
+      logger.error(
+        { url, status: response.status, issues: parsed.error.issues },
+        errorMessage
+      );
+      throw new UpstreamValidationError(
+        errorMessage,
+        parsed.error.issues,
+        response.status
+      );
     }
+
+    const latencyMs = Date.now() - startedAt;
+    logger.info(
+      { url, status: response.status, latencyMs },
+      'Successfully fetched stats from Ethos API'
+    );
+    const etag: unknown = response.headers?.['etag'];
+    return {
+      data: parsed.data,
+      source: {
+        url,
+        status: response.status,
+        latencyMs,
+        etag: typeof etag === 'string' ? etag : null,
+      },
+    };
   }
 
   /**
    * Get stats from cache, or fetch from API if cache miss
-   * @returns Promise resolving to EthosStats
-   * @throws Error if both cache and API fetch fail
+   * Falls back to the last known good copy when the API is unavailable
+   * @param query - Vote type and activity ID to serve
+   * @returns Promise resolving to the stats and how they were served
+   * @throws Error if the cache, the API and the stale fallback all fail
    */
-  async getStats(): Promise<EthosStats> {
+  async getStats(
+    query: EthosStatsQuery = DEFAULT_STATS_QUERY
+  ): Promise<EthosStatsResult> {
+    const key = buildStatsKey(query);
+    const statsKey = toStatsKeyLabel(query);
     try {
-      const cachedStats = await redisRepository.get<EthosStats>(REDIS_KEY);
-      if (cachedStats !== null) {
-        logger.info({ key: REDIS_KEY }, 'Cache hit for Ethos stats');
-        return cachedStats;
-      }
-
-      logger.info(
-        { key: REDIS_KEY },
-        'Cache miss for Ethos stats, fetching from API'
-      );
-      const stats = await this.fetchStatsFromApi();
-      await redisRepository.set(REDIS_KEY, stats, CACHE_TTL_SECONDS);
-      logger.info(
-        { key: REDIS_KEY, ttl: CACHE_TTL_SECONDS },
-        'Cached Ethos stats with TTL'
-      );
-      return stats;
+      const result = await this.lookupStats(query);
+      statsCacheRequestsTotal.inc({
+        stats_key: statsKey,
+        cache_status: result.cacheStatus,
+      });
+      return result;
     } catch (error) {
+      statsCacheRequestsTotal.inc({
+        stats_key: statsKey,
+        cache_status: 'ERROR',
+      });
       const errorMessage = `Failed to get Ethos stats: ${error instanceof Error ? error.message : String(error)}`;
-      logger.error({ err: error, key: REDIS_KEY }, errorMessage);
+      logger.error({ err: error, key }, errorMessage);
+      // Domain errors keep their type so the error handler can map them
+      if (error instanceof AppError) throw error;
+      throw new Error(errorMessage);
+    }
+  }
+
+  /**
+   * Read the primary copy without falling back to the API
+   * @param query - Vote type and activity ID to read
+   * @returns The cached stats, or null if nothing is cached
+   * @throws Error if the cache cannot be read
+   */
+  async getCachedStats(
+    query: EthosStatsQuery = DEFAULT_STATS_QUERY
+  ): Promise<EthosStatsResult | null> {
+    const key = buildStatsKey(query);
+    try {
+      return await this.readPrimary(query);
+    } catch (error) {
+      const errorMessage = `Failed to read cached Ethos stats: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error({ err: error, key }, errorMessage);
+      throw new Error(errorMessage);
+    }
+  }
+
+  /**
+   * Read the last known good copy, which outlives the primary copy
+   * @param query - Vote type and activity ID to read
+   * @returns The copy, or null if the activity's stats were never stored
+   * @throws Error if the copy cannot be read
+   */
+  async getLastKnownGoodStats(
+    query: EthosStatsQuery = DEFAULT_STATS_QUERY
+  ): Promise<CacheEnvelope<EthosStats> | null> {
+    const key = buildLastKnownGoodKey(query);
+    try {
+      return await this.readLastKnownGood(query);
+    } catch (error) {
+      const errorMessage = `Failed to read last known good stats: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error({ err: error, key }, errorMessage);
       throw new Error(errorMessage);
     }
   }
 
   /**
    * Refresh the cache by fetching fresh data from the API
-   * @returns Promise resolving to void
-   * @throws Error if the API fetch or cache update fails
+   * @param query - Vote type and activity ID to refresh
+   * @param fence - Leadership term of a scheduled refresh; the cache is
+   * only written while no other replica has taken over since
+   * @returns Promise resolving to the stored metadata and whether the
+   * payload changed
+   * @throws Error if the API fetch or cache update fails, or the fence is
+   * stale
    */
-  async refreshCache(): Promise<void> {
+  async refreshCache(
+    query: EthosStatsQuery = DEFAULT_STATS_QUERY,
+    fence: Fence | null = null
+  ): Promise<EthosStatsRefreshResult> {
+    const key = buildStatsKey(query);
     try {
-      logger.info({ key: REDIS_KEY }, 'Refreshing Ethos stats cache');
-      const stats = await this.fetchStatsFromApi();
-      await redisRepository.set(REDIS_KEY, stats, CACHE_TTL_SECONDS);
+      logger.info({ key }, 'Refreshing Ethos stats cache');
+      const fetched = await this.fetchFromApi(query);
+      const { envelope, changed } = await this.storeStats(
+        query,
+        fetched,
+        fence
+      );
       logger.info(
-        { key: REDIS_KEY, ttl: CACHE_TTL_SECONDS },
+        { key, ttl: env.CACHE_TTL_SECONDS },
         'Successfully refreshed Ethos stats cache'
       );
+      const { data: _data, ...meta } = envelope;
+      return { changed, meta };
     } catch (error) {
       const errorMessage = `Failed to refresh Ethos stats cache: ${error instanceof Error ? error.message : String(error)}`;
-      logger.error({ err: error, key: REDIS_KEY }, errorMessage);
+      logger.error({ err: error, key }, errorMessage);
+      if (error instanceof AppError) throw error;
+      throw new Error(errorMessage);
+    }
+  }
+
+  /**
+   * Get historical snapshots for an activity, oldest first
+   * @param query - Activity, time range and pagination options
+   * @returns Promise resolving to one page of snapshots
+   * @throws Error if the history cannot be read
+   */
+  async getHistory(
+    query: EthosStatsHistoryQuery
+  ): Promise<EthosStatsHistoryPage> {
+    const key = buildHistoryKey(query);
+    try {
+      // The cursor is the score of the last returned snapshot (exclusive)
+      const min =
+        query.cursor !== undefined
+          ? `(${query.cursor}`
+          : (query.from?.getTime() ?? '-inf');
+      const max = query.to?.getTime() ?? '+inf';
+
+      // Fetch one extra entry to know whether another page exists
+      const entries = await redisRepository.rangeByScore<EthosStatsSnapshot>(
+        key,
+        min,
+        max,
+        query.limit + 1
+      );
+      const page = entries.slice(0, query.limit);
+      const last = page[page.length - 1];
+
+      return {
+        items: page.map((entry) => entry.value),
+        nextCursor:
+          entries.length > query.limit && last
+            ? encodeCursor(last.score)
+            : null,
+      };
+    } catch (error) {
+      const errorMessage = `Failed to get Ethos stats history: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error({ err: error, key }, errorMessage);
       throw new Error(errorMessage);
     }
   }
+
+  /**
+   * Get the Ethos API client's circuit breaker status
+   */
+  getUpstreamStatus(): CircuitBreakerStatus {
+    return ethosApiClient.getStatus();
+  }
+
+  /**
+   * Serve from the primary copy, the stale copy while revalidating, or the
+   * API
+   */
+  private async lookupStats(query: EthosStatsQuery): Promise<EthosStatsResult> {
+    const key = buildStatsKey(query);
+    const cached = await this.readPrimary(query);
+    if (cached !== null) {
+      logger.info({ key }, 'Cache hit for Ethos stats');
+      return cached;
+    }
+
+    // Upstream already failed recently: answer from the stale copy
+    // instead of making this request wait on it again
+    if (this.pendingRevalidations.has(key)) {
+      const stale = await this.getLastKnownGood(query);
+      if (stale) {
+        logger.info({ key }, 'Serving stale Ethos stats during revalidation');
+        return toStatsResult(stale, 'STALE');
+      }
+    }
+
+    logger.info({ key }, 'Cache miss for Ethos stats, fetching from API');
+    // Concurrent misses for the same activity share one upstream fetch
+    return this.missFlights.run(key, () => this.loadWithLock(query));
+  }
+
+  /**
+   * Read the primary copy with its remaining TTL
+   * Until the default activity is first stored under its own key, its copy
+   * under the legacy `ethos:stats` key is served, so a deploy does not start
+   * from an empty cache
+   * Raw entries written before envelopes existed are upgraded on read; their
+   * fetch time is derived from the TTL the key is always written with:
+   * LEGACY_CACHE_TTL_SECONDS for the legacy key, CACHE_TTL_SECONDS otherwise
+   */
+  private async readPrimary(
+    query: EthosStatsQuery
+  ): Promise<EthosStatsResult | null> {
+    const primary = await redisRepository.getWithTtl<unknown>(
+      buildStatsKey(query)
+    );
+    const legacy =
+      primary === null && isDefaultQuery(query)
+        ? await redisRepository.getWithTtl<unknown>(LEGACY_STATS_KEY)
+        : null;
+    const cached = primary ?? legacy;
+    if (cached === null) return null;
+
+    const writtenTtlSeconds = legacy
+      ? LEGACY_CACHE_TTL_SECONDS
+      : env.CACHE_TTL_SECONDS;
+    const ageMs =
+      cached.ttlMs !== null
+        ? Math.max(0, writtenTtlSeconds * 1000 - cached.ttlMs)
+        : 0;
+    const envelope = upgradeCacheEntry<EthosStats>(
+      cached.value,
+      new Date(Date.now() - ageMs).toISOString()
+    );
+    const result = toStatsResult(envelope, 'HIT');
+    if (cached.ttlMs !== null) {
+      result.ttlSeconds = Math.floor(cached.ttlMs / 1000);
+    }
+    return result;
+  }
+
+  /**
+   * Load stats on a cache miss while holding the per-activity fetch lock,
+   * so only one replica calls the API at a time
+   * Replicas that lose the race wait for the winner to fill the cache
+   */
+  private async loadWithLock(
+    query: EthosStatsQuery
+  ): Promise<EthosStatsResult> {
+    const key = buildStatsKey(query);
+    const lockKey = buildLockKey(query);
+    const token = randomUUID();
+    const deadline = Date.now() + FETCH_LOCK_WAIT_MS;
+
+    while (!(await this.tryAcquireLock(lockKey, token))) {
+      if (Date.now() >= deadline) {
+        logger.warn(
+          { key, lockKey },
+          'Timed out waiting for Ethos stats fetch lock, fetching anyway'
+        );
+        return this.loadFromApi(query);
+      }
+
+      await sleep(FETCH_LOCK_POLL_INTERVAL_MS);
+      const cached = await this.readPrimary(query);
+      if (cached !== null) {
+        logger.info({ key }, 'Ethos stats cached by another instance');
+        return cached;
+      }
+    }
+
+    try {
+      return await this.loadFromApi(query);
+    } finally {
+      await this.releaseLock(lockKey, token);
+    }
+  }
+
+  /**
+   * Fetch stats from the API and cache them, falling back to the last known
+   * good copy if the API is unavailable
+   */
+  private async loadFromApi(query: EthosStatsQuery): Promise<EthosStatsResult> {
+    const key = buildStatsKey(query);
+    let fetched: { data: EthosStats; source: CacheSource };
+    try {
+      fetched = await this.fetchFromApi(query);
+    } catch (error) {
+      const stale =
+        error instanceof UpstreamError
+          ? await this.getLastKnownGood(query)
+          : null;
+      if (!stale) throw error;
+
+      logger.warn(
+        { err: error, key, fetchedAt: stale.fetchedAt },
+        'Ethos API unavailable, serving stale stats'
+      );
+      this.scheduleRevalidation(query);
+      return toStatsResult(stale, 'STALE');
+    }
+
+    const { envelope } = await this.storeStats(query, fetched);
+    logger.info(
+      { key, ttl: env.CACHE_TTL_SECONDS },
+      'Cached Ethos stats with TTL'
+    );
+    return {
+      ...toStatsResult(envelope, 'MISS'),
+      ttlSeconds: env.CACHE_TTL_SECONDS,
+    };
+  }
+
+  /**
+   * Acquire the fetch lock; if Redis cannot answer, proceed without it
+   * rather than blocking every request on the lock
+   */
+  private async tryAcquireLock(
+    lockKey: string,
+    token: string
+  ): Promise<boolean> {
+    try {
+      return await redisRepository.acquireLock(
+        lockKey,
+        token,
+        FETCH_LOCK_TTL_MS
+      );
+    } catch (error) {
+      logger.warn({ err: error, lockKey }, 'Failed to acquire fetch lock');
+      return true;
+    }
+  }
+
+  private async releaseLock(lockKey: string, token: string): Promise<void> {
+    try {
+      await redisRepository.releaseLock(lockKey, token);
+    } catch (error) {
+      // The lock expires on its own after FETCH_LOCK_TTL_MS
+      logger.warn({ err: error, lockKey }, 'Failed to release fetch lock');
+    }
+  }
+
+  /**
+   * Write freshly fetched stats to the primary cache (with TTL), the last
+   * known good copy and the history, and notify stream subscribers if the
+   * payload changed and webhook subscribers if it replaced a different one
+   * Callers can ask for any activity, so everything kept for an activity
+   * other than the default one expires COLD_ACTIVITY_RETENTION_SECONDS
+   * after its last fetch instead of piling up in Redis
+   * @returns The envelope that was stored and whether the payload changed
+   * @throws Error if the fence is stale; nothing is written or notified then
+   */
+  private async storeStats(
+    query: EthosStatsQuery,
+    fetched: { data: EthosStats; source: CacheSource },
+    fence: Fence | null = null
+  ): Promise<{ envelope: CacheEnvelope<EthosStats>; changed: boolean }> {
+    const envelope = createCacheEnvelope(fetched.data, fetched.source);
+    // The last known good copy always holds the most recently stored payload
+    const previous = await this.getLastKnownGood(query);
+    const changed = previous?.contentHash !== envelope.contentHash;
+    const retentionSeconds = isDefaultQuery(query)
+      ? undefined
+      : COLD_ACTIVITY_RETENTION_SECONDS;
+
+    await this.writeStats(
+      buildStatsKey(query),
+      envelope,
+      fence,
+      env.CACHE_TTL_SECONDS
+    );
+    await this.writeStats(
+      buildLastKnownGoodKey(query),
+      envelope,
+      fence,
+      retentionSeconds
+    );
+    await this.recordSnapshot(
+      query,
+      { fetchedAt: envelope.fetchedAt, data: envelope.data },
+      retentionSeconds
+    );
+    if (changed) {
+      await ethosStatsEventsService.publish(query, envelope, retentionSeconds);
+    }
+    // Any caller can make a first fetch happen by asking for a new activity,
+    // so only a payload that replaces another one is worth a webhook
+    if (changed && previous) {
+      await webhookService.notifyStatsChanged(query, previous, envelope);
+    }
+    return { envelope, changed };
+  }
+
+  /**
+   * Write stats to one key; with a fence, Redis rejects the write once
+   * another replica has taken over the lease
+   * @throws Error if the fence is stale
+   */
+  private async writeStats(
+    key: string,
+    envelope: CacheEnvelope<EthosStats>,
+    fence: Fence | null,
+    ttlSeconds?: number
+  ): Promise<void> {
+    if (!fence) {
+      await redisRepository.set(key, envelope, ttlSeconds);
+      return;
+    }
+
+    const written = await redisRepository.setIfFenced(
+      key,
+      envelope,
+      fence.key,
+      fence.token,
+      ttlSeconds
+    );
+    if (!written) {
+      throw new Error(
+        `Fencing token ${fence.token} is stale, another replica took over`
+      );
+    }
+  }
+
+  /**
+   * Read the last known good copy, used when the primary copy has expired
+   * and the API is unavailable
+   * Returns null rather than throwing: it is only ever a fallback
+   */
+  private async getLastKnownGood(
+    query: EthosStatsQuery
+  ): Promise<CacheEnvelope<EthosStats> | null> {
+    try {
+      return await this.readLastKnownGood(query);
+    } catch (error) {
+      logger.warn(
+        { err: error, key: buildLastKnownGoodKey(query) },
+        'Failed to read last known good stats'
+      );
+      return null;
+    }
+  }
+
+  private async readLastKnownGood(
+    query: EthosStatsQuery
+  ): Promise<CacheEnvelope<EthosStats> | null> {
+    const entry = await redisRepository.get<unknown>(
+      buildLastKnownGoodKey(query)
+    );
+    if (entry === null) return null;
+    // Entries without a fetch time can only be dated to "now"
+    return upgradeCacheEntry<EthosStats>(entry, new Date().toISOString());
+  }
+
+  /**
+   * Retry the upstream fetch in the background after serving stale data
+   * At most one revalidation is pending per activity
+   */
+  private scheduleRevalidation(query: EthosStatsQuery): void {
+    const key = buildStatsKey(query);
+    if (this.pendingRevalidations.has(key)) return;
+
+    this.pendingRevalidations.add(key);
+    const timeoutId = setTimeout(() => {
+      this.refreshCache(query)
+        .catch((error: unknown) => {
+          logger.warn({ err: error, key }, 'Background revalidation failed');
+        })
+        .finally(() => {
+          this.pendingRevalidations.delete(key);
+        });
+    }, STALE_REVALIDATE_DELAY_MS);
+    // Do not keep the process alive just for a revalidation
+    timeoutId.unref();
+  }
+
+  /**
+   * Append a timestamped snapshot to the activity's history
+   * Best effort: a failure here must not fail the fetch that produced the data
+   */
+  private async recordSnapshot(
+    query: EthosStatsQuery,
+    snapshot: EthosStatsSnapshot,
+    ttlSeconds?: number
+  ): Promise<void> {
+    const key = buildHistoryKey(query);
+    try {
+      await redisRepository.addToSortedSet(
+        key,
+        Date.parse(snapshot.fetchedAt),
+        snapshot,
+        HISTORY_MAX_SNAPSHOTS,
+        ttlSeconds
+      );
+      logger.debug({ key }, 'Recorded Ethos stats snapshot');
+    } catch (error) {
+      logger.warn({ err: error, key }, 'Failed to record Ethos stats snapshot');
+    }
+  }
 }
 
 export const ethosStatsService = new EthosStatsService();
@@ -0,0 +1,193 @@
+import { env } from '../config/env.js';
+import { logger } from '../config/logger.js';
+import { redisClient } from '../config/redis.js';
+import { redisRepository } from '../repositories/redis-repository.js';
+import type {
+  ReadinessReport,
+  RedisLatencyCheck,
+  StatsAgeCheck,
+} from '../types/health.js';
+import { ethosStatsService } from './ethos-stats-service.js';
+
+const errorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
+
+/**
+ * Resolve with the promise, or reject once the timeout elapses
+ * Commands queue while Redis reconnects, so a check must not wait on them
+ */
+const withTimeout = <T>(
+  promise: Promise<T>,
+  timeoutMs: number,
+  message: string
+): Promise<T> => {
+  let timeoutId: ReturnType<typeof setTimeout> | undefined;
+  const timeout = new Promise<never>((_resolve, reject) => {
+    timeoutId = setTimeout(() => reject(new Error(message)), timeoutMs);
+  });
+  return Promise.race([promise, timeout]).finally(() =>
+    clearTimeout(timeoutId)
+  );
+};
+
+/**
+ * Liveness and readiness of this instance
+ */
+export class HealthService {
+  private isShuttingDown = false;
+
+  /**
+   * Report not ready from now on, so load balancers stop routing here while
+   * in-flight requests finish
+   */
+  markShuttingDown(): void {
+    this.isShuttingDown = true;
+  }
+
+  /**
+   * Check whether this instance can serve traffic
+   * Failing checks are reported, never thrown
+   */
+  async checkReadiness(): Promise<ReadinessReport> {
+    if (this.isShuttingDown) {
+      return { status: 'shutting_down', checks: null };
+    }
+
+    const connection = redisClient.status;
+    const redisReady = connection === 'ready';
+    const [redisLatency, statsAge] = await Promise.all([
+      this.checkRedisLatency(redisReady),
+      this.checkStatsAge(redisReady),
+    ]);
+    const checks = {
+      redis: {
+        status: redisReady ? ('pass' as const) : ('fail' as const),
+        connection,
+      },
+      redisLatency,
+      statsAge,
+    };
+
+    const statuses = Object.values(checks).map((check) => check.status);
+    if (statuses.includes('fail')) {
+      logger.warn({ checks }, 'Readiness check failed');
+      return { status: 'not_ready', checks };
+    }
+    if (statuses.includes('warn')) {
+      logger.warn({ checks }, 'Readiness degraded');
+      return { status: 'degraded', checks };
+    }
+    return { status: 'ready', checks };
+  }
+
+  private async checkRedisLatency(
+    redisReady: boolean
+  ): Promise<RedisLatencyCheck> {
+    const maxLatencyMs = env.READINESS_REDIS_MAX_LATENCY_MS;
+    if (!redisReady) {
+      return {
+        status: 'fail',
+        latencyMs: null,
+        maxLatencyMs,
+        error: 'Redis is not connected',
+      };
+    }
+
+    try {
+      const latencyMs = Math.round(
+        await withTimeout(
+          redisRepository.ping(),
+          maxLatencyMs,
+          `Redis did not answer within ${maxLatencyMs}ms`
+        )
+      );
+      return {
+        status: latencyMs <= maxLatencyMs ? 'pass' : 'fail',
+        latencyMs,
+        maxLatencyMs,
+      };
+    } catch (error) {
+      return {
+        status: 'fail',
+        latencyMs: null,
+        maxLatencyMs,
+        error: errorMessage(error),
+      };
+    }
+  }
+
+  /**
+   * Old stats only warn: during an Ethos API outage every replica has the
+   * same old copy, and taking them all out of rotation would stop serving it
+   * Only an activity that was never stored fails the check
+   */
+  private async checkStatsAge(redisReady: boolean): Promise<StatsAgeCheck> {
+    const maxAgeSeconds = env.READINESS_MAX_STATS_AGE_SECONDS;
+    const failure = (error: string): StatsAgeCheck => ({
+      status: 'fail',
+      fetchedAt: null,
+      ageSeconds: null,
+      maxAgeSeconds,
+      error,
+    });
+    if (!redisReady) return failure('Redis is not connected');
+
+    try {
+      const latest = await withTimeout(
+        this.getLatestStats(),
+        env.READINESS_REDIS_MAX_LATENCY_MS,
+        `Redis did not answer within ${env.READINESS_REDIS_MAX_LATENCY_MS}ms`
+      );
+      if (!latest) return failure('No cached stats');
+
+      const { fetchedAt, expired } = latest;
+      const ageSeconds = Math.max(
+        0,
+        Math.floor((Date.now() - Date.parse(fetchedAt)) / 1000)
+      );
+      const check: StatsAgeCheck = {
+        status: 'pass',
+        fetchedAt,
+        ageSeconds,
+        maxAgeSeconds,
+      };
+      if (expired) {
+        return {
+          ...check,
+          status: 'warn',
+          warning:
+            'Cached stats expired, only the last known good copy is left',
+        };
+      }
+      if (ageSeconds > maxAgeSeconds) {
+        return {
+          ...check,
+          status: 'warn',
+          warning: 'Cached stats are older than the maximum age',
+        };
+      }
+      return check;
+    } catch (error) {
+      return failure(errorMessage(error));
+    }
+  }
+
+  /**
+   * @returns When the default activity's stats were fetched, and whether
+   * only the last known good copy is left, or null if they were never stored
+   */
+  private async getLatestStats(): Promise<{
+    fetchedAt: string;
+    expired: boolean;
+  } | null> {
+    const cached = await ethosStatsService.getCachedStats();
+    if (cached) return { fetchedAt: cached.meta.fetchedAt, expired: false };
+
+    const lastKnownGood = await ethosStatsService.getLastKnownGoodStats();
+    return lastKnownGood
+      ? { fetchedAt: lastKnownGood.fetchedAt, expired: true }
+      : null;
+  }
+}
+
+export const healthService = new HealthService();
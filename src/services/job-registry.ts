@@ -0,0 +1,67 @@
+import { logger } from '../config/logger.js';
+import { NotFoundError } from '../errors/app-errors.js';
+import type { JobDefinition } from '../types/scheduler.js';
+import { JobScheduler } from './job-scheduler.js';
+
+/**
+ * Keeps every background job so they share one start/stop lifecycle
+ */
+export class JobRegistry {
+  private readonly jobs = new Map<string, JobScheduler>();
+
+  /**
+   * Add a job; it starts with the others
+   * @returns The job's scheduler
+   * @throws Error if a job with the same name is already registered
+   */
+  register(definition: JobDefinition): JobScheduler {
+    if (this.jobs.has(definition.name)) {
+      throw new Error(`Job ${definition.name} is already registered`);
+    }
+    const scheduler = new JobScheduler(definition);
+    this.jobs.set(definition.name, scheduler);
+    return scheduler;
+  }
+
+  /**
+   * @throws NotFoundError if no job has this name
+   */
+  get(name: string): JobScheduler {
+    const scheduler = this.jobs.get(name);
+    if (!scheduler) {
+      throw new NotFoundError(`Job ${name} not found`);
+    }
+    return scheduler;
+  }
+
+  /**
+   * Registered jobs, in registration order
+   */
+  list(): JobScheduler[] {
+    return [...this.jobs.values()];
+  }
+
+  async startAll(): Promise<void> {
+    logger.info({ jobs: [...this.jobs.keys()] }, 'Starting background jobs');
+    await Promise.all(this.list().map((scheduler) => scheduler.start()));
+  }
+
+  /**
+   * Stop every job; one failing to stop does not keep the others running
+   */
+  async stopAll(): Promise<void> {
+    const results = await Promise.allSettled(
+      this.list().map((scheduler) => scheduler.stop())
+    );
+    results.forEach((result, index) => {
+      if (result.status === 'rejected') {
+        logger.error(
+          { err: result.reason, job: this.list()[index]?.name },
+          'Failed to stop job'
+        );
+      }
+    });
+  }
+}
+
+export const jobRegistry = new JobRegistry();
@@ -0,0 +1,647 @@
+import { env } from '../config/env.js';
+import { logger } from '../config/logger.js';
+import { jobRunDuration, jobRunsTotal } from '../config/metrics.js';
+import { ConflictError } from '../errors/app-errors.js';
+import { redisRepository } from '../repositories/redis-repository.js';
+import type { Fence } from '../types/leader-lease.js';
+import type {
+  JobDefinition,
+  JobHandlerResult,
+  JobStartupPolicy,
+  SchedulerCurrentRun,
+  SchedulerNextRun,
+  SchedulerRunResult,
+  SchedulerRunTrigger,
+  SchedulerStatus,
+} from '../types/scheduler.js';
+import { INSTANCE_ID } from '../utils/instance-id.js';
+import { sleep } from '../utils/sleep.js';
+import { withSpan } from '../utils/tracing.js';
+import { LeaderLease } from './leader-lease.js';
+
+// Timers are re-armed at least this often and checked against the wall
+// clock, so a late timer or a clock change delays a run by at most this much
+const MAX_TIMER_DELAY_MS = 60 * 1000;
+// Jobs that cannot tell the age of their output run on startup
+const DEFAULT_STARTUP_POLICY: JobStartupPolicy = {
+  mode: 'always',
+  jitterMs: 0,
+};
+
+/**
+ * Build the default Redis key prefix of a job, e.g. `ethos:jobs:ethos-stats-refresh`
+ */
+export const buildJobKeyPrefix = (name: string): string => `ethos:jobs:${name}`;
+
+// Hold on a leader job's run lock; `holder` is the serialized current run
+type RunLock = {
+  key: string;
+  holder: string;
+  renewal: ReturnType<typeof setInterval>;
+};
+
+/**
+ * Runs one job on its schedule
+ * Runs never overlap on a replica. For `leader` jobs every replica starts a
+ * scheduler, but only the holder of the job's leader lease runs scheduled
+ * runs; the others stand by to take over. Every run of a `leader` job,
+ * scheduled or manual, holds a run lock shared by all replicas, so runs
+ * never overlap across replicas either
+ */
+export class JobScheduler {
+  // Use ReturnType to avoid environment-specific type issues (Node vs Browser)
+  private timeoutId: ReturnType<typeof setTimeout> | null = null;
+  private isStopping = false;
+  private isRunning = false;
+  private isStarted = false;
+  private nextRunAt: Date | null = null;
+  private currentRun: SchedulerStatus['currentRun'] = null;
+  private isLeading = false;
+  private readonly lease: LeaderLease | null;
+  // Null for instance jobs
+  private readonly runLockKey: string | null;
+  private readonly nextRunKey: string | null;
+  // Aborts the attempt in progress
+  private abortController: AbortController | null = null;
+  // A timed-out handler that has not settled yet still counts as running
+  private abandonedHandler: Promise<void> | null = null;
+  private readonly runHistoryKey: string;
+  private readonly lastSuccessKey: string;
+  private readonly lastFailureKey: string;
+
+  constructor(private readonly job: JobDefinition) {
+    const keyPrefix = job.keyPrefix ?? buildJobKeyPrefix(job.name);
+    this.runHistoryKey = `${keyPrefix}:runs`;
+    this.lastSuccessKey = `${keyPrefix}:last-success`;
+    this.lastFailureKey = `${keyPrefix}:last-failure`;
+    this.runLockKey =
+      job.concurrency === 'leader' ? `${keyPrefix}:run-lock` : null;
+    this.nextRunKey =
+      job.concurrency === 'leader' ? `${keyPrefix}:next-run` : null;
+    this.lease =
+      job.concurrency === 'leader'
+        ? new LeaderLease({
+            key: `${keyPrefix}:leader`,
+            ttlMs: env.SCHEDULER_LEASE_TTL_MS,
+            onAcquired: () => this.beginScheduling(),
+            onLost: () => this.onLeadershipLost(),
+          })
+        : null;
+  }
+
+  get name(): string {
+    return this.job.name;
+  }
+
+  public async start(): Promise<void> {
+    if (this.isStarted) {
+      logger.warn({ job: this.job.name }, 'Job is already started');
+      return;
+    }
+
+    this.isStopping = false;
+    this.isStarted = true;
+
+    logger.info(
+      {
+        job: this.job.name,
+        schedule: this.job.schedule.expression,
+        timezone: this.job.schedule.timezone,
+        concurrency: this.job.concurrency,
+      },
+      'Starting job'
+    );
+
+    if (this.lease) {
+      // Runs start once this instance holds the leader lease
+      await this.lease.start();
+    } else {
+      await this.beginScheduling();
+    }
+  }
+
+  /**
+   * Run the job immediately, outside the schedule
+   * Shares the overlap guard and, for leader jobs, the run lock with
+   * scheduled runs
+   * @returns The outcome of the run; failures are reported, not thrown
+   * @throws ConflictError if a run is already in progress on any replica
+   * @throws Error if the run lock cannot be acquired
+   */
+  public async runNow(): Promise<SchedulerRunResult> {
+    if (this.isBusy()) throw this.alreadyRunning();
+    const startedAt = new Date();
+    const runLock = await this.acquireRunLock('manual', startedAt);
+    logger.info({ job: this.job.name }, 'Manual job run requested');
+    return this.execute('manual', startedAt, runLock);
+  }
+
+  /**
+   * Start the recursive loop, skipping the first run if the job's output is
+   * not due yet
+   * - No output yet: run now
+   * - A scheduled run was missed since the output was produced (or the
+   *   startup mode is `always`): run after the startup jitter
+   * - Otherwise: wait for the next scheduled run
+   */
+  private async beginScheduling(): Promise<void> {
+    if (this.isStopping) return;
+    this.isLeading = true;
+    const { mode, jitterMs: maxJitterMs } =
+      this.job.startup ?? DEFAULT_STARTUP_POLICY;
+
+    let lastOutputAt: Date | null = null;
+    if (this.job.getLastOutputAt) {
+      try {
+        lastOutputAt = await this.job.getLastOutputAt();
+      } catch (error) {
+        // Run rather than risk leaving overdue output in place
+        logger.warn(
+          { err: error, job: this.job.name },
+          'Failed to check job output age'
+        );
+        lastOutputAt = new Date(0);
+      }
+      if (this.isStopping || !this.isLeading) return;
+
+      if (!lastOutputAt) {
+        logger.info(
+          { job: this.job.name },
+          'Job has no output yet, running now'
+        );
+        void this.run();
+        return;
+      }
+    }
+
+    const now = new Date();
+    if (
+      lastOutputAt &&
+      mode !== 'always' &&
+      this.job.schedule.next(lastOutputAt) > now
+    ) {
+      logger.info(
+        { job: this.job.name, lastOutputAt: lastOutputAt.toISOString() },
+        'Job output is fresh, waiting for the next scheduled run'
+      );
+      this.scheduleNext();
+      return;
+    }
+
+    // Spread the work when many deploys restart at once
+    const jitterMs = Math.floor(Math.random() * maxJitterMs);
+    if (jitterMs === 0) {
+      void this.run();
+      return;
+    }
+    const nextRunAt = new Date(now.getTime() + jitterMs);
+    this.setNextRunAt(nextRunAt);
+    this.armTimer(nextRunAt);
+  }
+
+  private onLeadershipLost(): void {
+    this.isLeading = false;
+    this.nextRunAt = null;
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+  }
+
+  private isBusy(): boolean {
+    return this.isRunning || this.abandonedHandler !== null;
+  }
+
+  private async run(): Promise<void> {
+    if (this.isStopping) return;
+
+    if (this.lease && !this.lease.isLeader()) {
+      // The lease could not be renewed in time; it is given up on the next
+      // renewal attempt unless Redis confirms it is still ours
+      logger.warn(
+        { job: this.job.name },
+        'Leader lease not confirmed, skipping job run'
+      );
+      this.scheduleNext();
+      return;
+    }
+
+    if (this.isBusy()) {
+      // A manual run is in progress; it counts as this run
+      logger.warn({ job: this.job.name }, 'Job is already running, skipping');
+      this.scheduleNext();
+      return;
+    }
+
+    const startedAt = new Date();
+    let runLock: RunLock | null;
+    try {
+      runLock = await this.acquireRunLock('scheduled', startedAt);
+    } catch (error) {
+      if (error instanceof ConflictError) {
+        // A run on another replica counts as this run
+        logger.warn({ job: this.job.name }, 'Job is already running, skipping');
+      } else {
+        logger.error(
+          { err: error, job: this.job.name },
+          'Failed to acquire job run lock, skipping'
+        );
+      }
+      this.scheduleNext();
+      return;
+    }
+    await this.execute('scheduled', startedAt, runLock);
+  }
+
+  private alreadyRunning(): ConflictError {
+    return new ConflictError(
+      `Job ${this.job.name} is already running`,
+      'JOB_IN_PROGRESS'
+    );
+  }
+
+  /**
+   * Take the run lock of a leader job, renewed every third of
+   * SCHEDULER_LEASE_TTL_MS until released; instance jobs take none
+   * @returns The lock, or null for instance jobs
+   * @throws ConflictError if a run on any replica holds the lock
+   * @throws Error if the lock cannot be acquired
+   */
+  private async acquireRunLock(
+    trigger: SchedulerRunTrigger,
+    startedAt: Date
+  ): Promise<RunLock | null> {
+    const key = this.runLockKey;
+    if (!key) return null;
+
+    const holder = JSON.stringify({
+      trigger,
+      instanceId: INSTANCE_ID,
+      startedAt: startedAt.toISOString(),
+    } satisfies SchedulerCurrentRun);
+    const ttlMs = env.SCHEDULER_LEASE_TTL_MS;
+    if (!(await redisRepository.acquireLock(key, holder, ttlMs))) {
+      throw this.alreadyRunning();
+    }
+
+    const renewal = setInterval(() => {
+      redisRepository
+        .extendLock(key, holder, ttlMs)
+        .then((extended) => {
+          if (!extended) {
+            logger.warn({ job: this.job.name, key }, 'Job run lock lost');
+          }
+        })
+        .catch((error: unknown) => {
+          logger.warn(
+            { err: error, job: this.job.name, key },
+            'Failed to renew job run lock'
+          );
+        });
+    }, ttlMs / 3);
+    return { key, holder, renewal };
+  }
+
+  /**
+   * Release the run lock once the run has settled, a timed-out handler
+   * included
+   * Best effort: the lock expires on its own after SCHEDULER_LEASE_TTL_MS
+   */
+  private async releaseRunLock({
+    key,
+    holder,
+    renewal,
+  }: RunLock): Promise<void> {
+    while (this.abandonedHandler) await this.abandonedHandler;
+    clearInterval(renewal);
+    try {
+      await redisRepository.releaseLock(key, holder);
+    } catch (error) {
+      logger.warn(
+        { err: error, job: this.job.name, key },
+        'Failed to release job run lock'
+      );
+    }
+  }
+
+  private scheduleNext(): void {
+    if (!this.isStopping && this.isLeading) {
+      // Runs the schedule missed while the last run was in progress are skipped
+      const nextRunAt = this.job.schedule.next(new Date());
+      this.setNextRunAt(nextRunAt);
+      this.armTimer(nextRunAt);
+    }
+  }
+
+  /**
+   * Set the next scheduled run; leader jobs also record it in Redis, where
+   * every replica reads it from
+   */
+  private setNextRunAt(nextRunAt: Date | null): void {
+    this.nextRunAt = nextRunAt;
+    // Not awaited: recording must not delay or fail scheduling
+    if (this.nextRunKey) void this.recordNextRun(this.nextRunKey, nextRunAt);
+  }
+
+  /**
+   * Best effort: a failure is logged and otherwise ignored
+   */
+  private async recordNextRun(
+    key: string,
+    nextRunAt: Date | null
+  ): Promise<void> {
+    try {
+      await redisRepository.set(key, {
+        instanceId: INSTANCE_ID,
+        nextRunAt: nextRunAt?.toISOString() ?? null,
+      } satisfies SchedulerNextRun);
+    } catch (error) {
+      logger.warn(
+        { err: error, job: this.job.name, key },
+        'Failed to record next job run'
+      );
+    }
+  }
+
+  private armTimer(runAt: Date): void {
+    const delayMs = Math.min(
+      MAX_TIMER_DELAY_MS,
+      Math.max(0, runAt.getTime() - Date.now())
+    );
+    this.timeoutId = setTimeout(() => {
+      if (Date.now() < runAt.getTime()) {
+        this.armTimer(runAt);
+        return;
+      }
+      void this.run();
+    }, delayMs);
+  }
+
+  private async execute(
+    trigger: SchedulerRunTrigger,
+    startedAt: Date,
+    runLock: RunLock | null
+  ): Promise<SchedulerRunResult> {
+    this.isRunning = true;
+    if (trigger === 'scheduled') this.setNextRunAt(null);
+    // Null for instance jobs and manual runs on a replica that is not the
+    // leader
+    const fence = this.lease?.getFence() ?? null;
+    this.currentRun = {
+      trigger,
+      instanceId: INSTANCE_ID,
+      startedAt: startedAt.toISOString(),
+    };
+    let attempts = 0;
+    const finish = (
+      result: Pick<SchedulerRunResult, 'outcome' | 'changed' | 'error'>
+    ): SchedulerRunResult => {
+      const finishedAt = new Date();
+      const run: SchedulerRunResult = {
+        job: this.job.name,
+        trigger,
+        instanceId: INSTANCE_ID,
+        fencingToken: fence?.token ?? null,
+        startedAt: startedAt.toISOString(),
+        finishedAt: finishedAt.toISOString(),
+        durationMs: finishedAt.getTime() - startedAt.getTime(),
+        attempts,
+        ...result,
+      };
+      jobRunsTotal.inc({ job: run.job, trigger, outcome: run.outcome });
+      jobRunDuration.observe(
+        { job: run.job, outcome: run.outcome },
+        run.durationMs / 1000
+      );
+      // Not awaited: recording must not delay or fail the run
+      void this.recordRun(run);
+      return run;
+    };
+
+    try {
+      const { changed } = await withSpan(
+        `job ${this.job.name}`,
+        {
+          // Scheduled runs start their own trace; manual runs stay part of
+          // the request that triggered them
+          root: trigger === 'scheduled',
+          attributes: { 'job.name': this.job.name, 'job.trigger': trigger },
+        },
+        (span) => {
+          logger.info({ job: this.job.name, trigger }, 'Starting job run');
+          return this.attemptWithRetries(fence, (attempt) => {
+            attempts = attempt;
+            span.setAttribute('job.attempts', attempt);
+          });
+        }
+      );
+      logger.info({ job: this.job.name, attempts }, 'Job run succeeded');
+      return finish({ outcome: 'success', changed });
+    } catch (error) {
+      logger.error(
+        { err: error, job: this.job.name, attempts },
+        'Job run failed'
+      );
+      return finish({
+        outcome: 'failure',
+        changed: false,
+        error: error instanceof Error ? error.message : String(error),
+      });
+    } finally {
+      this.isRunning = false;
+      this.currentRun = null;
+      if (runLock) void this.releaseRunLock(runLock);
+      // Schedule the next run ONLY after the current one is finished
+      // This prevents overlapping executions
+      if (trigger === 'scheduled') {
+        this.scheduleNext();
+      }
+    }
+  }
+
+  /**
+   * Call the handler until it succeeds or the retry policy gives up
+   * @throws The last attempt's error
+   */
+  private async attemptWithRetries(
+    fence: Fence | null,
+    onAttempt: (attempt: number) => void
+  ): Promise<JobHandlerResult> {
+    const { maxAttempts, baseDelayMs, maxDelayMs } = this.job.retry;
+
+    for (let attempt = 1; ; attempt += 1) {
+      // Never start an attempt while a timed-out one is still going
+      if (this.abandonedHandler) await this.abandonedHandler;
+      onAttempt(attempt);
+      try {
+        return await this.attempt(attempt, fence);
+      } catch (error) {
+        if (attempt >= maxAttempts || this.isStopping) throw error;
+
+        const delayMs = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1));
+        logger.warn(
+          { err: error, job: this.job.name, attempt, delayMs },
+          'Job attempt failed, retrying'
+        );
+        await sleep(delayMs);
+        if (this.isStopping) throw error;
+      }
+    }
+  }
+
+  /**
+   * Call the handler once, failing the attempt after the job's timeout
+   * A timed-out handler is asked to stop through its signal; until it
+   * settles, the job still counts as running
+   */
+  private async attempt(
+    attempt: number,
+    fence: Fence | null
+  ): Promise<JobHandlerResult> {
+    const controller = new AbortController();
+    this.abortController = controller;
+    const handling = this.job.handler({
+      attempt,
+      fence,
+      signal: controller.signal,
+    });
+
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timeoutId = setTimeout(() => {
+        const error = new Error(
+          `Job ${this.job.name} timed out after ${this.job.timeoutMs}ms`
+        );
+        controller.abort(error);
+        this.abandon(handling);
+        reject(error);
+      }, this.job.timeoutMs);
+    });
+
+    try {
+      return await Promise.race([handling, timeout]);
+    } finally {
+      clearTimeout(timeoutId);
+      this.abortController = null;
+    }
+  }
+
+  private abandon(handling: Promise<unknown>): void {
+    const settled: Promise<void> = handling.then(
+      () => {},
+      () => {}
+    );
+    const abandoned = settled.then(() => {
+      if (this.abandonedHandler === abandoned) this.abandonedHandler = null;
+    });
+    this.abandonedHandler = abandoned;
+  }
+
+  /**
+   * Get the job state and the shared run history
+   * For leader jobs the next run and the run in progress are read from
+   * Redis, so a standby reports what the leader is doing
+   * @param historyLimit - Number of recent runs to include
+   * @throws Error if the job state or run history cannot be read
+   */
+  public async getStatus(historyLimit: number): Promise<SchedulerStatus> {
+    try {
+      const [leader, lastSuccess, lastFailure, history, currentRun, nextRun] =
+        await Promise.all([
+          this.lease?.getCurrentHolder() ?? null,
+          redisRepository.get<SchedulerRunResult>(this.lastSuccessKey),
+          redisRepository.get<SchedulerRunResult>(this.lastFailureKey),
+          redisRepository.rangeList<SchedulerRunResult>(
+            this.runHistoryKey,
+            historyLimit
+          ),
+          this.runLockKey
+            ? redisRepository.get<SchedulerCurrentRun>(this.runLockKey)
+            : this.currentRun,
+          this.nextRunKey
+            ? redisRepository.get<SchedulerNextRun>(this.nextRunKey)
+            : null,
+        ]);
+
+      // A former leader's entry is left behind until the new leader
+      // schedules its first run
+      let nextRunAt = this.nextRunAt?.toISOString() ?? null;
+      if (this.nextRunKey) {
+        nextRunAt =
+          leader && nextRun?.instanceId === leader.instanceId
+            ? nextRun.nextRunAt
+            : null;
+      }
+
+      let state: SchedulerStatus['state'] = 'stopped';
+      if (this.isBusy() || currentRun) state = 'running';
+      else if (this.isLeading) state = 'idle';
+      else if (this.isStarted) state = 'standby';
+
+      return {
+        job: this.job.name,
+        state,
+        concurrency: this.job.concurrency,
+        schedule: this.job.schedule.expression,
+        timezone: this.job.schedule.timezone,
+        instanceId: INSTANCE_ID,
+        leader,
+        nextRunAt,
+        currentRun,
+        lastSuccess,
+        lastFailure,
+        history,
+      };
+    } catch (error) {
+      const errorMessage = `Failed to get job status: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error(
+        { err: error, job: this.job.name, key: this.runHistoryKey },
+        errorMessage
+      );
+      throw new Error(errorMessage);
+    }
+  }
+
+  /**
+   * Save a finished run to the shared history
+   * Best effort: a failure is logged and otherwise ignored
+   */
+  private async recordRun(run: SchedulerRunResult): Promise<void> {
+    try {
+      await redisRepository.pushToList(
+        this.runHistoryKey,
+        run,
+        env.SCHEDULER_HISTORY_SIZE
+      );
+      // Kept apart from the capped history so they survive long streaks
+      await redisRepository.set(
+        run.outcome === 'success' ? this.lastSuccessKey : this.lastFailureKey,
+        run
+      );
+    } catch (error) {
+      logger.warn(
+        { err: error, job: this.job.name, key: this.runHistoryKey },
+        'Failed to record job run'
+      );
+    }
+  }
+
+  /**
+   * Stop scheduling and release the leader lease, so another replica takes
+   * over right away; a run in progress is asked to stop through its signal
+   * but not awaited
+   */
+  public async stop(): Promise<void> {
+    this.isStopping = true;
+    this.isStarted = false;
+    this.isLeading = false;
+    this.nextRunAt = null;
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+    this.abortController?.abort(new Error(`Job ${this.job.name} stopped`));
+    logger.info({ job: this.job.name }, 'Stopped job');
+    await this.lease?.stop();
+  }
+}
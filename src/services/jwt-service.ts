@@ -0,0 +1,173 @@
+import { readFile } from 'fs/promises';
+import { createLocalJWKSet, createRemoteJWKSet, errors, jwtVerify } from 'jose';
+import type { JWTPayload, JWTVerifyGetKey } from 'jose';
+
+import { env } from '../config/env.js';
+import { logger } from '../config/logger.js';
+import { DEFAULT_RATE_LIMIT_TIER } from '../config/rate-limit.js';
+import type { AuthenticatedUser } from '../types/auth.js';
+
+// Minimum time between two JWKS downloads, e.g. for tokens with unknown key IDs
+const JWKS_COOLDOWN_MS = 30000;
+const JWKS_TIMEOUT_MS = 5000;
+
+// jose error codes caused by the token itself rather than by the key source
+const INVALID_TOKEN_CODES = new Set([
+  'ERR_JWT_INVALID',
+  'ERR_JWT_EXPIRED',
+  'ERR_JWT_CLAIM_VALIDATION_FAILED',
+  'ERR_JWS_INVALID',
+  'ERR_JWS_SIGNATURE_VERIFICATION_FAILED',
+  'ERR_JOSE_ALG_NOT_ALLOWED',
+  'ERR_JOSE_NOT_SUPPORTED',
+  'ERR_JWKS_NO_MATCHING_KEY',
+  'ERR_JWKS_MULTIPLE_MATCHING_KEYS',
+]);
+
+export interface JwtServiceOptions {
+  // Enables HS256 tokens
+  hs256Secret: string | null;
+  // Enable RS256/ES256 tokens, with keys from a local file or a URL
+  jwksFile: string | null;
+  jwksUrl: string | null;
+  jwksCacheTtlMs: number;
+  issuer: string | null;
+  audience: string | null;
+  clockToleranceSeconds: number;
+  rolesClaim: string;
+  permissionsClaim: string;
+}
+
+/**
+ * A claim as a list of strings; space-separated strings (like the OAuth
+ * `scope` claim) are split
+ */
+const readStringList = (value: unknown): string[] => {
+  if (typeof value === 'string') return value.split(' ').filter(Boolean);
+  if (Array.isArray(value)) {
+    return value.filter((item): item is string => typeof item === 'string');
+  }
+  return [];
+};
+
+/**
+ * Verifies bearer tokens from the identity provider
+ * Tokens must be signed with an allowed algorithm, carry `exp` and `sub`,
+ * and match the configured issuer and audience; `nbf` is honored
+ */
+export class JwtService {
+  private readonly secret: Uint8Array | null;
+  private readonly algorithms: string[];
+  private jwks: Promise<JWTVerifyGetKey> | null = null;
+
+  constructor(private readonly options: JwtServiceOptions) {
+    this.secret = options.hs256Secret
+      ? new TextEncoder().encode(options.hs256Secret)
+      : null;
+    this.algorithms = [
+      ...(this.secret ? ['HS256'] : []),
+      ...(options.jwksFile || options.jwksUrl ? ['RS256', 'ES256'] : []),
+    ];
+  }
+
+  get isEnabled(): boolean {
+    return this.algorithms.length > 0;
+  }
+
+  /**
+   * Verify a token and map its claims to the caller
+   * @returns The caller, or null if the token is malformed, badly signed,
+   * expired, not yet valid or issued for someone else
+   * @throws Error if the signing keys cannot be loaded
+   */
+  async verifyToken(token: string): Promise<AuthenticatedUser | null> {
+    if (!this.isEnabled) return null;
+
+    const { issuer, audience, clockToleranceSeconds } = this.options;
+    try {
+      const { payload } = await jwtVerify(token, this.getKey, {
+        algorithms: this.algorithms,
+        ...(issuer && { issuer }),
+        ...(audience && { audience }),
+        clockTolerance: clockToleranceSeconds,
+        requiredClaims: ['exp', 'sub'],
+      });
+      return this.toUser(payload);
+    } catch (error) {
+      if (
+        error instanceof errors.JOSEError &&
+        INVALID_TOKEN_CODES.has(error.code)
+      ) {
+        logger.warn(
+          { code: error.code, reason: error.message },
+          'Rejected invalid JWT'
+        );
+        return null;
+      }
+      const errorMessage = `Failed to verify JWT: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error({ err: error }, errorMessage);
+      throw new Error(errorMessage);
+    }
+  }
+
+  private toUser(payload: JWTPayload): AuthenticatedUser {
+    return {
+      id: payload.sub as string,
+      authMethod: 'jwt',
+      keyId: null,
+      roles: readStringList(payload[this.options.rolesClaim]),
+      permissions: readStringList(payload[this.options.permissionsClaim]),
+      rateLimitTier: DEFAULT_RATE_LIMIT_TIER,
+    };
+  }
+
+  /**
+   * Key for a token: the shared secret for HS256, otherwise the JWKS key
+   * matching the token's `kid` and algorithm
+   */
+  private getKey: JWTVerifyGetKey = async (header, token) => {
+    if (header.alg === 'HS256' && this.secret) return this.secret;
+    const jwks = await this.loadJwks();
+    return jwks(header, token);
+  };
+
+  private loadJwks(): Promise<JWTVerifyGetKey> {
+    if (!this.jwks) {
+      this.jwks = this.createJwks();
+      // Retry a failed file read with the next token
+      this.jwks.catch(() => {
+        this.jwks = null;
+      });
+    }
+    return this.jwks;
+  }
+
+  private async createJwks(): Promise<JWTVerifyGetKey> {
+    const { jwksFile, jwksUrl, jwksCacheTtlMs } = this.options;
+    if (jwksUrl) {
+      // Fetched on first use, then cached; refetched early when a token
+      // names an unknown key, at most once per cooldown
+      return createRemoteJWKSet(new URL(jwksUrl), {
+        cacheMaxAge: jwksCacheTtlMs,
+        cooldownDuration: JWKS_COOLDOWN_MS,
+        timeoutDuration: JWKS_TIMEOUT_MS,
+      });
+    }
+    if (!jwksFile) throw new Error('No JWKS source configured');
+    // Read once; restart to pick up rotated keys
+    const jwks: unknown = JSON.parse(await readFile(jwksFile, 'utf8'));
+    return createLocalJWKSet(jwks as Parameters<typeof createLocalJWKSet>[0]);
+  }
+}
+
+export const jwtService = new JwtService({
+  hs256Secret: env.JWT_HS256_SECRET ?? null,
+  jwksFile: env.JWT_JWKS_FILE ?? null,
+  jwksUrl: env.JWT_JWKS_URL ?? null,
+  jwksCacheTtlMs: env.JWT_JWKS_CACHE_TTL_MS,
+  issuer: env.JWT_ISSUER ?? null,
+  audience: env.JWT_AUDIENCE ?? null,
+  clockToleranceSeconds: env.JWT_CLOCK_TOLERANCE_SECONDS,
+  rolesClaim: env.JWT_ROLES_CLAIM,
+  permissionsClaim: env.JWT_PERMISSIONS_CLAIM,
+});
@@ -0,0 +1,219 @@
+import { logger } from '../config/logger.js';
+import { redisRepository } from '../repositories/redis-repository.js';
+import type {
+  Fence,
+  LeaderLeaseHolder,
+  LeaderLeaseInfo,
+} from '../types/leader-lease.js';
+import { INSTANCE_ID } from '../utils/instance-id.js';
+
+export interface LeaderLeaseOptions {
+  // Redis key of the lease; the fencing counter lives at `<key>:fencing`
+  key: string;
+  ttlMs: number;
+  // Awaited before the next renewal is scheduled
+  onAcquired(fencingToken: number): Promise<void>;
+  onLost(): void;
+}
+
+/**
+ * Redis lease that elects one leader among all replicas
+ *
+ * The lease is acquired with SET NX PX and renewed every third of its TTL by
+ * compare-and-extend, so only its holder can keep it. When the holder dies
+ * the lease expires and another replica takes over on its next attempt.
+ * Leadership is only assumed while the lease is known to be valid: a renewal
+ * that cannot reach Redis in time counts as losing it, since another replica
+ * may hold it by then
+ */
+export class LeaderLease {
+  readonly instanceId = INSTANCE_ID;
+  // Use ReturnType to avoid environment-specific type issues (Node vs Browser)
+  private timeoutId: ReturnType<typeof setTimeout> | null = null;
+  // Serialized LeaderLeaseHolder while this instance holds the lease
+  private holder: string | null = null;
+  private fencingToken: number | null = null;
+  private validUntil = 0;
+  private isStopped = true;
+
+  constructor(private readonly options: LeaderLeaseOptions) {}
+
+  /**
+   * Try to acquire the lease now, then keep trying (or renewing) in the
+   * background until stopped
+   */
+  async start(): Promise<void> {
+    if (!this.isStopped) return;
+    this.isStopped = false;
+    await this.tick();
+  }
+
+  /**
+   * Stop competing for the lease and release it if held, so another replica
+   * can take over without waiting for it to expire
+   */
+  async stop(): Promise<void> {
+    this.isStopped = true;
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+
+    const holder = this.holder;
+    this.holder = null;
+    this.fencingToken = null;
+    this.validUntil = 0;
+    if (!holder) return;
+
+    try {
+      await redisRepository.releaseLock(this.options.key, holder);
+      logger.info(
+        { key: this.options.key, instanceId: this.instanceId },
+        'Released leader lease'
+      );
+    } catch (error) {
+      // The lease expires on its own after its TTL
+      logger.warn(
+        { err: error, key: this.options.key },
+        'Failed to release leader lease'
+      );
+    }
+  }
+
+  /**
+   * Whether this instance holds the lease and it has not expired
+   */
+  isLeader(): boolean {
+    return this.holder !== null && Date.now() < this.validUntil;
+  }
+
+  /**
+   * @returns The fence of this instance's leadership term, or null if it is
+   * not the leader
+   */
+  getFence(): Fence | null {
+    if (!this.isLeader() || this.fencingToken === null) return null;
+    return { key: this.getFencingKey(), token: this.fencingToken };
+  }
+
+  /**
+   * Read the current holder from Redis, whichever instance it is
+   * @returns The holder, or null if no instance holds the lease
+   * @throws Error if the lease cannot be read
+   */
+  async getCurrentHolder(): Promise<LeaderLeaseInfo | null> {
+    const [lease, fencingToken] = await Promise.all([
+      redisRepository.getWithTtl<LeaderLeaseHolder>(this.options.key),
+      redisRepository.get<number>(this.getFencingKey()),
+    ]);
+    if (!lease) return null;
+
+    return {
+      ...lease.value,
+      fencingToken,
+      expiresAt:
+        lease.ttlMs !== null
+          ? new Date(Date.now() + lease.ttlMs).toISOString()
+          : null,
+    };
+  }
+
+  private getFencingKey(): string {
+    return `${this.options.key}:fencing`;
+  }
+
+  private async tick(): Promise<void> {
+    try {
+      if (this.holder) await this.renew(this.holder);
+      else await this.tryAcquire();
+    } finally {
+      if (!this.isStopped) {
+        this.timeoutId = setTimeout(
+          () => void this.tick(),
+          this.options.ttlMs / 3
+        );
+      }
+    }
+  }
+
+  private async tryAcquire(): Promise<void> {
+    const { key, ttlMs } = this.options;
+    // Validity is counted from before the request, never from the reply
+    const requestedAt = Date.now();
+    const holder = JSON.stringify({
+      instanceId: this.instanceId,
+      acquiredAt: new Date(requestedAt).toISOString(),
+    } satisfies LeaderLeaseHolder);
+
+    let fencingToken: number | null;
+    try {
+      fencingToken = await redisRepository.acquireFencedLock(
+        key,
+        this.getFencingKey(),
+        holder,
+        ttlMs
+      );
+    } catch (error) {
+      logger.warn({ err: error, key }, 'Failed to acquire leader lease');
+      return;
+    }
+    if (fencingToken === null) return;
+
+    this.holder = holder;
+    this.fencingToken = fencingToken;
+    this.validUntil = requestedAt + ttlMs;
+    if (this.isStopped) {
+      // Stopped while the request was in flight
+      await this.stop();
+      return;
+    }
+
+    logger.info(
+      { key, instanceId: this.instanceId, fencingToken },
+      'Acquired leader lease'
+    );
+    await this.options.onAcquired(fencingToken);
+  }
+
+  private async renew(holder: string): Promise<void> {
+    const { key, ttlMs } = this.options;
+    if (Date.now() >= this.validUntil) {
+      this.lose('Leader lease expired before it could be renewed');
+      return;
+    }
+
+    const requestedAt = Date.now();
+    let renewed: boolean;
+    try {
+      renewed = await redisRepository.extendLock(key, holder, ttlMs);
+    } catch (error) {
+      // Still the leader until the lease would have expired; the next
+      // attempt gives up if it did
+      logger.warn({ err: error, key }, 'Failed to renew leader lease');
+      return;
+    }
+    // Stopped while the request was in flight
+    if (this.holder !== holder) return;
+
+    if (renewed) {
+      this.validUntil = requestedAt + ttlMs;
+    } else {
+      this.lose('Leader lease taken over by another instance');
+    }
+  }
+
+  private lose(message: string): void {
+    logger.warn(
+      {
+        key: this.options.key,
+        instanceId: this.instanceId,
+        fencingToken: this.fencingToken,
+      },
+      message
+    );
+    this.holder = null;
+    this.fencingToken = null;
+    this.validUntil = 0;
+    this.options.onLost();
+  }
+}
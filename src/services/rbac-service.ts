@@ -0,0 +1,44 @@
+import { rbacPolicy } from '../config/rbac.js';
+import type { AuthenticatedUser } from '../types/auth.js';
+import type { PermissionMatch, RbacPolicy } from '../types/rbac.js';
+import { matchesPermission } from '../utils/permissions.js';
+
+// Granted to every caller, including unauthenticated ones
+export const ANONYMOUS_ROLE = 'anonymous';
+
+/**
+ * Resolves callers to their effective permissions under a policy
+ */
+export class RbacService {
+  constructor(private readonly policy: RbacPolicy) {}
+
+  /**
+   * Permission patterns granted to a caller: those of the anonymous role,
+   * of each of its roles (unknown roles grant nothing) and its own
+   * permissions, such as API key scopes
+   * @param user - The caller, or undefined for anonymous callers
+   */
+  getEffectivePermissions(user: AuthenticatedUser | undefined): string[] {
+    const roles = [ANONYMOUS_ROLE, ...(user?.roles ?? [])];
+    const granted = roles.flatMap((role) => this.policy.roles[role] ?? []);
+    return [...new Set([...granted, ...(user?.permissions ?? [])])];
+  }
+
+  /**
+   * Whether a caller has all, or any, of the required permissions
+   */
+  isAllowed(
+    user: AuthenticatedUser | undefined,
+    requiredPermissions: string[],
+    match: PermissionMatch = 'all'
+  ): boolean {
+    const granted = this.getEffectivePermissions(user);
+    const hasPermission = (required: string) =>
+      granted.some((pattern) => matchesPermission(pattern, required));
+    return match === 'all'
+      ? requiredPermissions.every(hasPermission)
+      : requiredPermissions.some(hasPermission);
+  }
+}
+
+export const rbacService = new RbacService(rbacPolicy);
@@ -0,0 +1,404 @@
+import axios from 'axios';
+import { randomUUID } from 'crypto';
+
+import { env } from '../config/env.js';
+import { logger } from '../config/logger.js';
+import { AppError, NotFoundError } from '../errors/app-errors.js';
+import { redisRepository } from '../repositories/redis-repository.js';
+import type { CacheEnvelope } from '../types/cache-envelope.js';
+import type { EthosStats, EthosStatsQuery } from '../types/ethos-stats.js';
+import type {
+  CreateWebhookInput,
+  StatsChangedWebhookPayload,
+  WebhookDeadLetter,
+  WebhookSubscription,
+  WebhookSubscriptionView,
+} from '../types/webhook.js';
+import { diffJson } from '../utils/json-diff.js';
+import { sleep } from '../utils/sleep.js';
+import {
+  generateWebhookSecret,
+  signWebhookPayload,
+} from '../utils/webhook-signature.js';
+
+const SUBSCRIPTIONS_KEY = 'ethos:webhooks';
+const DEAD_LETTER_KEY = 'ethos:webhooks:dead-letters';
+const DEAD_LETTER_MAX_ENTRIES = 1000;
+const STATS_CHANGED_EVENT = 'stats.changed';
+
+/**
+ * Network errors, timeouts, 5xx, 408 and 429 are worth retrying; other 4xx
+ * mean the receiver rejected the delivery
+ */
+const isRetryableStatus = (status: number | null): boolean =>
+  status === null || status === 408 || status === 429 || status >= 500;
+
+const toView = ({
+  secret: _secret,
+  ...view
+}: WebhookSubscription): WebhookSubscriptionView => view;
+
+/**
+ * Fill in the fields missing from subscriptions stored before they existed
+ */
+const withDefaults = (
+  subscription: WebhookSubscription
+): WebhookSubscription => ({
+  ...subscription,
+  activities: subscription.activities ?? null,
+});
+
+const isSubscribedTo = (
+  { activities }: WebhookSubscription,
+  query: EthosStatsQuery
+): boolean =>
+  activities === null ||
+  activities.some(
+    (activity) =>
+      activity.type === query.type && activity.activityId === query.activityId
+  );
+
+/**
+ * Manages webhook subscriptions and delivers signed stats change
+ * notifications, with retries and a dead-letter list
+ */
+export class WebhookService {
+  /**
+   * Register a new subscription
+   * @returns The subscription including its secret, which is only shown here
+   * and on rotation
+   * @throws Error if the subscription cannot be stored
+   */
+  async createSubscription(
+    input: CreateWebhookInput
+  ): Promise<WebhookSubscription> {
+    const subscription: WebhookSubscription = {
+      id: randomUUID(),
+      url: input.url,
+      description: input.description ?? null,
+      activities: input.activities ?? null,
+      secret: generateWebhookSecret(),
+      createdAt: new Date().toISOString(),
+      secretRotatedAt: null,
+    };
+    try {
+      await redisRepository.setHashField(
+        SUBSCRIPTIONS_KEY,
+        subscription.id,
+        subscription
+      );
+      logger.info(
+        { subscriptionId: subscription.id, url: subscription.url },
+        'Created webhook subscription'
+      );
+      return subscription;
+    } catch (error) {
+      const errorMessage = `Failed to create webhook subscription: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error({ err: error }, errorMessage);
+      throw new Error(errorMessage);
+    }
+  }
+
+  /**
+   * List subscriptions without their secrets, oldest first
+   * @throws Error if the subscriptions cannot be read
+   */
+  async listSubscriptions(): Promise<WebhookSubscriptionView[]> {
+    try {
+      const subscriptions = await this.getSubscriptions();
+      return subscriptions.map(toView);
+    } catch (error) {
+      const errorMessage = `Failed to list webhook subscriptions: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error({ err: error }, errorMessage);
+      throw new Error(errorMessage);
+    }
+  }
+
+  /**
+   * Remove a subscription; deliveries already in flight are abandoned
+   * @throws NotFoundError if the subscription does not exist
+   */
+  async deleteSubscription(id: string): Promise<void> {
+    try {
+      const deleted = await redisRepository.deleteHashField(
+        SUBSCRIPTIONS_KEY,
+        id
+      );
+      if (!deleted) {
+        throw new NotFoundError(`Webhook subscription ${id} not found`);
+      }
+      logger.info({ subscriptionId: id }, 'Deleted webhook subscription');
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      const errorMessage = `Failed to delete webhook subscription: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error({ err: error, subscriptionId: id }, errorMessage);
+      throw new Error(errorMessage);
+    }
+  }
+
+  /**
+   * Replace a subscription's signing secret
+   * The old secret stops working immediately, including for retries
+   * @returns The subscription with its new secret
+   * @throws NotFoundError if the subscription does not exist
+   */
+  async rotateSecret(id: string): Promise<WebhookSubscription> {
+    try {
+      const subscription =
+        await redisRepository.getHashField<WebhookSubscription>(
+          SUBSCRIPTIONS_KEY,
+          id
+        );
+      if (!subscription) {
+        throw new NotFoundError(`Webhook subscription ${id} not found`);
+      }
+
+      const rotated: WebhookSubscription = {
+        ...withDefaults(subscription),
+        secret: generateWebhookSecret(),
+        secretRotatedAt: new Date().toISOString(),
+      };
+      await redisRepository.setHashField(SUBSCRIPTIONS_KEY, id, rotated);
+      logger.info({ subscriptionId: id }, 'Rotated webhook secret');
+      return rotated;
+    } catch (error) {
+      if (error instanceof AppError) throw error;
+      const errorMessage = `Failed to rotate webhook secret: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error({ err: error, subscriptionId: id }, errorMessage);
+      throw new Error(errorMessage);
+    }
+  }
+
+  /**
+   * List failed deliveries, most recent first
+   * @throws Error if the dead-letter list cannot be read
+   */
+  async getDeadLetters(limit: number): Promise<WebhookDeadLetter[]> {
+    try {
+      return await redisRepository.rangeList<WebhookDeadLetter>(
+        DEAD_LETTER_KEY,
+        limit
+      );
+    } catch (error) {
+      const errorMessage = `Failed to read webhook dead letters: ${error instanceof Error ? error.message : String(error)}`;
+      logger.error({ err: error, key: DEAD_LETTER_KEY }, errorMessage);
+      throw new Error(errorMessage);
+    }
+  }
+
+  /**
+   * Notify the subscribers of an activity that its stats changed
+   * Deliveries run in the background so a slow receiver never delays the
+   * refresh; failures are logged and dead-lettered, never thrown
+   * @param query - Activity whose stats changed
+   * @param previous - Envelope stored before
+   * @param current - Envelope that replaced it
+   */
+  async notifyStatsChanged(
+    query: EthosStatsQuery,
+    previous: CacheEnvelope<EthosStats>,
+    current: CacheEnvelope<EthosStats>
+  ): Promise<void> {
+    let subscriptions: WebhookSubscription[];
+    try {
+      subscriptions = (await this.getSubscriptions()).filter((subscription) =>
+        isSubscribedTo(subscription, query)
+      );
+    } catch (error) {
+      logger.warn({ err: error }, 'Failed to load webhook subscriptions');
+      return;
+    }
+    if (subscriptions.length === 0) return;
+
+    const payload: StatsChangedWebhookPayload = {
+      id: randomUUID(),
+      event: STATS_CHANGED_EVENT,
+      createdAt: new Date().toISOString(),
+      activity: { type: query.type, activityId: query.activityId },
+      previous: {
+        fetchedAt: previous.fetchedAt,
+        contentHash: previous.contentHash,
+      },
+      current: {
+        fetchedAt: current.fetchedAt,
+        contentHash: current.contentHash,
+        data: current.data,
+      },
+      changes: diffJson(previous.data, current.data),
+    };
+
+    for (const subscription of subscriptions) {
+      void this.deliver(subscription, payload);
+    }
+  }
+
+  private async getSubscriptions(): Promise<WebhookSubscription[]> {
+    const subscriptions =
+      await redisRepository.getHashValues<WebhookSubscription>(
+        SUBSCRIPTIONS_KEY
+      );
+    return subscriptions
+      .map(withDefaults)
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  }
+
+  /**
+   * Deliver one payload to one subscriber, retrying with exponential backoff
+   * The subscription is re-read before each retry so deletions and secret
+   * rotations take effect on pending deliveries
+   */
+  private async deliver(
+    subscription: WebhookSubscription,
+    payload: StatsChangedWebhookPayload
+  ): Promise<void> {
+    const body = JSON.stringify(payload);
+    const { WEBHOOK_MAX_ATTEMPTS } = env;
+    let current: WebhookSubscription | null = subscription;
+    let attempts = 0;
+    let lastStatus: number | null = null;
+    let lastError = '';
+
+    while (attempts < WEBHOOK_MAX_ATTEMPTS) {
+      if (attempts > 0) {
+        await sleep(this.getRetryDelay(attempts));
+        current = await this.reloadSubscription(current);
+        if (!current) {
+          logger.info(
+            { subscriptionId: subscription.id, deliveryId: payload.id },
+            'Webhook subscription deleted, abandoning delivery'
+          );
+          return;
+        }
+      }
+
+      attempts += 1;
+      const result = await this.post(current, payload.id, body);
+      if (result.ok) {
+        logger.info(
+          { subscriptionId: current.id, deliveryId: payload.id, attempts },
+          'Delivered webhook'
+        );
+        return;
+      }
+
+      lastStatus = result.status;
+      lastError = result.error;
+      logger.warn(
+        {
+          subscriptionId: current.id,
+          deliveryId: payload.id,
+          attempts,
+          status: lastStatus,
+        },
+        `Webhook delivery failed: ${lastError}`
+      );
+      if (!isRetryableStatus(lastStatus)) break;
+    }
+
+    await this.deadLetter({
+      deliveryId: payload.id,
+      subscriptionId: subscription.id,
+      url: current.url,
+      attempts,
+      lastStatus,
+      lastError,
+      failedAt: new Date().toISOString(),
+      payload,
+    });
+  }
+
+  private async post(
+    subscription: WebhookSubscription,
+    deliveryId: string,
+    body: string
+  ): Promise<
+    { ok: true } | { ok: false; status: number | null; error: string }
+  > {
+    const timestamp = Math.floor(Date.now() / 1000);
+    try {
+      await axios.post(subscription.url, body, {
+        timeout: env.WEBHOOK_TIMEOUT_MS,
+        headers: {
+          'Content-Type': 'application/json',
+          'X-Webhook-Id': deliveryId,
+          'X-Webhook-Event': STATS_CHANGED_EVENT,
+          'X-Webhook-Signature': signWebhookPayload(
+            subscription.secret,
+            body,
+            timestamp
+          ),
+        },
+        // Receivers answer with anything; only the status matters
+        responseType: 'text',
+        maxRedirects: 0,
+      });
+      return { ok: true };
+    } catch (error) {
+      const status = axios.isAxiosError(error)
+        ? (error.response?.status ?? null)
+        : null;
+      return {
+        ok: false,
+        status,
+        error: error instanceof Error ? error.message : String(error),
+      };
+    }
+  }
+
+  /**
+   * Exponential backoff after a number of failed attempts: base, 2x base,
+   * 4x base... capped at the max delay
+   */
+  private getRetryDelay(failedAttempts: number): number {
+    return Math.min(
+      env.WEBHOOK_RETRY_MAX_DELAY_MS,
+      env.WEBHOOK_RETRY_BASE_DELAY_MS * 2 ** (failedAttempts - 1)
+    );
+  }
+
+  /**
+   * @returns The stored subscription, or null if it was deleted
+   */
+  private async reloadSubscription(
+    subscription: WebhookSubscription
+  ): Promise<WebhookSubscription | null> {
+    try {
+      return await redisRepository.getHashField<WebhookSubscription>(
+        SUBSCRIPTIONS_KEY,
+        subscription.id
+      );
+    } catch (error) {
+      // Keep retrying with what we have rather than dropping the delivery
+      logger.warn(
+        { err: error, subscriptionId: subscription.id },
+        'Failed to reload webhook subscription'
+      );
+      return subscription;
+    }
+  }
+
+  private async deadLetter(entry: WebhookDeadLetter): Promise<void> {
+    logger.error(
+      {
+        subscriptionId: entry.subscriptionId,
+        deliveryId: entry.deliveryId,
+        status: entry.lastStatus,
+      },
+      'Webhook delivery failed permanently, moving to dead-letter list'
+    );
+    try {
+      await redisRepository.pushToList(
+        DEAD_LETTER_KEY,
+        entry,
+        DEAD_LETTER_MAX_ENTRIES
+      );
+    } catch (error) {
+      logger.error(
+        { err: error, deliveryId: entry.deliveryId },
+        'Failed to store webhook dead letter'
+      );
+    }
+  }
+}
+
+export const webhookService = new WebhookService();
@@ -0,0 +1,43 @@
+import type { AuthMethod } from './auth.js';
+
+/**
+ * Who performed an audited change
+ * `cli` is used by the scripts in src/scripts
+ */
+export type AuditActor = {
+  id: string;
+  authMethod: AuthMethod | 'cli';
+  keyId: string | null;
+};
+
+/**
+ * Audited changes
+ */
+export type AuditAction =
+  | 'api-key.created'
+  | 'api-key.updated'
+  | 'api-key.rotated'
+  | 'api-key.revoked';
+
+/**
+ * One entry of the audit log
+ * `requestId` is null for changes made outside an HTTP request
+ */
+export type AuditEntry = {
+  id: string;
+  at: string;
+  action: AuditAction;
+  actor: AuditActor;
+  requestId: string | null;
+  target: { type: 'api-key'; id: string };
+  // What changed; never contains secrets
+  details: Record<string, unknown>;
+};
+
+/**
+ * What the caller of AuditService.record() provides
+ */
+export type AuditEvent = Pick<
+  AuditEntry,
+  'action' | 'actor' | 'target' | 'details'
+>;
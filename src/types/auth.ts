@@ -0,0 +1,90 @@
+import type { z } from 'zod';
+
+import type {
+  createApiKeySchema,
+  rotateApiKeySchema,
+  updateApiKeySchema,
+} from '../validators/api-key-validators.js';
+import type { RateLimitTier } from './rate-limit.js';
+
+/**
+ * Salted hash of a key secret
+ */
+export type ApiKeySecretHash = {
+  salt: string;
+  hash: string;
+};
+
+/**
+ * API key as stored in Redis
+ * Only a salted hash of the key's secret is kept
+ */
+export type ApiKeyRecord = ApiKeySecretHash & {
+  id: string;
+  owner: string;
+  scopes: string[];
+  // Free-form key/value pairs for administrators, e.g. `{ "team": "data" }`
+  labels: Record<string, string>;
+  rateLimitTier: RateLimitTier;
+  createdAt: string;
+  updatedAt: string | null;
+  // Null for keys that never expire
+  expiresAt: string | null;
+  rotatedAt: string | null;
+  // Secret replaced by the last rotation, accepted until `expiresAt`
+  previousSecret: (ApiKeySecretHash & { expiresAt: string }) | null;
+};
+
+/**
+ * API key as shown to administrators, without its hashes
+ * `maskedKey` only reveals the key's ID
+ */
+export type ApiKeyView = Omit<
+  ApiKeyRecord,
+  'salt' | 'hash' | 'previousSecret'
+> & {
+  maskedKey: string;
+  // When the secret replaced by the last rotation stops working
+  previousKeyExpiresAt: string | null;
+};
+
+/**
+ * A newly issued or rotated key; `key` is only ever returned here
+ */
+export type CreatedApiKey = ApiKeyView & { key: string };
+
+/**
+ * Input for issuing an API key
+ */
+export type CreateApiKeyInput = z.infer<typeof createApiKeySchema>;
+
+/**
+ * Body of `PATCH /api-keys/:id`; omitted fields are left unchanged
+ */
+export type UpdateApiKeyInput = z.infer<typeof updateApiKeySchema>;
+
+/**
+ * Body of `POST /api-keys/:id/rotate`
+ */
+export type RotateApiKeyInput = z.infer<typeof rotateApiKeySchema>;
+
+/**
+ * How the caller proved its identity
+ */
+export type AuthMethod = 'api-key' | 'jwt';
+
+/**
+ * The authenticated caller of a request, available as `req.user`
+ */
+export type AuthenticatedUser = {
+  // Owner of the API key, or subject of the token
+  id: string;
+  authMethod: AuthMethod;
+  // Null for tokens
+  keyId: string | null;
+  roles: string[];
+  // Checked by authorize(); the scopes of an API key
+  permissions: string[];
+  // Budget applied by the rate limiter
+  rateLimitTier: RateLimitTier;
+};
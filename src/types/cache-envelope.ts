@@ -0,0 +1,27 @@
+/**
+ * Where and how a cached payload was fetched
+ */
+export type CacheSource = {
+  url: string;
+  status: number;
+  latencyMs: number;
+  // ETag sent by the upstream, if any
+  etag: string | null;
+};
+
+/**
+ * Versioned wrapper stored in Redis around every cached payload
+ * `source` is null for entries migrated from the raw (unversioned) format
+ */
+export type CacheEnvelope<T> = {
+  version: number;
+  fetchedAt: string;
+  source: CacheSource | null;
+  contentHash: string;
+  data: T;
+};
+
+/**
+ * Envelope fields without the payload
+ */
+export type CacheMetadata = Omit<CacheEnvelope<unknown>, 'data'>;
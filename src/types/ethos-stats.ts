@@ -1,5 +1,87 @@
+import type { z } from 'zod';
+
+import type {
+  ETHOS_VOTE_TYPES,
+  ethosStatsHistoryQuerySchema,
+  ethosStatsQuerySchema,
+  ethosStatsSchema,
+} from '../validators/ethos-stats-validators.js';
+import type { CacheEnvelope, CacheMetadata } from './cache-envelope.js';
+
 /**
  * Type definition for Ethos vote stats API response
- * Represents the JSON response from the Ethos API endpoint
+ * Inferred from the schema every upstream response is validated against
  */
-export type EthosStats = Record<string, unknown>;
+export type EthosStats = z.infer<typeof ethosStatsSchema>;
+
+/**
+ * Vote type accepted by the Ethos votes stats endpoint
+ */
+export type EthosVoteType = (typeof ETHOS_VOTE_TYPES)[number];
+
+/**
+ * Identifies a single activity whose vote stats are fetched and cached
+ */
+export type EthosStatsQuery = z.infer<typeof ethosStatsQuerySchema>;
+
+/**
+ * Stats payload captured at a point in time
+ */
+export type EthosStatsSnapshot = {
+  fetchedAt: string;
+  data: EthosStats;
+};
+
+/**
+ * How a stats response was served
+ * - HIT: primary cache
+ * - MISS: fetched from the Ethos API
+ * - STALE: last known good copy, because the Ethos API was unavailable
+ */
+export type CacheStatus = 'HIT' | 'MISS' | 'STALE';
+
+/**
+ * Stats together with how they were served and the cache metadata
+ * `ttlSeconds` is the remaining lifetime of the primary copy; stale copies
+ * have none
+ */
+export type EthosStatsResult = {
+  data: EthosStats;
+  cacheStatus: CacheStatus;
+  meta: CacheMetadata;
+  ttlSeconds?: number;
+};
+
+/**
+ * Filters and pagination for the stats history endpoint
+ */
+export type EthosStatsHistoryQuery = z.infer<
+  typeof ethosStatsHistoryQuerySchema
+>;
+
+/**
+ * One page of historical snapshots, oldest first
+ */
+export type EthosStatsHistoryPage = {
+  items: EthosStatsSnapshot[];
+  nextCursor: string | null;
+};
+
+/**
+ * Outcome of a cache refresh
+ * `changed` is false when the upstream returned the payload already cached
+ */
+export type EthosStatsRefreshResult = {
+  changed: boolean;
+  meta: CacheMetadata;
+};
+
+/**
+ * A changed stats payload, as fanned out to stream subscribers
+ * `id` is the Redis stream entry ID and doubles as the SSE event ID
+ */
+export type EthosStatsEvent = {
+  id: string;
+  query: EthosStatsQuery;
+  envelope: CacheEnvelope<EthosStats>;
+};
@@ -0,0 +1,43 @@
+/**
+ * Outcome of a single readiness check
+ * Failing checks carry an `error` unless a threshold was exceeded; `warn`
+ * checks carry a `warning` and leave the instance ready
+ */
+export type HealthCheckStatus = 'pass' | 'warn' | 'fail';
+
+export type RedisConnectionCheck = {
+  status: HealthCheckStatus;
+  // ioredis connection state, e.g. `ready` or `reconnecting`
+  connection: string;
+};
+
+export type RedisLatencyCheck = {
+  status: HealthCheckStatus;
+  latencyMs: number | null;
+  maxLatencyMs: number;
+  error?: string;
+};
+
+export type StatsAgeCheck = {
+  status: HealthCheckStatus;
+  fetchedAt: string | null;
+  ageSeconds: number | null;
+  maxAgeSeconds: number;
+  error?: string;
+  warning?: string;
+};
+
+/**
+ * Body of `GET /readyz`
+ * The instance is ready if no check fails and it is not shutting down, and
+ * degraded if it is ready with warnings; checks are skipped while shutting
+ * down
+ */
+export type ReadinessReport = {
+  status: 'ready' | 'degraded' | 'not_ready' | 'shutting_down';
+  checks: {
+    redis: RedisConnectionCheck;
+    redisLatency: RedisLatencyCheck;
+    statsAge: StatsAgeCheck;
+  } | null;
+};
@@ -0,0 +1,28 @@
+/**
+ * Value stored under a leader lease key while an instance holds it
+ */
+export type LeaderLeaseHolder = {
+  instanceId: string;
+  acquiredAt: string;
+};
+
+/**
+ * Current holder of a leader lease, as stored in Redis
+ * `fencingToken` grows with every new holder, so a higher token always
+ * belongs to a later leadership term
+ */
+export type LeaderLeaseInfo = LeaderLeaseHolder & {
+  fencingToken: number | null;
+  expiresAt: string | null;
+};
+
+/**
+ * Fencing token of a leadership term, with the Redis key of the counter it
+ * came from
+ * Writes made with it are rejected once the counter has moved on, i.e. once
+ * another holder took over
+ */
+export type Fence = {
+  key: string;
+  token: number;
+};
@@ -0,0 +1,21 @@
+import type { z } from 'zod';
+
+import type { rateLimitTierSchema } from '../validators/api-key-validators.js';
+
+/**
+ * Named rate limit budget assigned to API keys
+ */
+export type RateLimitTier = z.infer<typeof rateLimitTierSchema>;
+
+/**
+ * At most `max` requests per `windowMs`
+ */
+export type RateLimitRule = {
+  max: number;
+  windowMs: number;
+};
+
+/**
+ * Limit of each tier; null means unlimited
+ */
+export type RateLimitTiers = Record<RateLimitTier, RateLimitRule | null>;
@@ -0,0 +1,13 @@
+import type { z } from 'zod';
+
+import type { rbacPolicySchema } from '../validators/rbac-validators.js';
+
+/**
+ * Maps role names to the permissions they grant
+ */
+export type RbacPolicy = z.infer<typeof rbacPolicySchema>;
+
+/**
+ * Whether a caller needs every listed permission or any one of them
+ */
+export type PermissionMatch = 'all' | 'any';
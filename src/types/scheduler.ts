@@ -0,0 +1,143 @@
+import type { Schedule } from '../utils/schedule.js';
+import type { Fence, LeaderLeaseInfo } from './leader-lease.js';
+
+/**
+ * Where a job runs when several replicas are up
+ * - leader: scheduled runs only on the replica holding the job's leader
+ *   lease; no two runs overlap on any replica
+ * - instance: on every replica; runs never overlap on a replica
+ */
+export type JobConcurrency = 'leader' | 'instance';
+
+/**
+ * Attempts within one run; a `maxAttempts` of 1 disables retries
+ * Delays double from `baseDelayMs` up to `maxDelayMs`
+ */
+export type JobRetryPolicy = {
+  maxAttempts: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+};
+
+/**
+ * Passed to a job handler on every attempt
+ * `signal` aborts when the attempt times out or the job is stopped.
+ * `fence` is null for instance jobs and for manual runs on a replica that is
+ * not the leader; handlers of leader jobs pass it to their writes so a
+ * replica that lost the lease mid-run cannot overwrite its successor
+ */
+export type JobContext = {
+  attempt: number;
+  fence: Fence | null;
+  signal: AbortSignal;
+};
+
+/**
+ * What a job handler reports; `changed` tells whether the run produced new
+ * data
+ */
+export type JobHandlerResult = {
+  changed: boolean;
+};
+
+/**
+ * First run after a replica starts leading (or starts, for instance jobs)
+ * - auto: skip it while the job's output is not due yet
+ * - always: run right away
+ * `jitterMs` spreads startup runs; jobs without output yet run without it
+ */
+export type JobStartupPolicy = {
+  mode: 'auto' | 'always';
+  jitterMs: number;
+};
+
+/**
+ * A background job, as registered with the job registry
+ */
+export interface JobDefinition {
+  // Unique name, e.g. `ethos-stats-refresh`
+  name: string;
+  // Prefix of the job's Redis keys; defaults to `ethos:jobs:<name>`
+  keyPrefix?: string;
+  schedule: Schedule;
+  // Per attempt
+  timeoutMs: number;
+  retry: JobRetryPolicy;
+  concurrency: JobConcurrency;
+  startup?: JobStartupPolicy;
+  handler(context: JobContext): Promise<JobHandlerResult>;
+  // When the job's output was last produced, or null if there is none yet;
+  // without it, startup runs are never skipped
+  getLastOutputAt?(): Promise<Date | null>;
+}
+
+/**
+ * What started a job run
+ */
+export type SchedulerRunTrigger = 'scheduled' | 'manual';
+
+/**
+ * Outcome of one job run, retries included
+ * `changed` is false for failed runs; `error` is only set for them.
+ * `fencingToken` identifies the leadership term the run happened in; it is
+ * null for instance jobs and for manual runs on a replica that was not the
+ * leader
+ */
+export type SchedulerRunResult = {
+  job: string;
+  trigger: SchedulerRunTrigger;
+  instanceId: string;
+  fencingToken: number | null;
+  outcome: 'success' | 'failure';
+  startedAt: string;
+  finishedAt: string;
+  durationMs: number;
+  attempts: number;
+  changed: boolean;
+  error?: string;
+};
+
+/**
+ * A run in progress
+ * For leader jobs this is also the value of the job's run lock, which the
+ * replica running the job holds until the run has settled
+ */
+export type SchedulerCurrentRun = Pick<
+  SchedulerRunResult,
+  'trigger' | 'instanceId' | 'startedAt'
+>;
+
+/**
+ * Next scheduled run of a leader job, as stored by the leader that armed it
+ * Only the current leader's entry is reported
+ */
+export type SchedulerNextRun = {
+  instanceId: string;
+  nextRunAt: string | null;
+};
+
+/**
+ * Job state, with the run history shared by all instances
+ * For leader jobs `nextRunAt` and `currentRun` come from Redis, so every
+ * replica reports the leader's schedule and a run on any replica
+ * - stopped: this instance is not scheduling
+ * - standby: another replica holds the leader lease
+ * - idle: waiting for the next scheduled run
+ * - running: a run is in progress (on any replica, for leader jobs)
+ */
+export type SchedulerStatus = {
+  job: string;
+  state: 'stopped' | 'standby' | 'idle' | 'running';
+  concurrency: JobConcurrency;
+  schedule: string;
+  timezone: string;
+  instanceId: string;
+  // Current lease holder, possibly another replica; null for instance jobs
+  leader: LeaderLeaseInfo | null;
+  nextRunAt: string | null;
+  currentRun: SchedulerCurrentRun | null;
+  lastSuccess: SchedulerRunResult | null;
+  lastFailure: SchedulerRunResult | null;
+  // Most recent first
+  history: SchedulerRunResult[];
+};
@@ -0,0 +1,61 @@
+import type { z } from 'zod';
+
+import type { JsonChange } from '../utils/json-diff.js';
+import type { createWebhookSchema } from '../validators/webhook-validators.js';
+import type { CacheMetadata } from './cache-envelope.js';
+import type { EthosStats, EthosStatsQuery } from './ethos-stats.js';
+
+/**
+ * Webhook subscription as stored in Redis
+ */
+export type WebhookSubscription = {
+  id: string;
+  url: string;
+  description: string | null;
+  // Activities to notify about; null for every activity
+  activities: EthosStatsQuery[] | null;
+  // Used to sign deliveries; only returned on creation and rotation
+  secret: string;
+  createdAt: string;
+  secretRotatedAt: string | null;
+};
+
+/**
+ * Subscription as listed by the API, without its secret
+ */
+export type WebhookSubscriptionView = Omit<WebhookSubscription, 'secret'>;
+
+/**
+ * Body of `POST /webhooks`
+ */
+export type CreateWebhookInput = z.infer<typeof createWebhookSchema>;
+
+/**
+ * Body POSTed to subscribers when the stats of an activity change
+ */
+export type StatsChangedWebhookPayload = {
+  id: string;
+  event: 'stats.changed';
+  createdAt: string;
+  activity: EthosStatsQuery;
+  previous: Pick<CacheMetadata, 'fetchedAt' | 'contentHash'>;
+  current: Pick<CacheMetadata, 'fetchedAt' | 'contentHash'> & {
+    data: EthosStats;
+  };
+  changes: JsonChange[];
+};
+
+/**
+ * A delivery that failed permanently or exhausted its retries
+ */
+export type WebhookDeadLetter = {
+  deliveryId: string;
+  subscriptionId: string;
+  url: string;
+  attempts: number;
+  // HTTP status of the last attempt, null for network errors
+  lastStatus: number | null;
+  lastError: string;
+  failedAt: string;
+  payload: StatsChangedWebhookPayload;
+};
@@ -0,0 +1,63 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+
+// ek_<key ID>_<secret>; the ID locates the stored hash without a scan
+const API_KEY_PATTERN = /^ek_([0-9a-f]{16})_([A-Za-z0-9_-]{43})$/;
+
+/**
+ * Generate a new API key
+ * @param id - ID of the key whose secret is rotated; a new ID by default
+ * @returns The key to hand out, with its ID and secret
+ */
+export const generateApiKey = (
+  id: string = randomBytes(8).toString('hex')
+): {
+  id: string;
+  secret: string;
+  key: string;
+} => {
+  const secret = randomBytes(32).toString('base64url');
+  return { id, secret, key: `ek_${id}_${secret}` };
+};
+
+/**
+ * Display form of a key that only reveals its ID, e.g. `ek_0123456789abcdef_****`
+ */
+export const maskApiKey = (id: string): string => `ek_${id}_****`;
+
+/**
+ * Split an API key into its ID and secret
+ * @returns null if the value is not shaped like an API key
+ */
+export const parseApiKey = (
+  key: string
+): { id: string; secret: string } | null => {
+  const match = API_KEY_PATTERN.exec(key);
+  if (!match) return null;
+  return { id: match[1] as string, secret: match[2] as string };
+};
+
+/**
+ * Salted SHA-256 of a key secret
+ * Secrets are 256 random bits, so a slow password hash would only add
+ * latency to every request without making guessing any harder
+ */
+export const hashApiKeySecret = (secret: string, salt: string): string =>
+  createHash('sha256').update(salt).update(secret).digest('hex');
+
+/**
+ * Compare a secret with a stored hash in constant time
+ */
+export const verifyApiKeySecret = (
+  secret: string,
+  salt: string,
+  hash: string
+): boolean => {
+  const expected = Buffer.from(hash, 'hex');
+  const actual = Buffer.from(hashApiKeySecret(secret, salt), 'hex');
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+};
+
+/**
+ * Generate a salt for hashApiKeySecret
+ */
+export const generateApiKeySalt = (): string => randomBytes(16).toString('hex');
@@ -0,0 +1,60 @@
+import type { CacheEnvelope, CacheSource } from '../types/cache-envelope.js';
+import { computeContentHash } from './etag.js';
+
+export const CACHE_ENVELOPE_VERSION = 1;
+
+/**
+ * Wrap a freshly fetched payload in the current envelope version
+ */
+export const createCacheEnvelope = <T>(
+  data: T,
+  source: CacheSource,
+  fetchedAt: Date = new Date()
+): CacheEnvelope<T> => ({
+  version: CACHE_ENVELOPE_VERSION,
+  fetchedAt: fetchedAt.toISOString(),
+  source,
+  contentHash: computeContentHash(data),
+  data,
+});
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Read an entry written by any version of the cache
+ *
+ * - Versioned envelopes are returned as is
+ * - `{ fetchedAt, data }` snapshots keep their fetch time
+ * - Raw payloads (before envelopes existed) get `fallbackFetchedAt`
+ */
+export const upgradeCacheEntry = <T>(
+  entry: unknown,
+  fallbackFetchedAt: string
+): CacheEnvelope<T> => {
+  if (isObject(entry) && typeof entry.version === 'number' && 'data' in entry) {
+    return entry as CacheEnvelope<T>;
+  }
+
+  if (
+    isObject(entry) &&
+    typeof entry.fetchedAt === 'string' &&
+    'data' in entry
+  ) {
+    return {
+      version: CACHE_ENVELOPE_VERSION,
+      fetchedAt: entry.fetchedAt,
+      source: null,
+      contentHash: computeContentHash(entry.data),
+      data: entry.data as T,
+    };
+  }
+
+  return {
+    version: CACHE_ENVELOPE_VERSION,
+    fetchedAt: fallbackFetchedAt,
+    source: null,
+    contentHash: computeContentHash(entry),
+    data: entry as T,
+  };
+};
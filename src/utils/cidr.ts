@@ -0,0 +1,33 @@
+import { BlockList, isIP } from 'net';
+
+/**
+ * Build a matcher for a comma-separated list of CIDR ranges, e.g.
+ * `10.0.0.0/8,::1/128`
+ * IPv4-mapped IPv6 addresses (`::ffff:10.0.0.1`) match IPv4 ranges
+ * @throws Error if an entry is not a valid CIDR range
+ */
+export const createCidrMatcher = (
+  ranges: string
+): ((address: string) => boolean) => {
+  const blockList = new BlockList();
+
+  for (const range of ranges.split(',').map((entry) => entry.trim())) {
+    if (range === '') continue;
+    const [network = '', prefixText = ''] = range.split('/');
+    const family = isIP(network);
+    const prefix = Number(prefixText);
+    const maxPrefix = family === 4 ? 32 : 128;
+    if (family === 0 || !/^\d+$/.test(prefixText) || prefix > maxPrefix) {
+      throw new Error(`Invalid CIDR range "${range}"`);
+    }
+    blockList.addSubnet(network, prefix, family === 4 ? 'ipv4' : 'ipv6');
+  }
+
+  return (address: string): boolean => {
+    const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address)?.[1];
+    const normalized = mapped ?? address;
+    const family = isIP(normalized);
+    if (family === 0) return false;
+    return blockList.check(normalized, family === 4 ? 'ipv4' : 'ipv6');
+  };
+};
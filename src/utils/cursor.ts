@@ -0,0 +1,15 @@
+/**
+ * Encode a sorted-set score as an opaque pagination cursor
+ */
+export const encodeCursor = (score: number): string =>
+  Buffer.from(String(score), 'utf8').toString('base64url');
+
+/**
+ * Decode a pagination cursor back into a sorted-set score
+ * @returns The score, or null if the cursor is malformed
+ */
+export const decodeCursor = (cursor: string): number | null => {
+  const decoded = Buffer.from(cursor, 'base64url').toString('utf8');
+  if (!/^\d+$/.test(decoded)) return null;
+  return Number(decoded);
+};
@@ -0,0 +1,7 @@
+import { createHash } from 'crypto';
+
+/**
+ * Hash the JSON representation of a value (SHA-256, base64url)
+ */
+export const computeContentHash = (value: unknown): string =>
+  createHash('sha256').update(JSON.stringify(value)).digest('base64url');
@@ -0,0 +1,9 @@
+import { randomUUID } from 'crypto';
+import { hostname } from 'os';
+
+/**
+ * Identifies this process among all replicas, e.g. `api-7d9f-1-0a1b2c3d`
+ * The random suffix keeps it unique when a container restarts with the same
+ * hostname and PID
+ */
+export const INSTANCE_ID = `${hostname()}-${process.pid}-${randomUUID().slice(0, 8)}`;
@@ -0,0 +1,40 @@
+/**
+ * A value that differs between two JSON documents
+ * `previous` is missing for added values, `current` for removed ones
+ */
+export type JsonChange = {
+  path: string;
+  previous?: unknown;
+  current?: unknown;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * List the leaf values that differ between two JSON documents
+ * Objects are compared key by key; arrays and scalars are compared as a whole.
+ * Paths join keys with dots, e.g. `stats.daily.2024-01-15`
+ */
+export const diffJson = (
+  previous: unknown,
+  current: unknown,
+  path: string[] = []
+): JsonChange[] => {
+  if (isObject(previous) && isObject(current)) {
+    const keys = new Set([...Object.keys(previous), ...Object.keys(current)]);
+    return [...keys]
+      .sort()
+      .flatMap((key) => diffJson(previous[key], current[key], [...path, key]));
+  }
+
+  if (JSON.stringify(previous) === JSON.stringify(current)) return [];
+
+  return [
+    {
+      path: path.join('.'),
+      ...(previous !== undefined && { previous }),
+      ...(current !== undefined && { current }),
+    },
+  ];
+};
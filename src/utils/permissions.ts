@@ -0,0 +1,19 @@
+/**
+ * Whether a granted permission pattern covers a required permission
+ * `*` covers everything; a `*` segment covers any value of that segment, so
+ * `stats:*` covers `stats:read` and `*:read` covers `webhooks:read`
+ */
+export const matchesPermission = (
+  granted: string,
+  required: string
+): boolean => {
+  if (granted === '*') return true;
+  const grantedSegments = granted.split(':');
+  const requiredSegments = required.split(':');
+  return (
+    grantedSegments.length === requiredSegments.length &&
+    grantedSegments.every(
+      (segment, index) => segment === '*' || segment === requiredSegments[index]
+    )
+  );
+};
@@ -0,0 +1,26 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Values scoped to the request being handled
+ */
+export interface RequestContext {
+  requestId: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Run a function, and everything it starts asynchronously, within a request
+ * context
+ */
+export const runWithRequestContext = <T>(
+  context: RequestContext,
+  fn: () => T
+): T => storage.run(context, fn);
+
+/**
+ * @returns The context of the request being handled, or undefined outside
+ * of one (e.g. scheduled jobs)
+ */
+export const getRequestContext = (): RequestContext | undefined =>
+  storage.getStore();
@@ -0,0 +1,28 @@
+import type { NextFunction, Request, Response } from 'express';
+
+// Mount path of the router handling each request
+const mountPaths = new WeakMap<Request, string>();
+
+/**
+ * Remember the mount path of the router a request enters
+ * Express resets `req.baseUrl` when an error leaves the router, so by the
+ * time the error response is finished the prefix would be lost
+ */
+export const trackMountPath = (
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): void => {
+  mountPaths.set(req, req.baseUrl);
+  next();
+};
+
+/**
+ * Route pattern a request matched, e.g. `/api/v1/admin/webhooks/:id`
+ * Unlike the URL, the pattern is safe to use as a metric label or span name
+ * @returns The pattern, or null if no route matched (yet)
+ */
+export const getRoutePattern = (req: Request): string | null =>
+  req.route
+    ? `${mountPaths.get(req) ?? req.baseUrl}${String(req.route.path)}`
+    : null;
@@ -0,0 +1,117 @@
+import { CronExpressionParser } from 'cron-parser';
+
+const DURATION_PATTERN = /^(?:\d+(?:ms|s|m|h|d))+$/;
+const DURATION_PART_PATTERN = /(\d+)(ms|s|m|h|d)/g;
+const DURATION_UNITS_MS: Record<string, number> = {
+  ms: 1,
+  s: 1000,
+  m: 60 * 1000,
+  h: 60 * 60 * 1000,
+  d: 24 * 60 * 60 * 1000,
+};
+// Look a year ahead (and through its DST changes) for the longest gap of a
+// cron schedule, capped for frequent schedules
+const MAX_SAMPLED_RUNS = 1000;
+const SAMPLED_SPAN_MS = 366 * 24 * 60 * 60 * 1000;
+
+/**
+ * When a recurring job runs
+ * `next` is computed from the wall clock on every call, so timers that fire
+ * late never push later runs back
+ */
+export interface Schedule {
+  expression: string;
+  timezone: string;
+  // First run strictly after the given time
+  next(after: Date): Date;
+  // Longest time between two consecutive runs over the coming year
+  maxIntervalMs: number;
+}
+
+/**
+ * Parse an interval string such as `30s`, `6h` or `1h30m`
+ * @returns Duration in ms, or null if the value is not an interval string
+ */
+export const parseDuration = (value: string): number | null => {
+  if (!DURATION_PATTERN.test(value)) return null;
+
+  let total = 0;
+  for (const [, amount, unit] of value.matchAll(DURATION_PART_PATTERN)) {
+    total += Number(amount) * (DURATION_UNITS_MS[unit as string] ?? 0);
+  }
+  return total > 0 ? total : null;
+};
+
+/**
+ * Longest gap between consecutive runs of a cron expression, e.g. three days
+ * over weekends for `0 9 * * 1-5`, or 25 hours around a DST change for a
+ * daily job
+ */
+const getMaxCronIntervalMs = (
+  cron: ReturnType<typeof CronExpressionParser.parse>
+): number => {
+  let previous = cron.next().getTime();
+  const end = previous + SAMPLED_SPAN_MS;
+  let maxIntervalMs = 0;
+
+  for (let i = 0; i < MAX_SAMPLED_RUNS && previous < end; i += 1) {
+    const next = cron.next().getTime();
+    maxIntervalMs = Math.max(maxIntervalMs, next - previous);
+    previous = next;
+  }
+  return maxIntervalMs;
+};
+
+const assertTimezone = (timezone: string): void => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone: timezone });
+  } catch {
+    throw new Error(`Unknown timezone "${timezone}"`);
+  }
+};
+
+/**
+ * Parse a schedule from configuration
+ * - Interval strings (`6h`) run at multiples of the interval since the Unix
+ *   epoch, e.g. `6h` at 00:00, 06:00, 12:00 and 18:00 UTC, on every replica
+ * - Cron expressions (`0 3 * * *`, optionally with a seconds field) run in
+ *   the given IANA timezone; local times skipped by a DST change run right
+ *   after it, repeated ones run once
+ * @throws Error if the expression or the timezone is invalid
+ */
+export const parseSchedule = (
+  expression: string,
+  timezone: string
+): Schedule => {
+  const trimmed = expression.trim();
+  assertTimezone(timezone);
+
+  const intervalMs = parseDuration(trimmed);
+  if (intervalMs !== null) {
+    return {
+      expression: trimmed,
+      timezone,
+      next: (after) =>
+        new Date((Math.floor(after.getTime() / intervalMs) + 1) * intervalMs),
+      maxIntervalMs: intervalMs,
+    };
+  }
+
+  const parse = (currentDate: Date) =>
+    CronExpressionParser.parse(trimmed, { tz: timezone, currentDate });
+  let maxIntervalMs: number;
+  try {
+    maxIntervalMs = getMaxCronIntervalMs(parse(new Date()));
+  } catch (error) {
+    throw new Error(
+      `Invalid schedule "${trimmed}": expected an interval such as 6h or a cron expression (${error instanceof Error ? error.message : String(error)})`
+    );
+  }
+
+  return {
+    expression: trimmed,
+    timezone,
+    next: (after) => parse(after).next().toDate(),
+    maxIntervalMs,
+  };
+};
@@ -0,0 +1,7 @@
+/**
+ * Resolve after the given number of milliseconds
+ */
+export const sleep = (ms: number): Promise<void> =>
+  new Promise((resolve) => {
+    setTimeout(resolve, ms);
+  });
@@ -0,0 +1,26 @@
+/**
+ * Comment line sent periodically so proxies do not close idle streams
+ */
+export const SSE_HEARTBEAT = ': ping\n\n';
+
+/**
+ * Serialize a Server-Sent Event
+ * `data` is sent as a single line of JSON
+ */
+export const formatSseEvent = (event: {
+  id?: string | null;
+  event: string;
+  data: unknown;
+}): string => {
+  const lines: string[] = [];
+  if (event.id) lines.push(`id: ${event.id}`);
+  lines.push(`event: ${event.event}`);
+  lines.push(`data: ${JSON.stringify(event.data)}`);
+  return `${lines.join('\n')}\n\n`;
+};
+
+/**
+ * Tell the client how long to wait before reconnecting
+ */
+export const formatSseRetry = (retryMs: number): string =>
+  `retry: ${retryMs}\n\n`;
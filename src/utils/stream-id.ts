@@ -0,0 +1,17 @@
+const STREAM_ID_PATTERN = /^(\d+)-(\d+)$/;
+
+/**
+ * Check whether a value is a Redis stream entry ID (`<ms>-<seq>`)
+ */
+export const isStreamId = (value: string): boolean =>
+  STREAM_ID_PATTERN.test(value);
+
+/**
+ * Order two Redis stream entry IDs
+ * @returns A negative number if a < b, 0 if equal, a positive number if a > b
+ */
+export const compareStreamIds = (a: string, b: string): number => {
+  const [, aMs = '0', aSeq = '0'] = STREAM_ID_PATTERN.exec(a) ?? [];
+  const [, bMs = '0', bSeq = '0'] = STREAM_ID_PATTERN.exec(b) ?? [];
+  return Number(aMs) - Number(bMs) || Number(aSeq) - Number(bSeq);
+};
@@ -0,0 +1,52 @@
+import {
+  context,
+  propagation,
+  SpanStatusCode,
+  trace,
+} from '@opentelemetry/api';
+import type { Span, SpanOptions } from '@opentelemetry/api';
+
+/**
+ * Spans are no-ops until tracing is started (see config/tracing.ts), so code
+ * can be instrumented unconditionally
+ */
+export const tracer = trace.getTracer('ethos-stats-api');
+
+/**
+ * Run a function in a new active span, ending it when the function settles
+ * A thrown error is recorded on the span and rethrown
+ * @param name - Span name, e.g. `redis GET`
+ * @param options - Span kind and attributes; `root` starts a new trace
+ */
+export const withSpan = <T>(
+  name: string,
+  options: SpanOptions,
+  fn: (span: Span) => Promise<T>
+): Promise<T> =>
+  tracer.startActiveSpan(name, options, async (span) => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      span.recordException(
+        error instanceof Error ? error : new Error(String(error))
+      );
+      span.setStatus({
+        code: SpanStatusCode.ERROR,
+        message: error instanceof Error ? error.message : String(error),
+      });
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+
+/**
+ * Headers carrying the active trace context (W3C `traceparent`), to add to
+ * outgoing requests
+ * @returns An empty object while tracing is off
+ */
+export const getTraceHeaders = (): Record<string, string> => {
+  const headers: Record<string, string> = {};
+  propagation.inject(context.active(), headers);
+  return headers;
+};
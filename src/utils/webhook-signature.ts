@@ -0,0 +1,47 @@
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+const SECRET_PREFIX = 'whsec_';
+
+/**
+ * Generate a random signing secret for a webhook subscription
+ */
+export const generateWebhookSecret = (): string =>
+  `${SECRET_PREFIX}${randomBytes(32).toString('base64url')}`;
+
+const computeSignature = (
+  secret: string,
+  body: string,
+  timestamp: number
+): string =>
+  createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex');
+
+/**
+ * Sign a webhook body
+ * The timestamp (unix seconds) is part of the signed content so receivers can
+ * reject replayed deliveries
+ * @returns Header value in the form `t=<timestamp>,v1=<hex HMAC-SHA256>`
+ */
+export const signWebhookPayload = (
+  secret: string,
+  body: string,
+  timestamp: number
+): string => `t=${timestamp},v1=${computeSignature(secret, body, timestamp)}`;
+
+/**
+ * Check a signature header produced by signWebhookPayload
+ * Receivers should additionally reject timestamps that are too old
+ */
+export const verifyWebhookSignature = (
+  secret: string,
+  body: string,
+  header: string
+): boolean => {
+  const match = /^t=(\d+),v1=([0-9a-f]{64})$/.exec(header);
+  if (!match) return false;
+
+  const expected = Buffer.from(
+    computeSignature(secret, body, Number(match[1])),
+    'hex'
+  );
+  return timingSafeEqual(expected, Buffer.from(match[2] ?? '', 'hex'));
+};
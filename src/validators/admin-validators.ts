@@ -0,0 +1,36 @@
+import { z } from 'zod';
+
+export const DEFAULT_SCHEDULER_HISTORY_LIMIT = 20;
+export const MAX_SCHEDULER_HISTORY_LIMIT = 100;
+
+/**
+ * Query schema for the scheduler status endpoint
+ * `limit` caps the number of recent runs returned
+ */
+export const schedulerStatusQuerySchema = z
+  .object({
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_SCHEDULER_HISTORY_LIMIT)
+      .default(DEFAULT_SCHEDULER_HISTORY_LIMIT),
+  })
+  .strict();
+
+export const DEFAULT_AUDIT_LOG_LIMIT = 50;
+export const MAX_AUDIT_LOG_LIMIT = 1000;
+
+/**
+ * Query schema for reading the audit log
+ */
+export const auditLogQuerySchema = z
+  .object({
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_AUDIT_LOG_LIMIT)
+      .default(DEFAULT_AUDIT_LOG_LIMIT),
+  })
+  .strict();
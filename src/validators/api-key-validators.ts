@@ -0,0 +1,88 @@
+import { z } from 'zod';
+
+import { permissionPatternSchema } from './rbac-validators.js';
+
+export const MAX_API_KEY_LABELS = 20;
+export const DEFAULT_ROTATION_GRACE_PERIOD_SECONDS = 60 * 60;
+export const MAX_ROTATION_GRACE_PERIOD_SECONDS = 7 * 24 * 60 * 60;
+
+/**
+ * Rate limit tier of a key; see config/rate-limit.ts
+ */
+export const rateLimitTierSchema = z.enum(['free', 'internal', 'unlimited']);
+
+// Permissions of a key; wildcards such as `stats:*` are allowed
+const scopesSchema = z.array(permissionPatternSchema).min(1);
+
+const expiresAtSchema = z
+  .string()
+  .datetime()
+  .refine((value) => Date.parse(value) > Date.now(), {
+    message: 'Expiry must be in the future',
+  })
+  .nullable();
+
+const labelsSchema = z
+  .record(
+    z.string().regex(/^[a-z][a-z0-9_.-]{0,62}$/, {
+      message: 'Label names must be lowercase identifiers',
+    }),
+    z.string().max(200)
+  )
+  .refine((labels) => Object.keys(labels).length <= MAX_API_KEY_LABELS, {
+    message: `At most ${MAX_API_KEY_LABELS} labels are allowed`,
+  });
+
+/**
+ * Input for issuing an API key
+ */
+export const createApiKeySchema = z
+  .object({
+    owner: z.string().trim().min(1).max(100),
+    scopes: scopesSchema,
+    expiresAt: expiresAtSchema.default(null),
+    labels: labelsSchema.default({}),
+    rateLimitTier: rateLimitTierSchema.default('free'),
+  })
+  .strict();
+
+/**
+ * Body schema for updating an API key
+ * `labels` replaces every label; `expiresAt: null` removes the expiry
+ */
+export const updateApiKeySchema = z
+  .object({
+    scopes: scopesSchema.optional(),
+    expiresAt: expiresAtSchema.optional(),
+    labels: labelsSchema.optional(),
+    rateLimitTier: rateLimitTierSchema.optional(),
+  })
+  .strict()
+  .refine((input) => Object.keys(input).length > 0, {
+    message:
+      'At least one of scopes, expiresAt, labels or rateLimitTier is required',
+  });
+
+/**
+ * Body schema for rotating an API key
+ * The old key keeps working for the grace period; 0 revokes it immediately
+ */
+export const rotateApiKeySchema = z
+  .object({
+    gracePeriodSeconds: z
+      .number()
+      .int()
+      .min(0)
+      .max(MAX_ROTATION_GRACE_PERIOD_SECONDS)
+      .default(DEFAULT_ROTATION_GRACE_PERIOD_SECONDS),
+  })
+  .strict();
+
+/**
+ * Route parameters identifying an API key
+ */
+export const apiKeyParamsSchema = z
+  .object({
+    id: z.string().regex(/^[0-9a-f]{16}$/, { message: 'Invalid API key ID' }),
+  })
+  .strict();
@@ -0,0 +1,110 @@
+import { z } from 'zod';
+
+import type { EthosStatsQuery } from '../types/ethos-stats.js';
+import { decodeCursor } from '../utils/cursor.js';
+
+/**
+ * Vote types supported by the Ethos votes stats endpoint
+ */
+export const ETHOS_VOTE_TYPES = [
+  'attestation',
+  'discussion',
+  'reply',
+  'review',
+  'slash',
+  'vouch',
+] as const;
+
+export const DEFAULT_VOTE_TYPE = 'attestation';
+export const DEFAULT_ACTIVITY_ID = 223;
+
+/**
+ * Query schema for selecting which activity's stats to serve
+ * Defaults keep `GET /stats` without parameters backwards compatible
+ */
+export const ethosStatsQuerySchema = z
+  .object({
+    type: z.enum(ETHOS_VOTE_TYPES).default(DEFAULT_VOTE_TYPE),
+    activityId: z.coerce.number().int().positive().default(DEFAULT_ACTIVITY_ID),
+  })
+  .strict(); // Reject unknown query parameters
+
+// Per-period vote counts keyed by period label, e.g. `2024-01-15` or `2024-W03`
+const voteCountSeriesSchema = z.record(
+  z.string(),
+  z.number().int().nonnegative()
+);
+
+/**
+ * Schema for the Ethos votes stats payload
+ * Upstream responses are parsed with it before they are cached
+ */
+export const ethosStatsSchema = z.object({
+  totalVotes: z.number().int().nonnegative(),
+  uniqueVoters: z.number().int().nonnegative(),
+  activityId: z.number().int().positive(),
+  type: z.enum(ETHOS_VOTE_TYPES),
+  lastUpdated: z.string().datetime({ offset: true }),
+  stats: z
+    .object({
+      daily: voteCountSeriesSchema.optional(),
+      weekly: voteCountSeriesSchema.optional(),
+    })
+    .optional(),
+});
+
+/**
+ * Schema for the stats payload of one activity
+ * A payload for another activity is rejected, so it is never cached under
+ * the requested activity's key
+ */
+export const ethosStatsSchemaFor = (query: EthosStatsQuery) =>
+  ethosStatsSchema.superRefine((stats, ctx) => {
+    for (const field of ['type', 'activityId'] as const) {
+      if (stats[field] !== query[field]) {
+        ctx.addIssue({
+          code: z.ZodIssueCode.custom,
+          path: [field],
+          message: `Expected ${query[field]} as requested`,
+        });
+      }
+    }
+  });
+
+export const DEFAULT_HISTORY_LIMIT = 100;
+export const MAX_HISTORY_LIMIT = 500;
+
+/**
+ * Query schema for paging through historical stats snapshots
+ * `from`/`to` bound the fetch time, `cursor` continues a previous page
+ */
+export const ethosStatsHistoryQuerySchema = ethosStatsQuerySchema
+  .extend({
+    from: z.coerce.date().optional(),
+    to: z.coerce.date().optional(),
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_HISTORY_LIMIT)
+      .default(DEFAULT_HISTORY_LIMIT),
+    cursor: z
+      .string()
+      .transform((value, ctx) => {
+        const score = decodeCursor(value);
+        if (score === null) {
+          ctx.addIssue({
+            code: z.ZodIssueCode.custom,
+            message: 'Invalid cursor',
+          });
+          return z.NEVER;
+        }
+        return score;
+      })
+      .optional(),
+  })
+  .strict()
+  .refine((query) => !query.from || !query.to || query.from <= query.to, {
+    message: '`from` must not be after `to`',
+    path: ['from'],
+  });
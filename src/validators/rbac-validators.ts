@@ -0,0 +1,28 @@
+import { z } from 'zod';
+
+const SEGMENT = '(?:\\*|[a-z][a-z-]*)';
+
+/**
+ * Permission or permission pattern: `resource:action`, where either segment
+ * may be `*`, or `*` alone for every permission
+ */
+export const permissionPatternSchema = z
+  .string()
+  .regex(new RegExp(`^(?:\\*|${SEGMENT}:${SEGMENT})$`), {
+    message: 'Permission must look like resource:action, stats:* or *',
+  });
+
+/**
+ * Role-based access control policy
+ * The `anonymous` role applies to every caller, authenticated or not
+ */
+export const rbacPolicySchema = z
+  .object({
+    roles: z.record(
+      z.string().regex(/^[a-z][a-z0-9_-]*$/, {
+        message: 'Role names must be lowercase identifiers',
+      }),
+      z.array(permissionPatternSchema)
+    ),
+  })
+  .strict();
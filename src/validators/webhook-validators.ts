@@ -0,0 +1,59 @@
+import { z } from 'zod';
+
+import { ETHOS_VOTE_TYPES } from './ethos-stats-validators.js';
+
+export const DEFAULT_DEAD_LETTER_LIMIT = 50;
+export const MAX_DEAD_LETTER_LIMIT = 1000;
+export const MAX_WEBHOOK_ACTIVITIES = 100;
+
+// Activity a subscription is notified about
+const webhookActivitySchema = z
+  .object({
+    type: z.enum(ETHOS_VOTE_TYPES),
+    activityId: z.number().int().positive(),
+  })
+  .strict();
+
+/**
+ * Body schema for creating a webhook subscription
+ * Without `activities` the subscription is notified about every activity
+ */
+export const createWebhookSchema = z
+  .object({
+    url: z
+      .string()
+      .url()
+      .refine((value) => /^https?:\/\//i.test(value), {
+        message: 'URL must use http or https',
+      }),
+    description: z.string().trim().min(1).max(200).optional(),
+    activities: z
+      .array(webhookActivitySchema)
+      .min(1)
+      .max(MAX_WEBHOOK_ACTIVITIES)
+      .optional(),
+  })
+  .strict();
+
+/**
+ * Route parameters identifying a webhook subscription
+ */
+export const webhookParamsSchema = z
+  .object({
+    id: z.string().uuid(),
+  })
+  .strict();
+
+/**
+ * Query schema for inspecting failed deliveries
+ */
+export const deadLetterQuerySchema = z
+  .object({
+    limit: z.coerce
+      .number()
+      .int()
+      .min(1)
+      .max(MAX_DEAD_LETTER_LIMIT)
+      .default(DEFAULT_DEAD_LETTER_LIMIT),
+  })
+  .strict();
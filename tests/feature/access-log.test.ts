@@ -0,0 +1,195 @@
+import { Writable } from 'stream';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import request from 'supertest';
+
+// Log lines written by the app, parsed
+const { logLines } = vi.hoisted(() => ({
+  logLines: [] as Record<string, unknown>[],
+}));
+
+// Mock dependencies - must be before any imports that use them
+vi.mock('../../src/config/env.js', () => ({
+  env: {
+    NODE_ENV: 'test',
+    PORT: 3000,
+    REDIS_URL: 'redis://localhost:6379',
+    METRICS_ALLOWED_CIDRS: '127.0.0.0/8,::1/128',
+  },
+}));
+
+// The real logger configuration, writing to memory
+vi.mock('../../src/config/logger.js', async (importOriginal) => {
+  const { default: pino } = await import('pino');
+  const actual =
+    await importOriginal<typeof import('../../src/config/logger.js')>();
+  const stream = new Writable({
+    write(chunk: Buffer, _encoding, callback) {
+      logLines.push(JSON.parse(chunk.toString()) as Record<string, unknown>);
+      callback();
+    },
+  });
+  return {
+    ...actual,
+    logger: pino({ ...actual.loggerOptions, level: 'info' }, stream),
+  };
+});
+
+vi.mock('../../src/config/redis.js', () => {
+  const mockExec = vi.fn().mockResolvedValue([
+    [null, 1], // incr result
+    [null, 900], // expire result (TTL in seconds)
+  ]);
+  const mockMulti = vi.fn().mockReturnValue({
+    incr: vi.fn().mockReturnThis(),
+    expire: vi.fn().mockReturnThis(),
+    exec: mockExec,
+  });
+
+  return {
+    redisClient: {
+      multi: mockMulti,
+      on: vi.fn(),
+    },
+  };
+});
+
+vi.mock('../../src/jobs/index.js', () => ({
+  ethosStatsRefreshScheduler: {},
+}));
+
+vi.mock('../../src/services/ethos-stats-service.js', () => ({
+  ethosStatsService: {
+    getStats: vi.fn(),
+  },
+}));
+
+import { app } from '../../src/app.js';
+import { logger } from '../../src/config/logger.js';
+import { ethosStatsService } from '../../src/services/ethos-stats-service.js';
+import { mockCacheHitResult } from '../helpers/fixtures.js';
+
+const accessLogs = () =>
+  logLines.filter(
+    (line) => line.msg === 'Request completed' || line.msg === 'Request failed'
+  );
+
+describe('Access logs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    logLines.length = 0;
+  });
+
+  it('should log method, route, status, latency and size', async () => {
+    vi.mocked(ethosStatsService.getStats).mockResolvedValue(mockCacheHitResult);
+
+    const response = await request(app)
+      .get('/api/v1/ethos/stats')
+      .query({ type: 'vouch', activityId: '42' })
+      .expect(200);
+
+    await vi.waitFor(() => expect(accessLogs()).toHaveLength(1));
+    expect(accessLogs()[0]).toMatchObject({
+      level: 30,
+      requestId: response.headers['x-request-id'],
+      req: {
+        method: 'GET',
+        url: '/api/v1/ethos/stats?type=vouch&activityId=42',
+      },
+      res: { statusCode: 200 },
+      route: '/api/v1/ethos/stats',
+      durationMs: expect.any(Number),
+      bytes: Number(response.headers['content-length']),
+    });
+  });
+
+  it('should log client errors as warnings and server errors as errors', async () => {
+    vi.mocked(ethosStatsService.getStats).mockRejectedValue(
+      new Error('Redis connection failed')
+    );
+
+    await request(app).get('/no-such-route').expect(404);
+    await request(app).get('/api/v1/ethos/stats').expect(500);
+
+    await vi.waitFor(() => expect(accessLogs()).toHaveLength(2));
+    expect(accessLogs()).toMatchObject([
+      { level: 40, route: 'unmatched', msg: 'Request completed' },
+      { level: 50, route: '/api/v1/ethos/stats', msg: 'Request failed' },
+    ]);
+  });
+
+  it('should redact credentials in request headers', async () => {
+    await request(app)
+      .get('/no-such-route')
+      .set('Authorization', 'Bearer secret-token')
+      .set('X-API-Key', 'secret-key')
+      .set('Cookie', 'session=secret')
+      .expect(404);
+
+    await vi.waitFor(() => expect(accessLogs()).toHaveLength(1));
+    const { req } = accessLogs()[0] as { req: { headers: object } };
+    expect(req.headers).toMatchObject({
+      authorization: '[REDACTED]',
+      'x-api-key': '[REDACTED]',
+      cookie: '[REDACTED]',
+    });
+    expect(JSON.stringify(logLines)).not.toContain('secret');
+  });
+
+  it('should not log probes and scrapes', async () => {
+    await request(app).get('/healthz').expect(200);
+    await request(app).get('/metrics').expect(200);
+
+    expect(accessLogs()).toHaveLength(0);
+  });
+});
+
+describe('Request IDs', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    logLines.length = 0;
+  });
+
+  it('should accept a valid incoming request ID', async () => {
+    const response = await request(app)
+      .get('/healthz')
+      .set('X-Request-ID', 'lb-7f3a.2024:01')
+      .expect(200);
+
+    expect(response.headers['x-request-id']).toBe('lb-7f3a.2024:01');
+  });
+
+  it.each([
+    ['too long', 'a'.repeat(129)],
+    ['with invalid characters', 'id with spacesé'],
+    ['with log injection', 'abc\\n{"level":60}'],
+  ])('should replace an incoming request ID %s', async (_case, value) => {
+    const response = await request(app)
+      .get('/healthz')
+      .set('X-Request-ID', value)
+      .expect(200);
+
+    expect(response.headers['x-request-id']).not.toBe(value);
+    expect(response.headers['x-request-id']).toMatch(
+      /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/
+    );
+  });
+
+  it('should add the request ID to every log line of the request', async () => {
+    vi.mocked(ethosStatsService.getStats).mockImplementation(async () => {
+      // Logged by a service, which knows nothing about the request
+      await new Promise((resolve) => setTimeout(resolve, 5));
+      logger.info('Loading stats');
+      return mockCacheHitResult;
+    });
+
+    await request(app)
+      .get('/api/v1/ethos/stats')
+      .set('X-Request-ID', 'request-1')
+      .expect(200);
+
+    await vi.waitFor(() => expect(accessLogs()).toHaveLength(1));
+    expect(logLines.find((line) => line.msg === 'Loading stats')).toMatchObject(
+      { requestId: 'request-1' }
+    );
+  });
+});
@@ -0,0 +1,981 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import request from 'supertest';
+
+// Mock dependencies - must be before any imports that use them
+vi.mock('../../src/config/env.js', () => ({
+  env: {
+    NODE_ENV: 'test',
+    PORT: 3000,
+    REDIS_URL: 'redis://localhost:6379',
+    METRICS_ALLOWED_CIDRS: '127.0.0.0/8,::1/128',
+    // Matches tests/helpers/jwt.ts
+    JWT_HS256_SECRET: 'test-secret-that-is-at-least-32-chars',
+    JWT_ISSUER: 'https://idp.example.com/',
+    JWT_AUDIENCE: 'ethos-stats-api',
+    JWT_CLOCK_TOLERANCE_SECONDS: 0,
+    JWT_ROLES_CLAIM: 'roles',
+    JWT_PERMISSIONS_CLAIM: 'permissions',
+  },
+}));
+
+vi.mock('../../src/config/redis.js', () => {
+  const mockExec = vi.fn().mockResolvedValue([
+    [null, 1], // incr result
+    [null, 900], // expire result (TTL in seconds)
+  ]);
+  const mockMulti = vi.fn().mockReturnValue({
+    incr: vi.fn().mockReturnThis(),
+    expire: vi.fn().mockReturnThis(),
+    exec: mockExec,
+  });
+
+  return {
+    redisClient: {
+      multi: mockMulti,
+      on: vi.fn(),
+    },
+  };
+});
+
+vi.mock('../../src/services/ethos-stats-service.js', () => ({
+  ethosStatsService: {
+    getUpstreamStatus: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/services/api-key-service.js', () => ({
+  apiKeyService: {
+    verifyKey: vi.fn(),
+    createKey: vi.fn(),
+    listKeys: vi.fn(),
+    getKey: vi.fn(),
+    updateKey: vi.fn(),
+    rotateKey: vi.fn(),
+    revokeKey: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/services/audit-service.js', () => ({
+  auditService: {
+    getEntries: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/jobs/index.js', () => ({
+  ethosStatsRefreshScheduler: {
+    runNow: vi.fn(),
+    getStatus: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/services/webhook-service.js', () => ({
+  webhookService: {
+    createSubscription: vi.fn(),
+    listSubscriptions: vi.fn(),
+    deleteSubscription: vi.fn(),
+    rotateSecret: vi.fn(),
+    getDeadLetters: vi.fn(),
+  },
+}));
+
+import { app } from '../../src/app.js';
+import { logger } from '../../src/config/logger.js';
+import { ConflictError, NotFoundError } from '../../src/errors/app-errors.js';
+import { ethosStatsRefreshScheduler } from '../../src/jobs/index.js';
+import { apiKeyService } from '../../src/services/api-key-service.js';
+import { auditService } from '../../src/services/audit-service.js';
+import { ethosStatsService } from '../../src/services/ethos-stats-service.js';
+import { webhookService } from '../../src/services/webhook-service.js';
+import { signTestJwt } from '../helpers/jwt.js';
+
+const ADMIN_API_KEY = `ek_0123456789abcdef_${'a'.repeat(43)}`;
+
+const adminKeyRecord = {
+  id: '0123456789abcdef',
+  owner: 'ops',
+  scopes: ['admin:read', 'stats:refresh', 'webhooks:read', 'webhooks:write'],
+  labels: {},
+  rateLimitTier: 'free' as const,
+  salt: 'salt',
+  hash: 'hash',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: null,
+  expiresAt: null,
+  rotatedAt: null,
+  previousSecret: null,
+};
+
+const subscription = {
+  id: '6f1c1d9e-3b1a-4a47-9d1e-0e9b2f4c8a11',
+  url: 'https://hooks.example.com/ethos',
+  description: null,
+  activities: null,
+  createdAt: '2024-01-15T10:00:00.000Z',
+  secretRotatedAt: null,
+};
+
+describe('GET /api/v1/admin/upstream', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(apiKeyService.verifyKey).mockResolvedValue(adminKeyRecord);
+  });
+
+  it('should return the circuit breaker status (200)', async () => {
+    const status = {
+      name: 'ethos-api',
+      state: 'CLOSED' as const,
+      consecutiveFailures: 0,
+      openedAt: null,
+      nextAttemptAt: null,
+    };
+    vi.mocked(ethosStatsService.getUpstreamStatus).mockReturnValue(status);
+
+    const response = await request(app)
+      .get('/api/v1/admin/upstream')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .expect(200);
+
+    expect(response.body).toEqual({ ethosApi: status });
+  });
+
+  it('should reject unknown query parameters (400)', async () => {
+    await request(app)
+      .get('/api/v1/admin/upstream')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .query({ verbose: 'true' })
+      .expect(400);
+
+    expect(ethosStatsService.getUpstreamStatus).not.toHaveBeenCalled();
+  });
+});
+
+describe('/api/v1/admin/webhooks', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(apiKeyService.verifyKey).mockResolvedValue(adminKeyRecord);
+  });
+
+  it('should create a subscription and return its secret (201)', async () => {
+    const created = { ...subscription, secret: 'whsec_abc' };
+    vi.mocked(webhookService.createSubscription).mockResolvedValue(created);
+
+    const response = await request(app)
+      .post('/api/v1/admin/webhooks')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .send({ url: subscription.url })
+      .expect(201);
+
+    expect(response.body).toEqual(created);
+    expect(webhookService.createSubscription).toHaveBeenCalledWith({
+      url: subscription.url,
+    });
+  });
+
+  it('should accept the activities to notify about', async () => {
+    vi.mocked(webhookService.createSubscription).mockResolvedValue({
+      ...subscription,
+      secret: 'whsec_abc',
+    });
+    const activities = [{ type: 'vouch', activityId: 5 }];
+
+    await request(app)
+      .post('/api/v1/admin/webhooks')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .send({ url: subscription.url, activities })
+      .expect(201);
+
+    expect(webhookService.createSubscription).toHaveBeenCalledWith({
+      url: subscription.url,
+      activities,
+    });
+  });
+
+  it('should reject unknown activity types (400)', async () => {
+    await request(app)
+      .post('/api/v1/admin/webhooks')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .send({
+        url: subscription.url,
+        activities: [{ type: 'unknown', activityId: 5 }],
+      })
+      .expect(400);
+
+    expect(webhookService.createSubscription).not.toHaveBeenCalled();
+  });
+
+  it('should reject non-http URLs (400)', async () => {
+    await request(app)
+      .post('/api/v1/admin/webhooks')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .send({ url: 'ftp://hooks.example.com/ethos' })
+      .expect(400);
+
+    expect(webhookService.createSubscription).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown body fields (400)', async () => {
+    await request(app)
+      .post('/api/v1/admin/webhooks')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .send({ url: subscription.url, secret: 'mine' })
+      .expect(400);
+  });
+
+  it('should list subscriptions (200)', async () => {
+    vi.mocked(webhookService.listSubscriptions).mockResolvedValue([
+      subscription,
+    ]);
+
+    const response = await request(app)
+      .get('/api/v1/admin/webhooks')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .expect(200);
+
+    expect(response.body).toEqual({ items: [subscription] });
+  });
+
+  it('should delete a subscription (204)', async () => {
+    vi.mocked(webhookService.deleteSubscription).mockResolvedValue(undefined);
+
+    await request(app)
+      .delete(`/api/v1/admin/webhooks/${subscription.id}`)
+      .set('X-API-Key', ADMIN_API_KEY)
+      .expect(204);
+
+    expect(webhookService.deleteSubscription).toHaveBeenCalledWith(
+      subscription.id
+    );
+  });
+
+  it('should return 404 for unknown subscriptions', async () => {
+    vi.mocked(webhookService.deleteSubscription).mockRejectedValue(
+      new NotFoundError('Webhook subscription not found')
+    );
+
+    const response = await request(app)
+      .delete(`/api/v1/admin/webhooks/${subscription.id}`)
+      .set('X-API-Key', ADMIN_API_KEY)
+      .expect(404);
+
+    expect(response.body).toMatchObject({ code: 'NOT_FOUND' });
+  });
+
+  it('should reject malformed subscription IDs (400)', async () => {
+    await request(app)
+      .delete('/api/v1/admin/webhooks/not-a-uuid')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .expect(400);
+
+    expect(webhookService.deleteSubscription).not.toHaveBeenCalled();
+  });
+
+  it('should rotate the secret (200)', async () => {
+    const rotated = {
+      ...subscription,
+      secret: 'whsec_new',
+      secretRotatedAt: '2024-01-16T00:00:00.000Z',
+    };
+    vi.mocked(webhookService.rotateSecret).mockResolvedValue(rotated);
+
+    const response = await request(app)
+      .post(`/api/v1/admin/webhooks/${subscription.id}/rotate-secret`)
+      .set('X-API-Key', ADMIN_API_KEY)
+      .expect(200);
+
+    expect(response.body).toEqual(rotated);
+  });
+
+  it('should list dead letters with a default limit (200)', async () => {
+    vi.mocked(webhookService.getDeadLetters).mockResolvedValue([]);
+
+    const response = await request(app)
+      .get('/api/v1/admin/webhooks/dead-letters')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .expect(200);
+
+    expect(response.body).toEqual({ items: [] });
+    expect(webhookService.getDeadLetters).toHaveBeenCalledWith(50);
+  });
+
+  it('should reject a dead-letter limit above the maximum (400)', async () => {
+    await request(app)
+      .get('/api/v1/admin/webhooks/dead-letters')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .query({ limit: '5000' })
+      .expect(400);
+  });
+});
+
+describe('POST /api/v1/admin/ethos/refresh', () => {
+  const run = {
+    job: 'ethos-stats-refresh',
+    trigger: 'manual' as const,
+    startedAt: '2024-01-15T10:00:00.000Z',
+    finishedAt: '2024-01-15T10:00:01.250Z',
+    durationMs: 1250,
+    attempts: 1,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(apiKeyService.verifyKey).mockResolvedValue(adminKeyRecord);
+  });
+
+  it('should report a successful refresh (200)', async () => {
+    const result = { ...run, outcome: 'success' as const, changed: true };
+    vi.mocked(ethosStatsRefreshScheduler.runNow).mockResolvedValue(result);
+
+    const response = await request(app)
+      .post('/api/v1/admin/ethos/refresh')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .expect(200);
+
+    expect(response.body).toEqual(result);
+  });
+
+  it('should report a failed refresh (502)', async () => {
+    const result = {
+      ...run,
+      outcome: 'failure' as const,
+      changed: false,
+      error: 'Failed to fetch stats from Ethos API: timeout',
+    };
+    vi.mocked(ethosStatsRefreshScheduler.runNow).mockResolvedValue(result);
+
+    const response = await request(app)
+      .post('/api/v1/admin/ethos/refresh')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .expect(502);
+
+    expect(response.body).toEqual(result);
+  });
+
+  it('should return 409 while a refresh is running', async () => {
+    vi.mocked(ethosStatsRefreshScheduler.runNow).mockRejectedValue(
+      new ConflictError('already running', 'JOB_IN_PROGRESS')
+    );
+
+    const response = await request(app)
+      .post('/api/v1/admin/ethos/refresh')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .expect(409);
+
+    expect(response.body).toMatchObject({ code: 'JOB_IN_PROGRESS' });
+  });
+});
+
+describe('GET /api/v1/admin/scheduler', () => {
+  const status = {
+    job: 'ethos-stats-refresh',
+    state: 'idle' as const,
+    concurrency: 'leader' as const,
+    schedule: '12h',
+    timezone: 'UTC',
+    instanceId: 'api-1-1234-0a1b2c3d',
+    leader: {
+      instanceId: 'api-1-1234-0a1b2c3d',
+      acquiredAt: '2024-01-15T09:00:00.000Z',
+      fencingToken: 3,
+      expiresAt: '2024-01-15T10:00:25.000Z',
+    },
+    nextRunAt: '2024-01-15T22:00:00.000Z',
+    currentRun: null,
+    lastSuccess: null,
+    lastFailure: null,
+    history: [],
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(apiKeyService.verifyKey).mockResolvedValue(adminKeyRecord);
+  });
+
+  it('should return the scheduler status (200)', async () => {
+    vi.mocked(ethosStatsRefreshScheduler.getStatus).mockResolvedValue(status);
+
+    const response = await request(app)
+      .get('/api/v1/admin/scheduler')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .expect(200);
+
+    expect(response.body).toEqual(status);
+    expect(ethosStatsRefreshScheduler.getStatus).toHaveBeenCalledWith(20);
+  });
+
+  it('should pass the history limit', async () => {
+    vi.mocked(ethosStatsRefreshScheduler.getStatus).mockResolvedValue(status);
+
+    await request(app)
+      .get('/api/v1/admin/scheduler')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .query({ limit: '5' })
+      .expect(200);
+
+    expect(ethosStatsRefreshScheduler.getStatus).toHaveBeenCalledWith(5);
+  });
+
+  it('should reject a limit above the maximum (400)', async () => {
+    await request(app)
+      .get('/api/v1/admin/scheduler')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .query({ limit: '500' })
+      .expect(400);
+  });
+});
+
+describe('Admin authentication', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(apiKeyService.verifyKey).mockResolvedValue(adminKeyRecord);
+  });
+
+  it('should reject requests without an API key (401)', async () => {
+    const response = await request(app)
+      .get('/api/v1/admin/webhooks')
+      .expect(401);
+
+    expect(response.body).toEqual({
+      error: 'Unauthorized',
+      code: 'MISSING_CREDENTIALS',
+      requestId: response.headers['x-request-id'],
+    });
+    expect(response.headers['www-authenticate']).toBe('Bearer');
+    expect(apiKeyService.verifyKey).not.toHaveBeenCalled();
+    expect(webhookService.listSubscriptions).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown, wrong or expired API keys (401)', async () => {
+    vi.mocked(apiKeyService.verifyKey).mockResolvedValue(null);
+
+    const response = await request(app)
+      .get('/api/v1/admin/webhooks')
+      .set('X-API-Key', 'ek_nope')
+      .expect(401);
+
+    expect(response.body).toMatchObject({
+      code: 'INVALID_CREDENTIALS',
+      requestId: expect.any(String),
+    });
+    expect(apiKeyService.verifyKey).toHaveBeenCalledWith('ek_nope');
+    expect(webhookService.listSubscriptions).not.toHaveBeenCalled();
+  });
+
+  it('should accept the API key as a bearer token', async () => {
+    vi.mocked(webhookService.listSubscriptions).mockResolvedValue([]);
+
+    await request(app)
+      .get('/api/v1/admin/webhooks')
+      .set('Authorization', `Bearer ${ADMIN_API_KEY}`)
+      .expect(200);
+
+    expect(apiKeyService.verifyKey).toHaveBeenCalledWith(ADMIN_API_KEY);
+  });
+
+  it('should accept a JWT with the required permission', async () => {
+    vi.mocked(webhookService.listSubscriptions).mockResolvedValue([]);
+    const token = await signTestJwt({ permissions: ['webhooks:read'] });
+
+    await request(app)
+      .get('/api/v1/admin/webhooks')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+
+    expect(apiKeyService.verifyKey).not.toHaveBeenCalled();
+  });
+
+  it('should reject a JWT without the required permission (403)', async () => {
+    const token = await signTestJwt({ permissions: ['webhooks:read'] });
+
+    const response = await request(app)
+      .post('/api/v1/admin/webhooks')
+      .set('Authorization', `Bearer ${token}`)
+      .send({ url: subscription.url })
+      .expect(403);
+
+    expect(response.body).toMatchObject({ code: 'INSUFFICIENT_SCOPE' });
+  });
+
+  it('should reject an expired JWT (401)', async () => {
+    const token = await signTestJwt({
+      permissions: ['webhooks:read'],
+      exp: Math.floor(Date.now() / 1000) - 60,
+    });
+
+    const response = await request(app)
+      .get('/api/v1/admin/webhooks')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(401);
+
+    expect(response.body).toMatchObject({
+      code: 'INVALID_CREDENTIALS',
+      requestId: expect.any(String),
+    });
+  });
+
+  it('should reject keys without the required scope (403)', async () => {
+    vi.mocked(apiKeyService.verifyKey).mockResolvedValue({
+      ...adminKeyRecord,
+      scopes: ['webhooks:read'],
+    });
+
+    const response = await request(app)
+      .post('/api/v1/admin/webhooks')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .send({ url: subscription.url })
+      .expect(403);
+
+    expect(response.body).toMatchObject({
+      error: 'Forbidden',
+      code: 'INSUFFICIENT_SCOPE',
+      requestId: expect.any(String),
+    });
+    expect(webhookService.createSubscription).not.toHaveBeenCalled();
+  });
+
+  it('should accept keys whose scopes cover the permission by wildcard', async () => {
+    vi.mocked(apiKeyService.verifyKey).mockResolvedValue({
+      ...adminKeyRecord,
+      scopes: ['webhooks:*'],
+    });
+    vi.mocked(webhookService.createSubscription).mockResolvedValue({
+      ...subscription,
+      secret: 'whsec_test',
+    });
+
+    await request(app)
+      .post('/api/v1/admin/webhooks')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .send({ url: subscription.url })
+      .expect(201);
+  });
+
+  it('should log denials with the request ID and principal', async () => {
+    const warn = vi.spyOn(logger, 'warn');
+    vi.mocked(apiKeyService.verifyKey).mockResolvedValue({
+      ...adminKeyRecord,
+      scopes: ['webhooks:read'],
+    });
+
+    const response = await request(app)
+      .post('/api/v1/admin/ethos/refresh')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .expect(403);
+
+    expect(warn).toHaveBeenCalledWith(
+      expect.objectContaining({
+        requestId: response.headers['x-request-id'],
+        principal: {
+          id: 'ops',
+          authMethod: 'api-key',
+          keyId: adminKeyRecord.id,
+        },
+        requiredPermissions: ['stats:refresh'],
+        match: 'all',
+        method: 'POST',
+        path: '/api/v1/admin/ethos/refresh',
+      }),
+      'Access denied'
+    );
+    warn.mockRestore();
+  });
+
+  it('should fail closed when keys cannot be checked (500)', async () => {
+    vi.mocked(apiKeyService.verifyKey).mockRejectedValue(
+      new Error('Failed to verify API key: Redis down')
+    );
+
+    await request(app)
+      .get('/api/v1/admin/webhooks')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .expect(500);
+
+    expect(webhookService.listSubscriptions).not.toHaveBeenCalled();
+  });
+});
+
+describe('Admin role-based access', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(webhookService.listSubscriptions).mockResolvedValue([]);
+  });
+
+  it('should grant the permissions of the JWT roles', async () => {
+    const token = await signTestJwt({ roles: ['viewer'] });
+
+    await request(app)
+      .get('/api/v1/admin/webhooks')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+  });
+
+  it('should deny what the JWT roles do not grant (403)', async () => {
+    const token = await signTestJwt({ roles: ['viewer'] });
+
+    const response = await request(app)
+      .post('/api/v1/admin/ethos/refresh')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(403);
+
+    expect(response.body).toMatchObject({ code: 'INSUFFICIENT_SCOPE' });
+    expect(ethosStatsRefreshScheduler.runNow).not.toHaveBeenCalled();
+  });
+
+  it('should resolve wildcard role permissions', async () => {
+    vi.mocked(ethosStatsRefreshScheduler.runNow).mockResolvedValue({
+      job: 'ethos-stats-refresh',
+      trigger: 'manual',
+      startedAt: '2024-01-15T10:00:00.000Z',
+      finishedAt: '2024-01-15T10:00:01.250Z',
+      durationMs: 1250,
+      attempts: 1,
+      outcome: 'success',
+      changed: false,
+    });
+    const token = await signTestJwt({ roles: ['operator'] });
+
+    await request(app)
+      .post('/api/v1/admin/ethos/refresh')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(200);
+  });
+
+  it('should grant nothing for roles missing from the policy (403)', async () => {
+    const token = await signTestJwt({ roles: ['superuser'] });
+
+    await request(app)
+      .get('/api/v1/admin/webhooks')
+      .set('Authorization', `Bearer ${token}`)
+      .expect(403);
+  });
+
+  it('should not grant admin access to anonymous callers (401)', async () => {
+    await request(app).get('/api/v1/admin/upstream').expect(401);
+  });
+});
+
+describe('API key management', () => {
+  const MANAGED_KEY_ID = 'fedcba9876543210';
+  const keyView = {
+    id: MANAGED_KEY_ID,
+    owner: 'partner',
+    scopes: ['stats:read'],
+    labels: { team: 'data' },
+    rateLimitTier: 'free' as const,
+    createdAt: '2024-01-15T10:00:00.000Z',
+    updatedAt: null,
+    expiresAt: null,
+    rotatedAt: null,
+    maskedKey: `ek_${MANAGED_KEY_ID}_****`,
+    previousKeyExpiresAt: null,
+  };
+  const operatorActor = {
+    id: 'ops',
+    authMethod: 'api-key',
+    keyId: adminKeyRecord.id,
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(apiKeyService.verifyKey).mockResolvedValue({
+      ...adminKeyRecord,
+      scopes: ['keys:*', 'stats:*', 'audit:read'],
+    });
+    vi.mocked(apiKeyService.getKey).mockResolvedValue(keyView);
+  });
+
+  it('should create a key and return it once (201)', async () => {
+    const created = {
+      ...keyView,
+      key: `ek_${MANAGED_KEY_ID}_${'b'.repeat(43)}`,
+    };
+    vi.mocked(apiKeyService.createKey).mockResolvedValue(created);
+
+    const response = await request(app)
+      .post('/api/v1/admin/api-keys')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .send({
+        owner: 'partner',
+        scopes: ['stats:read'],
+        labels: { team: 'data' },
+      })
+      .expect(201);
+
+    expect(response.body).toEqual(created);
+    expect(apiKeyService.createKey).toHaveBeenCalledWith(
+      {
+        owner: 'partner',
+        scopes: ['stats:read'],
+        labels: { team: 'data' },
+        rateLimitTier: 'free',
+        expiresAt: null,
+      },
+      operatorActor
+    );
+  });
+
+  it('should reject invalid keys to create (400)', async () => {
+    const response = await request(app)
+      .post('/api/v1/admin/api-keys')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .send({ owner: 'partner', scopes: ['stats.read'], hash: 'x' })
+      .expect(400);
+
+    expect(response.body.details).toEqual(
+      expect.arrayContaining([
+        expect.objectContaining({ path: 'scopes.0' }),
+        expect.objectContaining({ path: 'hash' }),
+      ])
+    );
+    expect(apiKeyService.createKey).not.toHaveBeenCalled();
+  });
+
+  it('should not grant permissions the caller does not have (403)', async () => {
+    const response = await request(app)
+      .post('/api/v1/admin/api-keys')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .send({ owner: 'partner', scopes: ['webhooks:write'] })
+      .expect(403);
+
+    expect(response.body).toMatchObject({ code: 'SCOPE_ESCALATION' });
+    expect(apiKeyService.createKey).not.toHaveBeenCalled();
+  });
+
+  it('should not assign rate limit tiers without keys:tier (403)', async () => {
+    vi.mocked(apiKeyService.verifyKey).mockResolvedValue({
+      ...adminKeyRecord,
+      scopes: ['keys:write', 'stats:read'],
+    });
+
+    const response = await request(app)
+      .post('/api/v1/admin/api-keys')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .send({
+        owner: 'partner',
+        scopes: ['stats:read'],
+        rateLimitTier: 'unlimited',
+      })
+      .expect(403);
+
+    expect(response.body).toMatchObject({ code: 'TIER_ESCALATION' });
+    expect(apiKeyService.createKey).not.toHaveBeenCalled();
+  });
+
+  it('should list masked keys', async () => {
+    vi.mocked(apiKeyService.listKeys).mockResolvedValue([keyView]);
+
+    const response = await request(app)
+      .get('/api/v1/admin/api-keys')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .expect(200);
+
+    expect(response.body).toEqual({ items: [keyView] });
+  });
+
+  it('should require keys:read to list keys (403)', async () => {
+    vi.mocked(apiKeyService.verifyKey).mockResolvedValue(adminKeyRecord);
+
+    await request(app)
+      .get('/api/v1/admin/api-keys')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .expect(403);
+
+    expect(apiKeyService.listKeys).not.toHaveBeenCalled();
+  });
+
+  it('should get one key', async () => {
+    const response = await request(app)
+      .get(`/api/v1/admin/api-keys/${MANAGED_KEY_ID}`)
+      .set('X-API-Key', ADMIN_API_KEY)
+      .expect(200);
+
+    expect(response.body).toEqual(keyView);
+    expect(apiKeyService.getKey).toHaveBeenCalledWith(MANAGED_KEY_ID);
+  });
+
+  it('should reject malformed key IDs (400)', async () => {
+    await request(app)
+      .get('/api/v1/admin/api-keys/not-a-key-id')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .expect(400);
+
+    expect(apiKeyService.getKey).not.toHaveBeenCalled();
+  });
+
+  it('should update a key', async () => {
+    const updated = { ...keyView, expiresAt: null, labels: {} };
+    vi.mocked(apiKeyService.updateKey).mockResolvedValue(updated);
+
+    const response = await request(app)
+      .patch(`/api/v1/admin/api-keys/${MANAGED_KEY_ID}`)
+      .set('X-API-Key', ADMIN_API_KEY)
+      .send({ expiresAt: null, labels: {} })
+      .expect(200);
+
+    expect(response.body).toEqual(updated);
+    expect(apiKeyService.updateKey).toHaveBeenCalledWith(
+      MANAGED_KEY_ID,
+      { expiresAt: null, labels: {} },
+      operatorActor
+    );
+  });
+
+  it('should reject empty updates (400)', async () => {
+    await request(app)
+      .patch(`/api/v1/admin/api-keys/${MANAGED_KEY_ID}`)
+      .set('X-API-Key', ADMIN_API_KEY)
+      .send({})
+      .expect(400);
+
+    expect(apiKeyService.updateKey).not.toHaveBeenCalled();
+  });
+
+  it('should not widen scopes beyond the caller (403)', async () => {
+    const response = await request(app)
+      .patch(`/api/v1/admin/api-keys/${MANAGED_KEY_ID}`)
+      .set('X-API-Key', ADMIN_API_KEY)
+      .send({ scopes: ['*'] })
+      .expect(403);
+
+    expect(response.body).toMatchObject({ code: 'SCOPE_ESCALATION' });
+    expect(apiKeyService.updateKey).not.toHaveBeenCalled();
+  });
+
+  it('should not change keys with permissions the caller does not have (403)', async () => {
+    vi.mocked(apiKeyService.getKey).mockResolvedValue({
+      ...keyView,
+      scopes: ['*'],
+    });
+
+    const response = await request(app)
+      .patch(`/api/v1/admin/api-keys/${MANAGED_KEY_ID}`)
+      .set('X-API-Key', ADMIN_API_KEY)
+      .send({ expiresAt: null })
+      .expect(403);
+
+    expect(response.body).toMatchObject({ code: 'SCOPE_ESCALATION' });
+    expect(apiKeyService.updateKey).not.toHaveBeenCalled();
+  });
+
+  it('should not move keys between tiers without keys:tier (403)', async () => {
+    vi.mocked(apiKeyService.verifyKey).mockResolvedValue({
+      ...adminKeyRecord,
+      scopes: ['keys:write', 'stats:read'],
+    });
+
+    const response = await request(app)
+      .patch(`/api/v1/admin/api-keys/${adminKeyRecord.id}`)
+      .set('X-API-Key', ADMIN_API_KEY)
+      .send({ rateLimitTier: 'unlimited' })
+      .expect(403);
+
+    expect(response.body).toMatchObject({ code: 'TIER_ESCALATION' });
+    expect(apiKeyService.updateKey).not.toHaveBeenCalled();
+  });
+
+  it('should rotate a key with the default grace period', async () => {
+    const rotated = {
+      ...keyView,
+      rotatedAt: '2024-01-16T10:00:00.000Z',
+      previousKeyExpiresAt: '2024-01-16T11:00:00.000Z',
+      key: `ek_${MANAGED_KEY_ID}_${'c'.repeat(43)}`,
+    };
+    vi.mocked(apiKeyService.rotateKey).mockResolvedValue(rotated);
+
+    const response = await request(app)
+      .post(`/api/v1/admin/api-keys/${MANAGED_KEY_ID}/rotate`)
+      .set('X-API-Key', ADMIN_API_KEY)
+      .expect(200);
+
+    expect(response.body).toEqual(rotated);
+    expect(apiKeyService.rotateKey).toHaveBeenCalledWith(
+      MANAGED_KEY_ID,
+      { gracePeriodSeconds: 3600 },
+      operatorActor
+    );
+  });
+
+  it('should not rotate keys with permissions the caller does not have (403)', async () => {
+    vi.mocked(apiKeyService.getKey).mockResolvedValue({
+      ...keyView,
+      scopes: ['*'],
+    });
+
+    await request(app)
+      .post(`/api/v1/admin/api-keys/${MANAGED_KEY_ID}/rotate`)
+      .set('X-API-Key', ADMIN_API_KEY)
+      .send({ gracePeriodSeconds: 0 })
+      .expect(403);
+
+    expect(apiKeyService.rotateKey).not.toHaveBeenCalled();
+  });
+
+  it('should reject grace periods above the maximum (400)', async () => {
+    await request(app)
+      .post(`/api/v1/admin/api-keys/${MANAGED_KEY_ID}/rotate`)
+      .set('X-API-Key', ADMIN_API_KEY)
+      .send({ gracePeriodSeconds: 8 * 24 * 60 * 60 })
+      .expect(400);
+  });
+
+  it('should revoke a key (204)', async () => {
+    vi.mocked(apiKeyService.revokeKey).mockResolvedValue(undefined);
+
+    await request(app)
+      .delete(`/api/v1/admin/api-keys/${MANAGED_KEY_ID}`)
+      .set('X-API-Key', ADMIN_API_KEY)
+      .expect(204);
+
+    expect(apiKeyService.revokeKey).toHaveBeenCalledWith(
+      MANAGED_KEY_ID,
+      operatorActor
+    );
+  });
+
+  it('should not revoke keys with permissions the caller does not have (403)', async () => {
+    vi.mocked(apiKeyService.getKey).mockResolvedValue({
+      ...keyView,
+      scopes: ['*'],
+    });
+
+    const response = await request(app)
+      .delete(`/api/v1/admin/api-keys/${MANAGED_KEY_ID}`)
+      .set('X-API-Key', ADMIN_API_KEY)
+      .expect(403);
+
+    expect(response.body).toMatchObject({ code: 'SCOPE_ESCALATION' });
+    expect(apiKeyService.revokeKey).not.toHaveBeenCalled();
+  });
+
+  it('should return 404 for unknown keys', async () => {
+    vi.mocked(apiKeyService.revokeKey).mockRejectedValue(
+      new NotFoundError(`API key ${MANAGED_KEY_ID} not found`)
+    );
+
+    await request(app)
+      .delete(`/api/v1/admin/api-keys/${MANAGED_KEY_ID}`)
+      .set('X-API-Key', ADMIN_API_KEY)
+      .expect(404);
+  });
+
+  it('should return the audit log', async () => {
+    const entry = {
+      id: '5d1c7c56-8a4e-4f0b-9a65-0c4f4c8f7f0e',
+      at: '2024-01-15T10:00:00.000Z',
+      action: 'api-key.revoked' as const,
+      actor: { id: 'ops', authMethod: 'api-key' as const, keyId: null },
+      requestId: 'req-1',
+      target: { type: 'api-key' as const, id: MANAGED_KEY_ID },
+      details: {},
+    };
+    vi.mocked(auditService.getEntries).mockResolvedValue([entry]);
+
+    const response = await request(app)
+      .get('/api/v1/admin/audit')
+      .set('X-API-Key', ADMIN_API_KEY)
+      .query({ limit: '10' })
+      .expect(200);
+
+    expect(response.body).toEqual({ items: [entry] });
+    expect(auditService.getEntries).toHaveBeenCalledWith(10);
+  });
+});
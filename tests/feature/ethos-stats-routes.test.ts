@@ -15,6 +15,9 @@ vi.mock('../../src/config/env.js', () => ({
     NODE_ENV: 'test',
     PORT: 3000,
     REDIS_URL: 'redis://localhost:6379',
+    METRICS_ALLOWED_CIDRS: '127.0.0.0/8,::1/128',
+    STATS_REFRESH_SCHEDULE: '12h',
+    STATS_REFRESH_TIMEZONE: 'UTC',
   },
 }));
 
@@ -50,14 +53,28 @@ vi.mock('../../src/repositories/redis-repository.js', () => ({
 vi.mock('../../src/services/ethos-stats-service.js', () => ({
   ethosStatsService: {
     getStats: vi.fn(),
+    getHistory: vi.fn(),
     fetchStatsFromApi: vi.fn(),
     refreshCache: vi.fn(),
   },
 }));
 
+vi.mock('../../src/services/api-key-service.js', () => ({
+  apiKeyService: {
+    verifyKey: vi.fn(),
+  },
+}));
+
 import { app } from '../../src/app.js';
+import { UpstreamValidationError } from '../../src/errors/app-errors.js';
+import { apiKeyService } from '../../src/services/api-key-service.js';
 import { ethosStatsService } from '../../src/services/ethos-stats-service.js';
-import { mockEthosStats } from '../helpers/fixtures.js';
+import { encodeCursor } from '../../src/utils/cursor.js';
+import {
+  mockCacheHitResult,
+  mockCacheMetadata,
+  mockEthosStats,
+} from '../helpers/fixtures.js';
 
 describe('GET /api/v1/ethos/stats', () => {
   beforeEach(() => {
@@ -69,7 +86,7 @@ describe('GET /api/v1/ethos/stats', () => {
   });
 
   it('should return cached stats successfully (200)', async () => {
-    vi.mocked(ethosStatsService.getStats).mockResolvedValue(mockEthosStats);
+    vi.mocked(ethosStatsService.getStats).mockResolvedValue(mockCacheHitResult);
 
     const response = await request(app).get('/api/v1/ethos/stats').expect(200);
 
@@ -80,7 +97,7 @@ describe('GET /api/v1/ethos/stats', () => {
 
   it('should fetch from API on cache miss and return stats (200)', async () => {
     // Simulate cache miss by having getStats fetch from API
-    vi.mocked(ethosStatsService.getStats).mockResolvedValue(mockEthosStats);
+    vi.mocked(ethosStatsService.getStats).mockResolvedValue(mockCacheHitResult);
 
     const response = await request(app).get('/api/v1/ethos/stats').expect(200);
 
@@ -101,6 +118,18 @@ describe('GET /api/v1/ethos/stats', () => {
     expect(ethosStatsService.getStats).toHaveBeenCalledTimes(1);
   });
 
+  it('should return 502 when the upstream payload is invalid', async () => {
+    vi.mocked(ethosStatsService.getStats).mockRejectedValue(
+      new UpstreamValidationError('Invalid stats payload', [], 200)
+    );
+
+    const response = await request(app).get('/api/v1/ethos/stats').expect(502);
+
+    expect(response.body).toHaveProperty('error', 'Bad Gateway');
+    expect(response.body).toHaveProperty('code', 'UPSTREAM_INVALID_RESPONSE');
+    expect(response.body).toHaveProperty('requestId');
+  });
+
   it('should handle Redis errors gracefully (500)', async () => {
     const error = new Error('Redis connection failed');
     vi.mocked(ethosStatsService.getStats).mockRejectedValue(error);
@@ -132,16 +161,90 @@ describe('GET /api/v1/ethos/stats', () => {
     expect(ethosStatsService.getStats).not.toHaveBeenCalled();
   });
 
+  it('should use default type and activityId when omitted', async () => {
+    vi.mocked(ethosStatsService.getStats).mockResolvedValue(mockCacheHitResult);
+
+    await request(app).get('/api/v1/ethos/stats').expect(200);
+
+    expect(ethosStatsService.getStats).toHaveBeenCalledWith({
+      type: 'attestation',
+      activityId: 223,
+    });
+  });
+
+  it('should pass type and activityId query params to the service', async () => {
+    vi.mocked(ethosStatsService.getStats).mockResolvedValue(mockCacheHitResult);
+
+    await request(app)
+      .get('/api/v1/ethos/stats')
+      .query({ type: 'vouch', activityId: '42' })
+      .expect(200);
+
+    expect(ethosStatsService.getStats).toHaveBeenCalledWith({
+      type: 'vouch',
+      activityId: 42,
+    });
+  });
+
+  it('should reject unsupported vote types (400)', async () => {
+    const response = await request(app)
+      .get('/api/v1/ethos/stats')
+      .query({ type: 'unknown', activityId: '42' })
+      .expect(400);
+
+    expect(response.body).toHaveProperty('error', 'Validation failed');
+    expect(response.body.details).toEqual(
+      expect.arrayContaining([expect.objectContaining({ path: 'type' })])
+    );
+    expect(ethosStatsService.getStats).not.toHaveBeenCalled();
+  });
+
+  it('should reject non-numeric activityId (400)', async () => {
+    const response = await request(app)
+      .get('/api/v1/ethos/stats')
+      .query({ activityId: 'abc' })
+      .expect(400);
+
+    expect(response.body.details).toEqual(
+      expect.arrayContaining([expect.objectContaining({ path: 'activityId' })])
+    );
+    expect(ethosStatsService.getStats).not.toHaveBeenCalled();
+  });
+
   it('should include proper response headers', async () => {
-    vi.mocked(ethosStatsService.getStats).mockResolvedValue(mockEthosStats);
+    vi.mocked(ethosStatsService.getStats).mockResolvedValue(mockCacheHitResult);
 
     const response = await request(app).get('/api/v1/ethos/stats').expect(200);
 
     expect(response.headers['content-type']).toMatch(/json/);
   });
 
+  it('should report cache hits in the X-Cache header', async () => {
+    vi.mocked(ethosStatsService.getStats).mockResolvedValue(mockCacheHitResult);
+
+    const response = await request(app).get('/api/v1/ethos/stats').expect(200);
+
+    expect(response.headers['x-cache']).toBe('HIT');
+    expect(response.headers['age']).toBeUndefined();
+  });
+
+  it('should serve stale stats with X-Cache and Age headers', async () => {
+    const fetchedAt = new Date(Date.now() - 90_000).toISOString();
+    vi.mocked(ethosStatsService.getStats).mockResolvedValue({
+      data: mockEthosStats,
+      cacheStatus: 'STALE',
+      meta: { ...mockCacheMetadata, fetchedAt },
+    });
+
+    const response = await request(app).get('/api/v1/ethos/stats').expect(200);
+
+    expect(response.body).toEqual(mockEthosStats);
+    expect(response.headers['x-cache']).toBe('STALE');
+    expect(Number(response.headers['age'])).toBeGreaterThanOrEqual(90);
+  });
+
   it('should return response format matching EthosStats type', async () => {
-    vi.mocked(ethosStatsService.getStats).mockResolvedValue(mockEthosStats);
+    vi.mocked(ethosStatsService.getStats).mockResolvedValue(mockCacheHitResult);
 
     const response = await request(app).get('/api/v1/ethos/stats').expect(200);
 
@@ -151,7 +254,7 @@ describe('GET /api/v1/ethos/stats', () => {
 
   it('should handle empty cache and fetch from API', async () => {
     // First call returns null (cache miss), then fetches from API
-    vi.mocked(ethosStatsService.getStats).mockResolvedValue(mockEthosStats);
+    vi.mocked(ethosStatsService.getStats).mockResolvedValue(mockCacheHitResult);
 
     const response = await request(app).get('/api/v1/ethos/stats').expect(200);
 
@@ -171,9 +274,11 @@ describe('GET /api/v1/ethos/stats', () => {
 
   it('should handle malformed service responses', async () => {
     // Service returns unexpected data structure
-    vi.mocked(ethosStatsService.getStats).mockResolvedValue(
-      null as unknown as typeof mockEthosStats
-    );
+    vi.mocked(ethosStatsService.getStats).mockResolvedValue({
+      data: null as unknown as typeof mockEthosStats,
+      cacheStatus: 'HIT',
+      meta: mockCacheMetadata,
+    });
 
     const response = await request(app).get('/api/v1/ethos/stats').expect(200);
 
@@ -187,7 +292,7 @@ describe('GET /api/v1/ethos/stats', () => {
   });
 
   it('should handle rate limiting middleware', async () => {
-    vi.mocked(ethosStatsService.getStats).mockResolvedValue(mockEthosStats);
+    vi.mocked(ethosStatsService.getStats).mockResolvedValue(mockCacheHitResult);
 
     // Make multiple requests to test rate limiting
     const requests = Array.from({ length: 5 }, () =>
@@ -203,3 +308,233 @@ describe('GET /api/v1/ethos/stats', () => {
     });
   });
 });
+
+describe('GET /api/v1/ethos/stats conditional requests', () => {
+  const fetchedAt = '2024-01-15T10:30:00.000Z';
+  const freshResult = {
+    data: mockEthosStats,
+    cacheStatus: 'HIT' as const,
+    meta: { ...mockCacheMetadata, fetchedAt },
+    ttlSeconds: 3600,
+  };
+  const etag = `"${mockCacheMetadata.contentHash}"`;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(ethosStatsService.getStats).mockResolvedValue(freshResult);
+  });
+
+  it('should send a strong ETag, Last-Modified and Cache-Control', async () => {
+    const response = await request(app).get('/api/v1/ethos/stats').expect(200);
+
+    expect(response.headers['etag']).toBe(etag);
+    expect(response.headers['etag']).not.toMatch(/^W\//);
+    expect(response.headers['last-modified']).toBe(
+      new Date(fetchedAt).toUTCString()
+    );
+    expect(response.headers['cache-control']).toBe('max-age=3600');
+  });
+
+  it('should return 304 when If-None-Match matches', async () => {
+    const response = await request(app)
+      .get('/api/v1/ethos/stats')
+      .set('If-None-Match', etag)
+      .expect(304);
+
+    expect(response.text).toBe('');
+    expect(response.headers['etag']).toBe(etag);
+  });
+
+  it('should return 200 when If-None-Match does not match', async () => {
+    const response = await request(app)
+      .get('/api/v1/ethos/stats')
+      .set('If-None-Match', '"outdated"')
+      .expect(200);
+
+    expect(response.body).toEqual(mockEthosStats);
+  });
+
+  it('should return 304 when not modified since the fetch time', async () => {
+    await request(app)
+      .get('/api/v1/ethos/stats')
+      .set('If-Modified-Since', new Date('2024-01-16T00:00:00Z').toUTCString())
+      .expect(304);
+  });
+
+  it('should return 200 when modified after If-Modified-Since', async () => {
+    await request(app)
+      .get('/api/v1/ethos/stats')
+      .set('If-Modified-Since', new Date('2024-01-14T00:00:00Z').toUTCString())
+      .expect(200);
+  });
+
+  it('should require revalidation for stale responses', async () => {
+    vi.mocked(ethosStatsService.getStats).mockResolvedValue({
+      data: mockEthosStats,
+      cacheStatus: 'STALE',
+      meta: { ...mockCacheMetadata, fetchedAt },
+    });
+
+    const response = await request(app).get('/api/v1/ethos/stats').expect(200);
+
+    expect(response.headers['cache-control']).toBe('no-cache');
+  });
+
+  it('should expose the cache metadata in headers', async () => {
+    const response = await request(app).get('/api/v1/ethos/stats').expect(200);
+
+    expect(response.headers['x-stats-fetched-at']).toBe(fetchedAt);
+    expect(response.headers['x-stats-schema-version']).toBe('1');
+    expect(response.headers['x-stats-source']).toBe(
+      mockCacheMetadata.source?.url
+    );
+    expect(response.headers['x-stats-upstream-status']).toBe('200');
+    expect(response.headers['x-stats-upstream-latency-ms']).toBe('120');
+    expect(response.headers['x-stats-upstream-etag']).toBeUndefined();
+  });
+
+  it('should omit upstream headers for migrated entries', async () => {
+    vi.mocked(ethosStatsService.getStats).mockResolvedValue({
+      ...freshResult,
+      meta: { ...freshResult.meta, source: null },
+    });
+
+    const response = await request(app).get('/api/v1/ethos/stats').expect(200);
+
+    expect(response.headers['x-stats-fetched-at']).toBe(fetchedAt);
+    expect(response.headers['x-stats-source']).toBeUndefined();
+    expect(response.headers['x-stats-upstream-status']).toBeUndefined();
+  });
+});
+
+describe('GET /api/v1/ethos/stats/history', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return a page of snapshots (200)', async () => {
+    const page = {
+      items: [{ fetchedAt: '2024-01-15T10:30:00.000Z', data: mockEthosStats }],
+      nextCursor: null,
+    };
+    vi.mocked(ethosStatsService.getHistory).mockResolvedValue(page);
+
+    const response = await request(app)
+      .get('/api/v1/ethos/stats/history')
+      .expect(200);
+
+    expect(response.body).toEqual(page);
+    expect(ethosStatsService.getHistory).toHaveBeenCalledWith({
+      type: 'attestation',
+      activityId: 223,
+      limit: 100,
+    });
+  });
+
+  it('should parse range, limit and cursor parameters', async () => {
+    vi.mocked(ethosStatsService.getHistory).mockResolvedValue({
+      items: [],
+      nextCursor: null,
+    });
+
+    await request(app)
+      .get('/api/v1/ethos/stats/history')
+      .query({
+        type: 'vouch',
+        activityId: '9',
+        from: '2024-01-01T00:00:00Z',
+        to: '2024-02-01T00:00:00Z',
+        limit: '10',
+        cursor: encodeCursor(1704067200000),
+      })
+      .expect(200);
+
+    expect(ethosStatsService.getHistory).toHaveBeenCalledWith({
+      type: 'vouch',
+      activityId: 9,
+      from: new Date('2024-01-01T00:00:00Z'),
+      to: new Date('2024-02-01T00:00:00Z'),
+      limit: 10,
+      cursor: 1704067200000,
+    });
+  });
+
+  it('should reject an invalid cursor (400)', async () => {
+    const response = await request(app)
+      .get('/api/v1/ethos/stats/history')
+      .query({ cursor: 'not-a-cursor' })
+      .expect(400);
+
+    expect(response.body.details).toEqual(
+      expect.arrayContaining([expect.objectContaining({ path: 'cursor' })])
+    );
+    expect(ethosStatsService.getHistory).not.toHaveBeenCalled();
+  });
+
+  it('should reject a range where from is after to (400)', async () => {
+    await request(app)
+      .get('/api/v1/ethos/stats/history')
+      .query({ from: '2024-02-01T00:00:00Z', to: '2024-01-01T00:00:00Z' })
+      .expect(400);
+
+    expect(ethosStatsService.getHistory).not.toHaveBeenCalled();
+  });
+
+  it('should reject a limit above the maximum (400)', async () => {
+    await request(app)
+      .get('/api/v1/ethos/stats/history')
+      .query({ limit: '1000' })
+      .expect(400);
+  });
+});
+
+describe('Stats access control', () => {
+  const API_KEY = `ek_0123456789abcdef_${'a'.repeat(43)}`;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.mocked(ethosStatsService.getStats).mockResolvedValue(mockCacheHitResult);
+  });
+
+  it('should serve anonymous callers without checking credentials', async () => {
+    await request(app).get('/api/v1/ethos/stats').expect(200);
+
+    expect(apiKeyService.verifyKey).not.toHaveBeenCalled();
+  });
+
+  it('should serve callers with valid credentials', async () => {
+    vi.mocked(apiKeyService.verifyKey).mockResolvedValue({
+      id: '0123456789abcdef',
+      owner: 'partner',
+      scopes: ['webhooks:read'],
+      labels: {},
+      rateLimitTier: 'free',
+      salt: 'salt',
+      hash: 'hash',
+      createdAt: '2024-01-01T00:00:00.000Z',
+      updatedAt: null,
+      expiresAt: null,
+      rotatedAt: null,
+      previousSecret: null,
+    });
+
+    await request(app)
+      .get('/api/v1/ethos/stats')
+      .set('X-API-Key', API_KEY)
+      .expect(200);
+
+    expect(apiKeyService.verifyKey).toHaveBeenCalledWith(API_KEY);
+  });
+
+  it('should reject invalid credentials instead of falling back to anonymous (401)', async () => {
+    vi.mocked(apiKeyService.verifyKey).mockResolvedValue(null);
+
+    const response = await request(app)
+      .get('/api/v1/ethos/stats/history')
+      .set('X-API-Key', API_KEY)
+      .expect(401);
+
+    expect(response.body).toMatchObject({ code: 'INVALID_CREDENTIALS' });
+    expect(ethosStatsService.getHistory).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,337 @@
+import type { Server } from 'http';
+import type { AddressInfo } from 'net';
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+
+// Mock dependencies - must be before any imports that use them
+vi.mock('../../src/config/env.js', () => ({
+  env: {
+    NODE_ENV: 'test',
+    PORT: 3000,
+    REDIS_URL: 'redis://localhost:6379',
+    METRICS_ALLOWED_CIDRS: '127.0.0.0/8,::1/128',
+    STATS_REFRESH_SCHEDULE: '12h',
+    STATS_REFRESH_TIMEZONE: 'UTC',
+    SSE_HEARTBEAT_INTERVAL_MS: 50,
+  },
+}));
+
+vi.mock('../../src/config/redis.js', () => {
+  const mockMulti = vi.fn().mockReturnValue({
+    incr: vi.fn().mockReturnThis(),
+    expire: vi.fn().mockReturnThis(),
+    exec: vi.fn().mockResolvedValue([
+      [null, 1], // incr result
+      [null, 900], // expire result (TTL in seconds)
+    ]),
+  });
+
+  return {
+    redisClient: {
+      multi: mockMulti,
+      on: vi.fn(),
+    },
+  };
+});
+
+vi.mock('../../src/services/ethos-stats-service.js', () => ({
+  ethosStatsService: {
+    getStats: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/services/ethos-stats-events-service.js', () => ({
+  ethosStatsEventsService: {
+    subscribe: vi.fn(),
+    getEventsSince: vi.fn(),
+    getLatestEventId: vi.fn(),
+  },
+}));
+
+import { app } from '../../src/app.js';
+import { UpstreamError } from '../../src/errors/app-errors.js';
+import type { EthosStatsEventListener } from '../../src/services/ethos-stats-events-service.js';
+import { ethosStatsEventsService } from '../../src/services/ethos-stats-events-service.js';
+import { ethosStatsService } from '../../src/services/ethos-stats-service.js';
+import {
+  mockCacheEnvelope,
+  mockCacheHitResult,
+  mockCacheMetadata,
+  mockEthosStats,
+  mockEthosStatsAlt,
+} from '../helpers/fixtures.js';
+
+const query = { type: 'attestation' as const, activityId: 223 };
+
+let server: Server;
+let baseUrl: string;
+let listener: EthosStatsEventListener | null;
+const unsubscribe = vi.fn();
+
+/**
+ * Open the stream and collect its body until `done` returns true
+ * supertest waits for the response to end, which an event stream never does
+ */
+const readStream = async (options: {
+  path?: string;
+  headers?: Record<string, string>;
+  done: (body: string) => boolean;
+  onOpen?: () => void;
+}): Promise<{ status: number; headers: Headers; body: string }> => {
+  const controller = new AbortController();
+  const response = await fetch(
+    `${baseUrl}${options.path ?? '/api/v1/ethos/stats/stream'}`,
+    { headers: options.headers, signal: controller.signal }
+  );
+  if (!response.body || response.status !== 200) {
+    return {
+      status: response.status,
+      headers: response.headers,
+      body: await response.text(),
+    };
+  }
+
+  options.onOpen?.();
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let body = '';
+  while (!options.done(body)) {
+    const { value, done } = await reader.read();
+    if (done) break;
+    body += decoder.decode(value, { stream: true });
+  }
+  controller.abort();
+  return { status: response.status, headers: response.headers, body };
+};
+
+// Parse `id`/`event`/`data` fields of every event in a stream body
+const parseEvents = (body: string) =>
+  body
+    .split('\n\n')
+    .filter((block) => block.includes('data: '))
+    .map((block) => {
+      const fields = Object.fromEntries(
+        block.split('\n').map((line) => {
+          const separator = line.indexOf(': ');
+          return [line.slice(0, separator), line.slice(separator + 2)];
+        })
+      );
+      return {
+        id: fields.id as string | undefined,
+        event: fields.event as string,
+        data: JSON.parse(fields.data as string) as unknown,
+      };
+    });
+
+const countEvents = (count: number) => (body: string) =>
+  parseEvents(body).length >= count;
+
+describe('GET /api/v1/ethos/stats/stream', () => {
+  beforeAll(async () => {
+    server = app.listen(0);
+    await new Promise((resolve) => server.once('listening', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise((resolve) => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    listener = null;
+    vi.mocked(ethosStatsEventsService.subscribe).mockImplementation(
+      async (_query, eventListener) => {
+        listener = eventListener;
+        return unsubscribe;
+      }
+    );
+    vi.mocked(ethosStatsEventsService.getLatestEventId).mockResolvedValue(
+      '1705314600000-0'
+    );
+    vi.mocked(ethosStatsService.getStats).mockResolvedValue(mockCacheHitResult);
+  });
+
+  it('should send the current stats on connect', async () => {
+    const response = await readStream({ done: countEvents(1) });
+
+    expect(response.status).toBe(200);
+    expect(response.headers.get('content-type')).toContain('text/event-stream');
+    expect(response.headers.get('cache-control')).toBe(
+      'no-cache, no-transform'
+    );
+    expect(response.body.startsWith('retry: 5000\n\n')).toBe(true);
+    expect(parseEvents(response.body)).toEqual([
+      {
+        id: '1705314600000-0',
+        event: 'stats',
+        data: { data: mockEthosStats, meta: mockCacheMetadata },
+      },
+    ]);
+    expect(ethosStatsService.getStats).toHaveBeenCalledWith(query);
+  });
+
+  it('should omit the event ID when nothing was published yet', async () => {
+    vi.mocked(ethosStatsEventsService.getLatestEventId).mockResolvedValue(null);
+
+    const response = await readStream({ done: countEvents(1) });
+
+    expect(parseEvents(response.body)[0]?.id).toBeUndefined();
+  });
+
+  it('should select the activity from the query', async () => {
+    await readStream({
+      path: '/api/v1/ethos/stats/stream?type=vouch&activityId=5',
+      done: countEvents(1),
+    });
+
+    expect(ethosStatsEventsService.subscribe).toHaveBeenCalledWith(
+      { type: 'vouch', activityId: 5 },
+      expect.any(Object)
+    );
+  });
+
+  it('should push published updates', async () => {
+    const response = await readStream({
+      done: countEvents(2),
+      onOpen: () => {
+        listener?.onEvent({
+          id: '1705358000000-0',
+          query,
+          envelope: { ...mockCacheEnvelope, data: mockEthosStatsAlt },
+        });
+      },
+    });
+
+    const events = parseEvents(response.body);
+    expect(events[1]).toEqual({
+      id: '1705358000000-0',
+      event: 'stats',
+      data: { data: mockEthosStatsAlt, meta: mockCacheMetadata },
+    });
+  });
+
+  it('should not repeat events already sent on connect', async () => {
+    const response = await readStream({
+      done: (body) => body.includes(': ping'),
+      onOpen: () => {
+        listener?.onEvent({
+          id: '1705314600000-0',
+          query,
+          envelope: mockCacheEnvelope,
+        });
+      },
+    });
+
+    expect(parseEvents(response.body)).toHaveLength(1);
+  });
+
+  it('should send heartbeats', async () => {
+    const response = await readStream({
+      done: (body) => body.includes(': ping\n\n'),
+    });
+
+    expect(response.body).toContain(': ping\n\n');
+  });
+
+  it('should replay missed events when resuming', async () => {
+    vi.mocked(ethosStatsEventsService.getEventsSince).mockResolvedValue([
+      { id: '2-0', query, envelope: mockCacheEnvelope },
+      { id: '3-0', query, envelope: mockCacheEnvelope },
+    ]);
+
+    const response = await readStream({
+      headers: { 'Last-Event-ID': '1-0' },
+      done: countEvents(2),
+    });
+
+    expect(ethosStatsEventsService.getEventsSince).toHaveBeenCalledWith(
+      query,
+      '1-0'
+    );
+    expect(parseEvents(response.body).map((event) => event.id)).toEqual([
+      '2-0',
+      '3-0',
+    ]);
+    expect(ethosStatsService.getStats).not.toHaveBeenCalled();
+  });
+
+  it('should send the current stats when the last event is not retained', async () => {
+    vi.mocked(ethosStatsEventsService.getEventsSince).mockResolvedValue(null);
+
+    const response = await readStream({
+      headers: { 'Last-Event-ID': '1-0' },
+      done: countEvents(1),
+    });
+
+    expect(parseEvents(response.body)[0]?.id).toBe('1705314600000-0');
+    expect(ethosStatsService.getStats).toHaveBeenCalledWith(query);
+  });
+
+  it('should ignore a malformed Last-Event-ID', async () => {
+    await readStream({
+      headers: { 'Last-Event-ID': 'not-an-id' },
+      done: countEvents(1),
+    });
+
+    expect(ethosStatsEventsService.getEventsSince).not.toHaveBeenCalled();
+    expect(ethosStatsService.getStats).toHaveBeenCalled();
+  });
+
+  it('should unsubscribe when the client disconnects', async () => {
+    await readStream({ done: countEvents(1) });
+
+    await vi.waitFor(() => expect(unsubscribe).toHaveBeenCalled());
+  });
+
+  it('should unsubscribe when the client disconnects during setup', async () => {
+    let resolveStats: (result: typeof mockCacheHitResult) => void = () => {};
+    vi.mocked(ethosStatsService.getStats).mockReturnValue(
+      new Promise((resolve) => {
+        resolveStats = resolve;
+      })
+    );
+
+    const controller = new AbortController();
+    const response = fetch(`${baseUrl}/api/v1/ethos/stats/stream`, {
+      signal: controller.signal,
+    }).catch(() => null);
+    await vi.waitFor(() =>
+      expect(ethosStatsService.getStats).toHaveBeenCalled()
+    );
+    controller.abort();
+    await response;
+
+    await vi.waitFor(() => expect(unsubscribe).toHaveBeenCalled());
+    resolveStats(mockCacheHitResult);
+  });
+
+  it('should return an error response if the initial stats fail', async () => {
+    vi.mocked(ethosStatsService.getStats).mockRejectedValue(
+      new UpstreamError('Failed to fetch stats from Ethos API: down', 503)
+    );
+
+    const response = await readStream({ done: () => true });
+
+    expect(response.status).toBe(502);
+    expect(JSON.parse(response.body)).toMatchObject({ code: 'UPSTREAM_ERROR' });
+    expect(unsubscribe).toHaveBeenCalled();
+  });
+
+  it('should reject invalid query parameters (400)', async () => {
+    const response = await readStream({
+      path: '/api/v1/ethos/stats/stream?type=unknown',
+      done: () => true,
+    });
+
+    expect(response.status).toBe(400);
+    expect(ethosStatsEventsService.subscribe).not.toHaveBeenCalled();
+  });
+});
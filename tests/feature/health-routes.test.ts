@@ -0,0 +1,148 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import request from 'supertest';
+
+// Mock dependencies - must be before any imports that use them
+vi.mock('../../src/config/env.js', () => ({
+  env: {
+    NODE_ENV: 'test',
+    PORT: 3000,
+    REDIS_URL: 'redis://localhost:6379',
+    METRICS_ALLOWED_CIDRS: '127.0.0.0/8,::1/128',
+    RATE_LIMIT_WINDOW_MS: 900000,
+    RATE_LIMIT_MAX_REQUESTS: 1,
+  },
+}));
+
+vi.mock('../../src/config/redis.js', () => {
+  // Every caller is over the limit
+  const mockExec = vi.fn().mockResolvedValue([
+    [null, 100], // incr result
+    [null, 900], // expire result (TTL in seconds)
+  ]);
+  const mockMulti = vi.fn().mockReturnValue({
+    incr: vi.fn().mockReturnThis(),
+    expire: vi.fn().mockReturnThis(),
+    exec: mockExec,
+  });
+
+  return {
+    redisClient: {
+      multi: mockMulti,
+      on: vi.fn(),
+    },
+  };
+});
+
+vi.mock('../../src/services/health-service.js', () => ({
+  healthService: {
+    checkReadiness: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/jobs/index.js', () => ({
+  ethosStatsRefreshScheduler: {},
+}));
+
+import { app } from '../../src/app.js';
+import { redisClient } from '../../src/config/redis.js';
+import { healthService } from '../../src/services/health-service.js';
+
+const checks = {
+  redis: { status: 'pass' as const, connection: 'ready' },
+  redisLatency: { status: 'pass' as const, latencyMs: 2, maxLatencyMs: 500 },
+  statsAge: {
+    status: 'pass' as const,
+    fetchedAt: '2024-01-15T10:30:00.000Z',
+    ageSeconds: 60,
+    maxAgeSeconds: 43200,
+  },
+};
+
+describe('GET /healthz', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should report the process as alive (200)', async () => {
+    const response = await request(app).get('/healthz').expect(200);
+
+    expect(response.body).toEqual({
+      status: 'ok',
+      uptimeSeconds: expect.any(Number),
+    });
+    expect(response.headers['cache-control']).toBe('no-store');
+  });
+
+  it('should not be rate limited', async () => {
+    await request(app).get('/healthz').expect(200);
+
+    expect(redisClient.multi).not.toHaveBeenCalled();
+  });
+});
+
+describe('GET /readyz', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should return 200 when every check passes', async () => {
+    const report = { status: 'ready' as const, checks };
+    vi.mocked(healthService.checkReadiness).mockResolvedValue(report);
+
+    const response = await request(app).get('/readyz').expect(200);
+
+    expect(response.body).toEqual(report);
+    expect(redisClient.multi).not.toHaveBeenCalled();
+  });
+
+  it('should return 200 when a check warns', async () => {
+    const report = {
+      status: 'degraded' as const,
+      checks: {
+        ...checks,
+        statsAge: {
+          ...checks.statsAge,
+          status: 'warn' as const,
+          warning: 'Cached stats are older than the maximum age',
+        },
+      },
+    };
+    vi.mocked(healthService.checkReadiness).mockResolvedValue(report);
+
+    const response = await request(app).get('/readyz').expect(200);
+
+    expect(response.body).toEqual(report);
+  });
+
+  it('should return 503 when a check fails', async () => {
+    const report = {
+      status: 'not_ready' as const,
+      checks: {
+        ...checks,
+        statsAge: { ...checks.statsAge, status: 'fail' as const },
+      },
+    };
+    vi.mocked(healthService.checkReadiness).mockResolvedValue(report);
+
+    const response = await request(app).get('/readyz').expect(503);
+
+    expect(response.body).toEqual(report);
+  });
+
+  it('should return 503 while shutting down', async () => {
+    vi.mocked(healthService.checkReadiness).mockResolvedValue({
+      status: 'shutting_down',
+      checks: null,
+    });
+
+    const response = await request(app).get('/readyz').expect(503);
+
+    expect(response.body).toEqual({ status: 'shutting_down', checks: null });
+  });
+});
+
+describe('rate limiting', () => {
+  it('should still apply to other routes', async () => {
+    await request(app).get('/api/v1/ethos/unknown').expect(429);
+  });
+});
@@ -0,0 +1,69 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import request from 'supertest';
+
+// Mock dependencies - must be before any imports that use them
+vi.mock('../../src/config/env.js', () => ({
+  env: {
+    NODE_ENV: 'test',
+    PORT: 3000,
+    REDIS_URL: 'redis://localhost:6379',
+    METRICS_ALLOWED_CIDRS: '127.0.0.0/8,::1/128',
+  },
+}));
+
+vi.mock('../../src/config/redis.js', () => {
+  const mockExec = vi.fn().mockResolvedValue([
+    [null, 1], // incr result
+    [null, 900], // expire result (TTL in seconds)
+  ]);
+  const mockMulti = vi.fn().mockReturnValue({
+    incr: vi.fn().mockReturnThis(),
+    expire: vi.fn().mockReturnThis(),
+    exec: mockExec,
+  });
+
+  return {
+    redisClient: {
+      multi: mockMulti,
+      on: vi.fn(),
+    },
+  };
+});
+
+vi.mock('../../src/jobs/index.js', () => ({
+  ethosStatsRefreshScheduler: {},
+}));
+
+import { app } from '../../src/app.js';
+import { metricsRegistry } from '../../src/config/metrics.js';
+
+describe('GET /metrics', () => {
+  beforeEach(() => {
+    metricsRegistry.resetMetrics();
+  });
+
+  it('should serve metrics in the Prometheus text format (200)', async () => {
+    const response = await request(app).get('/metrics').expect(200);
+
+    expect(response.headers['content-type']).toContain('text/plain');
+    expect(response.text).toContain('# TYPE process_cpu_seconds_total counter');
+    expect(response.text).toContain(
+      '# TYPE ethos_stats_cache_requests_total counter'
+    );
+    expect(response.text).toContain('# TYPE job_runs_total counter');
+  });
+
+  it('should count requests by route pattern', async () => {
+    await request(app).get('/healthz').expect(200);
+    await request(app).get('/no-such-route').expect(404);
+
+    const response = await request(app).get('/metrics').expect(200);
+
+    expect(response.text).toContain(
+      'http_requests_total{method="GET",route="/healthz",status_code="200"} 1'
+    );
+    expect(response.text).toContain(
+      'http_requests_total{method="GET",route="unmatched",status_code="404"} 1'
+    );
+  });
+});
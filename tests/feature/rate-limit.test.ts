@@ -0,0 +1,206 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import request from 'supertest';
+
+// Rate limit counters by Redis key
+const counters = vi.hoisted(() => new Map<string, number>());
+
+// Mock dependencies - must be before any imports that use them
+vi.mock('../../src/config/env.js', () => ({
+  env: {
+    NODE_ENV: 'test',
+    PORT: 3000,
+    REDIS_URL: 'redis://localhost:6379',
+    METRICS_ALLOWED_CIDRS: '127.0.0.0/8,::1/128',
+    RATE_LIMIT_WINDOW_MS: 900000,
+    RATE_LIMIT_MAX_REQUESTS: 2,
+    RATE_LIMIT_INTERNAL_MAX_REQUESTS: 10,
+  },
+}));
+
+vi.mock('../../src/config/redis.js', () => {
+  const multi = () => {
+    const results: [null, number][] = [];
+    const chain = {
+      incr: (key: string) => {
+        const count = (counters.get(key) ?? 0) + 1;
+        counters.set(key, count);
+        results.push([null, count]);
+        return chain;
+      },
+      expire: () => {
+        results.push([null, 900]);
+        return chain;
+      },
+      exec: async () => results,
+    };
+    return chain;
+  };
+
+  return {
+    redisClient: {
+      multi: vi.fn(multi),
+      decr: vi.fn(),
+      del: vi.fn(),
+      on: vi.fn(),
+    },
+  };
+});
+
+vi.mock('../../src/services/ethos-stats-service.js', () => ({
+  ethosStatsService: {
+    getStats: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/services/api-key-service.js', () => ({
+  apiKeyService: {
+    verifyKey: vi.fn(),
+  },
+}));
+
+vi.mock('../../src/jobs/index.js', () => ({
+  ethosStatsRefreshScheduler: {
+    runNow: vi.fn(),
+  },
+}));
+
+import { app } from '../../src/app.js';
+import { ethosStatsRefreshScheduler } from '../../src/jobs/index.js';
+import { apiKeyService } from '../../src/services/api-key-service.js';
+import { ethosStatsService } from '../../src/services/ethos-stats-service.js';
+import type { ApiKeyRecord } from '../../src/types/auth.js';
+import type { RateLimitTier } from '../../src/types/rate-limit.js';
+import { mockCacheHitResult } from '../helpers/fixtures.js';
+
+const keyFor = (id: string) => `ek_${id}_${'a'.repeat(43)}`;
+
+const keyRecord = (id: string, rateLimitTier: RateLimitTier): ApiKeyRecord => ({
+  id,
+  owner: `owner-${id}`,
+  scopes: ['stats:refresh'],
+  labels: {},
+  rateLimitTier,
+  salt: 'salt',
+  hash: 'hash',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: null,
+  expiresAt: null,
+  rotatedAt: null,
+  previousSecret: null,
+});
+
+const keys = new Map<string, ApiKeyRecord>([
+  [keyFor('000000000000f4ee'), keyRecord('000000000000f4ee', 'free')],
+  [keyFor('00000000000000a1'), keyRecord('00000000000000a1', 'internal')],
+  [keyFor('00000000000000ff'), keyRecord('00000000000000ff', 'unlimited')],
+]);
+const FREE_KEY = keyFor('000000000000f4ee');
+const INTERNAL_KEY = keyFor('00000000000000a1');
+const UNLIMITED_KEY = keyFor('00000000000000ff');
+
+const getStats = (apiKey?: string) => {
+  const req = request(app).get('/api/v1/ethos/stats');
+  return apiKey ? req.set('X-API-Key', apiKey) : req;
+};
+
+const statusesOf = async (count: number, send: () => request.Test) => {
+  const statuses: number[] = [];
+  for (let i = 0; i < count; i += 1) {
+    statuses.push((await send()).status);
+  }
+  return statuses;
+};
+
+describe('Rate limiting', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    counters.clear();
+    vi.mocked(ethosStatsService.getStats).mockResolvedValue(mockCacheHitResult);
+    vi.mocked(apiKeyService.verifyKey).mockImplementation(
+      async (key) => keys.get(key) ?? null
+    );
+    vi.mocked(ethosStatsRefreshScheduler.runNow).mockResolvedValue({
+      job: 'ethos-stats-refresh',
+      trigger: 'manual',
+      startedAt: '2024-01-15T10:00:00.000Z',
+      finishedAt: '2024-01-15T10:00:01.250Z',
+      durationMs: 1250,
+      attempts: 1,
+      outcome: 'success',
+      changed: false,
+    });
+  });
+
+  it('should limit anonymous callers by IP with the free tier', async () => {
+    expect(await statusesOf(3, () => getStats())).toEqual([200, 200, 429]);
+
+    const response = await getStats().expect(429);
+
+    expect(response.body).toEqual({
+      error: 'Too many requests, please try again later.',
+      requestId: response.headers['x-request-id'],
+    });
+    expect(response.headers['ratelimit-limit']).toBe('2');
+    expect([...counters.keys()]).toEqual([
+      expect.stringMatching(/^ratelimit:global:free:ip:/),
+    ]);
+  });
+
+  it('should count each API key separately from its IP', async () => {
+    await statusesOf(2, () => getStats());
+
+    await getStats(FREE_KEY).expect(200);
+
+    expect(counters.get('ratelimit:global:free:key:000000000000f4ee')).toBe(1);
+  });
+
+  it('should give internal keys a larger budget', async () => {
+    const statuses = await statusesOf(11, () => getStats(INTERNAL_KEY));
+
+    expect(statuses.filter((status) => status === 200)).toHaveLength(10);
+    expect(statuses.at(-1)).toBe(429);
+  });
+
+  it('should never limit unlimited keys', async () => {
+    expect(await statusesOf(5, () => getStats(UNLIMITED_KEY))).toEqual([
+      200, 200, 200, 200, 200,
+    ]);
+    expect(counters.size).toBe(0);
+  });
+
+  it('should count invalid credentials against the IP', async () => {
+    const invalidKey = keyFor('0000000000000bad');
+
+    expect(await statusesOf(3, () => getStats(invalidKey))).toEqual([
+      401, 401, 429,
+    ]);
+  });
+
+  it('should apply route limits on top of the tier limit', async () => {
+    const refresh = () =>
+      request(app)
+        .post('/api/v1/admin/ethos/refresh')
+        .set('X-API-Key', INTERNAL_KEY);
+
+    expect(await statusesOf(6, refresh)).toEqual([
+      200, 200, 200, 200, 200, 429,
+    ]);
+    expect(
+      counters.get('ratelimit:admin-refresh:internal:key:00000000000000a1')
+    ).toBe(6);
+    expect(counters.get('ratelimit:global:internal:key:00000000000000a1')).toBe(
+      6
+    );
+  });
+
+  it('should leave tiers without a route limit unchanged', async () => {
+    const refresh = () =>
+      request(app)
+        .post('/api/v1/admin/ethos/refresh')
+        .set('X-API-Key', UNLIMITED_KEY);
+
+    expect(await statusesOf(6, refresh)).toEqual([
+      200, 200, 200, 200, 200, 200,
+    ]);
+  });
+});
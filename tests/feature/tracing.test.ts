@@ -0,0 +1,117 @@
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import request from 'supertest';
+
+import { createTestSpanExporter } from '../helpers/tracing.js';
+
+// Mock dependencies - must be before any imports that use them
+vi.mock('../../src/config/env.js', () => ({
+  env: {
+    NODE_ENV: 'test',
+    PORT: 3000,
+    REDIS_URL: 'redis://localhost:6379',
+    METRICS_ALLOWED_CIDRS: '127.0.0.0/8,::1/128',
+  },
+}));
+
+vi.mock('../../src/config/redis.js', () => {
+  const mockExec = vi.fn().mockResolvedValue([
+    [null, 1], // incr result
+    [null, 900], // expire result (TTL in seconds)
+  ]);
+  const mockMulti = vi.fn().mockReturnValue({
+    incr: vi.fn().mockReturnThis(),
+    expire: vi.fn().mockReturnThis(),
+    exec: mockExec,
+  });
+
+  return {
+    redisClient: {
+      multi: mockMulti,
+      on: vi.fn(),
+    },
+  };
+});
+
+vi.mock('../../src/jobs/index.js', () => ({
+  ethosStatsRefreshScheduler: {},
+}));
+
+vi.mock('../../src/services/ethos-stats-service.js', () => ({
+  ethosStatsService: {
+    getStats: vi.fn(),
+  },
+}));
+
+import { app } from '../../src/app.js';
+import { ethosStatsService } from '../../src/services/ethos-stats-service.js';
+
+const spanExporter = createTestSpanExporter();
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const PARENT_SPAN_ID = '00f067aa0ba902b7';
+
+describe('Request tracing', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    spanExporter.reset();
+  });
+
+  it('should trace requests as server spans named by route', async () => {
+    const response = await request(app).get('/healthz').expect(200);
+
+    // The span ends once the response is closed
+    await vi.waitFor(() =>
+      expect(spanExporter.getFinishedSpans()).toHaveLength(1)
+    );
+    const [span] = spanExporter.getFinishedSpans();
+    expect(span?.name).toBe('GET /healthz');
+    expect(span?.kind).toBe(SpanKind.SERVER);
+    expect(span?.attributes).toMatchObject({
+      'http.request.method': 'GET',
+      'http.route': '/healthz',
+      'http.response.status_code': 200,
+      'http.request.id': response.headers['x-request-id'],
+    });
+  });
+
+  it('should continue the trace of an incoming traceparent header', async () => {
+    await request(app)
+      .get('/healthz')
+      .set('traceparent', `00-${TRACE_ID}-${PARENT_SPAN_ID}-01`)
+      .expect(200);
+
+    await vi.waitFor(() =>
+      expect(spanExporter.getFinishedSpans()).toHaveLength(1)
+    );
+    const [span] = spanExporter.getFinishedSpans();
+    expect(span?.spanContext().traceId).toBe(TRACE_ID);
+    expect(span?.parentSpanContext?.spanId).toBe(PARENT_SPAN_ID);
+  });
+
+  it('should mark server errors on the span', async () => {
+    vi.mocked(ethosStatsService.getStats).mockRejectedValue(
+      new Error('Redis connection failed')
+    );
+
+    await request(app).get('/api/v1/ethos/stats').expect(500);
+
+    await vi.waitFor(() =>
+      expect(spanExporter.getFinishedSpans()).toHaveLength(1)
+    );
+    const [span] = spanExporter.getFinishedSpans();
+    expect(span?.name).toBe('GET /api/v1/ethos/stats');
+    expect(span?.status.code).toBe(SpanStatusCode.ERROR);
+  });
+
+  it('should name unmatched requests by method only', async () => {
+    await request(app).get('/no-such-route').expect(404);
+
+    await vi.waitFor(() =>
+      expect(spanExporter.getFinishedSpans()).toHaveLength(1)
+    );
+    const [span] = spanExporter.getFinishedSpans();
+    expect(span?.name).toBe('GET');
+    expect(span?.status.code).toBe(SpanStatusCode.UNSET);
+  });
+});
@@ -1,4 +1,12 @@
-import type { EthosStats } from '../../src/types/ethos-stats.js';
+import type {
+  CacheEnvelope,
+  CacheMetadata,
+} from '../../src/types/cache-envelope.js';
+import type {
+  EthosStats,
+  EthosStatsResult,
+} from '../../src/types/ethos-stats.js';
+import { computeContentHash } from '../../src/utils/etag.js';
 
 /**
  * Sample EthosStats data for testing
@@ -32,3 +40,35 @@ export const mockEthosStatsAlt: EthosStats = {
   type: 'attestation',
   lastUpdated: '2024-01-16T12:00:00Z',
 };
+
+/**
+ * Metadata of a cache envelope around mockEthosStats
+ */
+export const mockCacheMetadata: CacheMetadata = {
+  version: 1,
+  fetchedAt: '2024-01-15T10:30:00.000Z',
+  source: {
+    url: 'https://api.ethos.network/api/v2/votes/stats?type=attestation&activityId=223',
+    status: 200,
+    latencyMs: 120,
+    etag: null,
+  },
+  contentHash: computeContentHash(mockEthosStats),
+};
+
+/**
+ * Cache envelope as stored in Redis
+ */
+export const mockCacheEnvelope: CacheEnvelope<EthosStats> = {
+  ...mockCacheMetadata,
+  data: mockEthosStats,
+};
+
+/**
+ * Service result for stats served from the primary cache
+ */
+export const mockCacheHitResult: EthosStatsResult = {
+  data: mockEthosStats,
+  cacheStatus: 'HIT',
+  meta: mockCacheMetadata,
+};
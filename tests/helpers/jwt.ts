@@ -0,0 +1,50 @@
+import { exportJWK, generateKeyPair, SignJWT } from 'jose';
+import type { JWK, JWTPayload } from 'jose';
+
+export const TEST_JWT_ISSUER = 'https://idp.example.com/';
+export const TEST_JWT_AUDIENCE = 'ethos-stats-api';
+export const TEST_JWT_SECRET = 'test-secret-that-is-at-least-32-chars';
+
+export type TestSigningKey = {
+  alg: 'RS256' | 'ES256';
+  kid: string;
+  privateKey: CryptoKey;
+  publicJwk: JWK;
+};
+
+/**
+ * Generate a key pair and its public JWK, as an identity provider would
+ */
+export async function createTestSigningKey(
+  alg: 'RS256' | 'ES256',
+  kid = `${alg.toLowerCase()}-key`
+): Promise<TestSigningKey> {
+  const { privateKey, publicKey } = await generateKeyPair(alg);
+  const publicJwk = { ...(await exportJWK(publicKey)), kid, alg, use: 'sig' };
+  return { alg, kid, privateKey, publicJwk };
+}
+
+/**
+ * Sign a token valid for an hour, for the test issuer and audience
+ * Claims override the defaults, e.g. `{ exp }` or `{ sub: undefined }`
+ * @param key - A generated key, or omitted for HS256 with the test secret
+ */
+export async function signTestJwt(
+  claims: JWTPayload,
+  key?: TestSigningKey
+): Promise<string> {
+  const now = Math.floor(Date.now() / 1000);
+  const jwt = new SignJWT({
+    sub: 'user-1',
+    iss: TEST_JWT_ISSUER,
+    aud: TEST_JWT_AUDIENCE,
+    iat: now,
+    exp: now + 3600,
+    ...claims,
+  }).setProtectedHeader(
+    key ? { alg: key.alg, kid: key.kid } : { alg: 'HS256' }
+  );
+  return jwt.sign(
+    key ? key.privateKey : new TextEncoder().encode(TEST_JWT_SECRET)
+  );
+}
@@ -0,0 +1,18 @@
+import {
+  InMemorySpanExporter,
+  NodeTracerProvider,
+  SimpleSpanProcessor,
+} from '@opentelemetry/sdk-trace-node';
+
+/**
+ * Registers a global tracer provider that keeps finished spans in memory
+ * Call once per test file, before spans are started
+ */
+export function createTestSpanExporter(): InMemorySpanExporter {
+  const exporter = new InMemorySpanExporter();
+  const provider = new NodeTracerProvider({
+    spanProcessors: [new SimpleSpanProcessor(exporter)],
+  });
+  provider.register();
+  return exporter;
+}
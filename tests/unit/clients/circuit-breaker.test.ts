@@ -0,0 +1,135 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+} from '../../../src/clients/circuit-breaker.js';
+import { logger } from '../../../src/config/logger.js';
+
+vi.mock('../../../src/config/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+describe('CircuitBreaker', () => {
+  let breaker: CircuitBreaker;
+  const fail = () => Promise.reject(new Error('upstream down'));
+  const succeed = () => Promise.resolve('ok');
+
+  const tripBreaker = async () => {
+    for (let i = 0; i < 3; i += 1) {
+      await expect(breaker.execute(fail)).rejects.toThrow('upstream down');
+    }
+  };
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+    breaker = new CircuitBreaker({
+      name: 'test',
+      failureThreshold: 3,
+      resetTimeoutMs: 1000,
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should pass calls through while closed', async () => {
+    await expect(breaker.execute(succeed)).resolves.toBe('ok');
+    expect(breaker.getStatus()).toMatchObject({
+      state: 'CLOSED',
+      consecutiveFailures: 0,
+    });
+  });
+
+  it('should open after consecutive failures reach the threshold', async () => {
+    await tripBreaker();
+
+    expect(breaker.getStatus()).toMatchObject({
+      name: 'test',
+      state: 'OPEN',
+      consecutiveFailures: 3,
+      openedAt: expect.any(String),
+      nextAttemptAt: expect.any(String),
+    });
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.objectContaining({ breaker: 'test', from: 'CLOSED', to: 'OPEN' }),
+      'Circuit breaker opened'
+    );
+  });
+
+  it('should reset the failure count after a success', async () => {
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await expect(breaker.execute(fail)).rejects.toThrow();
+    await breaker.execute(succeed);
+    await expect(breaker.execute(fail)).rejects.toThrow();
+
+    expect(breaker.getStatus().state).toBe('CLOSED');
+  });
+
+  it('should short-circuit calls while open', async () => {
+    await tripBreaker();
+    const fn = vi.fn(succeed);
+
+    await expect(breaker.execute(fn)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('should close again when the half-open trial succeeds', async () => {
+    await tripBreaker();
+    vi.advanceTimersByTime(1000);
+
+    await expect(breaker.execute(succeed)).resolves.toBe('ok');
+
+    expect(breaker.getStatus().state).toBe('CLOSED');
+    expect(logger.info).toHaveBeenCalledWith(
+      expect.objectContaining({ from: 'HALF_OPEN', to: 'CLOSED' }),
+      'Circuit breaker state changed'
+    );
+  });
+
+  it('should re-open when the half-open trial fails', async () => {
+    await tripBreaker();
+    vi.advanceTimersByTime(1000);
+
+    await expect(breaker.execute(fail)).rejects.toThrow('upstream down');
+
+    expect(breaker.getStatus().state).toBe('OPEN');
+    await expect(breaker.execute(succeed)).rejects.toBeInstanceOf(
+      CircuitOpenError
+    );
+  });
+
+  it('should allow only one trial call while half-open', async () => {
+    await tripBreaker();
+    vi.advanceTimersByTime(1000);
+
+    let resolveTrial: (value: string) => void = () => {};
+    const trial = breaker.execute(
+      () =>
+        new Promise<string>((resolve) => {
+          resolveTrial = resolve;
+        })
+    );
+
+    await expect(breaker.execute(succeed)).rejects.toBeInstanceOf(
+      CircuitOpenError
+    );
+    resolveTrial('ok');
+    await expect(trial).resolves.toBe('ok');
+  });
+
+  it('should not count errors rejected by isFailure', async () => {
+    for (let i = 0; i < 5; i += 1) {
+      await expect(breaker.execute(fail, () => false)).rejects.toThrow();
+    }
+
+    expect(breaker.getStatus().state).toBe('CLOSED');
+  });
+});
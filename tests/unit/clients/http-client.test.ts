@@ -0,0 +1,277 @@
+import type { InMemorySpanExporter } from '@opentelemetry/sdk-trace-node';
+import axios from 'axios';
+import {
+  afterEach,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+} from '../../../src/clients/circuit-breaker.js';
+import {
+  parseRetryAfter,
+  ResilientHttpClient,
+} from '../../../src/clients/http-client.js';
+import { logger } from '../../../src/config/logger.js';
+import { upstreamRequestDuration } from '../../../src/config/metrics.js';
+import { tracer } from '../../../src/utils/tracing.js';
+import { createTestSpanExporter } from '../../helpers/tracing.js';
+
+vi.mock('axios', () => ({
+  default: {
+    get: vi.fn(),
+    isAxiosError: (error: { isAxiosError?: boolean }) =>
+      Boolean(error?.isAxiosError),
+  },
+}));
+
+vi.mock('../../../src/config/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const axiosError = (status?: number, headers: Record<string, string> = {}) => ({
+  isAxiosError: true,
+  message: status ? `Request failed with status code ${status}` : 'timeout',
+  response: status ? { status, headers } : undefined,
+});
+
+describe('ResilientHttpClient', () => {
+  let client: ResilientHttpClient;
+  const url = 'https://api.example.com/stats';
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.clearAllMocks();
+    vi.spyOn(Math, 'random').mockReturnValue(1);
+    client = new ResilientHttpClient({
+      name: 'test-api',
+      timeoutMs: 1000,
+      maxRetries: 2,
+      baseDelayMs: 100,
+      maxDelayMs: 1000,
+      breaker: new CircuitBreaker({
+        name: 'test-api',
+        failureThreshold: 2,
+        resetTimeoutMs: 10000,
+      }),
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+    vi.useRealTimers();
+  });
+
+  it('should send the request with the configured timeout', async () => {
+    vi.mocked(axios.get).mockResolvedValue({ status: 200, data: {} });
+
+    await client.get(url);
+
+    expect(axios.get).toHaveBeenCalledWith(url, { timeout: 1000 });
+  });
+
+  it('should retry 5xx and network errors with exponential backoff', async () => {
+    vi.mocked(axios.get)
+      .mockRejectedValueOnce(axiosError(503))
+      .mockRejectedValueOnce(axiosError())
+      .mockResolvedValueOnce({ status: 200, data: 'ok' });
+
+    const pending = client.get(url);
+    await vi.advanceTimersByTimeAsync(100); // first backoff: 100ms
+    expect(axios.get).toHaveBeenCalledTimes(2);
+    await vi.advanceTimersByTimeAsync(200); // second backoff: 200ms
+    const response = await pending;
+
+    expect(response.data).toBe('ok');
+    expect(axios.get).toHaveBeenCalledTimes(3);
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.objectContaining({ client: 'test-api', attempt: 1, delayMs: 100 }),
+      'Upstream request failed, retrying'
+    );
+  });
+
+  it('should time every attempt by status', async () => {
+    upstreamRequestDuration.reset();
+    vi.mocked(axios.get)
+      .mockRejectedValueOnce(axiosError(503))
+      .mockRejectedValueOnce(axiosError())
+      .mockResolvedValueOnce({ status: 200, data: 'ok' });
+
+    const pending = client.get(url);
+    await vi.advanceTimersByTimeAsync(300);
+    await pending;
+
+    const { values } = await upstreamRequestDuration.get();
+    const counts = values
+      .filter((sample) => sample.metricName?.endsWith('_count'))
+      .map((sample) => [sample.labels.status, sample.value]);
+    expect(counts).toEqual(
+      expect.arrayContaining([
+        ['503', 1],
+        ['error', 1],
+        ['200', 1],
+      ])
+    );
+    expect(values[0]?.labels.client).toBe('test-api');
+  });
+
+  it('should apply jitter to the backoff delay', async () => {
+    vi.mocked(Math.random).mockReturnValue(0.5);
+    vi.mocked(axios.get)
+      .mockRejectedValueOnce(axiosError(500))
+      .mockResolvedValueOnce({ status: 200, data: 'ok' });
+
+    const pending = client.get(url);
+    await vi.advanceTimersByTimeAsync(50);
+    await pending;
+
+    expect(logger.warn).toHaveBeenCalledWith(
+      expect.objectContaining({ delayMs: 50 }),
+      'Upstream request failed, retrying'
+    );
+  });
+
+  it('should give up after maxRetries and throw the last error', async () => {
+    const lastError = axiosError(502);
+    vi.mocked(axios.get)
+      .mockRejectedValueOnce(axiosError(500))
+      .mockRejectedValueOnce(axiosError(500))
+      .mockRejectedValueOnce(lastError);
+
+    const pending = client.get(url);
+    const assertion = expect(pending).rejects.toBe(lastError);
+    await vi.advanceTimersByTimeAsync(1000);
+    await assertion;
+
+    expect(axios.get).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not retry other 4xx errors', async () => {
+    const notFound = axiosError(404);
+    vi.mocked(axios.get).mockRejectedValue(notFound);
+
+    await expect(client.get(url)).rejects.toBe(notFound);
+    expect(axios.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should honor Retry-After on 429', async () => {
+    vi.mocked(axios.get)
+      .mockRejectedValueOnce(axiosError(429, { 'retry-after': '1' }))
+      .mockResolvedValueOnce({ status: 200, data: 'ok' });
+
+    const pending = client.get(url);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(axios.get).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+    await pending;
+
+    expect(axios.get).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop retrying when Retry-After exceeds maxDelayMs', async () => {
+    const tooManyRequests = axiosError(429, { 'retry-after': '60' });
+    vi.mocked(axios.get).mockRejectedValue(tooManyRequests);
+
+    await expect(client.get(url)).rejects.toBe(tooManyRequests);
+    expect(axios.get).toHaveBeenCalledTimes(1);
+  });
+
+  it('should open the circuit after repeated failed calls', async () => {
+    const serverError = axiosError(500);
+    vi.mocked(axios.get).mockRejectedValue(serverError);
+
+    for (let i = 0; i < 2; i += 1) {
+      const pending = client.get(url);
+      const assertion = expect(pending).rejects.toBe(serverError);
+      await vi.advanceTimersByTimeAsync(1000);
+      await assertion;
+    }
+    vi.mocked(axios.get).mockClear();
+
+    await expect(client.get(url)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(axios.get).not.toHaveBeenCalled();
+    expect(client.getStatus().state).toBe('OPEN');
+  });
+
+  it('should not open the circuit for non-retryable errors', async () => {
+    vi.mocked(axios.get).mockRejectedValue(axiosError(400));
+
+    for (let i = 0; i < 3; i += 1) {
+      await expect(client.get(url)).rejects.toBeDefined();
+    }
+
+    expect(client.getStatus().state).toBe('CLOSED');
+  });
+
+  describe('tracing', () => {
+    // Registered late so the other tests see requests without trace headers
+    let spanExporter: InMemorySpanExporter;
+
+    beforeAll(() => {
+      spanExporter = createTestSpanExporter();
+    });
+
+    it('should propagate the trace context and trace every attempt', async () => {
+      vi.mocked(axios.get)
+        .mockRejectedValueOnce(axiosError(503))
+        .mockResolvedValueOnce({ status: 200, data: 'ok' });
+
+      const traceId = await tracer.startActiveSpan('parent', async (span) => {
+        const pending = client.get(url);
+        await vi.advanceTimersByTimeAsync(100);
+        await pending;
+        span.end();
+        return span.spanContext().traceId;
+      });
+
+      const attempts = spanExporter
+        .getFinishedSpans()
+        .filter((span) => span.name === 'GET');
+      expect(attempts.map((span) => span.attributes)).toEqual([
+        {
+          'http.request.method': 'GET',
+          'url.full': url,
+          'http.response.status_code': 503,
+        },
+        {
+          'http.request.method': 'GET',
+          'url.full': url,
+          'http.request.resend_count': 1,
+          'http.response.status_code': 200,
+        },
+      ]);
+      const spanId = attempts[1]?.spanContext().spanId;
+      expect(axios.get).toHaveBeenLastCalledWith(url, {
+        headers: { traceparent: `00-${traceId}-${spanId}-01` },
+        timeout: 1000,
+      });
+    });
+  });
+});
+
+describe('parseRetryAfter', () => {
+  it('should parse delta-seconds', () => {
+    expect(parseRetryAfter('3')).toBe(3000);
+  });
+
+  it('should parse HTTP dates relative to now', () => {
+    const now = Date.parse('2024-01-15T10:30:00Z');
+    expect(parseRetryAfter('Mon, 15 Jan 2024 10:30:05 GMT', now)).toBe(5000);
+  });
+
+  it('should return null for missing or malformed values', () => {
+    expect(parseRetryAfter(undefined)).toBeNull();
+    expect(parseRetryAfter('soon')).toBeNull();
+  });
+});
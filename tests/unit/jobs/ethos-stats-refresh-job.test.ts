@@ -0,0 +1,86 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ethosStatsRefreshJob } from '../../../src/jobs/ethos-stats-refresh-job.js';
+import { ethosStatsService } from '../../../src/services/ethos-stats-service.js';
+import { jobRegistry } from '../../../src/services/job-registry.js';
+import {
+  mockCacheHitResult,
+  mockCacheMetadata,
+} from '../../helpers/fixtures.js';
+
+vi.mock('../../../src/config/env.js', () => ({
+  env: {
+    STATS_REFRESH_SCHEDULE: '12h',
+    STATS_REFRESH_TIMEZONE: 'UTC',
+    STATS_REFRESH_ON_STARTUP: 'auto',
+    STATS_REFRESH_STARTUP_JITTER_MS: 60000,
+    SCHEDULER_HISTORY_SIZE: 100,
+    SCHEDULER_LEASE_TTL_MS: 30000,
+  },
+}));
+
+vi.mock('../../../src/services/ethos-stats-service.js', () => ({
+  DEFAULT_STATS_QUERY: { type: 'attestation', activityId: 223 },
+  ethosStatsService: {
+    refreshCache: vi.fn(),
+    getCachedStats: vi.fn(),
+  },
+}));
+
+vi.mock('../../../src/repositories/redis-repository.js', () => ({
+  redisRepository: {},
+}));
+
+describe('ethosStatsRefreshJob', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should be registered as a leader job', () => {
+    expect(jobRegistry.get('ethos-stats-refresh').name).toBe(
+      'ethos-stats-refresh'
+    );
+    expect(ethosStatsRefreshJob).toMatchObject({
+      keyPrefix: 'ethos:scheduler',
+      concurrency: 'leader',
+      startup: { mode: 'auto', jitterMs: 60000 },
+    });
+    expect(ethosStatsRefreshJob.schedule.expression).toBe('12h');
+  });
+
+  it('should refresh the cache and report whether the stats changed', async () => {
+    vi.mocked(ethosStatsService.refreshCache).mockResolvedValue({
+      changed: false,
+      meta: mockCacheMetadata,
+    });
+    const fence = { key: 'ethos:scheduler:leader:fencing', token: 1 };
+
+    const result = await ethosStatsRefreshJob.handler({
+      attempt: 1,
+      fence,
+      signal: new AbortController().signal,
+    });
+
+    expect(result).toEqual({ changed: false });
+    expect(ethosStatsService.refreshCache).toHaveBeenCalledWith(
+      { type: 'attestation', activityId: 223 },
+      fence
+    );
+  });
+
+  it('should report when the cached stats were fetched', async () => {
+    vi.mocked(ethosStatsService.getCachedStats).mockResolvedValue(
+      mockCacheHitResult
+    );
+
+    await expect(ethosStatsRefreshJob.getLastOutputAt?.()).resolves.toEqual(
+      new Date(mockCacheMetadata.fetchedAt)
+    );
+  });
+
+  it('should report no output while the cache is empty', async () => {
+    vi.mocked(ethosStatsService.getCachedStats).mockResolvedValue(null);
+
+    await expect(ethosStatsRefreshJob.getLastOutputAt?.()).resolves.toBeNull();
+  });
+});
@@ -4,6 +4,7 @@ import { ZodError } from 'zod';
 
 import { env } from '../../../src/config/env.js';
 import { logger } from '../../../src/config/logger.js';
+import { UpstreamError } from '../../../src/errors/app-errors.js';
 import { errorHandler } from '../../../src/middlewares/error-handler.js';
 import { createMockRequest, createMockResponse } from '../../helpers/mocks.js';
 
@@ -206,6 +207,45 @@ describe('Error Handler Middleware', () => {
     });
   });
 
+  describe('AppError handling', () => {
+    it('should map AppError subclasses to their status code', () => {
+      vi.mocked(env).NODE_ENV = 'production';
+
+      const error = new UpstreamError('Upstream down', 503);
+
+      (errorHandler as ErrorRequestHandler)(
+        error,
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(status).toHaveBeenCalledWith(502);
+      expect(json).toHaveBeenCalledWith({
+        error: 'Bad Gateway',
+        code: 'UPSTREAM_ERROR',
+        requestId: 'test-request-id',
+      });
+    });
+
+    it('should include the error message in development', () => {
+      vi.mocked(env).NODE_ENV = 'development';
+
+      const error = new UpstreamError('Upstream down');
+
+      (errorHandler as ErrorRequestHandler)(
+        error,
+        mockReq as Request,
+        mockRes as Response,
+        mockNext
+      );
+
+      expect(json).toHaveBeenCalledWith(
+        expect.objectContaining({ message: 'Upstream down' })
+      );
+    });
+  });
+
   describe('non-Error object handling', () => {
     it('should handle non-Error objects', () => {
       vi.mocked(env).NODE_ENV = 'production';
@@ -0,0 +1,64 @@
+import type { NextFunction, Request, Response } from 'express';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { ForbiddenError } from '../../../src/errors/app-errors.js';
+import { internalOnly } from '../../../src/middlewares/security.js';
+
+vi.mock('../../../src/config/env.js', () => ({
+  env: {
+    NODE_ENV: 'test',
+    RATE_LIMIT_WINDOW_MS: 900000,
+    RATE_LIMIT_MAX_REQUESTS: 100,
+    METRICS_ALLOWED_CIDRS: '10.0.0.0/8, ::1/128',
+  },
+}));
+
+vi.mock('../../../src/config/redis.js', () => ({
+  redisClient: {},
+}));
+
+vi.mock('../../../src/config/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const requestFrom = (remoteAddress: string | undefined) =>
+  ({
+    socket: { remoteAddress },
+    path: '/metrics',
+    headers: { 'x-forwarded-for': '10.0.0.1' },
+  }) as unknown as Request;
+
+describe('internalOnly', () => {
+  let next: NextFunction;
+
+  beforeEach(() => {
+    next = vi.fn();
+  });
+
+  it.each(['10.1.2.3', '::ffff:10.1.2.3', '::1'])(
+    'should let %s through',
+    (address) => {
+      internalOnly(requestFrom(address), {} as Response, next);
+
+      expect(next).toHaveBeenCalledWith();
+    }
+  );
+
+  it.each(['203.0.113.7', '::ffff:203.0.113.7', '2001:db8::1', undefined])(
+    'should reject %s',
+    (address) => {
+      internalOnly(requestFrom(address), {} as Response, next);
+
+      expect(next).toHaveBeenCalledWith(expect.any(ForbiddenError));
+      expect(vi.mocked(next).mock.calls[0]?.[0]).toMatchObject({
+        statusCode: 403,
+        code: 'INTERNAL_ONLY',
+      });
+    }
+  );
+});
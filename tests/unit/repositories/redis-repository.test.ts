@@ -1,8 +1,10 @@
+import { SpanKind, SpanStatusCode } from '@opentelemetry/api';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 
 import { redisClient } from '../../../src/config/redis.js';
 import { RedisRepository } from '../../../src/repositories/redis-repository.js';
 import { mockEthosStats } from '../../helpers/fixtures.js';
+import { createTestSpanExporter } from '../../helpers/tracing.js';
 
 // Mock Redis client
 vi.mock('../../../src/config/redis.js', () => ({
@@ -10,15 +12,32 @@ vi.mock('../../../src/config/redis.js', () => ({
     get: vi.fn(),
     set: vi.fn(),
     setex: vi.fn(),
+    multi: vi.fn(),
+    zrangebyscore: vi.fn(),
+    eval: vi.fn(),
+    xadd: vi.fn(),
+    expire: vi.fn(),
+    xrange: vi.fn(),
+    xrevrange: vi.fn(),
+    publish: vi.fn(),
+    hset: vi.fn(),
+    hget: vi.fn(),
+    hvals: vi.fn(),
+    hdel: vi.fn(),
+    lrange: vi.fn(),
+    ping: vi.fn(),
   },
 }));
 
+const spanExporter = createTestSpanExporter();
+
 describe('RedisRepository', () => {
   let repository: RedisRepository;
 
   beforeEach(() => {
     repository = new RedisRepository();
     vi.clearAllMocks();
+    spanExporter.reset();
   });
 
   describe('get', () => {
@@ -78,6 +97,64 @@ describe('RedisRepository', () => {
     });
   });
 
+  describe('getWithTtl', () => {
+    const mockTransaction = (results: Array<[Error | null, unknown]>) => {
+      const multi = {
+        get: vi.fn().mockReturnThis(),
+        pttl: vi.fn().mockReturnThis(),
+        exec: vi.fn().mockResolvedValue(results),
+      };
+      vi.mocked(redisClient.multi).mockReturnValue(
+        multi as unknown as ReturnType<typeof redisClient.multi>
+      );
+      return multi;
+    };
+
+    it('should return the parsed value with its remaining TTL', async () => {
+      const multi = mockTransaction([
+        [null, JSON.stringify(mockEthosStats)],
+        [null, 5000],
+      ]);
+
+      const result = await repository.getWithTtl('test-key');
+
+      expect(result).toEqual({ value: mockEthosStats, ttlMs: 5000 });
+      expect(multi.get).toHaveBeenCalledWith('test-key');
+      expect(multi.pttl).toHaveBeenCalledWith('test-key');
+    });
+
+    it('should report a null TTL for keys without expiry', async () => {
+      mockTransaction([
+        [null, JSON.stringify(mockEthosStats)],
+        [null, -1],
+      ]);
+
+      const result = await repository.getWithTtl('test-key');
+
+      expect(result).toEqual({ value: mockEthosStats, ttlMs: null });
+    });
+
+    it('should return null when key does not exist', async () => {
+      mockTransaction([
+        [null, null],
+        [null, -2],
+      ]);
+
+      await expect(repository.getWithTtl('test-key')).resolves.toBeNull();
+    });
+
+    it('should wrap command errors', async () => {
+      mockTransaction([
+        [new Error('Redis connection failed'), null],
+        [null, -2],
+      ]);
+
+      await expect(repository.getWithTtl('test-key')).rejects.toThrow(
+        'Redis get operation failed for key "test-key": Redis connection failed'
+      );
+    });
+  });
+
   describe('set', () => {
     it('should successfully set value without TTL', async () => {
       vi.mocked(redisClient.set).mockResolvedValue('OK');
@@ -158,4 +235,616 @@ describe('RedisRepository', () => {
       );
     });
   });
+
+  describe('tracing', () => {
+    it('should trace reads and writes as client spans', async () => {
+      vi.mocked(redisClient.get).mockResolvedValue(null);
+      vi.mocked(redisClient.set).mockResolvedValue('OK');
+
+      await repository.get('test-key');
+      await repository.set('test-key', mockEthosStats);
+
+      const spans = spanExporter.getFinishedSpans();
+      expect(spans.map((span) => span.name)).toEqual([
+        'redis GET',
+        'redis SET',
+      ]);
+      expect(spans[0]?.kind).toBe(SpanKind.CLIENT);
+      expect(spans[0]?.attributes).toEqual({
+        'db.system.name': 'redis',
+        'db.operation.name': 'GET',
+        'db.redis.key': 'test-key',
+      });
+    });
+
+    it('should record failures on the span', async () => {
+      vi.mocked(redisClient.get).mockRejectedValue(
+        new Error('Connection lost')
+      );
+
+      await expect(repository.get('test-key')).rejects.toThrow();
+
+      const [span] = spanExporter.getFinishedSpans();
+      expect(span?.status.code).toBe(SpanStatusCode.ERROR);
+      expect(span?.events[0]?.name).toBe('exception');
+    });
+  });
+
+  describe('addToSortedSet', () => {
+    const createMulti = (results: Array<[Error | null, unknown]>) => {
+      const multi = {
+        zadd: vi.fn().mockReturnThis(),
+        zremrangebyrank: vi.fn().mockReturnThis(),
+        expire: vi.fn().mockReturnThis(),
+        exec: vi.fn().mockResolvedValue(results),
+      };
+      vi.mocked(redisClient.multi).mockReturnValue(
+        multi as unknown as ReturnType<typeof redisClient.multi>
+      );
+      return multi;
+    };
+
+    it('should add the serialized value and trim to maxEntries', async () => {
+      const multi = createMulti([
+        [null, 1],
+        [null, 0],
+      ]);
+
+      await repository.addToSortedSet('history-key', 1000, mockEthosStats, 10);
+
+      expect(multi.zadd).toHaveBeenCalledWith(
+        'history-key',
+        1000,
+        JSON.stringify(mockEthosStats)
+      );
+      expect(multi.zremrangebyrank).toHaveBeenCalledWith('history-key', 0, -11);
+    });
+
+    it('should not trim or expire when maxEntries and ttlSeconds are omitted', async () => {
+      const multi = createMulti([[null, 1]]);
+
+      await repository.addToSortedSet('history-key', 1000, mockEthosStats);
+
+      expect(multi.zremrangebyrank).not.toHaveBeenCalled();
+      expect(multi.expire).not.toHaveBeenCalled();
+    });
+
+    it('should renew the TTL of the set', async () => {
+      const multi = createMulti([
+        [null, 1],
+        [null, 0],
+        [null, 1],
+      ]);
+
+      await repository.addToSortedSet(
+        'history-key',
+        1000,
+        mockEthosStats,
+        10,
+        3600
+      );
+
+      expect(multi.expire).toHaveBeenCalledWith('history-key', 3600);
+    });
+
+    it('should throw when a command in the transaction fails', async () => {
+      createMulti([[new Error('WRONGTYPE'), null]]);
+
+      await expect(
+        repository.addToSortedSet('history-key', 1000, mockEthosStats)
+      ).rejects.toThrow(
+        'Redis sorted set add failed for key "history-key": WRONGTYPE'
+      );
+    });
+  });
+
+  describe('rangeByScore', () => {
+    it('should return parsed members with their scores', async () => {
+      vi.mocked(redisClient.zrangebyscore).mockResolvedValue([
+        JSON.stringify({ n: 1 }),
+        '100',
+        JSON.stringify({ n: 2 }),
+        '200',
+      ]);
+
+      const result = await repository.rangeByScore(
+        'history-key',
+        '-inf',
+        '+inf',
+        5
+      );
+
+      expect(result).toEqual([
+        { score: 100, value: { n: 1 } },
+        { score: 200, value: { n: 2 } },
+      ]);
+      expect(redisClient.zrangebyscore).toHaveBeenCalledWith(
+        'history-key',
+        '-inf',
+        '+inf',
+        'WITHSCORES',
+        'LIMIT',
+        0,
+        5
+      );
+    });
+
+    it('should handle JSON parse errors', async () => {
+      vi.mocked(redisClient.zrangebyscore).mockResolvedValue(['{ bad', '1']);
+
+      await expect(
+        repository.rangeByScore('history-key', 0, 10, 5)
+      ).rejects.toThrow('Failed to parse JSON for key "history-key"');
+    });
+  });
+
+  describe('acquireLock', () => {
+    it('should SET NX PX and report success', async () => {
+      vi.mocked(redisClient.set).mockResolvedValue('OK');
+
+      const acquired = await repository.acquireLock('lock-key', 'token', 5000);
+
+      expect(acquired).toBe(true);
+      expect(redisClient.set).toHaveBeenCalledWith(
+        'lock-key',
+        'token',
+        'PX',
+        5000,
+        'NX'
+      );
+    });
+
+    it('should report failure when the lock is already held', async () => {
+      vi.mocked(redisClient.set).mockResolvedValue(null);
+
+      await expect(
+        repository.acquireLock('lock-key', 'token', 5000)
+      ).resolves.toBe(false);
+    });
+
+    it('should wrap Redis errors', async () => {
+      vi.mocked(redisClient.set).mockRejectedValue(new Error('Redis down'));
+
+      await expect(
+        repository.acquireLock('lock-key', 'token', 5000)
+      ).rejects.toThrow(
+        'Redis lock acquire failed for key "lock-key": Redis down'
+      );
+    });
+  });
+
+  describe('releaseLock', () => {
+    it('should delete the lock only for the matching token', async () => {
+      vi.mocked(redisClient.eval).mockResolvedValue(1);
+
+      const released = await repository.releaseLock('lock-key', 'token');
+
+      expect(released).toBe(true);
+      expect(redisClient.eval).toHaveBeenCalledWith(
+        expect.stringContaining('redis.call("del", KEYS[1])'),
+        1,
+        'lock-key',
+        'token'
+      );
+    });
+
+    it('should report false when the lock is held by someone else', async () => {
+      vi.mocked(redisClient.eval).mockResolvedValue(0);
+
+      await expect(repository.releaseLock('lock-key', 'token')).resolves.toBe(
+        false
+      );
+    });
+  });
+
+  describe('extendLock', () => {
+    it('should extend the lock only for the matching token', async () => {
+      vi.mocked(redisClient.eval).mockResolvedValue(1);
+
+      const extended = await repository.extendLock('lock-key', 'token', 5000);
+
+      expect(extended).toBe(true);
+      expect(redisClient.eval).toHaveBeenCalledWith(
+        expect.stringContaining('redis.call("pexpire", KEYS[1], ARGV[2])'),
+        1,
+        'lock-key',
+        'token',
+        5000
+      );
+    });
+
+    it('should report false when the lock was lost', async () => {
+      vi.mocked(redisClient.eval).mockResolvedValue(0);
+
+      await expect(
+        repository.extendLock('lock-key', 'token', 5000)
+      ).resolves.toBe(false);
+    });
+
+    it('should wrap Redis errors', async () => {
+      vi.mocked(redisClient.eval).mockRejectedValue(new Error('Redis down'));
+
+      await expect(
+        repository.extendLock('lock-key', 'token', 5000)
+      ).rejects.toThrow(
+        'Redis lock extend failed for key "lock-key": Redis down'
+      );
+    });
+  });
+
+  describe('acquireFencedLock', () => {
+    it('should SET NX PX and return the next fencing token', async () => {
+      vi.mocked(redisClient.eval).mockResolvedValue(8);
+
+      const token = await repository.acquireFencedLock(
+        'lock-key',
+        'lock-key:fencing',
+        'token',
+        5000
+      );
+
+      expect(token).toBe(8);
+      expect(redisClient.eval).toHaveBeenCalledWith(
+        expect.stringContaining('"PX", ARGV[2], "NX"'),
+        2,
+        'lock-key',
+        'lock-key:fencing',
+        'token',
+        5000
+      );
+    });
+
+    it('should return null when the lock is already held', async () => {
+      vi.mocked(redisClient.eval).mockResolvedValue(null);
+
+      await expect(
+        repository.acquireFencedLock(
+          'lock-key',
+          'lock-key:fencing',
+          'token',
+          5000
+        )
+      ).resolves.toBeNull();
+    });
+  });
+
+  describe('setIfFenced', () => {
+    it('should write with a TTL while the fencing token is current', async () => {
+      vi.mocked(redisClient.eval).mockResolvedValue(1);
+
+      const written = await repository.setIfFenced(
+        'test-key',
+        mockEthosStats,
+        'lock-key:fencing',
+        8,
+        3600
+      );
+
+      expect(written).toBe(true);
+      expect(redisClient.eval).toHaveBeenCalledWith(
+        expect.stringContaining('redis.call("get", KEYS[2]) ~= ARGV[2]'),
+        2,
+        'test-key',
+        'lock-key:fencing',
+        JSON.stringify(mockEthosStats),
+        8,
+        3600
+      );
+    });
+
+    it('should write without a TTL when none is given', async () => {
+      vi.mocked(redisClient.eval).mockResolvedValue(1);
+
+      await repository.setIfFenced(
+        'test-key',
+        mockEthosStats,
+        'lock-key:fencing',
+        8
+      );
+
+      expect(redisClient.eval).toHaveBeenCalledWith(
+        expect.any(String),
+        2,
+        'test-key',
+        'lock-key:fencing',
+        JSON.stringify(mockEthosStats),
+        8,
+        ''
+      );
+    });
+
+    it('should return false when a later holder took over', async () => {
+      vi.mocked(redisClient.eval).mockResolvedValue(0);
+
+      await expect(
+        repository.setIfFenced(
+          'test-key',
+          mockEthosStats,
+          'lock-key:fencing',
+          8
+        )
+      ).resolves.toBe(false);
+    });
+
+    it('should wrap Redis errors', async () => {
+      vi.mocked(redisClient.eval).mockRejectedValue(new Error('Redis down'));
+
+      await expect(
+        repository.setIfFenced(
+          'test-key',
+          mockEthosStats,
+          'lock-key:fencing',
+          8
+        )
+      ).rejects.toThrow(
+        'Redis set operation failed for key "test-key": Redis down'
+      );
+    });
+  });
+
+  describe('appendToStream', () => {
+    it('should append the serialized value with approximate trimming', async () => {
+      vi.mocked(redisClient.xadd).mockResolvedValue('1705314600000-0');
+
+      const id = await repository.appendToStream(
+        'stream-key',
+        mockEthosStats,
+        100
+      );
+
+      expect(id).toBe('1705314600000-0');
+      expect(redisClient.xadd).toHaveBeenCalledWith(
+        'stream-key',
+        'MAXLEN',
+        '~',
+        100,
+        '*',
+        'value',
+        JSON.stringify(mockEthosStats)
+      );
+      expect(redisClient.expire).not.toHaveBeenCalled();
+    });
+
+    it('should renew the TTL of the stream', async () => {
+      vi.mocked(redisClient.xadd).mockResolvedValue('1705314600000-0');
+
+      await repository.appendToStream('stream-key', mockEthosStats, 100, 3600);
+
+      expect(redisClient.expire).toHaveBeenCalledWith('stream-key', 3600);
+    });
+
+    it('should wrap Redis errors', async () => {
+      vi.mocked(redisClient.xadd).mockRejectedValue(new Error('Redis down'));
+
+      await expect(
+        repository.appendToStream('stream-key', {}, 100)
+      ).rejects.toThrow(
+        'Redis stream append failed for key "stream-key": Redis down'
+      );
+    });
+  });
+
+  describe('rangeStream', () => {
+    it('should return parsed entries with their IDs', async () => {
+      vi.mocked(redisClient.xrange).mockResolvedValue([
+        ['1-0', ['value', JSON.stringify(mockEthosStats)]],
+        ['2-0', ['value', JSON.stringify({ totalVotes: 1 })]],
+      ]);
+
+      const entries = await repository.rangeStream(
+        'stream-key',
+        '1-0',
+        '+',
+        10
+      );
+
+      expect(entries).toEqual([
+        { id: '1-0', value: mockEthosStats },
+        { id: '2-0', value: { totalVotes: 1 } },
+      ]);
+      expect(redisClient.xrange).toHaveBeenCalledWith(
+        'stream-key',
+        '1-0',
+        '+',
+        'COUNT',
+        10
+      );
+    });
+
+    it('should read newest first when reversed', async () => {
+      vi.mocked(redisClient.xrevrange).mockResolvedValue([]);
+
+      await repository.rangeStream('stream-key', '+', '-', 1, true);
+
+      expect(redisClient.xrevrange).toHaveBeenCalledWith(
+        'stream-key',
+        '+',
+        '-',
+        'COUNT',
+        1
+      );
+      expect(redisClient.xrange).not.toHaveBeenCalled();
+    });
+
+    it('should report JSON parse errors', async () => {
+      vi.mocked(redisClient.xrange).mockResolvedValue([
+        ['1-0', ['value', '{ invalid']],
+      ]);
+
+      await expect(
+        repository.rangeStream('stream-key', '-', '+', 10)
+      ).rejects.toThrow('Failed to parse JSON for key "stream-key"');
+    });
+  });
+
+  describe('publish', () => {
+    it('should publish the serialized message', async () => {
+      vi.mocked(redisClient.publish).mockResolvedValue(2);
+
+      const receivers = await repository.publish('channel', { id: '1-0' });
+
+      expect(receivers).toBe(2);
+      expect(redisClient.publish).toHaveBeenCalledWith(
+        'channel',
+        JSON.stringify({ id: '1-0' })
+      );
+    });
+
+    it('should wrap Redis errors', async () => {
+      vi.mocked(redisClient.publish).mockRejectedValue(new Error('Redis down'));
+
+      await expect(repository.publish('channel', {})).rejects.toThrow(
+        'Redis publish failed for channel "channel": Redis down'
+      );
+    });
+  });
+
+  describe('hash fields', () => {
+    it('should store a serialized field', async () => {
+      await repository.setHashField('hash-key', 'field', mockEthosStats);
+
+      expect(redisClient.hset).toHaveBeenCalledWith(
+        'hash-key',
+        'field',
+        JSON.stringify(mockEthosStats)
+      );
+    });
+
+    it('should return a parsed field or null', async () => {
+      vi.mocked(redisClient.hget)
+        .mockResolvedValueOnce(JSON.stringify(mockEthosStats))
+        .mockResolvedValueOnce(null);
+
+      await expect(repository.getHashField('hash-key', 'a')).resolves.toEqual(
+        mockEthosStats
+      );
+      await expect(
+        repository.getHashField('hash-key', 'b')
+      ).resolves.toBeNull();
+    });
+
+    it('should return all parsed values', async () => {
+      vi.mocked(redisClient.hvals).mockResolvedValue([
+        JSON.stringify({ id: 1 }),
+        JSON.stringify({ id: 2 }),
+      ]);
+
+      await expect(repository.getHashValues('hash-key')).resolves.toEqual([
+        { id: 1 },
+        { id: 2 },
+      ]);
+    });
+
+    it('should replace a field only if it still exists', async () => {
+      vi.mocked(redisClient.eval)
+        .mockResolvedValueOnce(1)
+        .mockResolvedValueOnce(0);
+
+      await expect(
+        repository.replaceHashField('hash-key', 'a', mockEthosStats)
+      ).resolves.toBe(true);
+      await expect(
+        repository.replaceHashField('hash-key', 'b', mockEthosStats)
+      ).resolves.toBe(false);
+      expect(redisClient.eval).toHaveBeenCalledWith(
+        expect.stringContaining('redis.call("hexists", KEYS[1], ARGV[1])'),
+        1,
+        'hash-key',
+        'a',
+        JSON.stringify(mockEthosStats)
+      );
+    });
+
+    it('should report whether a deleted field existed', async () => {
+      vi.mocked(redisClient.hdel)
+        .mockResolvedValueOnce(1)
+        .mockResolvedValueOnce(0);
+
+      await expect(repository.deleteHashField('hash-key', 'a')).resolves.toBe(
+        true
+      );
+      await expect(repository.deleteHashField('hash-key', 'b')).resolves.toBe(
+        false
+      );
+    });
+
+    it('should wrap Redis errors', async () => {
+      vi.mocked(redisClient.hset).mockRejectedValue(new Error('Redis down'));
+
+      await expect(
+        repository.setHashField('hash-key', 'field', {})
+      ).rejects.toThrow('Redis hash set failed for key "hash-key": Redis down');
+    });
+  });
+
+  describe('pushToList', () => {
+    it('should prepend the value and trim the list', async () => {
+      const multi = {
+        lpush: vi.fn().mockReturnThis(),
+        ltrim: vi.fn().mockReturnThis(),
+        exec: vi.fn().mockResolvedValue([
+          [null, 1],
+          [null, 'OK'],
+        ]),
+      };
+      vi.mocked(redisClient.multi).mockReturnValue(
+        multi as unknown as ReturnType<typeof redisClient.multi>
+      );
+
+      await repository.pushToList('list-key', { id: 1 }, 100);
+
+      expect(multi.lpush).toHaveBeenCalledWith(
+        'list-key',
+        JSON.stringify({ id: 1 })
+      );
+      expect(multi.ltrim).toHaveBeenCalledWith('list-key', 0, 99);
+    });
+
+    it('should wrap transaction errors', async () => {
+      vi.mocked(redisClient.multi).mockReturnValue({
+        lpush: vi.fn().mockReturnThis(),
+        ltrim: vi.fn().mockReturnThis(),
+        exec: vi.fn().mockResolvedValue(null),
+      } as unknown as ReturnType<typeof redisClient.multi>);
+
+      await expect(repository.pushToList('list-key', {}, 100)).rejects.toThrow(
+        'Redis list push failed for key "list-key": Transaction aborted'
+      );
+    });
+  });
+
+  describe('rangeList', () => {
+    it('should return the first parsed entries', async () => {
+      vi.mocked(redisClient.lrange).mockResolvedValue([
+        JSON.stringify({ id: 2 }),
+        JSON.stringify({ id: 1 }),
+      ]);
+
+      const entries = await repository.rangeList('list-key', 2);
+
+      expect(entries).toEqual([{ id: 2 }, { id: 1 }]);
+      expect(redisClient.lrange).toHaveBeenCalledWith('list-key', 0, 1);
+    });
+  });
+
+  describe('ping', () => {
+    it('should report the round-trip time', async () => {
+      vi.mocked(redisClient.ping).mockResolvedValue('PONG');
+
+      const latencyMs = await repository.ping();
+
+      expect(latencyMs).toBeGreaterThanOrEqual(0);
+      expect(redisClient.ping).toHaveBeenCalledTimes(1);
+    });
+
+    it('should wrap Redis errors', async () => {
+      vi.mocked(redisClient.ping).mockRejectedValue(
+        new Error('Connection lost')
+      );
+
+      await expect(repository.ping()).rejects.toThrow(
+        'Redis ping failed: Connection lost'
+      );
+    });
+  });
 });
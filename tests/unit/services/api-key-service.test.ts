@@ -0,0 +1,451 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { logger } from '../../../src/config/logger.js';
+import { NotFoundError } from '../../../src/errors/app-errors.js';
+import { redisRepository } from '../../../src/repositories/redis-repository.js';
+import { ApiKeyService } from '../../../src/services/api-key-service.js';
+import { auditService } from '../../../src/services/audit-service.js';
+import type { AuditActor } from '../../../src/types/audit.js';
+import type { ApiKeyRecord } from '../../../src/types/auth.js';
+
+vi.mock('../../../src/config/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+vi.mock('../../../src/repositories/redis-repository.js', () => ({
+  redisRepository: {
+    setHashField: vi.fn(),
+    replaceHashField: vi.fn(),
+    getHashField: vi.fn(),
+    getHashValues: vi.fn(),
+    deleteHashField: vi.fn(),
+  },
+}));
+vi.mock('../../../src/services/audit-service.js', () => ({
+  auditService: {
+    record: vi.fn(),
+  },
+}));
+
+const input = {
+  owner: 'ops',
+  scopes: ['admin:read', 'stats:refresh'],
+  expiresAt: null,
+  labels: {},
+  rateLimitTier: 'free' as const,
+};
+
+const actor: AuditActor = { id: 'admin', authMethod: 'jwt', keyId: null };
+
+describe('ApiKeyService', () => {
+  let service: ApiKeyService;
+  // Keys stored through setHashField and replaceHashField, by ID
+  let stored: Map<string, ApiKeyRecord>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+    vi.clearAllMocks();
+    service = new ApiKeyService();
+    stored = new Map();
+    vi.mocked(redisRepository.setHashField).mockImplementation(
+      async (_key, field, value) => {
+        stored.set(field, value as ApiKeyRecord);
+      }
+    );
+    vi.mocked(redisRepository.replaceHashField).mockImplementation(
+      async (_key, field, value) => {
+        if (!stored.has(field)) return false;
+        stored.set(field, value as ApiKeyRecord);
+        return true;
+      }
+    );
+    vi.mocked(redisRepository.getHashField).mockImplementation(
+      async (_key, field) => stored.get(field) ?? null
+    );
+    vi.mocked(redisRepository.getHashValues).mockImplementation(async () => [
+      ...stored.values(),
+    ]);
+    vi.mocked(redisRepository.deleteHashField).mockImplementation(
+      async (_key, field) => stored.delete(field)
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('createKey', () => {
+    it('should store a salted hash and return the key once', async () => {
+      const created = await service.createKey(input, actor);
+
+      expect(created).toEqual({
+        id: expect.stringMatching(/^[0-9a-f]{16}$/),
+        owner: 'ops',
+        scopes: ['admin:read', 'stats:refresh'],
+        labels: {},
+        rateLimitTier: 'free',
+        createdAt: '2024-01-15T10:00:00.000Z',
+        updatedAt: null,
+        expiresAt: null,
+        rotatedAt: null,
+        maskedKey: `ek_${created.id}_****`,
+        previousKeyExpiresAt: null,
+        key: expect.stringMatching(/^ek_[0-9a-f]{16}_[\w-]{43}$/),
+      });
+      expect(redisRepository.setHashField).toHaveBeenCalledWith(
+        'ethos:api-keys',
+        created.id,
+        expect.objectContaining({
+          salt: expect.stringMatching(/^[0-9a-f]{32}$/),
+          hash: expect.stringMatching(/^[0-9a-f]{64}$/),
+        })
+      );
+      expect(JSON.stringify(stored.get(created.id))).not.toContain(
+        created.key.split('_').pop()
+      );
+    });
+
+    it('should record the creation in the audit log', async () => {
+      const created = await service.createKey(
+        { ...input, labels: { team: 'data' } },
+        actor
+      );
+
+      expect(auditService.record).toHaveBeenCalledWith({
+        action: 'api-key.created',
+        actor,
+        target: { type: 'api-key', id: created.id },
+        details: {
+          owner: 'ops',
+          scopes: input.scopes,
+          labels: { team: 'data' },
+          rateLimitTier: 'free',
+          expiresAt: null,
+        },
+      });
+      expect(
+        JSON.stringify(vi.mocked(auditService.record).mock.calls)
+      ).not.toContain(created.key);
+    });
+
+    it('should salt every key differently', async () => {
+      const first = await service.createKey(input, actor);
+      const second = await service.createKey(input, actor);
+
+      expect(stored.get(first.id)?.salt).not.toBe(stored.get(second.id)?.salt);
+    });
+
+    it('should wrap Redis errors', async () => {
+      vi.mocked(redisRepository.setHashField).mockRejectedValue(
+        new Error('Redis down')
+      );
+
+      await expect(service.createKey(input, actor)).rejects.toThrow(
+        'Failed to create API key: Redis down'
+      );
+      expect(logger.error).toHaveBeenCalled();
+      expect(auditService.record).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('listKeys', () => {
+    it('should list masked keys without hashes, oldest first', async () => {
+      const first = await service.createKey(input, actor);
+      vi.setSystemTime(new Date('2024-01-15T11:00:00.000Z'));
+      const second = await service.createKey(input, actor);
+      stored = new Map([...stored].reverse());
+
+      const keys = await service.listKeys();
+
+      expect(keys.map((key) => key.id)).toEqual([first.id, second.id]);
+      expect(keys[0]?.maskedKey).toBe(`ek_${first.id}_****`);
+      expect(keys[0]).not.toHaveProperty('hash');
+      expect(keys[0]).not.toHaveProperty('salt');
+      expect(keys[0]).not.toHaveProperty('key');
+    });
+
+    it('should fill in fields missing from keys stored before them', async () => {
+      stored.set('0123456789abcdef', {
+        id: '0123456789abcdef',
+        owner: 'ops',
+        scopes: ['admin:read'],
+        salt: 'salt',
+        hash: 'hash',
+        createdAt: '2024-01-01T00:00:00.000Z',
+        expiresAt: null,
+      } as ApiKeyRecord);
+
+      expect(await service.listKeys()).toEqual([
+        {
+          id: '0123456789abcdef',
+          owner: 'ops',
+          scopes: ['admin:read'],
+          labels: {},
+          rateLimitTier: 'free',
+          createdAt: '2024-01-01T00:00:00.000Z',
+          updatedAt: null,
+          expiresAt: null,
+          rotatedAt: null,
+          maskedKey: 'ek_0123456789abcdef_****',
+          previousKeyExpiresAt: null,
+        },
+      ]);
+    });
+  });
+
+  describe('updateKey', () => {
+    it('should change only the given fields and audit the changes', async () => {
+      const { id, key } = await service.createKey(input, actor);
+      vi.setSystemTime(new Date('2024-01-15T11:00:00.000Z'));
+
+      const updated = await service.updateKey(
+        id,
+        { scopes: ['webhooks:*'], labels: { team: 'data' } },
+        actor
+      );
+
+      expect(updated).toMatchObject({
+        scopes: ['webhooks:*'],
+        labels: { team: 'data' },
+        expiresAt: null,
+        updatedAt: '2024-01-15T11:00:00.000Z',
+      });
+      expect(await service.verifyKey(key)).toMatchObject({
+        scopes: ['webhooks:*'],
+      });
+      expect(auditService.record).toHaveBeenLastCalledWith({
+        action: 'api-key.updated',
+        actor,
+        target: { type: 'api-key', id },
+        details: {
+          changes: {
+            scopes: { from: input.scopes, to: ['webhooks:*'] },
+            labels: { from: {}, to: { team: 'data' } },
+          },
+        },
+      });
+    });
+
+    it('should remove the expiry when it is set to null', async () => {
+      const { id } = await service.createKey(
+        { ...input, expiresAt: '2024-02-01T00:00:00.000Z' },
+        actor
+      );
+
+      const updated = await service.updateKey(id, { expiresAt: null }, actor);
+
+      expect(updated.expiresAt).toBeNull();
+    });
+
+    it('should throw NotFoundError for unknown keys', async () => {
+      await expect(
+        service.updateKey('0123456789abcdef', { labels: {} }, actor)
+      ).rejects.toBeInstanceOf(NotFoundError);
+      expect(auditService.record).not.toHaveBeenCalled();
+    });
+
+    it('should not bring back a key revoked while it was being updated', async () => {
+      const { id, key } = await service.createKey(input, actor);
+      const read = vi.mocked(redisRepository.getHashField);
+      // Revoke once the update has read the key, before it writes it back
+      read.mockImplementationOnce(async (_key, field) => {
+        const record = stored.get(field) ?? null;
+        await service.revokeKey(id, actor);
+        return record;
+      });
+
+      await expect(
+        service.updateKey(id, { labels: { team: 'data' } }, actor)
+      ).rejects.toBeInstanceOf(NotFoundError);
+      expect(stored.has(id)).toBe(false);
+      expect(await service.verifyKey(key)).toBeNull();
+      expect(auditService.record).not.toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'api-key.updated' })
+      );
+    });
+  });
+
+  describe('rotateKey', () => {
+    it('should keep the old key working for the grace period', async () => {
+      const created = await service.createKey(input, actor);
+
+      const rotated = await service.rotateKey(
+        created.id,
+        { gracePeriodSeconds: 3600 },
+        actor
+      );
+
+      expect(rotated).toMatchObject({
+        id: created.id,
+        scopes: input.scopes,
+        rotatedAt: '2024-01-15T10:00:00.000Z',
+        previousKeyExpiresAt: '2024-01-15T11:00:00.000Z',
+      });
+      expect(rotated.key).not.toBe(created.key);
+      expect(rotated.key.startsWith(`ek_${created.id}_`)).toBe(true);
+      expect(await service.verifyKey(rotated.key)).not.toBeNull();
+      expect(await service.verifyKey(created.key)).not.toBeNull();
+
+      vi.setSystemTime(new Date('2024-01-15T11:00:00.000Z'));
+
+      expect(await service.verifyKey(created.key)).toBeNull();
+      expect(await service.verifyKey(rotated.key)).not.toBeNull();
+      expect(auditService.record).toHaveBeenLastCalledWith({
+        action: 'api-key.rotated',
+        actor,
+        target: { type: 'api-key', id: created.id },
+        details: {
+          gracePeriodSeconds: 3600,
+          previousKeyExpiresAt: '2024-01-15T11:00:00.000Z',
+        },
+      });
+    });
+
+    it('should revoke the old key immediately without a grace period', async () => {
+      const created = await service.createKey(input, actor);
+
+      const rotated = await service.rotateKey(
+        created.id,
+        { gracePeriodSeconds: 0 },
+        actor
+      );
+
+      expect(rotated.previousKeyExpiresAt).toBeNull();
+      expect(await service.verifyKey(created.key)).toBeNull();
+    });
+
+    it('should only keep the latest replaced key', async () => {
+      const created = await service.createKey(input, actor);
+      const first = await service.rotateKey(
+        created.id,
+        { gracePeriodSeconds: 3600 },
+        actor
+      );
+
+      await service.rotateKey(created.id, { gracePeriodSeconds: 3600 }, actor);
+
+      expect(await service.verifyKey(created.key)).toBeNull();
+      expect(await service.verifyKey(first.key)).not.toBeNull();
+    });
+
+    it('should throw NotFoundError for unknown keys', async () => {
+      await expect(
+        service.rotateKey('0123456789abcdef', { gracePeriodSeconds: 0 }, actor)
+      ).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('should not bring back a key revoked while it was being rotated', async () => {
+      const created = await service.createKey(input, actor);
+      vi.mocked(redisRepository.getHashField).mockImplementationOnce(
+        async (_key, field) => {
+          const record = stored.get(field) ?? null;
+          await service.revokeKey(created.id, actor);
+          return record;
+        }
+      );
+
+      await expect(
+        service.rotateKey(created.id, { gracePeriodSeconds: 3600 }, actor)
+      ).rejects.toBeInstanceOf(NotFoundError);
+      expect(stored.has(created.id)).toBe(false);
+      expect(await service.verifyKey(created.key)).toBeNull();
+    });
+  });
+
+  describe('revokeKey', () => {
+    it('should delete the key and audit the revocation', async () => {
+      const { id, key } = await service.createKey(input, actor);
+
+      await service.revokeKey(id, actor);
+
+      expect(await service.verifyKey(key)).toBeNull();
+      expect(auditService.record).toHaveBeenLastCalledWith({
+        action: 'api-key.revoked',
+        actor,
+        target: { type: 'api-key', id },
+        details: { owner: 'ops', scopes: input.scopes },
+      });
+    });
+
+    it('should also revoke a key in its rotation grace period', async () => {
+      const created = await service.createKey(input, actor);
+      await service.rotateKey(created.id, { gracePeriodSeconds: 3600 }, actor);
+
+      await service.revokeKey(created.id, actor);
+
+      expect(await service.verifyKey(created.key)).toBeNull();
+    });
+
+    it('should throw NotFoundError for unknown keys', async () => {
+      await expect(
+        service.revokeKey('0123456789abcdef', actor)
+      ).rejects.toBeInstanceOf(NotFoundError);
+      expect(auditService.record).not.toHaveBeenCalled();
+    });
+
+    it('should wrap Redis errors', async () => {
+      const { id } = await service.createKey(input, actor);
+      vi.mocked(redisRepository.deleteHashField).mockRejectedValue(
+        new Error('Redis down')
+      );
+
+      await expect(service.revokeKey(id, actor)).rejects.toThrow(
+        'Failed to revoke API key: Redis down'
+      );
+    });
+  });
+
+  describe('verifyKey', () => {
+    it('should return the stored key for a valid key', async () => {
+      const { key, id } = await service.createKey(input, actor);
+
+      const record = await service.verifyKey(key);
+
+      expect(record).toMatchObject({ id, owner: 'ops', scopes: input.scopes });
+    });
+
+    it('should reject a wrong secret for a known key ID', async () => {
+      const { id } = await service.createKey(input, actor);
+
+      expect(await service.verifyKey(`ek_${id}_${'x'.repeat(43)}`)).toBeNull();
+    });
+
+    it('should reject unknown and malformed keys without a lookup', async () => {
+      expect(
+        await service.verifyKey(`ek_0123456789abcdef_${'x'.repeat(43)}`)
+      ).toBeNull();
+      vi.mocked(redisRepository.getHashField).mockClear();
+
+      expect(await service.verifyKey('not-a-key')).toBeNull();
+      expect(redisRepository.getHashField).not.toHaveBeenCalled();
+    });
+
+    it('should reject expired keys', async () => {
+      const { key } = await service.createKey(
+        { ...input, expiresAt: '2024-01-15T11:00:00.000Z' },
+        actor
+      );
+      expect(await service.verifyKey(key)).not.toBeNull();
+
+      vi.setSystemTime(new Date('2024-01-15T11:00:00.000Z'));
+
+      expect(await service.verifyKey(key)).toBeNull();
+    });
+
+    it('should wrap Redis errors', async () => {
+      const { key } = await service.createKey(input, actor);
+      vi.mocked(redisRepository.getHashField).mockRejectedValue(
+        new Error('Redis down')
+      );
+
+      await expect(service.verifyKey(key)).rejects.toThrow(
+        'Failed to verify API key: Redis down'
+      );
+    });
+  });
+});
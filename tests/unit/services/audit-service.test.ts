@@ -0,0 +1,99 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { logger } from '../../../src/config/logger.js';
+import { redisRepository } from '../../../src/repositories/redis-repository.js';
+import { AuditService } from '../../../src/services/audit-service.js';
+import type { AuditEvent } from '../../../src/types/audit.js';
+import { runWithRequestContext } from '../../../src/utils/request-context.js';
+
+vi.mock('../../../src/config/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+vi.mock('../../../src/repositories/redis-repository.js', () => ({
+  redisRepository: {
+    pushToList: vi.fn(),
+    rangeList: vi.fn(),
+  },
+}));
+
+const event: AuditEvent = {
+  action: 'api-key.revoked',
+  actor: { id: 'ops', authMethod: 'api-key', keyId: 'fedcba9876543210' },
+  target: { type: 'api-key', id: '0123456789abcdef' },
+  details: { owner: 'partner' },
+};
+
+describe('AuditService', () => {
+  let service: AuditService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    service = new AuditService();
+  });
+
+  describe('record', () => {
+    it('should store and log the entry with the request ID', async () => {
+      const entry = await runWithRequestContext({ requestId: 'req-1' }, () =>
+        service.record(event)
+      );
+
+      expect(entry).toEqual({
+        ...event,
+        id: expect.any(String),
+        at: expect.any(String),
+        requestId: 'req-1',
+      });
+      expect(redisRepository.pushToList).toHaveBeenCalledWith(
+        'ethos:audit',
+        entry,
+        10000
+      );
+      expect(logger.info).toHaveBeenCalledWith(
+        { audit: entry },
+        'Audit: api-key.revoked'
+      );
+    });
+
+    it('should record changes made outside a request without a request ID', async () => {
+      const entry = await service.record(event);
+
+      expect(entry.requestId).toBeNull();
+    });
+
+    it('should log instead of throwing when the entry cannot be stored', async () => {
+      vi.mocked(redisRepository.pushToList).mockRejectedValue(
+        new Error('Redis down')
+      );
+
+      await expect(service.record(event)).resolves.toMatchObject(event);
+      expect(logger.error).toHaveBeenCalledWith(
+        expect.objectContaining({ action: 'api-key.revoked' }),
+        'Failed to store audit entry'
+      );
+    });
+  });
+
+  describe('getEntries', () => {
+    it('should read the most recent entries', async () => {
+      vi.mocked(redisRepository.rangeList).mockResolvedValue([]);
+
+      expect(await service.getEntries(20)).toEqual([]);
+      expect(redisRepository.rangeList).toHaveBeenCalledWith('ethos:audit', 20);
+    });
+
+    it('should wrap Redis errors', async () => {
+      vi.mocked(redisRepository.rangeList).mockRejectedValue(
+        new Error('Redis down')
+      );
+
+      await expect(service.getEntries(20)).rejects.toThrow(
+        'Failed to read audit log: Redis down'
+      );
+    });
+  });
+});
@@ -0,0 +1,237 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { logger } from '../../../src/config/logger.js';
+import { createRedisSubscriber } from '../../../src/config/redis.js';
+import { redisRepository } from '../../../src/repositories/redis-repository.js';
+import { EthosStatsEventsService } from '../../../src/services/ethos-stats-events-service.js';
+import { mockCacheEnvelope } from '../../helpers/fixtures.js';
+
+// Minimal stand-in for the dedicated pub/sub connection
+const subscriber = {
+  handlers: new Map<string, (...args: string[]) => void>(),
+  on: vi.fn((event: string, handler: (...args: string[]) => void) => {
+    subscriber.handlers.set(event, handler);
+    return subscriber;
+  }),
+  subscribe: vi.fn(),
+  quit: vi.fn(),
+  disconnect: vi.fn(),
+};
+
+vi.mock('../../../src/config/redis.js', () => ({
+  createRedisSubscriber: vi.fn(() => subscriber),
+}));
+vi.mock('../../../src/config/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+vi.mock('../../../src/repositories/redis-repository.js', () => ({
+  redisRepository: {
+    appendToStream: vi.fn(),
+    rangeStream: vi.fn(),
+    publish: vi.fn(),
+  },
+}));
+
+const query = { type: 'attestation' as const, activityId: 223 };
+
+const deliver = (message: unknown) => {
+  subscriber.handlers.get('message')?.(
+    'ethos:stats:events',
+    JSON.stringify(message)
+  );
+};
+
+describe('EthosStatsEventsService', () => {
+  let service: EthosStatsEventsService;
+
+  beforeEach(() => {
+    service = new EthosStatsEventsService();
+    vi.clearAllMocks();
+    subscriber.handlers.clear();
+    subscriber.subscribe.mockResolvedValue(1);
+    subscriber.quit.mockResolvedValue('OK');
+  });
+
+  describe('publish', () => {
+    it('should append to the activity stream and publish the event', async () => {
+      vi.mocked(redisRepository.appendToStream).mockResolvedValue('1-0');
+
+      await service.publish(query, mockCacheEnvelope);
+
+      expect(redisRepository.appendToStream).toHaveBeenCalledWith(
+        'ethos:stats:events:attestation:223',
+        mockCacheEnvelope,
+        100,
+        undefined
+      );
+      expect(redisRepository.publish).toHaveBeenCalledWith(
+        'ethos:stats:events',
+        { id: '1-0', query, envelope: mockCacheEnvelope }
+      );
+    });
+
+    it('should log and swallow Redis errors', async () => {
+      vi.mocked(redisRepository.appendToStream).mockRejectedValue(
+        new Error('Redis down')
+      );
+
+      await expect(
+        service.publish(query, mockCacheEnvelope)
+      ).resolves.toBeUndefined();
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ key: 'ethos:stats:events:attestation:223' }),
+        'Failed to publish Ethos stats update'
+      );
+    });
+  });
+
+  describe('subscribe', () => {
+    it('should deliver events for the subscribed activity only', async () => {
+      const onEvent = vi.fn();
+      await service.subscribe(query, { onEvent, onEnd: vi.fn() });
+
+      const event = { id: '1-0', query, envelope: mockCacheEnvelope };
+      deliver(event);
+      deliver({ ...event, query: { type: 'vouch', activityId: 1 } });
+
+      expect(subscriber.subscribe).toHaveBeenCalledWith('ethos:stats:events');
+      expect(onEvent).toHaveBeenCalledTimes(1);
+      expect(onEvent).toHaveBeenCalledWith(event);
+    });
+
+    it('should share one pub/sub connection between subscribers', async () => {
+      await service.subscribe(query, { onEvent: vi.fn(), onEnd: vi.fn() });
+      await service.subscribe(query, { onEvent: vi.fn(), onEnd: vi.fn() });
+
+      expect(createRedisSubscriber).toHaveBeenCalledTimes(1);
+      expect(subscriber.subscribe).toHaveBeenCalledTimes(1);
+    });
+
+    it('should stop delivering after unsubscribing', async () => {
+      const onEvent = vi.fn();
+      const unsubscribe = await service.subscribe(query, {
+        onEvent,
+        onEnd: vi.fn(),
+      });
+
+      unsubscribe();
+      deliver({ id: '1-0', query, envelope: mockCacheEnvelope });
+
+      expect(onEvent).not.toHaveBeenCalled();
+    });
+
+    it('should ignore malformed messages', async () => {
+      const onEvent = vi.fn();
+      await service.subscribe(query, { onEvent, onEnd: vi.fn() });
+
+      subscriber.handlers.get('message')?.('ethos:stats:events', '{ invalid');
+
+      expect(onEvent).not.toHaveBeenCalled();
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.any(Object),
+        'Ignoring malformed Ethos stats event'
+      );
+    });
+
+    it('should retry with a new connection after a failed subscription', async () => {
+      subscriber.subscribe.mockRejectedValueOnce(new Error('Redis down'));
+
+      await expect(
+        service.subscribe(query, { onEvent: vi.fn(), onEnd: vi.fn() })
+      ).rejects.toThrow(
+        'Failed to subscribe to Ethos stats events: Redis down'
+      );
+      expect(subscriber.disconnect).toHaveBeenCalled();
+
+      await service.subscribe(query, { onEvent: vi.fn(), onEnd: vi.fn() });
+      expect(createRedisSubscriber).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('getEventsSince', () => {
+    it('should return the events after the last received one', async () => {
+      vi.mocked(redisRepository.rangeStream).mockResolvedValue([
+        { id: '1-0', value: mockCacheEnvelope },
+        { id: '2-0', value: mockCacheEnvelope },
+      ]);
+
+      const events = await service.getEventsSince(query, '1-0');
+
+      expect(redisRepository.rangeStream).toHaveBeenCalledWith(
+        'ethos:stats:events:attestation:223',
+        '1-0',
+        '+',
+        101
+      );
+      expect(events).toEqual([
+        { id: '2-0', query, envelope: mockCacheEnvelope },
+      ]);
+    });
+
+    it('should return an empty list when the client is up to date', async () => {
+      vi.mocked(redisRepository.rangeStream).mockResolvedValue([
+        { id: '2-0', value: mockCacheEnvelope },
+      ]);
+
+      await expect(service.getEventsSince(query, '2-0')).resolves.toEqual([]);
+    });
+
+    it('should return null when the last event is no longer retained', async () => {
+      vi.mocked(redisRepository.rangeStream).mockResolvedValue([
+        { id: '5-0', value: mockCacheEnvelope },
+      ]);
+
+      await expect(service.getEventsSince(query, '1-0')).resolves.toBeNull();
+    });
+
+    it('should wrap Redis errors', async () => {
+      vi.mocked(redisRepository.rangeStream).mockRejectedValue(
+        new Error('Redis down')
+      );
+
+      await expect(service.getEventsSince(query, '1-0')).rejects.toThrow(
+        'Failed to read Ethos stats events: Redis down'
+      );
+    });
+  });
+
+  describe('getLatestEventId', () => {
+    it('should read the newest entry of the activity stream', async () => {
+      vi.mocked(redisRepository.rangeStream).mockResolvedValue([
+        { id: '7-0', value: mockCacheEnvelope },
+      ]);
+
+      await expect(service.getLatestEventId(query)).resolves.toBe('7-0');
+      expect(redisRepository.rangeStream).toHaveBeenCalledWith(
+        'ethos:stats:events:attestation:223',
+        '+',
+        '-',
+        1,
+        true
+      );
+    });
+
+    it('should return null when nothing was published yet', async () => {
+      vi.mocked(redisRepository.rangeStream).mockResolvedValue([]);
+
+      await expect(service.getLatestEventId(query)).resolves.toBeNull();
+    });
+  });
+
+  describe('close', () => {
+    it('should end open streams and quit the pub/sub connection', async () => {
+      const onEnd = vi.fn();
+      await service.subscribe(query, { onEvent: vi.fn(), onEnd });
+
+      await service.close();
+
+      expect(onEnd).toHaveBeenCalledTimes(1);
+      expect(subscriber.quit).toHaveBeenCalled();
+    });
+  });
+});
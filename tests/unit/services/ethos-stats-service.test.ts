@@ -1,13 +1,45 @@
 import axios from 'axios';
-import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
+import { CircuitOpenError } from '../../../src/clients/circuit-breaker.js';
+import { ethosApiClient } from '../../../src/clients/ethos-api-client.js';
 import { logger } from '../../../src/config/logger.js';
+import { statsCacheRequestsTotal } from '../../../src/config/metrics.js';
+import {
+  UpstreamError,
+  UpstreamValidationError,
+} from '../../../src/errors/app-errors.js';
 import { redisRepository } from '../../../src/repositories/redis-repository.js';
+import { ethosStatsEventsService } from '../../../src/services/ethos-stats-events-service.js';
 import { EthosStatsService } from '../../../src/services/ethos-stats-service.js';
-import { mockEthosStats } from '../../helpers/fixtures.js';
+import { webhookService } from '../../../src/services/webhook-service.js';
+import { encodeCursor } from '../../../src/utils/cursor.js';
+import { computeContentHash } from '../../../src/utils/etag.js';
+import {
+  mockCacheEnvelope,
+  mockCacheHitResult,
+  mockEthosStats,
+  mockEthosStatsAlt,
+} from '../../helpers/fixtures.js';
 
 // Mock dependencies
 vi.mock('axios');
+vi.mock('../../../src/clients/ethos-api-client.js', () => ({
+  ethosApiClient: {
+    get: vi.fn(),
+    getStatus: vi.fn(),
+  },
+}));
+vi.mock('../../../src/services/ethos-stats-events-service.js', () => ({
+  ethosStatsEventsService: {
+    publish: vi.fn(),
+  },
+}));
+vi.mock('../../../src/services/webhook-service.js', () => ({
+  webhookService: {
+    notifyStatsChanged: vi.fn(),
+  },
+}));
 vi.mock('../../../src/config/logger.js', () => ({
   logger: {
     info: vi.fn(),
@@ -19,16 +51,36 @@ vi.mock('../../../src/config/logger.js', () => ({
 vi.mock('../../../src/repositories/redis-repository.js', () => ({
   redisRepository: {
     get: vi.fn(),
+    getWithTtl: vi.fn(),
     set: vi.fn(),
+    setIfFenced: vi.fn(),
+    addToSortedSet: vi.fn(),
+    rangeByScore: vi.fn(),
+    acquireLock: vi.fn().mockResolvedValue(true),
+    releaseLock: vi.fn().mockResolvedValue(true),
   },
 }));
 
+// Matches the cache envelope written for a freshly fetched payload
+const envelopeOf = (data: unknown) =>
+  expect.objectContaining({
+    version: 1,
+    fetchedAt: expect.any(String),
+    source: expect.objectContaining({ status: 200 }),
+    contentHash: computeContentHash(data),
+    data,
+  });
+
+// Payload of an activity other than the default one
+const vouchStats = { ...mockEthosStats, type: 'vouch' as const, activityId: 5 };
+
 describe('EthosStatsService', () => {
   let service: EthosStatsService;
 
   beforeEach(() => {
     service = new EthosStatsService();
     vi.clearAllMocks();
+    vi.mocked(redisRepository.getWithTtl).mockResolvedValue(null);
   });
 
   describe('fetchStatsFromApi', () => {
@@ -38,12 +90,12 @@ describe('EthosStatsService', () => {
         data: mockEthosStats,
       };
 
-      vi.mocked(axios.get).mockResolvedValue(mockResponse);
+      vi.mocked(ethosApiClient.get).mockResolvedValue(mockResponse);
 
       const result = await service.fetchStatsFromApi();
 
       expect(result).toEqual(mockEthosStats);
-      expect(axios.get).toHaveBeenCalledWith(
+      expect(ethosApiClient.get).toHaveBeenCalledWith(
         'https://api.ethos.network/api/v2/votes/stats?type=attestation&activityId=223'
       );
       expect(logger.info).toHaveBeenCalledWith(
@@ -56,15 +108,94 @@ describe('EthosStatsService', () => {
         {
           url: 'https://api.ethos.network/api/v2/votes/stats?type=attestation&activityId=223',
           status: 200,
+          latencyMs: expect.any(Number),
         },
         'Successfully fetched stats from Ethos API'
       );
     });
 
+    it('should build the upstream URL from the base URL and query', async () => {
+      vi.mocked(ethosApiClient.get).mockResolvedValue({
+        status: 200,
+        data: { ...mockEthosStats, type: 'vouch', activityId: 42 },
+      });
+
+      await service.fetchStatsFromApi({ type: 'vouch', activityId: 42 });
+
+      expect(ethosApiClient.get).toHaveBeenCalledWith(
+        'https://api.ethos.network/api/v2/votes/stats?type=vouch&activityId=42'
+      );
+    });
+
+    it('should reject responses that do not match the stats schema', async () => {
+      vi.mocked(ethosApiClient.get).mockResolvedValue({
+        status: 200,
+        data: { totalVotes: 10 },
+      });
+
+      const fetch = service.fetchStatsFromApi();
+      await expect(fetch).rejects.toBeInstanceOf(UpstreamValidationError);
+      await expect(fetch).rejects.toMatchObject({
+        statusCode: 502,
+        code: 'UPSTREAM_INVALID_RESPONSE',
+        upstreamStatus: 200,
+      });
+    });
+
+    it('should reject HTML error pages returned with a 200 status', async () => {
+      vi.mocked(ethosApiClient.get).mockResolvedValue({
+        status: 200,
+        data: '<html><body>Service Unavailable</body></html>',
+      });
+
+      await expect(service.fetchStatsFromApi()).rejects.toThrow(
+        'Invalid stats payload received from Ethos API'
+      );
+    });
+
+    it('should reject payloads of another activity', async () => {
+      vi.mocked(ethosApiClient.get).mockResolvedValue({
+        status: 200,
+        data: mockEthosStats,
+      });
+
+      const fetch = service.fetchStatsFromApi({ type: 'vouch', activityId: 5 });
+      await expect(fetch).rejects.toBeInstanceOf(UpstreamValidationError);
+      await expect(fetch).rejects.toMatchObject({
+        issues: [
+          expect.objectContaining({ path: ['type'] }),
+          expect.objectContaining({ path: ['activityId'] }),
+        ],
+      });
+    });
+
+    it('should not cache payloads of another activity', async () => {
+      vi.mocked(ethosApiClient.get).mockResolvedValue({
+        status: 200,
+        data: { ...mockEthosStats, activityId: 224 },
+      });
+
+      await expect(service.refreshCache()).rejects.toThrow(
+        'Invalid stats payload received from Ethos API'
+      );
+      expect(redisRepository.set).not.toHaveBeenCalled();
+    });
+
+    it('should strip unknown fields from the payload', async () => {
+      vi.mocked(ethosApiClient.get).mockResolvedValue({
+        status: 200,
+        data: { ...mockEthosStats, debug: true },
+      });
+
+      const result = await service.fetchStatsFromApi();
+
+      expect(result).toEqual(mockEthosStats);
+    });
+
     it('should handle axios network errors', async () => {
       const networkError = new Error('Network Error');
       vi.mocked(axios.isAxiosError).mockReturnValue(true);
-      vi.mocked(axios.get).mockRejectedValue(networkError);
+      vi.mocked(ethosApiClient.get).mockRejectedValue(networkError);
 
       await expect(service.fetchStatsFromApi()).rejects.toThrow(
         'Failed to fetch stats from Ethos API: Network Error'
@@ -88,7 +219,7 @@ describe('EthosStatsService', () => {
         },
       };
       vi.mocked(axios.isAxiosError).mockReturnValue(true);
-      vi.mocked(axios.get).mockRejectedValue(httpError);
+      vi.mocked(ethosApiClient.get).mockRejectedValue(httpError);
 
       await expect(service.fetchStatsFromApi()).rejects.toThrow(
         'Failed to fetch stats from Ethos API: Request failed with status code 500'
@@ -104,10 +235,18 @@ describe('EthosStatsService', () => {
       );
     });
 
+    it('should pass circuit-open errors through unchanged', async () => {
+      const circuitError = new CircuitOpenError('ethos-api');
+      vi.mocked(ethosApiClient.get).mockRejectedValue(circuitError);
+
+      await expect(service.fetchStatsFromApi()).rejects.toBe(circuitError);
+      expect(axios.isAxiosError).not.toHaveBeenCalled();
+    });
+
     it('should handle non-axios errors', async () => {
       const genericError = new Error('Unexpected error');
       vi.mocked(axios.isAxiosError).mockReturnValue(false);
-      vi.mocked(axios.get).mockRejectedValue(genericError);
+      vi.mocked(ethosApiClient.get).mockRejectedValue(genericError);
 
       await expect(service.fetchStatsFromApi()).rejects.toThrow(
         'Unexpected error fetching stats from Ethos API: Unexpected error'
@@ -122,7 +261,7 @@ describe('EthosStatsService', () => {
     it('should handle non-Error objects', async () => {
       const stringError = 'String error';
       vi.mocked(axios.isAxiosError).mockReturnValue(false);
-      vi.mocked(axios.get).mockRejectedValue(stringError);
+      vi.mocked(ethosApiClient.get).mockRejectedValue(stringError);
 
       await expect(service.fetchStatsFromApi()).rejects.toThrow(
         'Unexpected error fetching stats from Ethos API: String error'
@@ -132,20 +271,60 @@ describe('EthosStatsService', () => {
 
   describe('getStats', () => {
     it('should return cached stats when cache hit', async () => {
-      vi.mocked(redisRepository.get).mockResolvedValue(mockEthosStats);
+      vi.mocked(redisRepository.getWithTtl).mockResolvedValue({
+        value: mockEthosStats,
+        ttlMs: 3_600_000,
+      });
 
       const result = await service.getStats();
 
-      expect(result).toEqual(mockEthosStats);
-      expect(redisRepository.get).toHaveBeenCalledWith('ethos:stats');
+      expect(result).toEqual({
+        data: mockEthosStats,
+        cacheStatus: 'HIT',
+        meta: expect.objectContaining({ version: 1 }),
+        ttlSeconds: 3600,
+      });
+      expect(redisRepository.getWithTtl).toHaveBeenCalledWith(
+        'ethos:stats:attestation:223'
+      );
       expect(redisRepository.set).not.toHaveBeenCalled();
-      expect(axios.get).not.toHaveBeenCalled();
+      expect(ethosApiClient.get).not.toHaveBeenCalled();
       expect(logger.info).toHaveBeenCalledWith(
-        { key: 'ethos:stats' },
+        { key: 'ethos:stats:attestation:223' },
         'Cache hit for Ethos stats'
       );
     });
 
+    it('should derive the fetch time from the remaining TTL', async () => {
+      vi.useFakeTimers();
+      try {
+        vi.setSystemTime(new Date('2024-01-15T12:00:00.000Z'));
+        vi.mocked(redisRepository.getWithTtl).mockResolvedValue({
+          value: mockEthosStats,
+          ttlMs: 46_800_000 - 3_600_000, // written one hour ago
+        });
+
+        const result = await service.getStats();
+
+        expect(result.meta.fetchedAt).toBe('2024-01-15T11:00:00.000Z');
+        expect(result.ttlSeconds).toBe(43200);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should omit freshness info for entries without a TTL', async () => {
+      vi.mocked(redisRepository.getWithTtl).mockResolvedValue({
+        value: mockEthosStats,
+        ttlMs: null,
+      });
+
+      const result = await service.getStats();
+
+      expect(result.data).toEqual(mockEthosStats);
+      expect(result.ttlSeconds).toBeUndefined();
+    });
+
     it('should fetch from API on cache miss and cache result', async () => {
       const mockResponse = {
         status: 200,
@@ -153,39 +332,109 @@ describe('EthosStatsService', () => {
       };
 
       vi.mocked(redisRepository.get).mockResolvedValue(null);
-      vi.mocked(axios.get).mockResolvedValue(mockResponse);
+      vi.mocked(ethosApiClient.get).mockResolvedValue(mockResponse);
       vi.mocked(redisRepository.set).mockResolvedValue(undefined);
 
       const result = await service.getStats();
 
-      expect(result).toEqual(mockEthosStats);
-      expect(redisRepository.get).toHaveBeenCalledWith('ethos:stats');
-      expect(axios.get).toHaveBeenCalled();
+      expect(result).toEqual({
+        data: mockEthosStats,
+        cacheStatus: 'MISS',
+        meta: expect.objectContaining({ version: 1 }),
+        ttlSeconds: 46800,
+      });
+      expect(redisRepository.getWithTtl).toHaveBeenCalledWith(
+        'ethos:stats:attestation:223'
+      );
+      expect(ethosApiClient.get).toHaveBeenCalled();
       expect(redisRepository.set).toHaveBeenCalledWith(
-        'ethos:stats',
-        mockEthosStats,
-        43200
+        'ethos:stats:attestation:223',
+        envelopeOf(mockEthosStats),
+        46800
       );
       expect(logger.info).toHaveBeenCalledWith(
-        { key: 'ethos:stats' },
+        { key: 'ethos:stats:attestation:223' },
         'Cache miss for Ethos stats, fetching from API'
       );
       expect(logger.info).toHaveBeenCalledWith(
-        { key: 'ethos:stats', ttl: 43200 },
+        { key: 'ethos:stats:attestation:223', ttl: 46800 },
         'Cached Ethos stats with TTL'
       );
     });
 
+    it('should cache stats under a per-activity key', async () => {
+      vi.mocked(redisRepository.get).mockResolvedValue(null);
+      vi.mocked(ethosApiClient.get).mockResolvedValue({
+        status: 200,
+        data: { ...mockEthosStats, type: 'review', activityId: 7 },
+      });
+      vi.mocked(redisRepository.set).mockResolvedValue(undefined);
+
+      await service.getStats({ type: 'review', activityId: 7 });
+
+      expect(redisRepository.getWithTtl).toHaveBeenCalledWith(
+        'ethos:stats:review:7'
+      );
+      expect(redisRepository.set).toHaveBeenCalledWith(
+        'ethos:stats:review:7',
+        envelopeOf({ ...mockEthosStats, type: 'review', activityId: 7 }),
+        46800
+      );
+    });
+
+    it('should count lookups by activity and cache status', async () => {
+      statsCacheRequestsTotal.reset();
+      vi.mocked(redisRepository.getWithTtl).mockResolvedValueOnce({
+        value: mockEthosStats,
+        ttlMs: 3_600_000,
+      });
+      await service.getStats();
+      vi.mocked(redisRepository.getWithTtl).mockRejectedValueOnce(
+        new Error('Redis connection failed')
+      );
+      await expect(service.getStats()).rejects.toThrow();
+
+      const { values } = await statsCacheRequestsTotal.get();
+      expect(values).toEqual(
+        expect.arrayContaining([
+          {
+            labels: { stats_key: 'attestation:223', cache_status: 'HIT' },
+            value: 1,
+          },
+          {
+            labels: { stats_key: 'attestation:223', cache_status: 'ERROR' },
+            value: 1,
+          },
+        ])
+      );
+    });
+
+    it('should count activities other than the refreshed one together', async () => {
+      statsCacheRequestsTotal.reset();
+      vi.mocked(redisRepository.getWithTtl).mockResolvedValue({
+        value: mockEthosStats,
+        ttlMs: 3_600_000,
+      });
+
+      await service.getStats({ type: 'vouch', activityId: 5 });
+      await service.getStats({ type: 'attestation', activityId: 9999 });
+
+      const { values } = await statsCacheRequestsTotal.get();
+      expect(values).toEqual([
+        { labels: { stats_key: 'other', cache_status: 'HIT' }, value: 2 },
+      ]);
+    });
+
     it('should handle Redis errors gracefully', async () => {
       const redisError = new Error('Redis connection failed');
-      vi.mocked(redisRepository.get).mockRejectedValue(redisError);
+      vi.mocked(redisRepository.getWithTtl).mockRejectedValue(redisError);
 
       await expect(service.getStats()).rejects.toThrow(
         'Failed to get Ethos stats: Redis connection failed'
       );
 
       expect(logger.error).toHaveBeenCalledWith(
-        { err: redisError, key: 'ethos:stats' },
+        { err: redisError, key: 'ethos:stats:attestation:223' },
         'Failed to get Ethos stats: Redis connection failed'
       );
     });
@@ -196,27 +445,40 @@ describe('EthosStatsService', () => {
         data: mockEthosStats,
       };
 
-      vi.mocked(axios.get).mockResolvedValue(mockResponse);
+      vi.mocked(ethosApiClient.get).mockResolvedValue(mockResponse);
       vi.mocked(redisRepository.set).mockResolvedValue(undefined);
 
       await service.refreshCache();
 
-      expect(axios.get).toHaveBeenCalled();
+      expect(ethosApiClient.get).toHaveBeenCalled();
       expect(redisRepository.set).toHaveBeenCalledWith(
-        'ethos:stats',
-        mockEthosStats,
-        43200
+        'ethos:stats:attestation:223',
+        envelopeOf(mockEthosStats),
+        46800
       );
       expect(logger.info).toHaveBeenCalledWith(
-        { key: 'ethos:stats' },
+        { key: 'ethos:stats:attestation:223' },
         'Refreshing Ethos stats cache'
       );
       expect(logger.info).toHaveBeenCalledWith(
-        { key: 'ethos:stats', ttl: 43200 },
+        { key: 'ethos:stats:attestation:223', ttl: 46800 },
         'Successfully refreshed Ethos stats cache'
       );
     });
 
+    it('should not cache invalid upstream payloads on cache miss', async () => {
+      vi.mocked(redisRepository.get).mockResolvedValue(null);
+      vi.mocked(ethosApiClient.get).mockResolvedValue({
+        status: 200,
+        data: {},
+      });
+
+      await expect(service.getStats()).rejects.toBeInstanceOf(
+        UpstreamValidationError
+      );
+      expect(redisRepository.set).not.toHaveBeenCalled();
+    });
+
     it('should handle Redis set failures after successful API fetch', async () => {
       const mockResponse = {
         status: 200,
@@ -225,7 +487,7 @@ describe('EthosStatsService', () => {
       const redisSetError = new Error('Redis set failed');
 
       vi.mocked(redisRepository.get).mockResolvedValue(null);
-      vi.mocked(axios.get).mockResolvedValue(mockResponse);
+      vi.mocked(ethosApiClient.get).mockResolvedValue(mockResponse);
       vi.mocked(redisRepository.set).mockRejectedValue(redisSetError);
 
       await expect(service.getStats()).rejects.toThrow(
@@ -234,6 +496,101 @@ describe('EthosStatsService', () => {
     });
   });
 
+  describe('getCachedStats', () => {
+    it('should return the primary copy without calling the API', async () => {
+      vi.mocked(redisRepository.getWithTtl).mockResolvedValue({
+        value: mockCacheEnvelope,
+        ttlMs: 3_600_000,
+      });
+
+      const result = await service.getCachedStats();
+
+      expect(result).toEqual({ ...mockCacheHitResult, ttlSeconds: 3600 });
+      expect(ethosApiClient.get).not.toHaveBeenCalled();
+    });
+
+    it('should return null when nothing is cached', async () => {
+      await expect(service.getCachedStats()).resolves.toBeNull();
+      expect(ethosApiClient.get).not.toHaveBeenCalled();
+    });
+
+    it('should fall back to the legacy key for the default activity', async () => {
+      vi.mocked(redisRepository.getWithTtl).mockImplementation(async (key) =>
+        key === 'ethos:stats'
+          ? { value: mockCacheEnvelope, ttlMs: 3_600_000 }
+          : null
+      );
+
+      const result = await service.getCachedStats();
+
+      expect(result).toEqual({ ...mockCacheHitResult, ttlSeconds: 3600 });
+      expect(redisRepository.getWithTtl).toHaveBeenCalledWith(
+        'ethos:stats:attestation:223'
+      );
+    });
+
+    it('should prefer the per-activity key over the legacy key', async () => {
+      vi.mocked(redisRepository.getWithTtl).mockResolvedValue({
+        value: mockCacheEnvelope,
+        ttlMs: 3_600_000,
+      });
+
+      await service.getCachedStats();
+
+      expect(redisRepository.getWithTtl).toHaveBeenCalledTimes(1);
+      expect(redisRepository.getWithTtl).toHaveBeenCalledWith(
+        'ethos:stats:attestation:223'
+      );
+    });
+
+    it('should not read the legacy key for other activities', async () => {
+      await expect(
+        service.getCachedStats({ type: 'review', activityId: 7 })
+      ).resolves.toBeNull();
+
+      expect(redisRepository.getWithTtl).not.toHaveBeenCalledWith(
+        'ethos:stats'
+      );
+    });
+
+    it('should wrap Redis errors', async () => {
+      vi.mocked(redisRepository.getWithTtl).mockRejectedValue(
+        new Error('Redis down')
+      );
+
+      await expect(service.getCachedStats()).rejects.toThrow(
+        'Failed to read cached Ethos stats: Redis down'
+      );
+    });
+  });
+
+  describe('getLastKnownGoodStats', () => {
+    it('should return the last known good copy', async () => {
+      vi.mocked(redisRepository.get).mockResolvedValue(mockCacheEnvelope);
+
+      await expect(service.getLastKnownGoodStats()).resolves.toEqual(
+        mockCacheEnvelope
+      );
+      expect(redisRepository.get).toHaveBeenCalledWith(
+        'ethos:stats:lkg:attestation:223'
+      );
+    });
+
+    it('should return null when the stats were never stored', async () => {
+      vi.mocked(redisRepository.get).mockResolvedValue(null);
+
+      await expect(service.getLastKnownGoodStats()).resolves.toBeNull();
+    });
+
+    it('should wrap Redis errors', async () => {
+      vi.mocked(redisRepository.get).mockRejectedValue(new Error('Redis down'));
+
+      await expect(service.getLastKnownGoodStats()).rejects.toThrow(
+        'Failed to read last known good stats: Redis down'
+      );
+    });
+  });
+
   describe('refreshCache', () => {
     it('should successfully fetch and cache fresh data', async () => {
       const mockResponse = {
@@ -241,23 +598,23 @@ describe('EthosStatsService', () => {
         data: mockEthosStats,
       };
 
-      vi.mocked(axios.get).mockResolvedValue(mockResponse);
+      vi.mocked(ethosApiClient.get).mockResolvedValue(mockResponse);
       vi.mocked(redisRepository.set).mockResolvedValue(undefined);
 
       await service.refreshCache();
 
-      expect(axios.get).toHaveBeenCalled();
+      expect(ethosApiClient.get).toHaveBeenCalled();
       expect(redisRepository.set).toHaveBeenCalledWith(
-        'ethos:stats',
-        mockEthosStats,
-        43200
+        'ethos:stats:attestation:223',
+        envelopeOf(mockEthosStats),
+        46800
       );
       expect(logger.info).toHaveBeenCalledWith(
-        { key: 'ethos:stats' },
+        { key: 'ethos:stats:attestation:223' },
         'Refreshing Ethos stats cache'
       );
       expect(logger.info).toHaveBeenCalledWith(
-        { key: 'ethos:stats', ttl: 43200 },
+        { key: 'ethos:stats:attestation:223', ttl: 46800 },
         'Successfully refreshed Ethos stats cache'
       );
     });
@@ -265,10 +622,12 @@ describe('EthosStatsService', () => {
     it('should handle API fetch failures', async () => {
       const apiError = new Error('API request failed');
       vi.mocked(axios.isAxiosError).mockReturnValue(true);
-      vi.mocked(axios.get).mockRejectedValue(apiError);
+      vi.mocked(ethosApiClient.get).mockRejectedValue(apiError);
 
-      await expect(service.refreshCache()).rejects.toThrow(
-        'Failed to refresh Ethos stats cache: Failed to fetch stats from Ethos API: API request failed'
+      const refresh = service.refreshCache();
+      await expect(refresh).rejects.toBeInstanceOf(UpstreamError);
+      await expect(refresh).rejects.toThrow(
+        'Failed to fetch stats from Ethos API: API request failed'
       );
 
       expect(logger.error).toHaveBeenCalled();
@@ -279,6 +638,18 @@ describe('EthosStatsService', () => {
       expect(refreshErrorCall).toBeDefined();
     });
 
+    it('should not overwrite the cache with invalid upstream payloads', async () => {
+      vi.mocked(ethosApiClient.get).mockResolvedValue({
+        status: 200,
+        data: { ...mockEthosStats, totalVotes: 'many' },
+      });
+
+      await expect(service.refreshCache()).rejects.toBeInstanceOf(
+        UpstreamValidationError
+      );
+      expect(redisRepository.set).not.toHaveBeenCalled();
+    });
+
     it('should handle Redis set failures', async () => {
       const mockResponse = {
         status: 200,
@@ -286,12 +657,700 @@ describe('EthosStatsService', () => {
       };
       const redisSetError = new Error('Redis set failed');
 
-      vi.mocked(axios.get).mockResolvedValue(mockResponse);
+      vi.mocked(ethosApiClient.get).mockResolvedValue(mockResponse);
       vi.mocked(redisRepository.set).mockRejectedValue(redisSetError);
 
       await expect(service.refreshCache()).rejects.toThrow(
         'Failed to refresh Ethos stats cache: Redis set failed'
       );
     });
+
+    describe('with a fence', () => {
+      const fence = { key: 'ethos:scheduler:leader:fencing', token: 3 };
+      const query = { type: 'attestation' as const, activityId: 223 };
+
+      beforeEach(() => {
+        vi.mocked(ethosApiClient.get).mockResolvedValue({
+          status: 200,
+          data: mockEthosStats,
+        });
+        vi.mocked(redisRepository.get).mockResolvedValue(null);
+      });
+
+      it('should write the cache only while the fence is current', async () => {
+        vi.mocked(redisRepository.setIfFenced).mockResolvedValue(true);
+
+        await service.refreshCache(query, fence);
+
+        expect(redisRepository.setIfFenced).toHaveBeenCalledWith(
+          'ethos:stats:attestation:223',
+          envelopeOf(mockEthosStats),
+          'ethos:scheduler:leader:fencing',
+          3,
+          46800
+        );
+        expect(redisRepository.setIfFenced).toHaveBeenCalledWith(
+          'ethos:stats:lkg:attestation:223',
+          envelopeOf(mockEthosStats),
+          'ethos:scheduler:leader:fencing',
+          3,
+          undefined
+        );
+        expect(redisRepository.set).not.toHaveBeenCalled();
+      });
+
+      it('should fail without side effects once another replica took over', async () => {
+        vi.mocked(redisRepository.setIfFenced).mockResolvedValue(false);
+
+        await expect(service.refreshCache(query, fence)).rejects.toThrow(
+          'Failed to refresh Ethos stats cache: Fencing token 3 is stale, another replica took over'
+        );
+        expect(redisRepository.setIfFenced).toHaveBeenCalledTimes(1);
+        expect(redisRepository.addToSortedSet).not.toHaveBeenCalled();
+        expect(ethosStatsEventsService.publish).not.toHaveBeenCalled();
+      });
+    });
+  });
+
+  describe('cache envelope', () => {
+    it('should record where and how the payload was fetched', async () => {
+      vi.mocked(ethosApiClient.get).mockResolvedValue({
+        status: 200,
+        headers: { etag: '"upstream-v1"' },
+        data: mockEthosStats,
+      });
+      vi.mocked(redisRepository.set).mockResolvedValue(undefined);
+
+      const result = await service.getStats();
+
+      expect(result.meta).toEqual({
+        version: 1,
+        fetchedAt: expect.any(String),
+        source: {
+          url: 'https://api.ethos.network/api/v2/votes/stats?type=attestation&activityId=223',
+          status: 200,
+          latencyMs: expect.any(Number),
+          etag: '"upstream-v1"',
+        },
+        contentHash: computeContentHash(mockEthosStats),
+      });
+      expect(redisRepository.set).toHaveBeenCalledWith(
+        'ethos:stats:attestation:223',
+        { ...result.meta, data: mockEthosStats },
+        46800
+      );
+    });
+
+    it('should return stored envelopes unchanged', async () => {
+      const envelope = {
+        version: 1,
+        fetchedAt: '2024-01-15T10:30:00.000Z',
+        source: null,
+        contentHash: 'stored-hash',
+        data: mockEthosStats,
+      };
+      vi.mocked(redisRepository.getWithTtl).mockResolvedValue({
+        value: envelope,
+        ttlMs: 3_600_000,
+      });
+
+      const result = await service.getStats();
+
+      expect(result.meta.fetchedAt).toBe('2024-01-15T10:30:00.000Z');
+      expect(result.meta.contentHash).toBe('stored-hash');
+    });
+
+    it('should upgrade raw entries written before envelopes existed', async () => {
+      vi.mocked(redisRepository.getWithTtl).mockResolvedValue({
+        value: mockEthosStats,
+        ttlMs: 3_600_000,
+      });
+
+      const result = await service.getStats();
+
+      expect(result.data).toEqual(mockEthosStats);
+      expect(result.meta).toEqual({
+        version: 1,
+        fetchedAt: expect.any(String),
+        source: null,
+        contentHash: computeContentHash(mockEthosStats),
+      });
+    });
+  });
+
+  describe('legacy cache entries', () => {
+    // Entries under the legacy key are raw payloads written with a 12h TTL
+    const legacyEntry = (ttlMs: number) => async (key: string) =>
+      key === 'ethos:stats' ? { value: mockEthosStats, ttlMs } : null;
+
+    it('should upgrade raw entries under the legacy key', async () => {
+      vi.mocked(redisRepository.getWithTtl).mockImplementation(
+        legacyEntry(3_600_000)
+      );
+
+      const result = await service.getStats();
+
+      expect(result.cacheStatus).toBe('HIT');
+      expect(result.data).toEqual(mockEthosStats);
+      expect(result.meta).toEqual({
+        version: 1,
+        fetchedAt: expect.any(String),
+        source: null,
+        contentHash: computeContentHash(mockEthosStats),
+      });
+      expect(ethosApiClient.get).not.toHaveBeenCalled();
+    });
+
+    it('should date them by the TTL they were written with', async () => {
+      vi.useFakeTimers();
+      try {
+        vi.setSystemTime(new Date('2024-01-15T12:00:00.000Z'));
+        vi.mocked(redisRepository.getWithTtl).mockImplementation(
+          legacyEntry(43_200_000 - 3_600_000) // written one hour ago
+        );
+
+        const result = await service.getStats();
+
+        expect(result.meta.fetchedAt).toBe('2024-01-15T11:00:00.000Z');
+        expect(result.ttlSeconds).toBe(39600);
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+  });
+
+  describe('change detection', () => {
+    beforeEach(() => {
+      vi.mocked(ethosApiClient.get).mockResolvedValue({
+        status: 200,
+        data: mockEthosStats,
+      });
+      vi.mocked(redisRepository.set).mockResolvedValue(undefined);
+    });
+
+    it('should publish the stored envelope when the payload changed', async () => {
+      vi.mocked(ethosApiClient.get).mockResolvedValue({
+        status: 200,
+        data: vouchStats,
+      });
+      vi.mocked(redisRepository.get).mockResolvedValue({
+        fetchedAt: '2024-01-15T10:30:00.000Z',
+        data: mockEthosStatsAlt,
+      });
+
+      const result = await service.refreshCache({
+        type: 'vouch',
+        activityId: 5,
+      });
+
+      expect(result.changed).toBe(true);
+      expect(result.meta.contentHash).toBe(computeContentHash(vouchStats));
+      expect(redisRepository.get).toHaveBeenCalledWith(
+        'ethos:stats:lkg:vouch:5'
+      );
+      expect(ethosStatsEventsService.publish).toHaveBeenCalledWith(
+        { type: 'vouch', activityId: 5 },
+        envelopeOf(vouchStats),
+        604800
+      );
+      expect(webhookService.notifyStatsChanged).toHaveBeenCalledWith(
+        { type: 'vouch', activityId: 5 },
+        expect.objectContaining({
+          fetchedAt: '2024-01-15T10:30:00.000Z',
+          data: mockEthosStatsAlt,
+        }),
+        envelopeOf(vouchStats)
+      );
+    });
+
+    it('should publish the first payload stored for an activity', async () => {
+      vi.mocked(redisRepository.get).mockResolvedValue(null);
+
+      const result = await service.refreshCache();
+
+      expect(result.changed).toBe(true);
+      expect(ethosStatsEventsService.publish).toHaveBeenCalledTimes(1);
+      expect(webhookService.notifyStatsChanged).not.toHaveBeenCalled();
+    });
+
+    it('should not publish when the payload is unchanged', async () => {
+      vi.mocked(redisRepository.get).mockResolvedValue({
+        version: 1,
+        fetchedAt: '2024-01-15T10:30:00.000Z',
+        source: null,
+        contentHash: computeContentHash(mockEthosStats),
+        data: mockEthosStats,
+      });
+
+      const result = await service.refreshCache();
+
+      expect(result.changed).toBe(false);
+      expect(ethosStatsEventsService.publish).not.toHaveBeenCalled();
+      expect(webhookService.notifyStatsChanged).not.toHaveBeenCalled();
+      // The cache is still rewritten with a fresh TTL
+      expect(redisRepository.set).toHaveBeenCalledWith(
+        'ethos:stats:attestation:223',
+        envelopeOf(mockEthosStats),
+        46800
+      );
+    });
+
+    it('should publish changes stored on a cache miss', async () => {
+      vi.mocked(redisRepository.get).mockResolvedValue(null);
+
+      await service.getStats();
+
+      expect(ethosStatsEventsService.publish).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('retention', () => {
+    beforeEach(() => {
+      vi.mocked(redisRepository.get).mockResolvedValue(null);
+      vi.mocked(redisRepository.set).mockResolvedValue(undefined);
+    });
+
+    it('should keep the default activity without expiry', async () => {
+      vi.mocked(ethosApiClient.get).mockResolvedValue({
+        status: 200,
+        data: mockEthosStats,
+      });
+
+      await service.refreshCache();
+
+      expect(redisRepository.set).toHaveBeenCalledWith(
+        'ethos:stats:lkg:attestation:223',
+        envelopeOf(mockEthosStats),
+        undefined
+      );
+    });
+
+    it('should expire what is kept for other activities', async () => {
+      vi.mocked(ethosApiClient.get).mockResolvedValue({
+        status: 200,
+        data: vouchStats,
+      });
+
+      await service.refreshCache({ type: 'vouch', activityId: 5 });
+
+      expect(redisRepository.set).toHaveBeenCalledWith(
+        'ethos:stats:lkg:vouch:5',
+        envelopeOf(vouchStats),
+        604800
+      );
+      expect(redisRepository.addToSortedSet).toHaveBeenCalledWith(
+        'ethos:stats:history:vouch:5',
+        expect.any(Number),
+        expect.objectContaining({ data: vouchStats }),
+        2000,
+        604800
+      );
+      expect(ethosStatsEventsService.publish).toHaveBeenCalledWith(
+        { type: 'vouch', activityId: 5 },
+        envelopeOf(vouchStats),
+        604800
+      );
+    });
+  });
+
+  describe('history snapshots', () => {
+    it('should append a timestamped snapshot after refreshing the cache', async () => {
+      vi.mocked(ethosApiClient.get).mockResolvedValue({
+        status: 200,
+        data: mockEthosStats,
+      });
+      vi.mocked(redisRepository.set).mockResolvedValue(undefined);
+      vi.mocked(redisRepository.addToSortedSet).mockResolvedValue(undefined);
+
+      await service.refreshCache();
+
+      expect(redisRepository.addToSortedSet).toHaveBeenCalledWith(
+        'ethos:stats:history:attestation:223',
+        expect.any(Number),
+        { fetchedAt: expect.any(String), data: mockEthosStats },
+        2000,
+        undefined
+      );
+    });
+
+    it('should append a snapshot after fetching on cache miss', async () => {
+      vi.mocked(redisRepository.get).mockResolvedValue(null);
+      vi.mocked(ethosApiClient.get).mockResolvedValue({
+        status: 200,
+        data: vouchStats,
+      });
+
+      await service.getStats({ type: 'vouch', activityId: 5 });
+
+      expect(redisRepository.addToSortedSet).toHaveBeenCalledWith(
+        'ethos:stats:history:vouch:5',
+        expect.any(Number),
+        expect.objectContaining({ data: vouchStats }),
+        2000,
+        604800
+      );
+    });
+
+    it('should not fail the refresh when the snapshot cannot be stored', async () => {
+      vi.mocked(ethosApiClient.get).mockResolvedValue({
+        status: 200,
+        data: mockEthosStats,
+      });
+      vi.mocked(redisRepository.addToSortedSet).mockRejectedValue(
+        new Error('Redis down')
+      );
+
+      await expect(service.refreshCache()).resolves.toMatchObject({
+        changed: true,
+      });
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ key: 'ethos:stats:history:attestation:223' }),
+        'Failed to record Ethos stats snapshot'
+      );
+    });
+  });
+
+  describe('getHistory', () => {
+    const baseQuery = {
+      type: 'attestation' as const,
+      activityId: 223,
+      limit: 2,
+    };
+    const snapshot = (fetchedAt: string, data = mockEthosStats) => ({
+      score: Date.parse(fetchedAt),
+      value: { fetchedAt, data },
+    });
+
+    it('should return snapshots and a cursor when more pages exist', async () => {
+      const entries = [
+        snapshot('2024-01-15T00:00:00.000Z'),
+        snapshot('2024-01-15T12:00:00.000Z', mockEthosStatsAlt),
+        snapshot('2024-01-16T00:00:00.000Z'),
+      ];
+      vi.mocked(redisRepository.rangeByScore).mockResolvedValue(entries);
+
+      const page = await service.getHistory(baseQuery);
+
+      expect(redisRepository.rangeByScore).toHaveBeenCalledWith(
+        'ethos:stats:history:attestation:223',
+        '-inf',
+        '+inf',
+        3
+      );
+      expect(page.items).toEqual([entries[0]!.value, entries[1]!.value]);
+      expect(page.nextCursor).toBe(encodeCursor(entries[1]!.score));
+    });
+
+    it('should return a null cursor on the last page', async () => {
+      vi.mocked(redisRepository.rangeByScore).mockResolvedValue([
+        snapshot('2024-01-15T00:00:00.000Z'),
+      ]);
+
+      const page = await service.getHistory(baseQuery);
+
+      expect(page.items).toHaveLength(1);
+      expect(page.nextCursor).toBeNull();
+    });
+
+    it('should apply from/to bounds', async () => {
+      vi.mocked(redisRepository.rangeByScore).mockResolvedValue([]);
+      const from = new Date('2024-01-01T00:00:00.000Z');
+      const to = new Date('2024-02-01T00:00:00.000Z');
+
+      await service.getHistory({ ...baseQuery, from, to });
+
+      expect(redisRepository.rangeByScore).toHaveBeenCalledWith(
+        'ethos:stats:history:attestation:223',
+        from.getTime(),
+        to.getTime(),
+        3
+      );
+    });
+
+    it('should continue exclusively after the cursor', async () => {
+      vi.mocked(redisRepository.rangeByScore).mockResolvedValue([]);
+
+      await service.getHistory({ ...baseQuery, cursor: 1705276800000 });
+
+      expect(redisRepository.rangeByScore).toHaveBeenCalledWith(
+        'ethos:stats:history:attestation:223',
+        '(1705276800000',
+        '+inf',
+        3
+      );
+    });
+
+    it('should wrap Redis errors', async () => {
+      vi.mocked(redisRepository.rangeByScore).mockRejectedValue(
+        new Error('Redis down')
+      );
+
+      await expect(service.getHistory(baseQuery)).rejects.toThrow(
+        'Failed to get Ethos stats history: Redis down'
+      );
+    });
+  });
+
+  describe('stale-while-revalidate', () => {
+    const staleSnapshot = {
+      fetchedAt: '2024-01-15T10:30:00.000Z',
+      data: mockEthosStatsAlt,
+    };
+
+    beforeEach(() => {
+      vi.useFakeTimers();
+      vi.mocked(redisRepository.get).mockImplementation(async (key) =>
+        key === 'ethos:stats:lkg:attestation:223' ? staleSnapshot : null
+      );
+      vi.mocked(axios.isAxiosError).mockReturnValue(true);
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should keep a last known good copy without TTL', async () => {
+      vi.mocked(redisRepository.get).mockResolvedValue(null);
+      vi.mocked(ethosApiClient.get).mockResolvedValue({
+        status: 200,
+        data: mockEthosStats,
+      });
+
+      await service.getStats();
+
+      expect(redisRepository.set).toHaveBeenCalledWith(
+        'ethos:stats:lkg:attestation:223',
+        envelopeOf(mockEthosStats),
+        undefined
+      );
+    });
+
+    it('should serve the last known good copy when the API fails', async () => {
+      vi.mocked(ethosApiClient.get).mockRejectedValue(
+        new Error('Network Error')
+      );
+
+      const result = await service.getStats();
+
+      expect(result).toEqual({
+        data: mockEthosStatsAlt,
+        cacheStatus: 'STALE',
+        meta: {
+          version: 1,
+          fetchedAt: staleSnapshot.fetchedAt,
+          source: null,
+          contentHash: computeContentHash(mockEthosStatsAlt),
+        },
+      });
+      expect(redisRepository.set).not.toHaveBeenCalled();
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({
+          key: 'ethos:stats:attestation:223',
+          fetchedAt: staleSnapshot.fetchedAt,
+        }),
+        'Ethos API unavailable, serving stale stats'
+      );
+    });
+
+    it('should revalidate in the background after serving stale data', async () => {
+      vi.mocked(ethosApiClient.get)
+        .mockRejectedValueOnce(new Error('Network Error'))
+        .mockResolvedValueOnce({ status: 200, data: mockEthosStats });
+
+      await service.getStats();
+      expect(ethosApiClient.get).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(30_000);
+
+      expect(ethosApiClient.get).toHaveBeenCalledTimes(2);
+      expect(redisRepository.set).toHaveBeenCalledWith(
+        'ethos:stats:attestation:223',
+        envelopeOf(mockEthosStats),
+        46800
+      );
+    });
+
+    it('should not wait on the API while a revalidation is pending', async () => {
+      vi.mocked(ethosApiClient.get).mockRejectedValue(
+        new Error('Network Error')
+      );
+
+      await service.getStats();
+      const result = await service.getStats();
+
+      expect(result.cacheStatus).toBe('STALE');
+      expect(ethosApiClient.get).toHaveBeenCalledTimes(1);
+    });
+
+    it('should throw when the API fails and no stale copy exists', async () => {
+      vi.mocked(redisRepository.get).mockResolvedValue(null);
+      vi.mocked(ethosApiClient.get).mockRejectedValue(
+        new Error('Network Error')
+      );
+
+      await expect(service.getStats()).rejects.toBeInstanceOf(UpstreamError);
+    });
+
+    it('should not fall back to stale data for non-upstream errors', async () => {
+      vi.mocked(ethosApiClient.get).mockResolvedValue({
+        status: 200,
+        data: mockEthosStats,
+      });
+      vi.mocked(redisRepository.set).mockRejectedValue(
+        new Error('Redis set failed')
+      );
+
+      await expect(service.getStats()).rejects.toThrow(
+        'Failed to get Ethos stats: Redis set failed'
+      );
+    });
+  });
+
+  describe('cache-miss coalescing', () => {
+    beforeEach(() => {
+      vi.mocked(redisRepository.get).mockResolvedValue(null);
+      vi.mocked(redisRepository.set).mockResolvedValue(undefined);
+      vi.mocked(redisRepository.acquireLock).mockResolvedValue(true);
+    });
+
+    it('should make a single upstream call for concurrent misses', async () => {
+      let resolveFetch: (value: unknown) => void = () => {};
+      vi.mocked(ethosApiClient.get).mockReturnValue(
+        new Promise((resolve) => {
+          resolveFetch = resolve;
+        })
+      );
+
+      const pending = Promise.all([
+        service.getStats(),
+        service.getStats(),
+        service.getStats(),
+      ]);
+      await vi.waitFor(() => expect(ethosApiClient.get).toHaveBeenCalled());
+      resolveFetch({ status: 200, data: mockEthosStats });
+      const results = await pending;
+
+      expect(ethosApiClient.get).toHaveBeenCalledTimes(1);
+      expect(results[1]).toBe(results[0]);
+      expect(results[2]).toBe(results[0]);
+    });
+
+    it('should reject every waiter with the same error', async () => {
+      vi.mocked(axios.isAxiosError).mockReturnValue(true);
+      vi.mocked(ethosApiClient.get).mockRejectedValue(
+        new Error('Network Error')
+      );
+
+      const results = await Promise.allSettled([
+        service.getStats(),
+        service.getStats(),
+      ]);
+
+      expect(ethosApiClient.get).toHaveBeenCalledTimes(1);
+      const [first, second] = results as PromiseRejectedResult[];
+      expect(first!.reason).toBeInstanceOf(UpstreamError);
+      expect(second!.reason).toBe(first!.reason);
+    });
+
+    it('should fetch under a per-activity lock and release it', async () => {
+      vi.mocked(ethosApiClient.get).mockResolvedValue({
+        status: 200,
+        data: vouchStats,
+      });
+
+      await service.getStats({ type: 'vouch', activityId: 5 });
+
+      const [lockKey, token, ttlMs] = vi.mocked(redisRepository.acquireLock)
+        .mock.calls[0]!;
+      expect(lockKey).toBe('ethos:stats:lock:vouch:5');
+      expect(ttlMs).toBe(30000);
+      expect(redisRepository.releaseLock).toHaveBeenCalledWith(lockKey, token);
+    });
+
+    it('should wait for another instance to fill the cache', async () => {
+      vi.useFakeTimers();
+      try {
+        vi.mocked(redisRepository.acquireLock).mockResolvedValue(false);
+        vi.mocked(redisRepository.getWithTtl)
+          .mockResolvedValueOnce(null) // initial miss
+          .mockResolvedValueOnce(null) // first poll
+          .mockResolvedValueOnce({ value: mockEthosStats, ttlMs: 46_800_000 }); // filled by the lock holder
+
+        const pending = service.getStats();
+        await vi.advanceTimersByTimeAsync(200);
+        const result = await pending;
+
+        expect(result).toMatchObject({
+          data: mockEthosStats,
+          cacheStatus: 'HIT',
+          ttlSeconds: 46800,
+        });
+        expect(ethosApiClient.get).not.toHaveBeenCalled();
+        expect(redisRepository.releaseLock).not.toHaveBeenCalled();
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should fetch anyway when the lock is held for too long', async () => {
+      vi.useFakeTimers();
+      try {
+        vi.mocked(redisRepository.acquireLock).mockResolvedValue(false);
+        vi.mocked(ethosApiClient.get).mockResolvedValue({
+          status: 200,
+          data: mockEthosStats,
+        });
+
+        const pending = service.getStats();
+        await vi.advanceTimersByTimeAsync(15100);
+        const result = await pending;
+
+        expect(result.cacheStatus).toBe('MISS');
+        expect(ethosApiClient.get).toHaveBeenCalledTimes(1);
+        expect(logger.warn).toHaveBeenCalledWith(
+          expect.objectContaining({
+            lockKey: 'ethos:stats:lock:attestation:223',
+          }),
+          'Timed out waiting for Ethos stats fetch lock, fetching anyway'
+        );
+      } finally {
+        vi.useRealTimers();
+      }
+    });
+
+    it('should proceed without the lock when Redis cannot grant it', async () => {
+      vi.mocked(redisRepository.acquireLock).mockRejectedValue(
+        new Error('Redis down')
+      );
+      vi.mocked(ethosApiClient.get).mockResolvedValue({
+        status: 200,
+        data: mockEthosStats,
+      });
+
+      const result = await service.getStats();
+
+      expect(result.cacheStatus).toBe('MISS');
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({
+          lockKey: 'ethos:stats:lock:attestation:223',
+        }),
+        'Failed to acquire fetch lock'
+      );
+    });
+  });
+
+  describe('getUpstreamStatus', () => {
+    it('should return the Ethos API client breaker status', () => {
+      const status = {
+        name: 'ethos-api',
+        state: 'OPEN' as const,
+        consecutiveFailures: 5,
+        openedAt: '2024-01-15T10:30:00.000Z',
+        nextAttemptAt: '2024-01-15T10:30:30.000Z',
+      };
+      vi.mocked(ethosApiClient.getStatus).mockReturnValue(status);
+
+      expect(service.getUpstreamStatus()).toEqual(status);
+    });
   });
 });
@@ -0,0 +1,203 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { redisClient } from '../../../src/config/redis.js';
+import { redisRepository } from '../../../src/repositories/redis-repository.js';
+import { ethosStatsService } from '../../../src/services/ethos-stats-service.js';
+import { HealthService } from '../../../src/services/health-service.js';
+import {
+  mockCacheEnvelope,
+  mockCacheHitResult,
+  mockCacheMetadata,
+} from '../../helpers/fixtures.js';
+
+vi.mock('../../../src/config/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../../../src/config/env.js', () => ({
+  env: {
+    READINESS_REDIS_MAX_LATENCY_MS: 500,
+    READINESS_MAX_STATS_AGE_SECONDS: 3600,
+  },
+}));
+
+vi.mock('../../../src/config/redis.js', () => ({
+  redisClient: { status: 'ready' },
+}));
+
+vi.mock('../../../src/repositories/redis-repository.js', () => ({
+  redisRepository: {
+    ping: vi.fn(),
+  },
+}));
+
+vi.mock('../../../src/services/ethos-stats-service.js', () => ({
+  ethosStatsService: {
+    getCachedStats: vi.fn(),
+    getLastKnownGoodStats: vi.fn(),
+  },
+}));
+
+const setRedisStatus = (status: string) => {
+  (redisClient as { status: string }).status = status;
+};
+
+describe('HealthService', () => {
+  let service: HealthService;
+
+  beforeEach(() => {
+    vi.useRealTimers();
+    vi.clearAllMocks();
+    service = new HealthService();
+    setRedisStatus('ready');
+    vi.mocked(redisRepository.ping).mockResolvedValue(2.4);
+    vi.setSystemTime(new Date('2024-01-15T11:00:00.000Z'));
+    // Fetched 30 minutes ago
+    vi.mocked(ethosStatsService.getCachedStats).mockResolvedValue(
+      mockCacheHitResult
+    );
+  });
+
+  describe('checkReadiness', () => {
+    it('should be ready when every check passes', async () => {
+      const report = await service.checkReadiness();
+
+      expect(report).toEqual({
+        status: 'ready',
+        checks: {
+          redis: { status: 'pass', connection: 'ready' },
+          redisLatency: { status: 'pass', latencyMs: 2, maxLatencyMs: 500 },
+          statsAge: {
+            status: 'pass',
+            fetchedAt: mockCacheMetadata.fetchedAt,
+            ageSeconds: 1800,
+            maxAgeSeconds: 3600,
+          },
+        },
+      });
+    });
+
+    it('should not be ready while Redis is disconnected', async () => {
+      setRedisStatus('reconnecting');
+
+      const report = await service.checkReadiness();
+
+      expect(report.status).toBe('not_ready');
+      expect(report.checks?.redis).toEqual({
+        status: 'fail',
+        connection: 'reconnecting',
+      });
+      expect(report.checks?.redisLatency.error).toBe('Redis is not connected');
+      // Commands would queue until Redis is back
+      expect(redisRepository.ping).not.toHaveBeenCalled();
+      expect(ethosStatsService.getCachedStats).not.toHaveBeenCalled();
+    });
+
+    it('should fail when Redis answers too slowly', async () => {
+      vi.mocked(redisRepository.ping).mockResolvedValue(750);
+
+      const report = await service.checkReadiness();
+
+      expect(report.status).toBe('not_ready');
+      expect(report.checks?.redisLatency).toEqual({
+        status: 'fail',
+        latencyMs: 750,
+        maxLatencyMs: 500,
+      });
+    });
+
+    it('should not wait longer than the latency threshold', async () => {
+      vi.useFakeTimers({ now: new Date('2024-01-15T11:00:00.000Z') });
+      vi.mocked(redisRepository.ping).mockReturnValue(new Promise(() => {}));
+
+      const pending = service.checkReadiness();
+      await vi.advanceTimersByTimeAsync(500);
+      const report = await pending;
+
+      expect(report.checks?.redisLatency).toEqual({
+        status: 'fail',
+        latencyMs: null,
+        maxLatencyMs: 500,
+        error: 'Redis did not answer within 500ms',
+      });
+    });
+
+    it('should be degraded when the cached stats are too old', async () => {
+      vi.mocked(ethosStatsService.getCachedStats).mockResolvedValue({
+        ...mockCacheHitResult,
+        meta: { ...mockCacheMetadata, fetchedAt: '2024-01-15T09:00:00.000Z' },
+      });
+
+      const report = await service.checkReadiness();
+
+      expect(report.status).toBe('degraded');
+      expect(report.checks?.statsAge).toEqual({
+        status: 'warn',
+        fetchedAt: '2024-01-15T09:00:00.000Z',
+        ageSeconds: 7200,
+        maxAgeSeconds: 3600,
+        warning: 'Cached stats are older than the maximum age',
+      });
+    });
+
+    it('should be degraded when only the last known good copy is left', async () => {
+      vi.mocked(ethosStatsService.getCachedStats).mockResolvedValue(null);
+      vi.mocked(ethosStatsService.getLastKnownGoodStats).mockResolvedValue({
+        ...mockCacheEnvelope,
+        fetchedAt: '2024-01-14T11:00:00.000Z',
+      });
+
+      const report = await service.checkReadiness();
+
+      expect(report.status).toBe('degraded');
+      expect(report.checks?.statsAge).toEqual({
+        status: 'warn',
+        fetchedAt: '2024-01-14T11:00:00.000Z',
+        ageSeconds: 86400,
+        maxAgeSeconds: 3600,
+        warning: 'Cached stats expired, only the last known good copy is left',
+      });
+    });
+
+    it('should fail when the stats were never stored', async () => {
+      vi.mocked(ethosStatsService.getCachedStats).mockResolvedValue(null);
+      vi.mocked(ethosStatsService.getLastKnownGoodStats).mockResolvedValue(
+        null
+      );
+
+      const report = await service.checkReadiness();
+
+      expect(report.status).toBe('not_ready');
+      expect(report.checks?.statsAge).toMatchObject({
+        status: 'fail',
+        error: 'No cached stats',
+      });
+    });
+
+    it('should report errors instead of throwing', async () => {
+      vi.mocked(redisRepository.ping).mockRejectedValue(
+        new Error('Redis ping failed: connection reset')
+      );
+
+      const report = await service.checkReadiness();
+
+      expect(report.checks?.redisLatency.error).toBe(
+        'Redis ping failed: connection reset'
+      );
+    });
+
+    it('should report shutting down without running the checks', async () => {
+      service.markShuttingDown();
+
+      const report = await service.checkReadiness();
+
+      expect(report).toEqual({ status: 'shutting_down', checks: null });
+      expect(redisRepository.ping).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,115 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { logger } from '../../../src/config/logger.js';
+import { NotFoundError } from '../../../src/errors/app-errors.js';
+import { JobRegistry } from '../../../src/services/job-registry.js';
+import { JobScheduler } from '../../../src/services/job-scheduler.js';
+import type { JobDefinition } from '../../../src/types/scheduler.js';
+import { parseSchedule } from '../../../src/utils/schedule.js';
+
+vi.mock('../../../src/config/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../../../src/config/env.js', () => ({
+  env: {
+    SCHEDULER_HISTORY_SIZE: 100,
+    SCHEDULER_LEASE_TTL_MS: 30000,
+  },
+}));
+
+vi.mock('../../../src/repositories/redis-repository.js', () => ({
+  redisRepository: {},
+}));
+
+const createJob = (name: string): JobDefinition => ({
+  name,
+  schedule: parseSchedule('1h', 'UTC'),
+  timeoutMs: 1000,
+  retry: { maxAttempts: 1, baseDelayMs: 0, maxDelayMs: 0 },
+  concurrency: 'instance',
+  handler: vi.fn().mockResolvedValue({ changed: false }),
+});
+
+describe('JobRegistry', () => {
+  let registry: JobRegistry;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.restoreAllMocks();
+    registry = new JobRegistry();
+  });
+
+  describe('register', () => {
+    it('should return a scheduler for the job', () => {
+      const scheduler = registry.register(createJob('first'));
+
+      expect(scheduler).toBeInstanceOf(JobScheduler);
+      expect(scheduler.name).toBe('first');
+      expect(registry.get('first')).toBe(scheduler);
+    });
+
+    it('should reject duplicate job names', () => {
+      registry.register(createJob('first'));
+
+      expect(() => registry.register(createJob('first'))).toThrow(
+        'Job first is already registered'
+      );
+    });
+  });
+
+  describe('get', () => {
+    it('should throw NotFoundError for unknown jobs', () => {
+      expect(() => registry.get('missing')).toThrow(NotFoundError);
+    });
+  });
+
+  describe('list', () => {
+    it('should list jobs in registration order', () => {
+      registry.register(createJob('first'));
+      registry.register(createJob('second'));
+
+      expect(registry.list().map((scheduler) => scheduler.name)).toEqual([
+        'first',
+        'second',
+      ]);
+    });
+  });
+
+  describe('startAll', () => {
+    it('should start every job', async () => {
+      const first = registry.register(createJob('first'));
+      const second = registry.register(createJob('second'));
+      const startFirst = vi.spyOn(first, 'start').mockResolvedValue();
+      const startSecond = vi.spyOn(second, 'start').mockResolvedValue();
+
+      await registry.startAll();
+
+      expect(startFirst).toHaveBeenCalledTimes(1);
+      expect(startSecond).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('stopAll', () => {
+    it('should stop every job even if one fails to stop', async () => {
+      const first = registry.register(createJob('first'));
+      const second = registry.register(createJob('second'));
+      const error = new Error('Redis down');
+      vi.spyOn(first, 'stop').mockRejectedValue(error);
+      const stopSecond = vi.spyOn(second, 'stop').mockResolvedValue();
+
+      await registry.stopAll();
+
+      expect(stopSecond).toHaveBeenCalledTimes(1);
+      expect(logger.error).toHaveBeenCalledWith(
+        { err: error, job: 'first' },
+        'Failed to stop job'
+      );
+    });
+  });
+});
@@ -0,0 +1,1310 @@
+import { SpanStatusCode } from '@opentelemetry/api';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { logger } from '../../../src/config/logger.js';
+import { jobRunsTotal } from '../../../src/config/metrics.js';
+import { redisRepository } from '../../../src/repositories/redis-repository.js';
+import { JobScheduler } from '../../../src/services/job-scheduler.js';
+import type {
+  JobContext,
+  JobDefinition,
+  JobHandlerResult,
+} from '../../../src/types/scheduler.js';
+import { parseSchedule } from '../../../src/utils/schedule.js';
+import { tracer } from '../../../src/utils/tracing.js';
+import { createTestSpanExporter } from '../../helpers/tracing.js';
+
+// Mock dependencies
+vi.mock('../../../src/config/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+vi.mock('../../../src/config/env.js', () => ({
+  env: {
+    SCHEDULER_HISTORY_SIZE: 100,
+    SCHEDULER_LEASE_TTL_MS: 30000,
+  },
+}));
+
+vi.mock('../../../src/repositories/redis-repository.js', () => ({
+  redisRepository: {
+    get: vi.fn(),
+    getWithTtl: vi.fn(),
+    set: vi.fn(),
+    pushToList: vi.fn(),
+    rangeList: vi.fn(),
+    acquireLock: vi.fn(),
+    acquireFencedLock: vi.fn(),
+    extendLock: vi.fn(),
+    releaseLock: vi.fn(),
+  },
+}));
+
+const spanExporter = createTestSpanExporter();
+
+const handler = vi.fn<(context: JobContext) => Promise<JobHandlerResult>>();
+const getLastOutputAt = vi.fn<() => Promise<Date | null>>();
+const refreshResult = { changed: true };
+
+const createJob = (overrides: Partial<JobDefinition> = {}): JobDefinition => ({
+  name: 'test-job',
+  schedule: parseSchedule('12h', 'UTC'),
+  timeoutMs: 60000,
+  retry: { maxAttempts: 1, baseDelayMs: 1000, maxDelayMs: 4000 },
+  concurrency: 'leader',
+  startup: { mode: 'auto', jitterMs: 0 },
+  handler,
+  getLastOutputAt,
+  ...overrides,
+});
+
+describe('JobScheduler', () => {
+  let scheduler: JobScheduler;
+  // The lease, the run lock and the next run are read back from this store,
+  // as other replicas would read them from Redis
+  const store = new Map<string, unknown>();
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    scheduler = new JobScheduler(createJob());
+    vi.clearAllMocks();
+    spanExporter.reset();
+    store.clear();
+    vi.mocked(redisRepository.get).mockImplementation(
+      async (key) => store.get(key) ?? null
+    );
+    vi.mocked(redisRepository.set).mockImplementation(async (key, value) => {
+      store.set(key, value);
+    });
+    vi.mocked(redisRepository.getWithTtl).mockImplementation(async (key) =>
+      store.has(key) ? { value: store.get(key), ttlMs: 30000 } : null
+    );
+    vi.mocked(redisRepository.acquireFencedLock).mockImplementation(
+      async (key, fencingKey, holder) => {
+        store.set(key, JSON.parse(holder));
+        store.set(fencingKey, 1);
+        return 1;
+      }
+    );
+    vi.mocked(redisRepository.acquireLock).mockImplementation(
+      async (key, holder) => {
+        store.set(key, JSON.parse(holder));
+        return true;
+      }
+    );
+    vi.mocked(redisRepository.releaseLock).mockImplementation(async (key) =>
+      store.delete(key)
+    );
+    vi.mocked(redisRepository.extendLock).mockResolvedValue(true);
+    // No output yet: run on start
+    getLastOutputAt.mockResolvedValue(null);
+  });
+
+  afterEach(() => {
+    scheduler.stop();
+    vi.useRealTimers();
+  });
+
+  describe('start', () => {
+    it('should start scheduler and trigger first run', async () => {
+      handler.mockResolvedValue(refreshResult);
+
+      await scheduler.start();
+
+      // First run should be immediate
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(logger.info).toHaveBeenCalledWith(
+        {
+          job: 'test-job',
+          schedule: '12h',
+          timezone: 'UTC',
+          concurrency: 'leader',
+        },
+        'Starting job'
+      );
+      expect(logger.info).toHaveBeenCalledWith(
+        { job: 'test-job', trigger: 'scheduled' },
+        'Starting job run'
+      );
+    });
+
+    it('should prevent multiple starts (idempotent)', async () => {
+      handler.mockResolvedValue(refreshResult);
+
+      await scheduler.start();
+      await scheduler.start();
+
+      // Should only log warning on second start
+      expect(logger.warn).toHaveBeenCalledWith(
+        { job: 'test-job' },
+        'Job is already started'
+      );
+      // refreshCache should still only be called once (from first start)
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should log appropriate messages on start', async () => {
+      handler.mockResolvedValue(refreshResult);
+
+      await scheduler.start();
+
+      expect(logger.info).toHaveBeenCalledWith(
+        {
+          job: 'test-job',
+          schedule: '12h',
+          timezone: 'UTC',
+          concurrency: 'leader',
+        },
+        'Starting job'
+      );
+    });
+  });
+
+  describe('run (via start)', () => {
+    it('should execute refresh cycle at scheduled intervals', async () => {
+      handler.mockResolvedValue(refreshResult);
+
+      await scheduler.start();
+
+      // First run is immediate
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      // Advance time by 12 hours
+      await vi.advanceTimersByTimeAsync(12 * 60 * 60 * 1000);
+
+      // Should have been called again
+      expect(handler).toHaveBeenCalledTimes(2);
+
+      // Advance another 12 hours
+      await vi.advanceTimersByTimeAsync(12 * 60 * 60 * 1000);
+
+      // Should have been called a third time
+      expect(handler).toHaveBeenCalledTimes(3);
+    });
+
+    it('should handle errors in refresh cycle gracefully', async () => {
+      const error = new Error('Refresh failed');
+      handler.mockRejectedValueOnce(error).mockResolvedValueOnce(refreshResult);
+
+      await scheduler.start();
+
+      // First run fails
+      expect(handler).toHaveBeenCalledTimes(1);
+      await vi.waitFor(() =>
+        expect(logger.error).toHaveBeenCalledWith(
+          { err: error, job: 'test-job', attempts: 1 },
+          'Job run failed'
+        )
+      );
+
+      // Advance time - should continue scheduling despite error
+      await vi.advanceTimersByTimeAsync(12 * 60 * 60 * 1000);
+
+      // Should have been called again
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(logger.info).toHaveBeenCalledWith(
+        { job: 'test-job', attempts: 1 },
+        'Job run succeeded'
+      );
+    });
+
+    it('should continue scheduling after successful run', async () => {
+      handler.mockResolvedValue(refreshResult);
+
+      await scheduler.start();
+
+      // First run
+      expect(handler).toHaveBeenCalledTimes(1);
+      await vi.waitFor(() =>
+        expect(logger.info).toHaveBeenCalledWith(
+          { job: 'test-job', attempts: 1 },
+          'Job run succeeded'
+        )
+      );
+
+      // Advance time (the leader lease is renewed meanwhile)
+      await vi.advanceTimersByTimeAsync(12 * 60 * 60 * 1000);
+
+      // Second run
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should stop scheduling when isStopping is true', async () => {
+      handler.mockResolvedValue(refreshResult);
+
+      await scheduler.start();
+
+      // First run
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      // Stop the scheduler
+      scheduler.stop();
+
+      // Advance time - should not trigger another run
+      await vi.advanceTimersByTimeAsync(12 * 60 * 60 * 1000);
+
+      // Should still only be called once
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should prevent overlapping executions', async () => {
+      // Create a promise that resolves after a delay
+      let resolveRefresh: (result: typeof refreshResult) => void;
+      const refreshPromise = new Promise<typeof refreshResult>((resolve) => {
+        resolveRefresh = resolve;
+      });
+
+      handler.mockReturnValue(refreshPromise);
+
+      await scheduler.start();
+
+      // First run is in progress
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      // Advance time while first run is still in progress
+      await vi.advanceTimersByTimeAsync(12 * 60 * 60 * 1000);
+
+      // Should not have been called again yet
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      // Resolve the first run
+      resolveRefresh!(refreshResult);
+      await refreshPromise;
+
+      // Now advance time - should schedule next run
+      await vi.advanceTimersByTimeAsync(12 * 60 * 60 * 1000);
+
+      // Should have been called again
+      expect(handler).toHaveBeenCalledTimes(2);
+    }, 10000);
+  });
+
+  describe('stop', () => {
+    it('should clear timeout and stop scheduler', async () => {
+      handler.mockResolvedValue(refreshResult);
+
+      await scheduler.start();
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      scheduler.stop();
+
+      expect(logger.info).toHaveBeenCalledWith(
+        { job: 'test-job' },
+        'Stopped job'
+      );
+
+      // Advance time - should not trigger another run
+      await vi.advanceTimersByTimeAsync(12 * 60 * 60 * 1000);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should prevent new cycles from starting', async () => {
+      handler.mockResolvedValue(refreshResult);
+
+      await scheduler.start();
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      // Wait for the first run to complete
+      await vi.runAllTicks();
+
+      scheduler.stop();
+
+      // Try to start again after stop
+      await scheduler.start();
+
+      // Should start fresh (not be blocked)
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should handle stop when not started', () => {
+      // Should not throw
+      expect(() => scheduler.stop()).not.toThrow();
+      expect(logger.info).toHaveBeenCalledWith(
+        { job: 'test-job' },
+        'Stopped job'
+      );
+    });
+
+    it('should log appropriate messages on stop', async () => {
+      handler.mockResolvedValue(refreshResult);
+
+      await scheduler.start();
+      scheduler.stop();
+
+      expect(logger.info).toHaveBeenCalledWith(
+        { job: 'test-job' },
+        'Stopped job'
+      );
+    });
+  });
+
+  describe('runNow', () => {
+    it('should refresh immediately and report the outcome', async () => {
+      handler.mockResolvedValue(refreshResult);
+
+      const result = await scheduler.runNow();
+
+      expect(result).toEqual({
+        job: 'test-job',
+        trigger: 'manual',
+        instanceId: expect.any(String),
+        // Not started, so not the leader
+        fencingToken: null,
+        outcome: 'success',
+        startedAt: expect.any(String),
+        finishedAt: expect.any(String),
+        durationMs: expect.any(Number),
+        attempts: 1,
+        changed: true,
+      });
+      expect(handler).toHaveBeenCalledWith({
+        attempt: 1,
+        fence: null,
+        signal: expect.any(AbortSignal),
+      });
+    });
+
+    it('should measure the duration of the cycle', async () => {
+      handler.mockImplementation(async () => {
+        vi.advanceTimersByTime(1500);
+        return { changed: false };
+      });
+
+      const result = await scheduler.runNow();
+
+      expect(result.durationMs).toBe(1500);
+      expect(result.changed).toBe(false);
+    });
+
+    it('should report failures without throwing', async () => {
+      handler.mockRejectedValue(new Error('Ethos API down'));
+
+      const result = await scheduler.runNow();
+
+      expect(result).toMatchObject({
+        outcome: 'failure',
+        changed: false,
+        error: 'Ethos API down',
+      });
+    });
+
+    it('should reject a manual run while a cycle is running', async () => {
+      handler.mockReturnValue(new Promise(() => {}));
+
+      await scheduler.start();
+
+      await expect(scheduler.runNow()).rejects.toMatchObject({
+        statusCode: 409,
+        code: 'JOB_IN_PROGRESS',
+      });
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip a scheduled cycle that falls during a manual run', async () => {
+      handler.mockResolvedValue(refreshResult);
+      await scheduler.start();
+      await vi.waitFor(async () =>
+        expect((await scheduler.getStatus(1)).state).toBe('idle')
+      );
+
+      let resolveManual: (result: typeof refreshResult) => void = () => {};
+      handler.mockReturnValueOnce(
+        new Promise((resolve) => {
+          resolveManual = resolve;
+        })
+      );
+      const manual = scheduler.runNow();
+
+      await vi.advanceTimersByTimeAsync(12 * 60 * 60 * 1000);
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(logger.warn).toHaveBeenCalledWith(
+        { job: 'test-job' },
+        'Job is already running, skipping'
+      );
+
+      resolveManual(refreshResult);
+      await manual;
+
+      // The schedule keeps going after the skipped cycle
+      await vi.advanceTimersByTimeAsync(12 * 60 * 60 * 1000);
+      expect(handler).toHaveBeenCalledTimes(3);
+    });
+  });
+
+  describe('run lock', () => {
+    const RUN_LOCK_KEY = 'ethos:jobs:test-job:run-lock';
+    const runLockCalls = (method: 'extendLock' | 'releaseLock') =>
+      vi
+        .mocked(redisRepository[method])
+        .mock.calls.filter(([key]) => key === RUN_LOCK_KEY);
+
+    it('should hold the run lock for the whole run', async () => {
+      vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+      handler.mockResolvedValue(refreshResult);
+
+      const result = await scheduler.runNow();
+
+      const [key, holder, ttlMs] = vi.mocked(redisRepository.acquireLock).mock
+        .calls[0]!;
+      expect(key).toBe(RUN_LOCK_KEY);
+      expect(JSON.parse(holder)).toEqual({
+        trigger: 'manual',
+        instanceId: result.instanceId,
+        startedAt: '2024-01-15T10:00:00.000Z',
+      });
+      expect(ttlMs).toBe(30000);
+      await vi.waitFor(() =>
+        expect(redisRepository.releaseLock).toHaveBeenCalledWith(
+          RUN_LOCK_KEY,
+          holder
+        )
+      );
+    });
+
+    it('should reject a manual run while another instance runs the job', async () => {
+      vi.mocked(redisRepository.acquireLock).mockResolvedValue(false);
+
+      await expect(scheduler.runNow()).rejects.toMatchObject({
+        statusCode: 409,
+        code: 'JOB_IN_PROGRESS',
+      });
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should skip a scheduled run while another instance runs the job', async () => {
+      vi.mocked(redisRepository.acquireLock).mockResolvedValue(false);
+      handler.mockResolvedValue(refreshResult);
+
+      await scheduler.start();
+
+      await vi.waitFor(() =>
+        expect(logger.warn).toHaveBeenCalledWith(
+          { job: 'test-job' },
+          'Job is already running, skipping'
+        )
+      );
+      expect(handler).not.toHaveBeenCalled();
+
+      // The schedule keeps going after the skipped run
+      vi.mocked(redisRepository.acquireLock).mockResolvedValue(true);
+      await vi.advanceTimersByTimeAsync(12 * 60 * 60 * 1000);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should skip a scheduled run when the run lock cannot be acquired', async () => {
+      vi.mocked(redisRepository.acquireLock).mockRejectedValue(
+        new Error('Redis down')
+      );
+
+      await scheduler.start();
+
+      await vi.waitFor(() =>
+        expect(logger.error).toHaveBeenCalledWith(
+          expect.objectContaining({ job: 'test-job' }),
+          'Failed to acquire job run lock, skipping'
+        )
+      );
+      expect(handler).not.toHaveBeenCalled();
+    });
+
+    it('should renew the run lock while the run lasts', async () => {
+      handler.mockReturnValue(new Promise(() => {}));
+
+      void scheduler.runNow();
+      await vi.advanceTimersByTimeAsync(20000);
+
+      expect(runLockCalls('extendLock')).toHaveLength(2);
+      expect(runLockCalls('releaseLock')).toHaveLength(0);
+    });
+
+    it('should keep the run lock until a timed-out handler settles', async () => {
+      let settle: (result: JobHandlerResult) => void = () => {};
+      handler.mockReturnValueOnce(
+        new Promise((resolve) => {
+          settle = resolve;
+        })
+      );
+      const run = scheduler.runNow();
+      await vi.advanceTimersByTimeAsync(60000);
+      expect((await run).outcome).toBe('failure');
+
+      expect(runLockCalls('releaseLock')).toHaveLength(0);
+
+      settle(refreshResult);
+      await vi.waitFor(() =>
+        expect(runLockCalls('releaseLock')).toHaveLength(1)
+      );
+    });
+  });
+
+  describe('schedule', () => {
+    it('should run interval schedules at wall-clock multiples of the interval', async () => {
+      vi.setSystemTime(new Date('2024-01-15T10:20:00.000Z'));
+      handler.mockResolvedValue(refreshResult);
+      scheduler = new JobScheduler(
+        createJob({ schedule: parseSchedule('6h', 'UTC') })
+      );
+
+      await scheduler.start();
+      await vi.advanceTimersByTimeAsync(100 * 60 * 1000 - 1);
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      // 12:00 UTC
+      await vi.advanceTimersByTimeAsync(1);
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect((await scheduler.getStatus(1)).nextRunAt).toBe(
+        '2024-01-15T18:00:00.000Z'
+      );
+    });
+
+    it('should run cron schedules in their timezone across DST changes', async () => {
+      // 2:30 does not exist in New York on 2024-03-10; it runs at 3:30 EDT
+      vi.setSystemTime(new Date('2024-03-09T12:00:00.000Z'));
+      handler.mockResolvedValue(refreshResult);
+      scheduler = new JobScheduler(
+        createJob({ schedule: parseSchedule('30 2 * * *', 'America/New_York') })
+      );
+
+      await scheduler.start();
+      const runs: string[] = [];
+      for (let i = 0; i < 3; i += 1) {
+        await vi.waitFor(async () =>
+          expect((await scheduler.getStatus(1)).state).toBe('idle')
+        );
+        const { nextRunAt } = await scheduler.getStatus(1);
+        runs.push(nextRunAt as string);
+        await vi.advanceTimersByTimeAsync(
+          Date.parse(nextRunAt as string) - Date.now()
+        );
+      }
+
+      expect(runs).toEqual([
+        '2024-03-10T07:30:00.000Z', // 2:30 EST
+        '2024-03-11T06:30:00.000Z', // 2:30 EDT
+        '2024-03-12T06:30:00.000Z',
+      ]);
+      expect(handler).toHaveBeenCalledTimes(4);
+    });
+
+    it('should follow the wall clock when it jumps ahead', async () => {
+      vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+      handler.mockResolvedValue(refreshResult);
+      scheduler = new JobScheduler(createJob());
+      await scheduler.start();
+
+      // e.g. the host resumed from sleep; pending timers have not fired
+      vi.setSystemTime(new Date('2024-01-15T12:30:00.000Z'));
+      await vi.advanceTimersByTimeAsync(60 * 1000);
+
+      expect(handler).toHaveBeenCalledTimes(2);
+    });
+
+    it('should skip the runs missed during a long cycle', async () => {
+      vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+      let resolveRefresh: (result: typeof refreshResult) => void = () => {};
+      handler.mockReturnValueOnce(
+        new Promise((resolve) => {
+          resolveRefresh = resolve;
+        })
+      );
+      scheduler = new JobScheduler(
+        createJob({ schedule: parseSchedule('1h', 'UTC') })
+      );
+      await scheduler.start();
+
+      await vi.advanceTimersByTimeAsync(150 * 60 * 1000);
+      resolveRefresh(refreshResult);
+      await vi.advanceTimersByTimeAsync(0);
+
+      expect((await scheduler.getStatus(1)).nextRunAt).toBe(
+        '2024-01-15T13:00:00.000Z'
+      );
+    });
+
+    it('should reject invalid schedules and timezones', () => {
+      expect(() => parseSchedule('6x', 'UTC')).toThrow('Invalid schedule "6x"');
+      expect(() => parseSchedule('0 0 30 2 *', 'UTC')).toThrow(
+        'Invalid schedule "0 0 30 2 *"'
+      );
+      expect(() => parseSchedule('6h', 'Mars/Olympus_Mons')).toThrow(
+        'Unknown timezone "Mars/Olympus_Mons"'
+      );
+    });
+
+    it('should report the longest gap between runs', () => {
+      expect(parseSchedule('1h30m', 'UTC').maxIntervalMs).toBe(90 * 60 * 1000);
+      // Weekends
+      expect(parseSchedule('0 9 * * 1-5', 'UTC').maxIntervalMs).toBe(
+        72 * 60 * 60 * 1000
+      );
+      // The day clocks go back
+      expect(parseSchedule('0 3 * * *', 'Europe/Berlin').maxIntervalMs).toBe(
+        25 * 60 * 60 * 1000
+      );
+    });
+  });
+
+  describe('startup run', () => {
+    const lastOutputAt = (iso: string) =>
+      getLastOutputAt.mockResolvedValue(new Date(iso));
+
+    beforeEach(() => {
+      vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+      handler.mockResolvedValue(refreshResult);
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should wait for the next run while the output is fresh', async () => {
+      // Produced after the 00:00 run; the next one is due at 12:00
+      lastOutputAt('2024-01-15T08:00:00.000Z');
+
+      await scheduler.start();
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(logger.info).toHaveBeenCalledWith(
+        { job: 'test-job', lastOutputAt: '2024-01-15T08:00:00.000Z' },
+        'Job output is fresh, waiting for the next scheduled run'
+      );
+      expect((await scheduler.getStatus(1)).nextRunAt).toBe(
+        '2024-01-15T12:00:00.000Z'
+      );
+
+      await vi.advanceTimersByTimeAsync(2 * 60 * 60 * 1000);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should run now when a scheduled run was missed', async () => {
+      // The 00:00 run never happened
+      lastOutputAt('2024-01-14T20:00:00.000Z');
+
+      await scheduler.start();
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should run now when the output age cannot be read', async () => {
+      getLastOutputAt.mockRejectedValue(new Error('Redis down'));
+
+      await scheduler.start();
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(logger.warn).toHaveBeenCalledWith(
+        { err: expect.any(Error), job: 'test-job' },
+        'Failed to check job output age'
+      );
+    });
+
+    it('should always run when configured to', async () => {
+      scheduler = new JobScheduler(
+        createJob({ startup: { mode: 'always', jitterMs: 0 } })
+      );
+      lastOutputAt('2024-01-15T08:00:00.000Z');
+
+      await scheduler.start();
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should run on start when the job cannot tell its output age', async () => {
+      scheduler = new JobScheduler(
+        createJob({ getLastOutputAt: undefined, startup: undefined })
+      );
+
+      await scheduler.start();
+
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should delay a startup run by the jitter', async () => {
+      scheduler = new JobScheduler(
+        createJob({ startup: { mode: 'auto', jitterMs: 60000 } })
+      );
+      vi.spyOn(Math, 'random').mockReturnValue(0.5);
+      lastOutputAt('2024-01-14T20:00:00.000Z');
+
+      await scheduler.start();
+      expect(handler).not.toHaveBeenCalled();
+      expect((await scheduler.getStatus(1)).nextRunAt).toBe(
+        '2024-01-15T10:00:30.000Z'
+      );
+
+      await vi.advanceTimersByTimeAsync(30000);
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+
+    it('should run a job without output yet without jitter', async () => {
+      scheduler = new JobScheduler(
+        createJob({ startup: { mode: 'auto', jitterMs: 60000 } })
+      );
+
+      await scheduler.start();
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(logger.info).toHaveBeenCalledWith(
+        { job: 'test-job' },
+        'Job has no output yet, running now'
+      );
+    });
+  });
+
+  describe('timeout', () => {
+    it('should fail an attempt that exceeds the timeout and abort it', async () => {
+      let signal: AbortSignal | undefined;
+      handler.mockImplementation((context) => {
+        signal = context.signal;
+        return new Promise(() => {});
+      });
+
+      const run = scheduler.runNow();
+      await vi.advanceTimersByTimeAsync(60000);
+
+      expect(await run).toMatchObject({
+        outcome: 'failure',
+        error: 'Job test-job timed out after 60000ms',
+      });
+      expect(signal?.aborted).toBe(true);
+    });
+
+    it('should not start another run until the timed-out handler settles', async () => {
+      let settle: (result: JobHandlerResult) => void = () => {};
+      handler.mockReturnValueOnce(
+        new Promise((resolve) => {
+          settle = resolve;
+        })
+      );
+      const run = scheduler.runNow();
+      await vi.advanceTimersByTimeAsync(60000);
+      await run;
+
+      await expect(scheduler.runNow()).rejects.toMatchObject({
+        code: 'JOB_IN_PROGRESS',
+      });
+      expect((await scheduler.getStatus(1)).state).toBe('running');
+
+      settle(refreshResult);
+      await vi.advanceTimersByTimeAsync(0);
+      handler.mockResolvedValue(refreshResult);
+      expect((await scheduler.runNow()).outcome).toBe('success');
+    });
+  });
+
+  describe('retries', () => {
+    beforeEach(() => {
+      scheduler = new JobScheduler(
+        createJob({
+          retry: { maxAttempts: 4, baseDelayMs: 1000, maxDelayMs: 3000 },
+        })
+      );
+    });
+
+    it('should retry failed attempts with exponential backoff', async () => {
+      handler
+        .mockRejectedValueOnce(new Error('Upstream down'))
+        .mockRejectedValueOnce(new Error('Upstream down'))
+        .mockResolvedValue(refreshResult);
+
+      const run = scheduler.runNow();
+      await vi.advanceTimersByTimeAsync(999);
+      expect(handler).toHaveBeenCalledTimes(1);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(handler).toHaveBeenCalledTimes(2);
+      await vi.advanceTimersByTimeAsync(2000);
+
+      expect(await run).toMatchObject({ outcome: 'success', attempts: 3 });
+      expect(handler).toHaveBeenLastCalledWith(
+        expect.objectContaining({ attempt: 3 })
+      );
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ job: 'test-job', attempt: 2, delayMs: 2000 }),
+        'Job attempt failed, retrying'
+      );
+    });
+
+    it('should report the last error once the attempts run out', async () => {
+      handler
+        .mockRejectedValueOnce(new Error('first'))
+        .mockRejectedValueOnce(new Error('second'))
+        .mockRejectedValueOnce(new Error('third'))
+        .mockRejectedValueOnce(new Error('fourth'));
+
+      const run = scheduler.runNow();
+      // 1s, 2s, then capped at 3s
+      await vi.advanceTimersByTimeAsync(6000);
+
+      expect(await run).toMatchObject({
+        outcome: 'failure',
+        attempts: 4,
+        error: 'fourth',
+      });
+    });
+
+    it('should stop retrying once the scheduler stops', async () => {
+      handler.mockRejectedValue(new Error('Upstream down'));
+
+      const run = scheduler.runNow();
+      await vi.advanceTimersByTimeAsync(0);
+      await scheduler.stop();
+      await vi.advanceTimersByTimeAsync(1000);
+
+      expect(await run).toMatchObject({ outcome: 'failure', attempts: 1 });
+      expect(handler).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('instance concurrency', () => {
+    beforeEach(() => {
+      scheduler = new JobScheduler(createJob({ concurrency: 'instance' }));
+      handler.mockResolvedValue(refreshResult);
+    });
+
+    it('should run on every instance without a leader lease', async () => {
+      await scheduler.start();
+      await vi.advanceTimersByTimeAsync(12 * 60 * 60 * 1000);
+
+      expect(handler).toHaveBeenCalledTimes(2);
+      expect(handler).toHaveBeenCalledWith(
+        expect.objectContaining({ fence: null })
+      );
+      expect(redisRepository.acquireFencedLock).not.toHaveBeenCalled();
+      expect(redisRepository.acquireLock).not.toHaveBeenCalled();
+    });
+
+    it('should report no leader', async () => {
+      vi.mocked(redisRepository.rangeList).mockResolvedValue([]);
+      await scheduler.start();
+
+      const status = await scheduler.getStatus(1);
+
+      expect(status.concurrency).toBe('instance');
+      expect(status.leader).toBeNull();
+      expect(redisRepository.getWithTtl).not.toHaveBeenCalled();
+    });
+
+    it('should use the default key prefix', async () => {
+      await scheduler.runNow();
+
+      expect(redisRepository.pushToList).toHaveBeenCalledWith(
+        'ethos:jobs:test-job:runs',
+        expect.objectContaining({ job: 'test-job' }),
+        100
+      );
+    });
+  });
+
+  describe('leader lease', () => {
+    const takeOver = () => {
+      store.set('ethos:jobs:test-job:leader', {
+        instanceId: 'replica-2',
+        acquiredAt: new Date().toISOString(),
+      });
+      vi.mocked(redisRepository.extendLock).mockResolvedValue(false);
+    };
+
+    it('should only run cycles while holding the lease', async () => {
+      vi.mocked(redisRepository.acquireFencedLock).mockResolvedValue(null);
+      handler.mockResolvedValue(refreshResult);
+
+      await scheduler.start();
+      await vi.advanceTimersByTimeAsync(12 * 60 * 60 * 1000);
+
+      expect(handler).not.toHaveBeenCalled();
+      expect(redisRepository.acquireFencedLock).toHaveBeenCalledWith(
+        'ethos:jobs:test-job:leader',
+        'ethos:jobs:test-job:leader:fencing',
+        expect.stringContaining(
+          `"instanceId":"${(await scheduler.getStatus(1)).instanceId}"`
+        ),
+        30000
+      );
+      expect((await scheduler.getStatus(1)).state).toBe('standby');
+    });
+
+    it('should take over once the leader stops renewing', async () => {
+      vi.mocked(redisRepository.acquireFencedLock)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValueOnce(null)
+        .mockResolvedValue(7);
+      handler.mockResolvedValue(refreshResult);
+
+      await scheduler.start();
+      expect(handler).not.toHaveBeenCalled();
+
+      // Attempts every third of the lease TTL
+      await vi.advanceTimersByTimeAsync(20000);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(handler).toHaveBeenCalledWith(
+        expect.objectContaining({
+          fence: { key: 'ethos:jobs:test-job:leader:fencing', token: 7 },
+        })
+      );
+      expect(redisRepository.pushToList).toHaveBeenCalledWith(
+        'ethos:jobs:test-job:runs',
+        expect.objectContaining({ trigger: 'scheduled', fencingToken: 7 }),
+        100
+      );
+    });
+
+    it('should renew the lease with its own token', async () => {
+      handler.mockResolvedValue(refreshResult);
+      await scheduler.start();
+
+      await vi.advanceTimersByTimeAsync(10000);
+
+      const [, , holder] = vi.mocked(redisRepository.acquireFencedLock).mock
+        .calls[0] as [string, string, string, number];
+      expect(redisRepository.extendLock).toHaveBeenCalledWith(
+        'ethos:jobs:test-job:leader',
+        holder,
+        30000
+      );
+    });
+
+    it('should stop scheduling when another instance takes the lease', async () => {
+      handler.mockResolvedValue(refreshResult);
+      await scheduler.start();
+      expect(handler).toHaveBeenCalledTimes(1);
+
+      takeOver();
+      vi.mocked(redisRepository.acquireFencedLock).mockResolvedValue(null);
+      await vi.advanceTimersByTimeAsync(12 * 60 * 60 * 1000);
+
+      expect(handler).toHaveBeenCalledTimes(1);
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ fencingToken: 1 }),
+        'Leader lease taken over by another instance'
+      );
+      const status = await scheduler.getStatus(1);
+      expect(status.state).toBe('standby');
+      expect(status.nextRunAt).toBeNull();
+    });
+
+    it('should give up the lease when it cannot be renewed in time', async () => {
+      handler.mockResolvedValue(refreshResult);
+      await scheduler.start();
+
+      vi.mocked(redisRepository.extendLock).mockRejectedValue(
+        new Error('Redis down')
+      );
+      vi.mocked(redisRepository.acquireFencedLock).mockRejectedValue(
+        new Error('Redis down')
+      );
+      await vi.advanceTimersByTimeAsync(30000);
+
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ key: 'ethos:jobs:test-job:leader' }),
+        'Failed to renew leader lease'
+      );
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({ fencingToken: 1 }),
+        'Leader lease expired before it could be renewed'
+      );
+      expect((await scheduler.getStatus(1)).state).toBe('standby');
+    });
+
+    it('should release the lease on stop', async () => {
+      handler.mockResolvedValue(refreshResult);
+      await scheduler.start();
+
+      await scheduler.stop();
+
+      const [, , holder] = vi.mocked(redisRepository.acquireFencedLock).mock
+        .calls[0] as [string, string, string, number];
+      expect(redisRepository.releaseLock).toHaveBeenCalledWith(
+        'ethos:jobs:test-job:leader',
+        holder
+      );
+    });
+
+    it('should report the current leader', async () => {
+      vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+      vi.mocked(redisRepository.getWithTtl).mockResolvedValue({
+        value: {
+          instanceId: 'replica-2',
+          acquiredAt: '2024-01-15T09:00:00.000Z',
+        },
+        ttlMs: 25000,
+      });
+      vi.mocked(redisRepository.get).mockImplementation(async (key) =>
+        key === 'ethos:jobs:test-job:leader:fencing' ? 12 : null
+      );
+      vi.mocked(redisRepository.rangeList).mockResolvedValue([]);
+
+      const status = await scheduler.getStatus(1);
+
+      expect(status.leader).toEqual({
+        instanceId: 'replica-2',
+        acquiredAt: '2024-01-15T09:00:00.000Z',
+        fencingToken: 12,
+        expiresAt: '2024-01-15T10:00:25.000Z',
+      });
+    });
+  });
+
+  describe('run history', () => {
+    it('should record each run in the capped history', async () => {
+      handler.mockResolvedValue(refreshResult);
+
+      const result = await scheduler.runNow();
+
+      expect(redisRepository.pushToList).toHaveBeenCalledWith(
+        'ethos:jobs:test-job:runs',
+        result,
+        100
+      );
+      await vi.waitFor(() =>
+        expect(redisRepository.set).toHaveBeenCalledWith(
+          'ethos:jobs:test-job:last-success',
+          result
+        )
+      );
+    });
+
+    it('should count runs by outcome', async () => {
+      jobRunsTotal.reset();
+      handler.mockResolvedValueOnce(refreshResult);
+      handler.mockRejectedValueOnce(new Error('Ethos API down'));
+
+      await scheduler.runNow();
+      await scheduler.runNow();
+
+      const { values } = await jobRunsTotal.get();
+      expect(values).toEqual(
+        expect.arrayContaining([
+          {
+            labels: { job: 'test-job', trigger: 'manual', outcome: 'success' },
+            value: 1,
+          },
+          {
+            labels: { job: 'test-job', trigger: 'manual', outcome: 'failure' },
+            value: 1,
+          },
+        ])
+      );
+    });
+
+    it('should keep the last failure apart from the history', async () => {
+      handler.mockRejectedValue(new Error('Ethos API down'));
+
+      const result = await scheduler.runNow();
+
+      await vi.waitFor(() =>
+        expect(redisRepository.set).toHaveBeenCalledWith(
+          'ethos:jobs:test-job:last-failure',
+          result
+        )
+      );
+    });
+
+    it('should not fail the run when the history cannot be written', async () => {
+      handler.mockResolvedValue(refreshResult);
+      vi.mocked(redisRepository.pushToList).mockRejectedValueOnce(
+        new Error('Redis down')
+      );
+
+      const result = await scheduler.runNow();
+
+      expect(result.outcome).toBe('success');
+      await vi.waitFor(() =>
+        expect(logger.warn).toHaveBeenCalledWith(
+          expect.objectContaining({ key: 'ethos:jobs:test-job:runs' }),
+          'Failed to record job run'
+        )
+      );
+    });
+  });
+
+  describe('getStatus', () => {
+    const lastRun = {
+      job: 'test-job',
+      trigger: 'scheduled' as const,
+      outcome: 'success' as const,
+      startedAt: '2024-01-15T10:00:00.000Z',
+      finishedAt: '2024-01-15T10:00:01.000Z',
+      durationMs: 1000,
+      attempts: 1,
+      changed: true,
+    };
+
+    beforeEach(() => {
+      store.set('ethos:jobs:test-job:last-success', lastRun);
+      vi.mocked(redisRepository.rangeList).mockResolvedValue([lastRun]);
+    });
+
+    it('should report a stopped scheduler', async () => {
+      const status = await scheduler.getStatus(20);
+
+      expect(status).toEqual({
+        job: 'test-job',
+        state: 'stopped',
+        concurrency: 'leader',
+        schedule: '12h',
+        timezone: 'UTC',
+        instanceId: expect.any(String),
+        leader: null,
+        nextRunAt: null,
+        currentRun: null,
+        lastSuccess: lastRun,
+        lastFailure: null,
+        history: [lastRun],
+      });
+      expect(redisRepository.rangeList).toHaveBeenCalledWith(
+        'ethos:jobs:test-job:runs',
+        20
+      );
+    });
+
+    it('should report the next run time while idle', async () => {
+      vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+      handler.mockResolvedValue(refreshResult);
+      await scheduler.start();
+      await vi.waitFor(async () =>
+        expect((await scheduler.getStatus(20)).state).toBe('idle')
+      );
+
+      const status = await scheduler.getStatus(20);
+
+      expect(status.nextRunAt).toBe('2024-01-15T12:00:00.000Z');
+      expect(redisRepository.set).toHaveBeenCalledWith(
+        'ethos:jobs:test-job:next-run',
+        { instanceId: status.instanceId, nextRunAt: '2024-01-15T12:00:00.000Z' }
+      );
+    });
+
+    describe('on a standby', () => {
+      beforeEach(async () => {
+        vi.mocked(redisRepository.acquireFencedLock).mockResolvedValue(null);
+        store.set('ethos:jobs:test-job:leader', {
+          instanceId: 'replica-2',
+          acquiredAt: '2024-01-15T09:00:00.000Z',
+        });
+        await scheduler.start();
+      });
+
+      it("should report the leader's next run", async () => {
+        store.set('ethos:jobs:test-job:next-run', {
+          instanceId: 'replica-2',
+          nextRunAt: '2024-01-15T12:00:00.000Z',
+        });
+
+        const status = await scheduler.getStatus(20);
+
+        expect(status.state).toBe('standby');
+        expect(status.nextRunAt).toBe('2024-01-15T12:00:00.000Z');
+      });
+
+      it('should ignore the next run of a former leader', async () => {
+        store.set('ethos:jobs:test-job:next-run', {
+          instanceId: 'replica-3',
+          nextRunAt: '2024-01-15T12:00:00.000Z',
+        });
+
+        const status = await scheduler.getStatus(20);
+
+        expect(status.nextRunAt).toBeNull();
+      });
+
+      it('should report a run in progress on another instance', async () => {
+        const run = {
+          trigger: 'scheduled',
+          instanceId: 'replica-2',
+          startedAt: '2024-01-15T10:00:00.000Z',
+        };
+        store.set('ethos:jobs:test-job:run-lock', run);
+
+        const status = await scheduler.getStatus(20);
+
+        expect(status.state).toBe('running');
+        expect(status.currentRun).toEqual(run);
+      });
+    });
+
+    it('should report the run in progress', async () => {
+      vi.setSystemTime(new Date('2024-01-15T10:00:00.000Z'));
+      handler.mockReturnValue(new Promise(() => {}));
+      await scheduler.start();
+
+      const status = await scheduler.getStatus(20);
+
+      expect(status.state).toBe('running');
+      expect(status.nextRunAt).toBeNull();
+      expect(status.currentRun).toEqual({
+        trigger: 'scheduled',
+        instanceId: status.instanceId,
+        startedAt: '2024-01-15T10:00:00.000Z',
+      });
+    });
+
+    it('should wrap Redis errors', async () => {
+      vi.mocked(redisRepository.rangeList).mockRejectedValue(
+        new Error('Redis down')
+      );
+
+      await expect(scheduler.getStatus(20)).rejects.toThrow(
+        'Failed to get job status: Redis down'
+      );
+    });
+  });
+
+  describe('tracing', () => {
+    it('should trace each scheduled run in its own trace', async () => {
+      handler.mockResolvedValue(refreshResult);
+      await scheduler.start();
+      await vi.waitFor(() => expect(handler).toHaveBeenCalledTimes(1));
+      await vi.advanceTimersByTimeAsync(12 * 60 * 60 * 1000);
+      await vi.waitFor(() =>
+        expect(spanExporter.getFinishedSpans()).toHaveLength(2)
+      );
+
+      const [first, second] = spanExporter.getFinishedSpans();
+      expect(first?.name).toBe('job test-job');
+      expect(first?.attributes).toMatchObject({
+        'job.name': 'test-job',
+        'job.trigger': 'scheduled',
+        'job.attempts': 1,
+      });
+      expect(first?.parentSpanContext).toBeUndefined();
+      expect(second?.parentSpanContext).toBeUndefined();
+      expect(second?.spanContext().traceId).not.toBe(
+        first?.spanContext().traceId
+      );
+    });
+
+    it('should trace manual runs as part of the current trace', async () => {
+      handler.mockResolvedValue(refreshResult);
+
+      const traceId = await tracer.startActiveSpan('request', async (span) => {
+        await scheduler.runNow();
+        span.end();
+        return span.spanContext().traceId;
+      });
+
+      const jobSpan = spanExporter
+        .getFinishedSpans()
+        .find((span) => span.name === 'job test-job');
+      expect(jobSpan?.attributes['job.trigger']).toBe('manual');
+      expect(jobSpan?.spanContext().traceId).toBe(traceId);
+    });
+
+    it('should mark failed runs as errors', async () => {
+      handler.mockRejectedValue(new Error('Upstream down'));
+
+      await scheduler.runNow();
+
+      const [span] = spanExporter.getFinishedSpans();
+      expect(span?.status).toEqual({
+        code: SpanStatusCode.ERROR,
+        message: 'Upstream down',
+      });
+    });
+  });
+});
@@ -0,0 +1,283 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { createServer } from 'http';
+import type { AddressInfo } from 'net';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import {
+  afterAll,
+  beforeAll,
+  beforeEach,
+  describe,
+  expect,
+  it,
+  vi,
+} from 'vitest';
+
+import { logger } from '../../../src/config/logger.js';
+import { JwtService } from '../../../src/services/jwt-service.js';
+import type { JwtServiceOptions } from '../../../src/services/jwt-service.js';
+import {
+  createTestSigningKey,
+  signTestJwt,
+  TEST_JWT_AUDIENCE,
+  TEST_JWT_ISSUER,
+  TEST_JWT_SECRET,
+} from '../../helpers/jwt.js';
+import type { TestSigningKey } from '../../helpers/jwt.js';
+
+vi.mock('../../../src/config/env.js', () => ({
+  env: {},
+}));
+vi.mock('../../../src/config/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+
+const baseOptions: JwtServiceOptions = {
+  hs256Secret: null,
+  jwksFile: null,
+  jwksUrl: null,
+  jwksCacheTtlMs: 600000,
+  issuer: TEST_JWT_ISSUER,
+  audience: TEST_JWT_AUDIENCE,
+  clockToleranceSeconds: 0,
+  rolesClaim: 'roles',
+  permissionsClaim: 'permissions',
+};
+
+describe('JwtService', () => {
+  let rsaKey: TestSigningKey;
+  let ecKey: TestSigningKey;
+  let otherKey: TestSigningKey;
+  let directory: string;
+  let jwksFile: string;
+
+  beforeAll(async () => {
+    rsaKey = await createTestSigningKey('RS256');
+    ecKey = await createTestSigningKey('ES256');
+    // Same key ID as rsaKey, but not published
+    otherKey = await createTestSigningKey('RS256', rsaKey.kid);
+    directory = await mkdtemp(join(tmpdir(), 'jwks-'));
+    jwksFile = join(directory, 'jwks.json');
+    await writeFile(
+      jwksFile,
+      JSON.stringify({ keys: [rsaKey.publicJwk, ecKey.publicJwk] })
+    );
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('with a local JWKS file', () => {
+    let service: JwtService;
+
+    beforeEach(() => {
+      service = new JwtService({ ...baseOptions, jwksFile });
+    });
+
+    it.each(['RS256', 'ES256'] as const)(
+      'should accept %s tokens and map their claims',
+      async (alg) => {
+        const token = await signTestJwt(
+          { roles: ['operator'], permissions: ['admin:read'] },
+          alg === 'RS256' ? rsaKey : ecKey
+        );
+
+        expect(await service.verifyToken(token)).toEqual({
+          id: 'user-1',
+          authMethod: 'jwt',
+          keyId: null,
+          roles: ['operator'],
+          permissions: ['admin:read'],
+          rateLimitTier: 'free',
+        });
+      }
+    );
+
+    it('should split space-separated permission claims', async () => {
+      const token = await signTestJwt(
+        { permissions: 'admin:read stats:refresh' },
+        rsaKey
+      );
+
+      expect((await service.verifyToken(token))?.permissions).toEqual([
+        'admin:read',
+        'stats:refresh',
+      ]);
+    });
+
+    it('should default to no roles or permissions', async () => {
+      const token = await signTestJwt({}, rsaKey);
+
+      expect(await service.verifyToken(token)).toMatchObject({
+        roles: [],
+        permissions: [],
+      });
+    });
+
+    it('should reject tokens signed with an unknown key', async () => {
+      const token = await signTestJwt({}, otherKey);
+
+      expect(await service.verifyToken(token)).toBeNull();
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.objectContaining({
+          code: 'ERR_JWS_SIGNATURE_VERIFICATION_FAILED',
+        }),
+        'Rejected invalid JWT'
+      );
+    });
+
+    it('should reject HS256 tokens when no secret is configured', async () => {
+      expect(await service.verifyToken(await signTestJwt({}))).toBeNull();
+    });
+
+    it('should reject expired tokens', async () => {
+      const token = await signTestJwt(
+        { exp: Math.floor(Date.now() / 1000) - 60 },
+        rsaKey
+      );
+
+      expect(await service.verifyToken(token)).toBeNull();
+    });
+
+    it('should reject tokens that are not valid yet', async () => {
+      const token = await signTestJwt(
+        { nbf: Math.floor(Date.now() / 1000) + 60 },
+        rsaKey
+      );
+
+      expect(await service.verifyToken(token)).toBeNull();
+    });
+
+    it('should allow the configured clock skew', async () => {
+      service = new JwtService({
+        ...baseOptions,
+        jwksFile,
+        clockToleranceSeconds: 120,
+      });
+      const token = await signTestJwt(
+        { exp: Math.floor(Date.now() / 1000) - 60 },
+        rsaKey
+      );
+
+      expect(await service.verifyToken(token)).not.toBeNull();
+    });
+
+    it.each([
+      ['audience', { aud: 'another-api' }],
+      ['issuer', { iss: 'https://other-idp.example.com/' }],
+    ])('should reject tokens for another %s', async (_claim, claims) => {
+      const token = await signTestJwt(claims, rsaKey);
+
+      expect(await service.verifyToken(token)).toBeNull();
+    });
+
+    it('should reject tokens without a subject', async () => {
+      const token = await signTestJwt({ sub: undefined }, rsaKey);
+
+      expect(await service.verifyToken(token)).toBeNull();
+    });
+
+    it('should reject malformed and unsigned tokens', async () => {
+      const [, payload] = (await signTestJwt({}, rsaKey)).split('.');
+      const header = Buffer.from('{"alg":"none"}').toString('base64url');
+
+      expect(await service.verifyToken('not.a.jwt')).toBeNull();
+      expect(await service.verifyToken(`${header}.${payload}.`)).toBeNull();
+    });
+
+    it('should fail when the JWKS file cannot be read', async () => {
+      service = new JwtService({
+        ...baseOptions,
+        jwksFile: join(directory, 'missing.json'),
+      });
+
+      await expect(
+        service.verifyToken(await signTestJwt({}, rsaKey))
+      ).rejects.toThrow('Failed to verify JWT');
+    });
+  });
+
+  describe('with an HS256 secret', () => {
+    it('should accept tokens signed with the secret', async () => {
+      const service = new JwtService({
+        ...baseOptions,
+        hs256Secret: TEST_JWT_SECRET,
+      });
+
+      expect(await service.verifyToken(await signTestJwt({}))).toMatchObject({
+        id: 'user-1',
+      });
+      // RS256 is not enabled without a JWKS
+      expect(
+        await service.verifyToken(await signTestJwt({}, rsaKey))
+      ).toBeNull();
+    });
+  });
+
+  describe('with a JWKS URL', () => {
+    const server = createServer((_req, res) => {
+      fetches += 1;
+      res.setHeader('Content-Type', 'application/json');
+      res.end(JSON.stringify({ keys: [rsaKey.publicJwk] }));
+    });
+    let fetches = 0;
+    let jwksUrl: string;
+
+    beforeAll(async () => {
+      await new Promise<void>((resolve) =>
+        server.listen(0, '127.0.0.1', resolve)
+      );
+      const { port } = server.address() as AddressInfo;
+      jwksUrl = `http://127.0.0.1:${port}/.well-known/jwks.json`;
+    });
+
+    afterAll(async () => {
+      await new Promise((resolve) => server.close(resolve));
+    });
+
+    beforeEach(() => {
+      fetches = 0;
+    });
+
+    it('should fetch the key set once and cache it', async () => {
+      const service = new JwtService({ ...baseOptions, jwksUrl });
+
+      expect(
+        await service.verifyToken(await signTestJwt({}, rsaKey))
+      ).not.toBeNull();
+      expect(
+        await service.verifyToken(await signTestJwt({}, rsaKey))
+      ).not.toBeNull();
+
+      expect(fetches).toBe(1);
+    });
+
+    it('should fail when the key set cannot be fetched', async () => {
+      const service = new JwtService({
+        ...baseOptions,
+        jwksUrl: 'http://127.0.0.1:1/jwks.json',
+      });
+
+      await expect(
+        service.verifyToken(await signTestJwt({}, rsaKey))
+      ).rejects.toThrow('Failed to verify JWT');
+    });
+  });
+
+  it('should reject every token when no key source is configured', async () => {
+    const service = new JwtService(baseOptions);
+
+    expect(service.isEnabled).toBe(false);
+    expect(await service.verifyToken(await signTestJwt({}))).toBeNull();
+  });
+});
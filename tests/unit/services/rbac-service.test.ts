@@ -0,0 +1,204 @@
+import { mkdtemp, rm, writeFile } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+
+import {
+  DEFAULT_RBAC_POLICY,
+  loadRbacPolicy,
+} from '../../../src/config/rbac.js';
+import { RbacService } from '../../../src/services/rbac-service.js';
+import type { AuthenticatedUser } from '../../../src/types/auth.js';
+import type { RbacPolicy } from '../../../src/types/rbac.js';
+
+vi.mock('../../../src/config/env.js', () => ({
+  env: {},
+}));
+
+const policy: RbacPolicy = {
+  roles: {
+    anonymous: ['stats:read'],
+    viewer: ['admin:read', '*:read'],
+    operator: ['stats:*', 'webhooks:*'],
+    admin: ['*'],
+  },
+};
+
+const createUser = (
+  overrides: Partial<AuthenticatedUser> = {}
+): AuthenticatedUser => ({
+  id: 'user-1',
+  authMethod: 'jwt',
+  keyId: null,
+  roles: [],
+  permissions: [],
+  rateLimitTier: 'free',
+  ...overrides,
+});
+
+describe('RbacService', () => {
+  const rbacService = new RbacService(policy);
+
+  describe('getEffectivePermissions', () => {
+    it('should grant anonymous callers the anonymous role', () => {
+      expect(rbacService.getEffectivePermissions(undefined)).toEqual([
+        'stats:read',
+      ]);
+    });
+
+    it('should merge the anonymous role, the roles and direct permissions', () => {
+      const user = createUser({
+        roles: ['operator'],
+        permissions: ['admin:read', 'stats:read'],
+      });
+
+      expect(rbacService.getEffectivePermissions(user)).toEqual([
+        'stats:read',
+        'stats:*',
+        'webhooks:*',
+        'admin:read',
+      ]);
+    });
+
+    it('should ignore roles missing from the policy', () => {
+      const user = createUser({ roles: ['superuser'] });
+
+      expect(rbacService.getEffectivePermissions(user)).toEqual(['stats:read']);
+    });
+  });
+
+  describe('isAllowed', () => {
+    it('should allow anonymous callers what the anonymous role grants', () => {
+      expect(rbacService.isAllowed(undefined, ['stats:read'])).toBe(true);
+      expect(rbacService.isAllowed(undefined, ['admin:read'])).toBe(false);
+    });
+
+    it('should resolve resource wildcards', () => {
+      const user = createUser({ roles: ['operator'] });
+
+      expect(rbacService.isAllowed(user, ['stats:refresh'])).toBe(true);
+      expect(rbacService.isAllowed(user, ['webhooks:write'])).toBe(true);
+      expect(rbacService.isAllowed(user, ['admin:read'])).toBe(false);
+    });
+
+    it('should resolve action wildcards', () => {
+      const user = createUser({ roles: ['viewer'] });
+
+      expect(rbacService.isAllowed(user, ['webhooks:read'])).toBe(true);
+      expect(rbacService.isAllowed(user, ['webhooks:write'])).toBe(false);
+    });
+
+    it('should allow everything for the global wildcard', () => {
+      const user = createUser({ roles: ['admin'] });
+
+      expect(rbacService.isAllowed(user, ['keys:write', 'stats:refresh'])).toBe(
+        true
+      );
+    });
+
+    it('should resolve wildcards in direct permissions', () => {
+      const user = createUser({
+        authMethod: 'api-key',
+        keyId: 'key-1',
+        permissions: ['webhooks:*'],
+      });
+
+      expect(rbacService.isAllowed(user, ['webhooks:write'])).toBe(true);
+    });
+
+    it('should require every permission by default', () => {
+      const user = createUser({ permissions: ['admin:read'] });
+
+      expect(
+        rbacService.isAllowed(user, ['admin:read', 'webhooks:write'])
+      ).toBe(false);
+      expect(rbacService.isAllowed(user, ['admin:read', 'stats:read'])).toBe(
+        true
+      );
+    });
+
+    it('should require one of the permissions when matching any', () => {
+      const user = createUser({ permissions: ['admin:read'] });
+
+      expect(
+        rbacService.isAllowed(user, ['admin:read', 'webhooks:write'], 'any')
+      ).toBe(true);
+      expect(
+        rbacService.isAllowed(user, ['keys:write', 'webhooks:write'], 'any')
+      ).toBe(false);
+    });
+
+    it('should not match permissions with a different number of segments', () => {
+      const user = createUser({ permissions: ['stats:*'] });
+
+      expect(rbacService.isAllowed(user, ['stats'])).toBe(false);
+      expect(rbacService.isAllowed(user, ['stats:history:read'])).toBe(false);
+    });
+  });
+});
+
+describe('loadRbacPolicy', () => {
+  let directory: string;
+
+  beforeAll(async () => {
+    directory = await mkdtemp(join(tmpdir(), 'rbac-'));
+  });
+
+  afterAll(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const writePolicy = async (name: string, content: string) => {
+    const path = join(directory, name);
+    await writeFile(path, content);
+    return path;
+  };
+
+  it('should use the default policy without a file', () => {
+    expect(loadRbacPolicy(undefined)).toBe(DEFAULT_RBAC_POLICY);
+  });
+
+  it('should load a valid policy file', async () => {
+    const path = await writePolicy('valid.json', JSON.stringify(policy));
+
+    expect(loadRbacPolicy(path)).toEqual(policy);
+  });
+
+  it('should reject permissions that are not patterns', async () => {
+    const path = await writePolicy(
+      'invalid-permission.json',
+      JSON.stringify({ roles: { viewer: ['stats.read'] } })
+    );
+
+    expect(() => loadRbacPolicy(path)).toThrow(
+      `Invalid RBAC policy in ${path}`
+    );
+  });
+
+  it('should reject unknown top-level keys', async () => {
+    const path = await writePolicy(
+      'unknown-key.json',
+      JSON.stringify({ roles: {}, users: {} })
+    );
+
+    expect(() => loadRbacPolicy(path)).toThrow(
+      `Invalid RBAC policy in ${path}`
+    );
+  });
+
+  it('should reject files that are not JSON', async () => {
+    const path = await writePolicy('broken.json', '{ roles:');
+
+    expect(() => loadRbacPolicy(path)).toThrow(
+      `Invalid RBAC policy in ${path}`
+    );
+  });
+
+  it('should reject missing files', () => {
+    const path = join(directory, 'missing.json');
+
+    expect(() => loadRbacPolicy(path)).toThrow(
+      `Invalid RBAC policy in ${path}`
+    );
+  });
+});
@@ -0,0 +1,378 @@
+import axios from 'axios';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { logger } from '../../../src/config/logger.js';
+import { NotFoundError } from '../../../src/errors/app-errors.js';
+import { redisRepository } from '../../../src/repositories/redis-repository.js';
+import { WebhookService } from '../../../src/services/webhook-service.js';
+import type { WebhookSubscription } from '../../../src/types/webhook.js';
+import { verifyWebhookSignature } from '../../../src/utils/webhook-signature.js';
+import {
+  mockCacheEnvelope,
+  mockEthosStats,
+  mockEthosStatsAlt,
+} from '../../helpers/fixtures.js';
+
+vi.mock('axios');
+vi.mock('../../../src/config/env.js', () => ({
+  env: {
+    WEBHOOK_TIMEOUT_MS: 5000,
+    WEBHOOK_MAX_ATTEMPTS: 3,
+    WEBHOOK_RETRY_BASE_DELAY_MS: 1000,
+    WEBHOOK_RETRY_MAX_DELAY_MS: 60000,
+  },
+}));
+vi.mock('../../../src/config/logger.js', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+    debug: vi.fn(),
+  },
+}));
+vi.mock('../../../src/repositories/redis-repository.js', () => ({
+  redisRepository: {
+    setHashField: vi.fn(),
+    getHashField: vi.fn(),
+    getHashValues: vi.fn(),
+    deleteHashField: vi.fn(),
+    pushToList: vi.fn(),
+    rangeList: vi.fn(),
+  },
+}));
+
+const subscription: WebhookSubscription = {
+  id: '6f1c1d9e-3b1a-4a47-9d1e-0e9b2f4c8a11',
+  url: 'https://hooks.example.com/ethos',
+  description: 'Stats consumer',
+  activities: null,
+  secret: 'whsec_test',
+  createdAt: '2024-01-15T10:00:00.000Z',
+  secretRotatedAt: null,
+};
+
+const query = { type: 'attestation' as const, activityId: 223 };
+const previous = { ...mockCacheEnvelope, data: mockEthosStatsAlt };
+
+// Fail a POST the way axios does for an HTTP error status
+const httpError = (status: number) =>
+  Object.assign(new Error(`Request failed with status code ${status}`), {
+    response: { status },
+  });
+
+describe('WebhookService', () => {
+  let service: WebhookService;
+
+  beforeEach(() => {
+    service = new WebhookService();
+    vi.clearAllMocks();
+    vi.mocked(axios.isAxiosError).mockImplementation(
+      (error) =>
+        typeof error === 'object' && error !== null && 'response' in error
+    );
+    vi.mocked(redisRepository.getHashValues).mockResolvedValue([subscription]);
+    vi.mocked(redisRepository.getHashField).mockResolvedValue(subscription);
+  });
+
+  describe('subscriptions', () => {
+    it('should create a subscription with a generated secret', async () => {
+      const created = await service.createSubscription({
+        url: 'https://hooks.example.com/ethos',
+      });
+
+      expect(created).toEqual({
+        id: expect.any(String),
+        url: 'https://hooks.example.com/ethos',
+        description: null,
+        activities: null,
+        secret: expect.stringMatching(/^whsec_/),
+        createdAt: expect.any(String),
+        secretRotatedAt: null,
+      });
+      expect(redisRepository.setHashField).toHaveBeenCalledWith(
+        'ethos:webhooks',
+        created.id,
+        created
+      );
+    });
+
+    it('should list subscriptions without secrets, oldest first', async () => {
+      const newer = {
+        ...subscription,
+        id: 'b',
+        createdAt: '2024-02-01T00:00:00.000Z',
+      };
+      vi.mocked(redisRepository.getHashValues).mockResolvedValue([
+        newer,
+        subscription,
+      ]);
+
+      const list = await service.listSubscriptions();
+
+      expect(list.map((item) => item.id)).toEqual([subscription.id, 'b']);
+      expect(list[0]).not.toHaveProperty('secret');
+    });
+
+    it('should throw NotFoundError when deleting an unknown subscription', async () => {
+      vi.mocked(redisRepository.deleteHashField).mockResolvedValue(false);
+
+      await expect(
+        service.deleteSubscription('missing')
+      ).rejects.toBeInstanceOf(NotFoundError);
+    });
+
+    it('should replace the secret on rotation', async () => {
+      const rotated = await service.rotateSecret(subscription.id);
+
+      expect(rotated.secret).toMatch(/^whsec_/);
+      expect(rotated.secret).not.toBe(subscription.secret);
+      expect(rotated.secretRotatedAt).toEqual(expect.any(String));
+      expect(redisRepository.setHashField).toHaveBeenCalledWith(
+        'ethos:webhooks',
+        subscription.id,
+        rotated
+      );
+    });
+
+    it('should throw NotFoundError when rotating an unknown subscription', async () => {
+      vi.mocked(redisRepository.getHashField).mockResolvedValue(null);
+
+      await expect(service.rotateSecret('missing')).rejects.toBeInstanceOf(
+        NotFoundError
+      );
+    });
+
+    it('should wrap Redis errors', async () => {
+      vi.mocked(redisRepository.getHashValues).mockRejectedValue(
+        new Error('Redis down')
+      );
+
+      await expect(service.listSubscriptions()).rejects.toThrow(
+        'Failed to list webhook subscriptions: Redis down'
+      );
+    });
+  });
+
+  describe('notifyStatsChanged', () => {
+    beforeEach(() => {
+      vi.useFakeTimers();
+    });
+
+    afterEach(() => {
+      vi.useRealTimers();
+    });
+
+    it('should POST a signed payload with the diff', async () => {
+      vi.mocked(axios.post).mockResolvedValue({ status: 204 });
+
+      await service.notifyStatsChanged(query, previous, mockCacheEnvelope);
+      await vi.runAllTimersAsync();
+
+      expect(axios.post).toHaveBeenCalledTimes(1);
+      const [url, body, config] = vi.mocked(axios.post).mock.calls[0]!;
+      expect(url).toBe(subscription.url);
+
+      const payload = JSON.parse(body as string);
+      expect(payload).toMatchObject({
+        event: 'stats.changed',
+        activity: query,
+        previous: {
+          fetchedAt: previous.fetchedAt,
+          contentHash: previous.contentHash,
+        },
+        current: { data: mockEthosStats },
+      });
+      expect(payload.changes).toEqual(
+        expect.arrayContaining([
+          { path: 'totalVotes', previous: 99999, current: 12345 },
+          { path: 'stats', current: mockEthosStats.stats },
+        ])
+      );
+
+      const headers = config?.headers as Record<string, string>;
+      expect(headers['X-Webhook-Id']).toBe(payload.id);
+      expect(headers['X-Webhook-Event']).toBe('stats.changed');
+      expect(
+        verifyWebhookSignature(
+          subscription.secret,
+          body as string,
+          headers['X-Webhook-Signature']!
+        )
+      ).toBe(true);
+    });
+
+    it('should retry failed deliveries with backoff', async () => {
+      vi.mocked(axios.post)
+        .mockRejectedValueOnce(httpError(503))
+        .mockResolvedValueOnce({ status: 200 });
+
+      await service.notifyStatsChanged(query, previous, mockCacheEnvelope);
+      await vi.advanceTimersByTimeAsync(999);
+      expect(axios.post).toHaveBeenCalledTimes(1);
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(axios.post).toHaveBeenCalledTimes(2);
+      expect(redisRepository.pushToList).not.toHaveBeenCalled();
+    });
+
+    it('should dead-letter deliveries that exhaust their retries', async () => {
+      vi.mocked(axios.post).mockRejectedValue(
+        new Error('connect ECONNREFUSED')
+      );
+
+      await service.notifyStatsChanged(query, previous, mockCacheEnvelope);
+      await vi.runAllTimersAsync();
+
+      expect(axios.post).toHaveBeenCalledTimes(3);
+      expect(redisRepository.pushToList).toHaveBeenCalledWith(
+        'ethos:webhooks:dead-letters',
+        expect.objectContaining({
+          subscriptionId: subscription.id,
+          url: subscription.url,
+          attempts: 3,
+          lastStatus: null,
+          lastError: 'connect ECONNREFUSED',
+          payload: expect.objectContaining({ event: 'stats.changed' }),
+        }),
+        1000
+      );
+    });
+
+    it('should not retry deliveries rejected by the receiver', async () => {
+      vi.mocked(axios.post).mockRejectedValue(httpError(400));
+
+      await service.notifyStatsChanged(query, previous, mockCacheEnvelope);
+      await vi.runAllTimersAsync();
+
+      expect(axios.post).toHaveBeenCalledTimes(1);
+      expect(redisRepository.pushToList).toHaveBeenCalledWith(
+        'ethos:webhooks:dead-letters',
+        expect.objectContaining({ attempts: 1, lastStatus: 400 }),
+        1000
+      );
+    });
+
+    it('should abandon retries when the subscription was deleted', async () => {
+      vi.mocked(axios.post).mockRejectedValue(httpError(500));
+      vi.mocked(redisRepository.getHashField).mockResolvedValue(null);
+
+      await service.notifyStatsChanged(query, previous, mockCacheEnvelope);
+      await vi.runAllTimersAsync();
+
+      expect(axios.post).toHaveBeenCalledTimes(1);
+      expect(redisRepository.pushToList).not.toHaveBeenCalled();
+    });
+
+    it('should sign retries with a rotated secret', async () => {
+      vi.mocked(axios.post)
+        .mockRejectedValueOnce(httpError(500))
+        .mockResolvedValueOnce({ status: 200 });
+      vi.mocked(redisRepository.getHashField).mockResolvedValue({
+        ...subscription,
+        secret: 'whsec_rotated',
+      });
+
+      await service.notifyStatsChanged(query, previous, mockCacheEnvelope);
+      await vi.runAllTimersAsync();
+
+      const [, body, config] = vi.mocked(axios.post).mock.calls[1]!;
+      const headers = config?.headers as Record<string, string>;
+      expect(
+        verifyWebhookSignature(
+          'whsec_rotated',
+          body as string,
+          headers['X-Webhook-Signature']!
+        )
+      ).toBe(true);
+    });
+
+    it('should diff nested values key by key', async () => {
+      vi.mocked(axios.post).mockResolvedValue({ status: 200 });
+      const updated = {
+        ...mockCacheEnvelope,
+        data: {
+          ...mockEthosStats,
+          stats: {
+            ...mockEthosStats.stats,
+            daily: { '2024-01-15': 160, '2024-01-16': 12 },
+          },
+        },
+      };
+
+      await service.notifyStatsChanged(query, mockCacheEnvelope, updated);
+      await vi.runAllTimersAsync();
+
+      const payload = JSON.parse(
+        vi.mocked(axios.post).mock.calls[0]![1] as string
+      );
+      expect(payload.changes).toEqual([
+        { path: 'stats.daily.2024-01-14', previous: 145 },
+        { path: 'stats.daily.2024-01-15', previous: 150, current: 160 },
+        { path: 'stats.daily.2024-01-16', current: 12 },
+      ]);
+    });
+
+    it('should only notify subscribers of the changed activity', async () => {
+      vi.mocked(axios.post).mockResolvedValue({ status: 200 });
+      vi.mocked(redisRepository.getHashValues).mockResolvedValue([
+        { ...subscription, activities: [query] },
+        {
+          ...subscription,
+          id: 'other',
+          url: 'https://hooks.example.com/other',
+          activities: [{ type: 'vouch', activityId: 223 }],
+        },
+      ]);
+
+      await service.notifyStatsChanged(query, previous, mockCacheEnvelope);
+      await vi.runAllTimersAsync();
+
+      expect(axios.post).toHaveBeenCalledTimes(1);
+      expect(axios.post).toHaveBeenCalledWith(
+        subscription.url,
+        expect.any(String),
+        expect.any(Object)
+      );
+    });
+
+    it('should notify subscriptions stored without activities about every activity', async () => {
+      vi.mocked(axios.post).mockResolvedValue({ status: 200 });
+      vi.mocked(redisRepository.getHashValues).mockResolvedValue([
+        { ...subscription, activities: undefined },
+      ]);
+
+      await service.notifyStatsChanged(query, previous, mockCacheEnvelope);
+      await vi.runAllTimersAsync();
+
+      expect(axios.post).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not fail when subscriptions cannot be loaded', async () => {
+      vi.mocked(redisRepository.getHashValues).mockRejectedValue(
+        new Error('Redis down')
+      );
+
+      await expect(
+        service.notifyStatsChanged(query, previous, mockCacheEnvelope)
+      ).resolves.toBeUndefined();
+      expect(axios.post).not.toHaveBeenCalled();
+      expect(logger.warn).toHaveBeenCalledWith(
+        expect.any(Object),
+        'Failed to load webhook subscriptions'
+      );
+    });
+  });
+
+  describe('getDeadLetters', () => {
+    it('should read the most recent dead letters', async () => {
+      vi.mocked(redisRepository.rangeList).mockResolvedValue([]);
+
+      await service.getDeadLetters(20);
+
+      expect(redisRepository.rangeList).toHaveBeenCalledWith(
+        'ethos:webhooks:dead-letters',
+        20
+      );
+    });
+  });
+});